@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { auth, unstable_update } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  acceptInvitationAsMember,
+  findPendingInvitation,
+} from "@/lib/organizations/invitation-library";
+
+type Params = Promise<{ token: string }>;
+
+/**
+ * GET /api/auth/invitations/[token]
+ * 초대 수락 링크 확인 (로그인 전 회원가입 화면에서 호출)
+ *
+ * 토큰을 아는 사람에게만 조직 이름/이메일/역할과 기존 계정 여부를 알려준다.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { token } = await params;
+
+  try {
+    const invitation = await findPendingInvitation({ token });
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: "유효하지 않거나 만료된 초대입니다" },
+        { status: 404 }
+      );
+    }
+
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: invitation.email, mode: "insensitive" } },
+      select: { id: true },
+    });
+
+    return NextResponse.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        organizationName: invitation.organization.name,
+        expiresAt: invitation.expiresAt,
+        existingUser: !!existingUser,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch invitation:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/invitations/[token]
+ * 기존 계정으로 초대 수락 (로그인 필요, 초대받은 이메일과 같아야 함)
+ *
+ * 멤버십을 추가하고 세션의 현재 조직을 초대한 조직으로 바꾼다.
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { token } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const invitation = await findPendingInvitation({ token });
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: "유효하지 않거나 만료된 초대입니다" },
+        { status: 404 }
+      );
+    }
+
+    if (invitation.email !== session.user.email?.toLowerCase()) {
+      return NextResponse.json(
+        { error: "초대받은 이메일 계정으로 로그인해주세요" },
+        { status: 403 }
+      );
+    }
+
+    await acceptInvitationAsMember(invitation, session.user.id);
+    await unstable_update({ user: { organizationId: invitation.organizationId } });
+
+    return NextResponse.json({
+      message: `${invitation.organization.name}에 합류했습니다`,
+      organizationId: invitation.organizationId,
+    });
+  } catch (error) {
+    console.error("Failed to accept invitation:", error);
+    return NextResponse.json(
+      { error: "초대 수락에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,10 @@ import { NextResponse } from "next/server";
 import { hash } from "bcryptjs";
 import { z } from "zod";
 import { prisma } from "@/lib/prisma";
+import {
+  findPendingInvitation,
+  markInvitationAccepted,
+} from "@/lib/organizations/invitation-library";
 
 // 회원가입 입력 검증 스키마
 const signupSchema = z.object({
@@ -15,6 +19,7 @@ const signupSchema = z.object({
     ),
   name: z.string().min(2, "이름은 최소 2자 이상이어야 합니다"),
   organizationName: z.string().optional(),
+  invitationToken: z.string().optional(), // 초대 수락 링크로 가입 시
 });
 
 export async function POST(request: Request) {
@@ -36,13 +41,38 @@ export async function POST(request: Request) {
       );
     }
 
+    // 초대 확인 (초대받은 이메일로만 수락 가능)
+    const invitation = validatedData.invitationToken
+      ? await findPendingInvitation({ token: validatedData.invitationToken })
+      : null;
+
+    if (validatedData.invitationToken) {
+      if (!invitation) {
+        return NextResponse.json(
+          { error: "유효하지 않거나 만료된 초대입니다" },
+          { status: 400 }
+        );
+      }
+
+      if (invitation.email !== validatedData.email.trim().toLowerCase()) {
+        return NextResponse.json(
+          { error: "초대받은 이메일로만 가입할 수 있습니다" },
+          { status: 400 }
+        );
+      }
+    }
+
     // 비밀번호 해싱 (bcrypt, salt rounds: 10)
     const hashedPassword = await hash(validatedData.password, 10);
 
     // Organization 생성 또는 기본 Organization 사용
     let organizationId: string;
+    let role = invitation?.role ?? "member";
 
-    if (validatedData.organizationName) {
+    if (invitation) {
+      // 초대한 Organization에 합류
+      organizationId = invitation.organizationId;
+    } else if (validatedData.organizationName) {
       // 새 Organization 생성
       const organization = await prisma.organization.create({
         data: {
@@ -55,6 +85,8 @@ export async function POST(request: Request) {
         },
       });
       organizationId = organization.id;
+      // 조직 생성자는 관리자 (관리자 멤버십은 ReBAC에서 조직 owner로 취급)
+      role = "admin";
     } else {
       // 기본 Organization 찾기 또는 생성
       let defaultOrg = await prisma.organization.findUnique({
@@ -73,23 +105,34 @@ export async function POST(request: Request) {
       organizationId = defaultOrg.id;
     }
 
-    // 사용자 생성
-    const user = await prisma.user.create({
-      data: {
-        email: validatedData.email,
-        password: hashedPassword,
-        name: validatedData.name,
-        role: "member",
-        organizationId,
-        emailVerified: new Date(), // 이메일 인증 건너뛰기 (간소화)
-      },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        role: true,
-        createdAt: true,
-      },
+    // 사용자 생성 (초대 수락 처리와 함께)
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email: validatedData.email,
+          password: hashedPassword,
+          name: validatedData.name,
+          role,
+          organizationId,
+          emailVerified: new Date(), // 이메일 인증 건너뛰기 (간소화)
+          memberships: {
+            create: { organizationId, role },
+          },
+        },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          createdAt: true,
+        },
+      });
+
+      if (invitation) {
+        await markInvitationAccepted(tx, invitation.id);
+      }
+
+      return created;
     });
 
     return NextResponse.json(
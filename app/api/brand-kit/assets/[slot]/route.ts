@@ -0,0 +1,74 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { getStorage } from "@/lib/storage";
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import {
+  BRAND_ASSET_KINDS,
+  BRAND_ASSET_SLOTS,
+  getBrandAssetIdKey,
+  type BrandAssetSlot,
+} from "@/lib/video/brand-kit";
+
+type Params = Promise<{ slot: string }>;
+
+/**
+ * DELETE /api/brand-kit/assets/[slot]
+ * 브랜드 로고 / 인트로 / 아웃트로 제거 (관리자)
+ *
+ * 이후 렌더링부터 해당 항목 없이 합성된다 (로고를 지우면 워터마크와 CTA 카드 로고도 빠짐).
+ */
+export async function DELETE(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { slot } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  if (!BRAND_ASSET_SLOTS.includes(slot as BrandAssetSlot)) {
+    return NextResponse.json({ error: "Invalid brand asset slot" }, { status: 400 });
+  }
+
+  try {
+    const organizationId = session.user.organizationId;
+    const brandSlot = slot as BrandAssetSlot;
+
+    const assets = await prisma.organizationAsset.findMany({
+      where: { organizationId, kind: BRAND_ASSET_KINDS[brandSlot] },
+    });
+
+    for (const asset of assets) {
+      await getStorage(asset.storageProvider).deleteFile(asset.storagePath);
+    }
+    await prisma.organizationAsset.deleteMany({
+      where: { id: { in: assets.map((asset) => asset.id) } },
+    });
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+    const settings = (organization?.settings as Prisma.JsonObject | null) ?? {};
+    const brandKit = { ...((settings.brandKit as Prisma.JsonObject | undefined) ?? {}) };
+    delete brandKit[getBrandAssetIdKey(brandSlot)];
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: { settings: { ...settings, brandKit } },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete brand asset:", error);
+    return NextResponse.json(
+      { error: "브랜드 자산 삭제에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
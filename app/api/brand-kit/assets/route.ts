@@ -0,0 +1,144 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { getOrganizationStorage, getStorage } from "@/lib/storage";
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import {
+  BRAND_ASSET_KINDS,
+  BRAND_ASSET_SLOTS,
+  BRAND_ASSET_TYPES,
+  getBrandAssetIdKey,
+  isBrandAssetFile,
+} from "@/lib/video/brand-kit";
+
+const slotSchema = z.enum(BRAND_ASSET_SLOTS);
+
+/**
+ * POST /api/brand-kit/assets
+ * 브랜드 로고 / 인트로 / 아웃트로 업로드 (관리자)
+ *
+ * FormData:
+ * - slot: logo | intro | outro
+ * - file: 로고는 PNG, JPG, WEBP (최대 5MB), 클립은 MP4, MOV, WEBM (최대 100MB)
+ *
+ * 같은 슬롯의 기존 파일은 교체(삭제)된다.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const slot = slotSchema.parse(formData.get("slot"));
+
+    if (!file) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
+    }
+
+    const { extensions, maxSize } = BRAND_ASSET_TYPES[slot];
+
+    if (!isBrandAssetFile(slot, file.name, file.type)) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported: ${extensions.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: `File size exceeds ${maxSize / 1024 / 1024}MB limit` },
+        { status: 400 }
+      );
+    }
+
+    const organizationId = session.user.organizationId;
+
+    // 파일명 안전화 (documents 업로드와 동일 규칙)
+    const safeFileName = file.name
+      .replace(/[^a-zA-Z0-9.]/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^_|_$/g, "");
+
+    const storagePath = `organizations/${organizationId}/brand/${slot}_${Date.now()}_${safeFileName}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const storage = await getOrganizationStorage(organizationId);
+    const { url, path } = await storage.uploadFromBuffer(
+      buffer,
+      storagePath,
+      file.type || "application/octet-stream"
+    );
+
+    const asset = await prisma.organizationAsset.create({
+      data: {
+        organizationId,
+        kind: BRAND_ASSET_KINDS[slot],
+        name: file.name.replace(/\.[^.]+$/, ""),
+        url,
+        storageProvider: storage.name,
+        storagePath: path,
+        mimeType: file.type || null,
+        fileSize: file.size,
+        metadata: { originalFileName: file.name },
+        createdById: session.user.id,
+      },
+    });
+
+    // 브랜드 키트 설정에 연결하고 기존 슬롯 자산은 정리
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+    const settings = (organization?.settings as Prisma.JsonObject | null) ?? {};
+    const brandKit = (settings.brandKit as Prisma.JsonObject | undefined) ?? {};
+
+    await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        settings: {
+          ...settings,
+          brandKit: { ...brandKit, [getBrandAssetIdKey(slot)]: asset.id },
+        },
+      },
+    });
+
+    const previous = await prisma.organizationAsset.findMany({
+      where: {
+        organizationId,
+        kind: BRAND_ASSET_KINDS[slot],
+        id: { not: asset.id },
+      },
+    });
+
+    for (const old of previous) {
+      await getStorage(old.storageProvider).deleteFile(old.storagePath);
+    }
+    await prisma.organizationAsset.deleteMany({
+      where: { id: { in: previous.map((old) => old.id) } },
+    });
+
+    return NextResponse.json(asset, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to upload brand asset:", error);
+    return NextResponse.json(
+      { error: "브랜드 자산 업로드에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
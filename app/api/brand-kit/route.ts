@@ -0,0 +1,118 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import {
+  BRAND_ASSET_KINDS,
+  BRAND_ASSET_SLOTS,
+  brandKitUpdateSchema,
+  getBrandAssetIdKey,
+  resolveBrandKit,
+} from "@/lib/video/brand-kit";
+
+/**
+ * GET /api/brand-kit
+ * 조직 브랜드 키트 조회 (설정 + 슬롯별 업로드 자산)
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const organization = await prisma.organization.findUnique({
+      where: { id: session.user.organizationId },
+      select: { settings: true },
+    });
+    const brandKit = resolveBrandKit(organization?.settings);
+
+    const assets = await prisma.organizationAsset.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        kind: { in: Object.values(BRAND_ASSET_KINDS) },
+      },
+    });
+
+    return NextResponse.json({
+      brandKit,
+      assets: Object.fromEntries(
+        BRAND_ASSET_SLOTS.map((slot) => [
+          slot,
+          assets.find((a) => a.id === brandKit[getBrandAssetIdKey(slot)]) ?? null,
+        ])
+      ),
+    });
+  } catch (error) {
+    console.error("Failed to fetch brand kit:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/brand-kit
+ * 브랜드 색상/폰트/워터마크/CTA 설정 변경 (관리자)
+ *
+ * 항목별로 기존 값에 병합한다. 로고/인트로/아웃트로는 /api/brand-kit/assets로 업로드.
+ */
+export async function PATCH(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const update = brandKitUpdateSchema.parse(body);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: session.user.organizationId },
+      select: { settings: true },
+    });
+    const current = resolveBrandKit(organization?.settings);
+
+    const brandKit = {
+      ...current,
+      colors: { ...current.colors, ...update.colors },
+      fonts: { ...current.fonts, ...update.fonts },
+      watermark: { ...current.watermark, ...update.watermark },
+      cta: { ...current.cta, ...update.cta },
+    };
+
+    await prisma.organization.update({
+      where: { id: session.user.organizationId },
+      data: {
+        settings: {
+          ...((organization?.settings as Prisma.JsonObject | null) ?? {}),
+          brandKit,
+        },
+      },
+    });
+
+    return NextResponse.json({ brandKit });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update brand kit:", error);
+    return NextResponse.json(
+      { error: "브랜드 키트 저장에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,31 @@
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
-import { uploadFile } from "@/lib/supabase/storage";
+import { getProjectStorage } from "@/lib/storage";
+import {
+  ArchiveLimitError,
+  DOCUMENT_FORMAT_DEFINITIONS,
+  detectDocumentFormat,
+  fetchUrlDocument,
+  MAX_DOCUMENT_SIZE,
+  UnsupportedDocumentError,
+  UrlFetchError,
+} from "@/lib/documents";
 import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const urlSchema = z.string().url().refine((value) => /^https?:\/\//.test(value), {
+  message: "http(s) URL만 허용됩니다.",
+});
 
 /**
  * POST /api/documents
  * 문서 업로드 및 처리 시작
+ *
+ * FormData:
+ * - projectId: 프로젝트 ID
+ * - file: PDF, PPTX, DOCX, Markdown, 텍스트 파일
+ * - url: 파일 대신 웹 페이지/문서 URL (업로드 시점 스냅샷 저장)
  */
 export async function POST(request: Request) {
   const session = await auth();
@@ -17,12 +36,13 @@ export async function POST(request: Request) {
 
   try {
     const formData = await request.formData();
-    const file = formData.get("file") as File;
+    const file = formData.get("file") as File | null;
+    const sourceUrl = formData.get("url") as string | null;
     const projectId = formData.get("projectId") as string;
 
-    if (!file || !projectId) {
+    if ((!file && !sourceUrl) || !projectId) {
       return NextResponse.json(
-        { error: "Missing file or projectId" },
+        { error: "Missing file (or url) or projectId" },
         { status: 400 }
       );
     }
@@ -39,45 +59,75 @@ export async function POST(request: Request) {
       return new Response("Forbidden", { status: 403 });
     }
 
-    // 파일 크기 제한 (10MB)
-    const MAX_FILE_SIZE = 10 * 1024 * 1024;
-    if (file.size > MAX_FILE_SIZE) {
+    // 원본 확보: 파일 업로드 또는 URL 스냅샷
+    let buffer: Buffer;
+    let fileName: string;
+    let mimeType: string;
+
+    if (file) {
+      buffer = Buffer.from(await file.arrayBuffer());
+      fileName = file.name;
+      mimeType = file.type;
+    } else {
+      const parsedUrl = urlSchema.safeParse(sourceUrl);
+      if (!parsedUrl.success) {
+        return NextResponse.json(
+          { error: "Invalid url", details: parsedUrl.error.errors },
+          { status: 400 }
+        );
+      }
+
+      ({ buffer, fileName, mimeType } = await fetchUrlDocument(parsedUrl.data));
+    }
+
+    // 파일 크기 제한 (10MB, URL은 다운로드 중에 이미 적용)
+    if (buffer.length > MAX_DOCUMENT_SIZE) {
       return NextResponse.json(
         { error: "File size exceeds 10MB limit" },
         { status: 400 }
       );
     }
 
-    // PDF 파일만 허용
-    if (file.type !== "application/pdf") {
+    // 지원 형식 확인 (PDF, PPTX, DOCX, Markdown, 텍스트)
+    const format = detectDocumentFormat(fileName, mimeType);
+    if (!format) {
+      const supported = Object.values(DOCUMENT_FORMAT_DEFINITIONS)
+        .map((definition) => definition.label)
+        .join(", ");
       return NextResponse.json(
-        { error: "Only PDF files are allowed" },
+        { error: `Unsupported file type. Supported: ${supported}` },
         { status: 400 }
       );
     }
 
-    // Supabase Storage에 업로드
+    // 조직 Storage에 업로드
     // 파일명 안전화: 한글 및 특수문자 제거, 공백을 언더스코어로 변환
     const timestamp = Date.now();
-    const safeFileName = file.name
+    const safeFileName = fileName
       .replace(/[^a-zA-Z0-9.]/g, "_") // 영문, 숫자, 마침표만 허용
       .replace(/_+/g, "_") // 연속 언더스코어 제거
       .replace(/^_|_$/g, ""); // 앞뒤 언더스코어 제거
 
     const storagePath = `projects/${projectId}/documents/${timestamp}_${safeFileName}`;
-    const { url, path } = await uploadFile(file, storagePath);
+    const contentType =
+      mimeType || DOCUMENT_FORMAT_DEFINITIONS[format].mimeTypes[0];
+    const storage = await getProjectStorage(projectId);
+    const { url, path } = await storage.uploadFromBuffer(buffer, storagePath, contentType);
 
     // Document 레코드 생성
     const document = await prisma.document.create({
       data: {
         projectId,
         status: "pending",
+        storageProvider: storage.name,
         storagePath: path,
         fileUrl: url,
         metadata: {
-          fileName: file.name,
-          fileSize: file.size,
-          mimeType: file.type,
+          fileName,
+          fileSize: buffer.length,
+          mimeType: contentType,
+          format,
+          ...(sourceUrl && !file && { sourceUrl }),
           uploadedBy: session.user.id,
         },
       },
@@ -93,6 +143,12 @@ export async function POST(request: Request) {
     // 에러 타입별 메시지
     let errorMessage = "문서 업로드에 실패했습니다.";
 
+    if (error instanceof UnsupportedDocumentError ||
+      error instanceof UrlFetchError ||
+      error instanceof ArchiveLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     if (error instanceof Error) {
       if (error.message.includes("Bucket not found")) {
         errorMessage =
@@ -0,0 +1,63 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { getStorage } from "@/lib/storage";
+import { NextResponse } from "next/server";
+import { MUSIC_ASSET_KIND } from "@/lib/video/music";
+
+type Params = Promise<{ assetId: string }>;
+
+/**
+ * DELETE /api/music/[assetId]
+ * 배경 음악 삭제 (업로드한 사용자 또는 조직 owner)
+ *
+ * 이 트랙을 선택한 프로젝트는 이후 음악 없이 렌더링된다.
+ */
+export async function DELETE(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { assetId } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const track = await prisma.organizationAsset.findFirst({
+      where: {
+        id: assetId,
+        organizationId: session.user.organizationId,
+        kind: MUSIC_ASSET_KIND,
+      },
+    });
+
+    if (!track) {
+      return NextResponse.json(
+        { error: "음악 트랙을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (
+      track.createdById !== session.user.id &&
+      !(await check(
+        session.user.id,
+        NAMESPACES.ORGANIZATION,
+        session.user.organizationId,
+        RELATIONS.OWNER
+      ))
+    ) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    await getStorage(track.storageProvider).deleteFile(track.storagePath);
+    await prisma.organizationAsset.delete({ where: { id: assetId } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete music track:", error);
+    return NextResponse.json(
+      { error: "음악 삭제에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
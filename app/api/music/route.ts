@@ -0,0 +1,145 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { getOrganizationStorage } from "@/lib/storage";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  isMusicFile,
+  MAX_MUSIC_FILE_SIZE,
+  MUSIC_ASSET_KIND,
+  MUSIC_EXTENSIONS,
+} from "@/lib/video/music";
+
+const musicMetadataSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  artist: z.string().trim().max(200).optional(),
+  license: z.string().trim().max(500).optional(),
+});
+
+/**
+ * GET /api/music
+ * 조직 배경 음악 라이브러리 조회
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const tracks = await prisma.organizationAsset.findMany({
+      where: {
+        organizationId: session.user.organizationId,
+        kind: MUSIC_ASSET_KIND,
+      },
+      orderBy: { createdAt: "desc" },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({ tracks });
+  } catch (error) {
+    console.error("Failed to fetch music tracks:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/music
+ * 배경 음악 업로드 (조직 라이브러리에 추가)
+ *
+ * FormData:
+ * - file: MP3, M4A, AAC, WAV, OGG (최대 20MB)
+ * - name: 표시 이름 (기본값: 파일명)
+ * - artist, license: 저작권 정보 (선택)
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "Missing file" }, { status: 400 });
+    }
+
+    const metadata = musicMetadataSchema.parse({
+      name: formData.get("name") || undefined,
+      artist: formData.get("artist") || undefined,
+      license: formData.get("license") || undefined,
+    });
+
+    if (!isMusicFile(file.name, file.type)) {
+      return NextResponse.json(
+        { error: `Unsupported file type. Supported: ${MUSIC_EXTENSIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_MUSIC_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File size exceeds 20MB limit" },
+        { status: 400 }
+      );
+    }
+
+    // 파일명 안전화 (documents 업로드와 동일 규칙)
+    const safeFileName = file.name
+      .replace(/[^a-zA-Z0-9.]/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^_|_$/g, "");
+
+    const storagePath = `organizations/${session.user.organizationId}/music/${Date.now()}_${safeFileName}`;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const storage = await getOrganizationStorage(session.user.organizationId);
+    const { url, path } = await storage.uploadFromBuffer(
+      buffer,
+      storagePath,
+      file.type || "audio/mpeg"
+    );
+
+    const track = await prisma.organizationAsset.create({
+      data: {
+        organizationId: session.user.organizationId,
+        kind: MUSIC_ASSET_KIND,
+        name: metadata.name ?? file.name.replace(/\.[^.]+$/, ""),
+        url,
+        storageProvider: storage.name,
+        storagePath: path,
+        mimeType: file.type || null,
+        fileSize: file.size,
+        metadata: {
+          originalFileName: file.name,
+          ...(metadata.artist && { artist: metadata.artist }),
+          ...(metadata.license && { license: metadata.license }),
+        },
+        createdById: session.user.id,
+      },
+    });
+
+    return NextResponse.json(track, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to upload music track:", error);
+    return NextResponse.json(
+      { error: "음악 업로드에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
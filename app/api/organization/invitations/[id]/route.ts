@@ -0,0 +1,60 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { getInvitationStatus } from "@/lib/organizations/invitations";
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * DELETE /api/organization/invitations/[id]
+ * 대기 중인 초대 취소 (관리자, 이력은 남김)
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { id } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const invitation = await prisma.invitation.findFirst({
+      where: { id, organizationId: session.user.organizationId },
+    });
+
+    if (!invitation) {
+      return NextResponse.json(
+        { error: "초대를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    if (getInvitationStatus(invitation) !== "pending") {
+      return NextResponse.json(
+        { error: "대기 중인 초대만 취소할 수 있습니다" },
+        { status: 409 }
+      );
+    }
+
+    const revoked = await prisma.invitation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({ invitation: revoked });
+  } catch (error) {
+    console.error("Failed to revoke invitation:", error);
+    return NextResponse.json(
+      { error: "초대 취소에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
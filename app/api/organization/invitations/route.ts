@@ -0,0 +1,120 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { invitationCreateSchema } from "@/lib/organizations/invitations";
+import {
+  createInvitationToken,
+  getInvitationExpiry,
+} from "@/lib/organizations/invitation-library";
+
+/**
+ * GET /api/organization/invitations
+ * 조직 초대 목록 (관리자, 최신순)
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const invitations = await prisma.invitation.findMany({
+      where: { organizationId: session.user.organizationId },
+      include: { invitedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    console.error("Failed to fetch invitations:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organization/invitations
+ * 이메일 + 역할로 초대 생성 (관리자)
+ *
+ * 같은 이메일의 대기 중인 초대는 취소하고 새 토큰을 발급한다.
+ * 메일 발송은 하지 않으므로 응답의 token으로 수락 링크를 만들어 전달한다.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const { email, role } = invitationCreateSchema.parse(body);
+
+    // 이미 구성원인 이메일은 초대할 수 없음 (다른 조직 사용자는 수락 시 멤버십 추가)
+    const existingMembership = await prisma.organizationMembership.findFirst({
+      where: {
+        organizationId: session.user.organizationId,
+        user: { email: { equals: email, mode: "insensitive" } },
+      },
+    });
+
+    if (existingMembership) {
+      return NextResponse.json(
+        { error: "이미 조직 구성원입니다" },
+        { status: 409 }
+      );
+    }
+
+    const invitation = await prisma.$transaction(async (tx) => {
+      await tx.invitation.updateMany({
+        where: {
+          organizationId: session.user.organizationId,
+          email,
+          acceptedAt: null,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+
+      return tx.invitation.create({
+        data: {
+          organizationId: session.user.organizationId,
+          email,
+          role,
+          token: createInvitationToken(),
+          invitedById: session.user.id,
+          expiresAt: getInvitationExpiry(),
+        },
+        include: { invitedBy: { select: { id: true, name: true, email: true } } },
+      });
+    });
+
+    return NextResponse.json({ invitation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create invitation:", error);
+    return NextResponse.json(
+      { error: "초대 생성에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
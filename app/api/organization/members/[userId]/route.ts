@@ -0,0 +1,211 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isOrganizationOwner, NAMESPACES, SUBJECT_TYPES } from "@/lib/permissions";
+import { organizationRoleSchema } from "@/lib/organizations/invitations";
+import { getMembership } from "@/lib/organizations/membership-library";
+
+type Params = Promise<{ userId: string }>;
+
+const memberUpdateSchema = z.object({
+  role: organizationRoleSchema,
+});
+
+// 마지막 관리자를 강등/제거하면 조직을 관리할 사람이 없어진다
+async function isLastAdmin(organizationId: string, userId: string): Promise<boolean> {
+  const admins = await prisma.organizationMembership.findMany({
+    where: { organizationId, role: "admin" },
+    select: { userId: true },
+  });
+  return admins.length === 1 && admins[0].userId === userId;
+}
+
+/**
+ * PATCH /api/organization/members/[userId]
+ * 구성원 역할 변경 (관리자)
+ *
+ * 변경된 역할은 대상 사용자의 다음 요청부터 세션에 반영된다 (auth.ts jwt 콜백에서 매번 다시 읽음).
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: Params }
+) {
+  const { userId } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const body = await request.json();
+    const { role } = memberUpdateSchema.parse(body);
+
+    const membership = await getMembership(userId, session.user.organizationId);
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      membership.role === "admin" &&
+      role !== "admin" &&
+      (await isLastAdmin(session.user.organizationId, userId))
+    ) {
+      return NextResponse.json(
+        { error: "조직에는 최소 한 명의 관리자가 필요합니다" },
+        { status: 409 }
+      );
+    }
+
+    const updated = await prisma.organizationMembership.update({
+      where: { id: membership.id },
+      data: { role },
+    });
+
+    return NextResponse.json({ member: { id: userId, role: updated.role } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to update member:", error);
+    return NextResponse.json(
+      { error: "역할 변경에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/organization/members/[userId]
+ * 조직에서 구성원 제거 (관리자)
+ *
+ * 멤버십과 이 조직의 조직/프로젝트 권한, 팀 소속 튜플을 삭제하고, 만든 프로젝트는 조직에 남긴다.
+ * 다른 조직에 속하지 않은 사용자는 계정을 지우지 않고 새 개인 조직으로 옮긴다.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { userId } = await params;
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  if (userId === session.user.id) {
+    return NextResponse.json(
+      { error: "자기 자신은 제거할 수 없습니다" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const membership = await prisma.organizationMembership.findUnique({
+      where: {
+        userId_organizationId: { userId, organizationId: session.user.organizationId },
+      },
+      include: { user: true },
+    });
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      membership.role === "admin" &&
+      (await isLastAdmin(session.user.organizationId, userId))
+    ) {
+      return NextResponse.json(
+        { error: "조직에는 최소 한 명의 관리자가 필요합니다" },
+        { status: 409 }
+      );
+    }
+
+    const member = membership.user;
+    const [projects, teams] = await Promise.all([
+      prisma.project.findMany({
+        where: { organizationId: session.user.organizationId },
+        select: { id: true },
+      }),
+      prisma.team.findMany({
+        where: { organizationId: session.user.organizationId },
+        select: { id: true },
+      }),
+    ]);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.relationTuple.deleteMany({
+        where: {
+          subjectType: SUBJECT_TYPES.USER,
+          subjectId: userId,
+          OR: [
+            { namespace: NAMESPACES.PROJECT, objectId: { in: projects.map((p) => p.id) } },
+            { namespace: NAMESPACES.TEAM, objectId: { in: teams.map((t) => t.id) } },
+            { namespace: NAMESPACES.ORGANIZATION, objectId: session.user.organizationId },
+          ],
+        },
+      });
+      await tx.organizationMembership.delete({ where: { id: membership.id } });
+
+      const remaining = await tx.organizationMembership.findFirst({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      if (remaining) {
+        if (member.organizationId === session.user.organizationId) {
+          await tx.user.update({
+            where: { id: userId },
+            data: { organizationId: remaining.organizationId },
+          });
+        }
+        return;
+      }
+
+      const organization = await tx.organization.create({
+        data: {
+          name: `${member.name || member.email}'s Organization`,
+          slug: `${member.email.split("@")[0].toLowerCase().replace(/[^a-z0-9-]/g, "")}-${Date.now().toString(36)}`,
+          settings: {},
+        },
+      });
+
+      await tx.organizationMembership.create({
+        data: { userId, organizationId: organization.id, role: "admin" },
+      });
+      await tx.user.update({
+        where: { id: userId },
+        data: { organizationId: organization.id },
+      });
+    });
+
+    return NextResponse.json({ message: "구성원이 제거되었습니다" });
+  } catch (error) {
+    console.error("Failed to remove member:", error);
+    return NextResponse.json(
+      { error: "구성원 제거에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
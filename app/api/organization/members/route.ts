@@ -0,0 +1,46 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/organization/members
+ * 조직 구성원 목록 (관리자)
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  try {
+    const memberships = await prisma.organizationMembership.findMany({
+      where: { organizationId: session.user.organizationId },
+      include: {
+        user: {
+          select: { id: true, email: true, name: true, image: true, lastSignInAt: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({
+      members: memberships.map((membership) => ({
+        ...membership.user,
+        role: membership.role, // 이 조직에서의 역할
+        createdAt: membership.createdAt, // 합류 시각
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch members:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+
+/**
+ * GET /api/organization/memberships
+ * 내가 속한 조직 목록 (조직 전환 메뉴)
+ */
+export async function GET() {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const memberships = await prisma.organizationMembership.findMany({
+      where: { userId: session.user.id },
+      include: { organization: { select: { id: true, name: true, slug: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({
+      currentOrganizationId: session.user.organizationId,
+      memberships: memberships.map((membership) => ({
+        organizationId: membership.organizationId,
+        name: membership.organization.name,
+        slug: membership.organization.slug,
+        role: membership.role,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch memberships:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
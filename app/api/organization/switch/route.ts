@@ -0,0 +1,59 @@
+import { auth, unstable_update } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getMembership } from "@/lib/organizations/membership-library";
+
+const switchSchema = z.object({
+  organizationId: z.string().cuid(),
+});
+
+/**
+ * POST /api/organization/switch
+ * 현재 조직 전환
+ *
+ * User.organizationId를 바꾸고 세션 토큰을 다시 발급해 session.user.organizationId/role이
+ * 선택한 조직 기준이 되게 한다 (프로젝트 목록, 비용, 브랜드 키트 등 모두 따라감).
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { organizationId } = switchSchema.parse(body);
+
+    const membership = await getMembership(session.user.id, organizationId);
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "해당 조직의 구성원이 아닙니다" },
+        { status: 403 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { organizationId },
+    });
+    await unstable_update({ user: { organizationId } });
+
+    return NextResponse.json({ organizationId, role: membership.role });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to switch organization:", error);
+    return NextResponse.json(
+      { error: "조직 전환에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getMembership } from "@/lib/organizations/membership-library";
+import { isOrganizationOwner, expand, NAMESPACES } from "@/lib/permissions";
+
+const explainSchema = z.object({
+  userId: z.string().cuid(),
+  projectId: z.string().cuid(),
+  relation: z.enum(["owner", "editor", "viewer"]).default("viewer"),
+});
+
+/**
+ * GET /api/permissions/explain?userId=&projectId=&relation=
+ * 사용자가 프로젝트에 권한을 갖는(또는 갖지 못하는) 이유 조회 (조직 owner만 가능)
+ */
+export async function GET(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!(await isOrganizationOwner(session.user))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { userId, projectId, relation } = explainSchema.parse({
+      userId: searchParams.get("userId"),
+      projectId: searchParams.get("projectId"),
+      relation: searchParams.get("relation") ?? undefined,
+    });
+
+    const [membership, project] = await Promise.all([
+      getMembership(userId, session.user.organizationId),
+      prisma.project.findUnique({ where: { id: projectId }, select: { organizationId: true } }),
+    ]);
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    if (!project || project.organizationId !== session.user.organizationId) {
+      return NextResponse.json(
+        { error: "프로젝트를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    const explanation = await expand(userId, NAMESPACES.PROJECT, projectId, relation);
+
+    // 팀 경로에 팀 이름 표시
+    const teamIds = explanation.paths
+      .map((path) => path.teamId)
+      .filter((teamId): teamId is string => !!teamId);
+    const teams = await prisma.team.findMany({
+      where: { id: { in: teamIds } },
+      select: { id: true, name: true },
+    });
+    const teamNames = new Map(teams.map((team) => [team.id, team.name]));
+
+    return NextResponse.json({
+      ...explanation,
+      paths: explanation.paths.map((path) => ({
+        ...path,
+        teamName: path.teamId ? teamNames.get(path.teamId) : undefined,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to explain permission:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "유효하지 않은 입력입니다", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "권한 조회에 실패했습니다" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,16 +2,29 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import { getMembership } from "@/lib/organizations/membership-library";
+import { isOrganizationOwner, NAMESPACES, teamSubject, userSubject } from "@/lib/permissions";
 
-const grantSchema = z.object({
-  userId: z.string().cuid(),
-  projectId: z.string().cuid(),
-  relation: z.enum(["owner", "editor", "viewer"]),
-});
+// 사용자 또는 팀(team#member subject set) 중 하나에 대해 처리
+const grantSchema = z
+  .object({
+    userId: z.string().cuid().optional(),
+    teamId: z.string().cuid().optional(),
+    projectId: z.string().cuid().optional(), // 생략하면 현재 조직 전체 권한 (모든 프로젝트에 상속)
+    relation: z.enum(["owner", "editor", "viewer"]),
+  })
+  .refine((data) => !!data.userId !== !!data.teamId, {
+    message: "userId 또는 teamId 중 하나를 지정해주세요",
+  })
+  // 조직 owner는 조직 관리 권한이므로 관리자 멤버십(구성원 역할 변경)으로만 부여
+  .refine((data) => !!data.projectId || data.relation !== "owner", {
+    message: "조직 전체 owner 권한은 부여할 수 없습니다. 구성원 역할을 관리자로 변경해주세요",
+    path: ["relation"],
+  });
 
 /**
  * POST /api/permissions/grant
- * 프로젝트 권한 부여 (Admin만 가능)
+ * 프로젝트 또는 조직 전체 권한 부여 (조직 owner만 가능)
  */
 export async function POST(request: Request) {
   try {
@@ -21,44 +34,58 @@ export async function POST(request: Request) {
       return new Response("Unauthorized", { status: 401 });
     }
 
-    // Admin 권한 확인
-    if (session.user.role !== "admin") {
+    if (!(await isOrganizationOwner(session.user))) {
       return new Response("Forbidden", { status: 403 });
     }
 
     const body = await request.json();
-    const { userId, projectId, relation } = grantSchema.parse(body);
+    const { userId, teamId, projectId, relation } = grantSchema.parse(body);
 
-    // 사용자가 같은 조직인지 확인
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-    });
+    // 사용자는 같은 조직 구성원, 팀은 같은 조직의 팀인지 확인
+    const subjectExists = userId
+      ? !!(await getMembership(userId, session.user.organizationId))
+      : !!(await prisma.team.findFirst({
+          where: { id: teamId, organizationId: session.user.organizationId },
+        }));
 
-    if (!user || user.organizationId !== session.user.organizationId) {
+    if (!subjectExists) {
       return NextResponse.json(
-        { error: "사용자를 찾을 수 없습니다" },
+        { error: userId ? "사용자를 찾을 수 없습니다" : "팀을 찾을 수 없습니다" },
         { status: 404 }
       );
     }
 
+    const subject = userId ? userSubject(userId) : teamSubject(teamId!);
+    const subjectFields = {
+      subjectType: subject.type,
+      subjectId: subject.id,
+      subjectRelation: subject.relation ?? "",
+    };
+
     // 프로젝트가 같은 조직인지 확인
-    const project = await prisma.project.findUnique({
-      where: { id: projectId },
-    });
+    if (projectId) {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+      });
 
-    if (!project || project.organizationId !== session.user.organizationId) {
-      return NextResponse.json(
-        { error: "프로젝트를 찾을 수 없습니다" },
-        { status: 404 }
-      );
+      if (!project || project.organizationId !== session.user.organizationId) {
+        return NextResponse.json(
+          { error: "프로젝트를 찾을 수 없습니다" },
+          { status: 404 }
+        );
+      }
     }
 
+    // 조직 전체 권한은 조직의 모든 프로젝트에 같은 권한으로 상속된다
+    const target = projectId
+      ? { namespace: NAMESPACES.PROJECT, objectId: projectId }
+      : { namespace: NAMESPACES.ORGANIZATION, objectId: session.user.organizationId };
+
     // 이미 권한이 있는지 확인
     const existing = await prisma.relationTuple.findFirst({
       where: {
-        subjectId: userId,
-        namespace: "project",
-        objectId: projectId,
+        ...subjectFields,
+        ...target,
         relation,
       },
     });
@@ -73,10 +100,8 @@ export async function POST(request: Request) {
     // 권한 부여
     const relationTuple = await prisma.relationTuple.create({
       data: {
-        subjectId: userId,
-        subjectType: "user",
-        namespace: "project",
-        objectId: projectId,
+        ...subjectFields,
+        ...target,
         relation,
       },
     });
@@ -0,0 +1,50 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { isOrganizationOwner, revoke, NAMESPACES, RELATIONS } from "@/lib/permissions";
+
+type Params = Promise<{ teamId: string; userId: string }>;
+
+/**
+ * DELETE /api/permissions/teams/[teamId]/members/[userId]
+ * 팀 구성원 제거 (조직 owner만 가능)
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { teamId, userId } = await params;
+
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!(await isOrganizationOwner(session.user))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const team = await prisma.team.findFirst({
+      where: { id: teamId, organizationId: session.user.organizationId },
+    });
+
+    if (!team) {
+      return NextResponse.json(
+        { error: "팀을 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    await revoke(userId, NAMESPACES.TEAM, teamId, RELATIONS.MEMBER);
+
+    return NextResponse.json({ message: "팀 구성원이 제거되었습니다" });
+  } catch (error) {
+    console.error("Failed to remove team member:", error);
+    return NextResponse.json(
+      { error: "팀 구성원 제거에 실패했습니다" },
+      { status: 500 }
+    );
+  }
+}
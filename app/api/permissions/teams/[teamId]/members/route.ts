@@ -0,0 +1,79 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { isOrganizationOwner, grant, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { getMembership } from "@/lib/organizations/membership-library";
+
+type Params = Promise<{ teamId: string }>;
+
+const teamMemberSchema = z.object({
+  userId: z.string().cuid(),
+});
+
+/**
+ * POST /api/permissions/teams/[teamId]/members
+ * 팀 구성원 추가 (조직 owner만 가능)
+ *
+ * team:{teamId}#member@user:{userId} 튜플을 만들면 팀에 부여된 권한이 바로 적용된다.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Params }
+) {
+  const { teamId } = await params;
+
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!(await isOrganizationOwner(session.user))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const body = await request.json();
+    const { userId } = teamMemberSchema.parse(body);
+
+    const team = await prisma.team.findFirst({
+      where: { id: teamId, organizationId: session.user.organizationId },
+    });
+
+    if (!team) {
+      return NextResponse.json(
+        { error: "팀을 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    // 사용자가 같은 조직 구성원인지 확인
+    const membership = await getMembership(userId, session.user.organizationId);
+
+    if (!membership) {
+      return NextResponse.json(
+        { error: "사용자를 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    await grant(userId, NAMESPACES.TEAM, teamId, RELATIONS.MEMBER);
+
+    return NextResponse.json({ message: "팀 구성원이 추가되었습니다" });
+  } catch (error) {
+    console.error("Failed to add team member:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "유효하지 않은 입력입니다", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "팀 구성원 추가에 실패했습니다" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { isOrganizationOwner, NAMESPACES, SUBJECT_TYPES } from "@/lib/permissions";
+
+type Params = Promise<{ teamId: string }>;
+
+/**
+ * DELETE /api/permissions/teams/[teamId]
+ * 팀 삭제 (조직 owner만 가능)
+ *
+ * 팀 구성원 튜플과 팀(team#member)에 부여된 권한 튜플도 함께 삭제한다.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Params }
+) {
+  const { teamId } = await params;
+
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!(await isOrganizationOwner(session.user))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const team = await prisma.team.findFirst({
+      where: { id: teamId, organizationId: session.user.organizationId },
+    });
+
+    if (!team) {
+      return NextResponse.json(
+        { error: "팀을 찾을 수 없습니다" },
+        { status: 404 }
+      );
+    }
+
+    await prisma.$transaction([
+      prisma.relationTuple.deleteMany({
+        where: {
+          OR: [
+            { namespace: NAMESPACES.TEAM, objectId: teamId },
+            { subjectType: SUBJECT_TYPES.TEAM, subjectId: teamId },
+          ],
+        },
+      }),
+      prisma.team.delete({ where: { id: teamId } }),
+    ]);
+
+    return NextResponse.json({ message: "팀이 삭제되었습니다" });
+  } catch (error) {
+    console.error("Failed to delete team:", error);
+    return NextResponse.json(
+      { error: "팀 삭제에 실패했습니다" },
+      { status: 500 }
+    );
+  }
+}
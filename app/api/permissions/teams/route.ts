@@ -0,0 +1,68 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const teamCreateSchema = z.object({
+  name: z.string().trim().min(1, "팀 이름을 입력해주세요").max(50),
+  description: z.string().trim().max(200).optional(),
+});
+
+/**
+ * POST /api/permissions/teams
+ * 팀 생성 (조직 owner만 가능)
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    if (!(await isOrganizationOwner(session.user))) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const body = await request.json();
+    const { name, description } = teamCreateSchema.parse(body);
+
+    const existing = await prisma.team.findUnique({
+      where: {
+        organizationId_name: { organizationId: session.user.organizationId, name },
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: "같은 이름의 팀이 이미 있습니다" },
+        { status: 400 }
+      );
+    }
+
+    const team = await prisma.team.create({
+      data: {
+        organizationId: session.user.organizationId,
+        name,
+        description,
+      },
+    });
+
+    return NextResponse.json({ message: "팀이 생성되었습니다", team }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create team:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "유효하지 않은 입력입니다", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "팀 생성에 실패했습니다" },
+      { status: 500 }
+    );
+  }
+}
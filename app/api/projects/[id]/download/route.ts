@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { getStorage } from "@/lib/storage";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  resolveAspectRatio,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import {
+  DEFAULT_ENCODING_PROFILE,
+  ENCODING_PROFILE_DEFINITIONS,
+  type EncodingProfile,
+} from "@/lib/video/encoding-profiles";
+
+type Params = Promise<{ id: string }>;
+
+// Storage 서명 URL 유효 시간 (초, 응답 시작까지만 필요)
+const DOWNLOAD_URL_EXPIRES_IN = 60;
+
+/**
+ * GET /api/projects/[id]/download?assetId=
+ * 저장된 최종 영상 다운로드 (다시 렌더링하지 않음)
+ *
+ * assetId를 생략하면 프로젝트 대표 영상(finalVideoAssetId).
+ * Storage 공개 URL은 다른 origin이라 a[download]가 무시되므로 첨부 파일로 중계한다.
+ * 서버 메모리에 올리지 않도록 짧은 서명 URL 응답을 그대로 스트리밍한다.
+ */
+export async function GET(request: NextRequest, { params }: { params: Params }) {
+  const { id: projectId } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // 권한 확인 (viewer 이상)
+    const canView = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.VIEWER
+    );
+
+    if (!canView) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { title: true, settings: true, finalVideoAssetId: true },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const assetId = request.nextUrl.searchParams.get("assetId") ?? project.finalVideoAssetId;
+    const asset = assetId
+      ? await prisma.asset.findFirst({
+          where: { id: assetId, projectId, kind: "final_video" },
+        })
+      : null;
+
+    if (!asset) {
+      return NextResponse.json(
+        { error: "렌더링된 영상이 없습니다. 먼저 렌더링해주세요." },
+        { status: 404 }
+      );
+    }
+
+    const signedUrl = await getStorage(asset.storageProvider).createSignedUrl(
+      asset.storagePath,
+      DOWNLOAD_URL_EXPIRES_IN
+    );
+    const upstream = await fetch(signedUrl);
+
+    if (!upstream.ok || !upstream.body) {
+      throw new Error(`Storage responded ${upstream.status} for ${asset.storagePath}`);
+    }
+
+    // 파일명: 프로젝트 제목 (+ 추가 비율 표시) + 프로필 확장자
+    const metadata = asset.metadata as { aspectRatio?: AspectRatio; encodingProfile?: EncodingProfile } | null;
+    const { container, mimeType } =
+      ENCODING_PROFILE_DEFINITIONS[metadata?.encodingProfile ?? DEFAULT_ENCODING_PROFILE];
+    const aspectRatio = metadata?.aspectRatio ?? resolveAspectRatio(project.settings);
+    const fileName =
+      aspectRatio === resolveAspectRatio(project.settings)
+        ? `${project.title || "video"}.${container}`
+        : `${project.title || "video"}_${ASPECT_RATIO_DEFINITIONS[aspectRatio].fileSuffix}.${container}`;
+
+    // RFC 5987: 한글 파일명 지원
+    const contentLength = upstream.headers.get("content-length");
+    return new NextResponse(upstream.body, {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Disposition": `attachment; filename="video.${container}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        ...(contentLength && { "Content-Length": contentLength }),
+      },
+    });
+  } catch (error) {
+    console.error("[Download] Error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to download video",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,22 @@
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
-import { downloadFile } from "@/lib/supabase/storage";
+import { getStorage } from "@/lib/storage";
 import { inngest } from "@/lib/inngest/client";
 import { NextResponse } from "next/server";
 import { generateScript } from "@/lib/services/gemini";
+import { normalizeDocument } from "@/lib/documents";
+import { planScenes, scenePlanOptionsSchema } from "@/lib/video/scene-plan";
+import { resolveScriptLanguage } from "@/lib/video/languages";
+import { resolveAspectRatio } from "@/lib/video/aspect-ratio";
+import { snapshotScenes } from "@/lib/video/script-versions";
+import { hasScenesInProgress, SCENE_EDIT_BLOCKED_STATUSES } from "@/lib/video/scene-order";
 
 type Params = Promise<{ id: string }>;
 
 /**
  * POST /api/projects/[id]/generate-script
- * PDF로부터 스크립트 생성
+ * 업로드된 문서(PDF, PPTX, DOCX, Markdown, 텍스트, URL 스냅샷)로부터 스크립트 생성
  */
 export async function POST(request: Request, { params }: { params: Params }) {
   const session = await auth();
@@ -51,6 +57,17 @@ export async function POST(request: Request, { params }: { params: Params }) {
       );
     }
 
+    // 기존 씬을 교체하므로 씬 처리/렌더링 중에는 재생성 불가
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
     if (!project.documents || project.documents.length === 0) {
       return NextResponse.json(
         { error: "업로드된 문서가 없습니다." },
@@ -60,62 +77,99 @@ export async function POST(request: Request, { params }: { params: Params }) {
 
     const document = project.documents[0];
 
-    // Supabase Storage에서 PDF 다운로드
-    const blob = await downloadFile(document.storagePath);
+    // 업로드된 Storage에서 원본 다운로드 후 형식별 정규화
+    const blob = await getStorage(document.storageProvider).downloadFile(document.storagePath);
     const arrayBuffer = await blob.arrayBuffer();
-    const pdfBase64 = Buffer.from(arrayBuffer).toString("base64");
-
-    // lib/services/gemini.ts의 generateScript() 함수 사용
-    // (Gemini 2.5 Pro + Flash 검증/요약 포함)
-    const scriptData = await generateScript(
-      pdfBase64,
-      project.duration as 30 | 60 | 180
+    const documentMetadata = (document.metadata as {
+      fileName?: string;
+      mimeType?: string;
+      sourceUrl?: string;
+    } | null) ?? {};
+
+    const source = await normalizeDocument(
+      Buffer.from(arrayBuffer),
+      documentMetadata.fileName || document.storagePath,
+      documentMetadata.mimeType
     );
 
-    // 프로젝트 설정에서 backgroundQuality 가져오기
+    // URL에서 가져온 웹 페이지(Markdown 스냅샷)는 웹 자료로 표시
+    if (documentMetadata.sourceUrl && source.format === "markdown") {
+      source.format = "url";
+    }
+
+    // 씬 구성 계산 (목표 길이 + settings.scenePlan + settings.language)
     console.log(`🔍 [generate-script] Project settings:`, JSON.stringify(project.settings, null, 2));
     const projectSettings = (project.settings as Record<string, unknown>) || {};
+    const scenePlanOptions = scenePlanOptionsSchema.safeParse(projectSettings.scenePlan ?? {});
+    const plan = planScenes(
+      project.duration,
+      scenePlanOptions.success ? scenePlanOptions.data : {},
+      resolveScriptLanguage(projectSettings)
+    );
+    console.log(`🎬 [generate-script] Scene plan: ${plan.sceneCount} scenes × ${plan.sceneSeconds.toFixed(1)}s (language ${plan.language}, max ${plan.maxScriptLength} per scene)`);
+
+    // lib/services/gemini.ts의 generateScript() 함수 사용
+    // (Gemini 2.5 Pro + Flash 검증/요약 포함, 이미지/영상 프롬프트는 프로젝트 화면 비율 기준)
+    const scriptData = await generateScript(source, plan, resolveAspectRatio(projectSettings));
+
+    // 프로젝트 설정에서 backgroundQuality 가져오기
     const backgroundQuality = (projectSettings.backgroundQuality as "high" | "medium" | "low") || "high";
     console.log(`🎨 [generate-script] Background quality: ${backgroundQuality} (will apply to all ${scriptData.scenes.length} scenes)`);
 
-    // Scene 레코드 생성
-    const scenes = await Promise.all(
-      scriptData.scenes.map(async (scene: {
-        sceneNumber?: number;
-        script?: string;
-        text?: string;
-        duration?: number;
-        visualDescription?: string;
-        imagePrompt?: string;
-        videoPrompt?: string;
-        priority?: string;
-        emotion?: string
-      }, index: number) => {
-        console.log(`📝 [generate-script] Creating scene ${index + 1} with priority: ${backgroundQuality}`);
-
-        return prisma.scene.create({
-          data: {
-            projectId,
-            sceneNumber: scene.sceneNumber || index + 1,
-            position: index,
-            script: scene.script || scene.text || "",
-            duration: scene.duration || 8,
-            durationSeconds: scene.duration || 8,
-            visualDescription: scene.visualDescription || "",
-            imagePrompt: scene.imagePrompt || null,
-            videoPrompt: scene.videoPrompt || null,
-            ttsStatus: "pending",
-            avatarStatus: "pending",
-            backgroundStatus: "pending",
-            backgroundAnalysis: {
-              priority: backgroundQuality,  // ✅ 수정: 프로젝트 설정값 사용
-              emotion: scene.emotion || "neutral",
+    // Scene 레코드 교체 (기존 씬은 버전 기록에 남긴 뒤 삭제)
+    const scenes = await prisma.$transaction(async (tx) => {
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: "스크립트 재생성 전",
+        createdById: session.user.id,
+      });
+      await tx.scene.deleteMany({ where: { projectId } });
+
+      const created = await Promise.all(
+        scriptData.scenes.map(async (scene: {
+          sceneNumber?: number;
+          script?: string;
+          text?: string;
+          duration?: number;
+          visualDescription?: string;
+          imagePrompt?: string;
+          videoPrompt?: string;
+          priority?: string;
+          emotion?: string
+        }, index: number) => {
+          console.log(`📝 [generate-script] Creating scene ${index + 1} with priority: ${backgroundQuality}`);
+
+          return tx.scene.create({
+            data: {
+              projectId,
+              sceneNumber: scene.sceneNumber || index + 1,
+              position: index,
+              script: scene.script || scene.text || "",
+              duration: Math.round(scene.duration || plan.sceneSeconds),
+              durationSeconds: scene.duration || plan.sceneSeconds,
+              visualDescription: scene.visualDescription || "",
+              imagePrompt: scene.imagePrompt || null,
+              videoPrompt: scene.videoPrompt || null,
+              ttsStatus: "pending",
+              avatarStatus: "pending",
+              backgroundStatus: "pending",
+              backgroundAnalysis: {
+                priority: backgroundQuality,  // ✅ 수정: 프로젝트 설정값 사용
+                emotion: scene.emotion || "neutral",
+              },
+              metadata: {},
             },
-            metadata: {},
-          },
-        });
-      })
-    );
+          });
+        })
+      );
+
+      await snapshotScenes(tx, projectId, {
+        source: "generated",
+        createdById: session.user.id,
+      });
+
+      return created;
+    }, { timeout: 30_000 });
 
     // 프로젝트 상태 업데이트
     await prisma.project.update({
@@ -2,6 +2,7 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
 import { inngest } from "@/lib/inngest/client";
+import { hasScenesInProgress, SCENE_EDIT_BLOCKED_STATUSES } from "@/lib/video/scene-order";
 import { NextResponse } from "next/server";
 
 type Params = Promise<{ id: string }>;
@@ -9,6 +10,9 @@ type Params = Promise<{ id: string }>;
 /**
  * POST /api/projects/[id]/process-scenes
  * 씬 처리 시작 (TTS → 아바타 → 배경)
+ *
+ * 처리 중에는 프로젝트를 scenes_processing 상태로 두어 씬 구조 편집을 막는다.
+ * (마지막 씬 처리 후 sceneProcessor가 scenes_processed로 변경)
  */
 export async function POST(request: Request, { params }: { params: Params }) {
   const session = await auth();
@@ -52,6 +56,21 @@ export async function POST(request: Request, { params }: { params: Params }) {
       );
     }
 
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, id))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    await prisma.project.update({
+      where: { id },
+      data: { status: "scenes_processing" },
+    });
+
     // 커스텀 아바타 모드면 아바타 디자인 생성 이벤트 먼저 전송
     if (project.avatarDesignMode === "custom" && project.avatarDesignStatus !== "completed") {
       try {
@@ -63,6 +82,7 @@ export async function POST(request: Request, { params }: { params: Params }) {
         });
       } catch (inngestError) {
         console.error("Inngest connection failed:", inngestError);
+        await prisma.project.update({ where: { id }, data: { status: project.status } });
         return NextResponse.json(
           {
             error: "Inngest 서버에 연결할 수 없습니다. 'npm run inngest:dev'를 실행해주세요.",
@@ -85,6 +105,7 @@ export async function POST(request: Request, { params }: { params: Params }) {
       });
     } catch (inngestError) {
       console.error("Inngest connection failed:", inngestError);
+      await prisma.project.update({ where: { id }, data: { status: project.status } });
       return NextResponse.json(
         {
           error: "Inngest 서버에 연결할 수 없습니다. 'npm run inngest:dev'를 실행해주세요.",
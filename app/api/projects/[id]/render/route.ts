@@ -2,13 +2,84 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
 import { inngest } from "@/lib/inngest/client";
+import { aspectRatioSchema } from "@/lib/video/aspect-ratio";
+import {
+  DEFAULT_ENCODING_PROFILE,
+  encodingProfileSchema,
+} from "@/lib/video/encoding-profiles";
+import { getMissingSceneParts } from "@/lib/video/scene-parts";
+import { subtitleStyleSchema } from "@/lib/video/subtitles";
+import { DEFAULT_POSTER_SELECTION, posterSelectionSchema } from "@/lib/video/thumbnails";
+import { resolveRenderProgress } from "@/lib/video/render-progress";
 import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// Zod 스키마: 최종 렌더링 옵션 (body 생략 가능)
+const renderSchema = z.object({
+  encodingProfile: encodingProfileSchema.default(DEFAULT_ENCODING_PROFILE),
+  aspectRatio: aspectRatioSchema.optional(), // 생략 시 프로젝트 비율
+  burnSubtitles: z.boolean().default(false),
+  subtitleStyle: subtitleStyleSchema.optional(),
+  packageHls: z.boolean().default(false), // HLS 렌디션 추가 생성 (앱 내 스트리밍 재생)
+  poster: posterSelectionSchema.default(DEFAULT_POSTER_SELECTION), // 포스터 프레임 (자동 / 씬 / 시점)
+});
 
 type Params = Promise<{ id: string }>;
 
+/**
+ * GET /api/projects/[id]/render
+ * 최근 최종 렌더링 작업 조회 (진행률 폴링용, Realtime 브로드캐스트가 없을 때)
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    // 권한 확인 (viewer 이상)
+    const canView = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      id,
+      RELATIONS.VIEWER
+    );
+
+    if (!canView) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const renderJob = await prisma.renderJob.findFirst({
+      where: { projectId: id, provider: "ffmpeg" },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({
+      renderJob: renderJob && {
+        id: renderJob.id,
+        status: renderJob.status,
+        params: renderJob.params,
+        errorMessage: renderJob.errorMessage,
+        progress: resolveRenderProgress(renderJob.metadata),
+        createdAt: renderJob.createdAt,
+        completedAt: renderJob.completedAt,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch render job:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
+
 /**
  * POST /api/projects/[id]/render
- * 프로젝트 렌더링 시작
+ * 최종 렌더링 시작 (videoRender, 인코딩 프로필 선택)
+ *
+ * 선택한 옵션은 RenderJob(provider "ffmpeg").params에 기록되고,
+ * videoRender가 진행 상태와 결과(최종 Asset, 크기/비트레이트/코덱)를 RenderJob에 남긴다.
+ * 렌더링 중에는 프로젝트 상태가 rendering이며, 완료 시 최종 영상이 final_video Asset으로 저장된다.
  */
 export async function POST(request: Request, { params }: { params: Params }) {
   const session = await auth();
@@ -31,11 +102,31 @@ export async function POST(request: Request, { params }: { params: Params }) {
       return new Response("Forbidden", { status: 403 });
     }
 
+    // 렌더링 옵션 파싱 (body가 비어있으면 기본값)
+    const body = await request.json().catch(() => ({}));
+    const validation = renderSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: validation.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const options = validation.data;
+
     // 프로젝트 상태 확인
     const project = await prisma.project.findUnique({
       where: { id },
       include: {
-        scenes: true,
+        scenes: {
+          orderBy: { sceneNumber: "asc" },
+          include: {
+            audioAsset: true,
+            avatarAsset: true,
+            backgroundAsset: true,
+          },
+        },
       },
     });
 
@@ -51,51 +142,111 @@ export async function POST(request: Request, { params }: { params: Params }) {
     }
 
     // 이미 렌더링 중인지 확인
-    if (project.status === "rendering") {
+    const activeJob = await prisma.renderJob.findFirst({
+      where: {
+        projectId: id,
+        provider: "ffmpeg",
+        status: { in: ["pending", "processing"] },
+      },
+    });
+
+    if (activeJob || project.status === "rendering") {
       return NextResponse.json(
-        { error: "Project is already rendering" },
+        { error: "Project is already rendering", renderJobId: activeJob?.id },
+        { status: 409 }
+      );
+    }
+
+    // scenes_processed 또는 rendered 상태만 렌더링 가능
+    if (project.status !== "scenes_processed" && project.status !== "rendered") {
+      return NextResponse.json(
+        { error: "Scenes not processed yet. Current status: " + project.status },
         { status: 400 }
       );
     }
 
-    // 프로젝트 상태 업데이트
-    await prisma.project.update({
-      where: { id },
-      data: {
-        status: "rendering",
-      },
-    });
+    const unprocessedScenes = project.scenes.filter(
+      (scene) => getMissingSceneParts(scene).length > 0
+    );
+    if (unprocessedScenes.length > 0) {
+      return NextResponse.json(
+        {
+          error: `처리되지 않은 씬이 있습니다: ${unprocessedScenes
+            .map((scene) => scene.sceneNumber)
+            .join(", ")}`,
+        },
+        { status: 409 }
+      );
+    }
 
-    // Inngest 이벤트 전송: 씬 처리 시작
-    await inngest.send({
-      name: "scene/process.requested",
-      data: {
-        projectId: id,
-        sceneId: project.scenes[0].id, // 첫 번째 씬부터 시작
-        userId: session.user.id,
-      },
-    });
+    // 조회 이후 상태가 바뀌지 않았을 때만 rendering으로 전환하고 작업 생성
+    // (동시 요청 중 하나만 통과해 렌더링 작업이 중복 생성되지 않도록)
+    const renderJob = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.project.updateMany({
+        where: { id, status: project.status },
+        data: { status: "rendering" },
+      });
+      if (claimed.count === 0) return null;
 
-    return NextResponse.json({
-      message: "Rendering started",
-      projectId: id,
-      scenesCount: project.scenes.length,
+      return tx.renderJob.create({
+        data: {
+          projectId: id,
+          provider: "ffmpeg",
+          status: "pending",
+          params: options,
+        },
+      });
     });
-  } catch (error) {
-    console.error("Failed to start rendering:", error);
 
-    // 에러 발생 시 상태 복구
+    if (!renderJob) {
+      return NextResponse.json(
+        { error: "Project is already rendering" },
+        { status: 409 }
+      );
+    }
+
+    // Inngest 이벤트 전송: 최종 렌더링 (전송 실패 시 렌더링 중 상태로 남지 않게 되돌림)
     try {
-      await prisma.project.update({
-        where: { id },
+      await inngest.send({
+        name: "video/render.requested",
+        data: {
+          projectId: id,
+          renderJobId: renderJob.id,
+          ...options,
+          sceneData: project.scenes.map((scene) => ({
+            sceneNumber: scene.sceneNumber,
+            duration: scene.durationSeconds ?? scene.duration,
+            audioUrl: scene.audioAsset?.url ?? "",
+            avatarUrl: scene.avatarAsset?.url ?? "",
+            backgroundUrl: scene.backgroundAsset?.url ?? "",
+            backgroundType: scene.backgroundAsset?.kind ?? "gradient",
+          })),
+        },
+      });
+    } catch (inngestError) {
+      await prisma.renderJob.update({
+        where: { id: renderJob.id },
         data: {
           status: "failed",
+          errorMessage: inngestError instanceof Error ? inngestError.message : String(inngestError),
         },
       });
-    } catch (updateError) {
-      console.error("Failed to update project status:", updateError);
+      await prisma.project.update({
+        where: { id },
+        data: { status: project.status },
+      });
+      throw inngestError;
     }
 
+    return NextResponse.json({
+      message: "Rendering started",
+      projectId: id,
+      renderJobId: renderJob.id,
+      encodingProfile: options.encodingProfile,
+      scenesCount: project.scenes.length,
+    });
+  } catch (error) {
+    console.error("Failed to start rendering:", error);
     return new Response("Internal Server Error", { status: 500 });
   }
 }
@@ -1,14 +1,20 @@
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { check, checkMany, createPermissionCache, NAMESPACES, RELATIONS } from "@/lib/permissions";
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import { avatarLayoutSchema } from "@/lib/video/avatar-layout";
+import { aspectRatioSchema } from "@/lib/video/aspect-ratio";
+import { MUSIC_ASSET_KIND, projectMusicSchema } from "@/lib/video/music";
 
 // Zod 스키마: 프로젝트 수정
 const updateProjectSchema = z.object({
   title: z.string().min(1).max(200).optional(),
   description: z.string().optional(),
   settings: z.record(z.any()).optional(),
+  avatarLayout: avatarLayoutSchema.optional(), // settings.avatarLayout에 병합
+  music: projectMusicSchema.nullable().optional(), // settings.music에 병합 (null이면 음악 없음)
+  aspectRatio: aspectRatioSchema.optional(), // settings.aspectRatio에 병합 (이후 생성되는 배경부터 적용)
 });
 
 type Params = Promise<{ id: string }>;
@@ -26,12 +32,15 @@ export async function GET(request: Request, { params }: { params: Params }) {
   }
 
   try {
+    const permissionCache = createPermissionCache();
+
     // 권한 확인 (viewer 이상)
     const canView = await check(
       session.user.id,
       NAMESPACES.PROJECT,
       id,
-      RELATIONS.VIEWER
+      RELATIONS.VIEWER,
+      permissionCache
     );
 
     if (!canView) {
@@ -48,6 +57,15 @@ export async function GET(request: Request, { params }: { params: Params }) {
             email: true,
           },
         },
+        // 다국어 버전 (원본 ↔ 번역본)
+        sourceProject: {
+          select: { id: true, title: true, status: true, settings: true },
+        },
+        variants: {
+          where: { deletedAt: null },
+          select: { id: true, title: true, status: true, settings: true },
+          orderBy: { createdAt: "asc" },
+        },
         documents: {
           orderBy: { createdAt: "desc" },
         },
@@ -72,7 +90,19 @@ export async function GET(request: Request, { params }: { params: Params }) {
       return new Response("Not Found", { status: 404 });
     }
 
-    return NextResponse.json(project);
+    // 다국어 버전은 조회 권한이 있는 것만 노출
+    const viewableVariants = await checkMany(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      project.variants.map((variant) => variant.id),
+      RELATIONS.VIEWER,
+      permissionCache
+    );
+
+    return NextResponse.json({
+      ...project,
+      variants: project.variants.filter((variant) => viewableVariants.get(variant.id)),
+    });
   } catch (error) {
     console.error("Failed to fetch project:", error);
     return new Response("Internal Server Error", { status: 500 });
@@ -105,7 +135,49 @@ export async function PATCH(request: Request, { params }: { params: Params }) {
     }
 
     const body = await request.json();
-    const validated = updateProjectSchema.parse(body);
+    const { avatarLayout, music, aspectRatio, ...validated } = updateProjectSchema.parse(body);
+
+    // 아바타 레이아웃 / 배경 음악 / 화면 비율은 기존 settings를 유지한 채 병합
+    if (avatarLayout || music !== undefined || aspectRatio) {
+      const current = await prisma.project.findUnique({
+        where: { id },
+        select: { settings: true, organizationId: true },
+      });
+
+      // 음악은 같은 조직 라이브러리의 트랙만 선택 가능
+      if (music) {
+        const track = await prisma.organizationAsset.findFirst({
+          where: {
+            id: music.assetId,
+            organizationId: current?.organizationId,
+            kind: MUSIC_ASSET_KIND,
+          },
+          select: { id: true },
+        });
+
+        if (!track) {
+          return NextResponse.json(
+            { error: "음악 트랙을 찾을 수 없습니다." },
+            { status: 400 }
+          );
+        }
+      }
+
+      const settings: Record<string, unknown> = {
+        ...((current?.settings as Record<string, unknown> | null) ?? {}),
+        ...(validated.settings ?? {}),
+        ...(avatarLayout && { avatarLayout }),
+        ...(aspectRatio && { aspectRatio }),
+      };
+
+      if (music) {
+        settings.music = music;
+      } else if (music === null) {
+        delete settings.music;
+      }
+
+      validated.settings = settings;
+    }
 
     const project = await prisma.project.update({
       where: { id },
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { inngest } from "@/lib/inngest/client";
+import {
+  hasScenesInProgress,
+  SCENE_EDIT_BLOCKED_STATUSES,
+  SCENE_IN_PROGRESS_WHERE,
+} from "@/lib/video/scene-order";
+import { SCENE_PARTS, scenePartsSchema } from "@/lib/video/scene-parts";
+import { z } from "zod";
+
+const regenerateSceneSchema = z.object({
+  parts: scenePartsSchema,
+});
+
+/**
+ * POST /api/projects/[id]/scenes/[sceneId]/regenerate
+ *
+ * 씬 단위 재생성 (tts / avatar / background)
+ * - 새 음성은 립싱크가 달라지므로 tts 요청 시 avatar도 함께 재생성
+ * - sceneProcessor를 단일 씬 모드(chain: false)로 실행 → 완료 후 scenes_processed 유지
+ * - 같은 씬의 생성 작업이 진행 중이면 409 (중복 클릭으로 파이프라인이 두 번 실행되지 않도록)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; sceneId: string }> }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, sceneId } = await params;
+
+    // 권한 확인
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    // 요청 본문 검증
+    const body = await req.json();
+    const { parts: requestedParts } = regenerateSceneSchema.parse(body);
+
+    // 의존 관계 반영 후 처리 순서대로 정렬
+    const parts = SCENE_PARTS.filter(
+      (part) =>
+        requestedParts.includes(part) || (part === "avatar" && requestedParts.includes("tts"))
+    );
+
+    // Scene 조회
+    const scene = await prisma.scene.findUnique({
+      where: { id: sceneId },
+      include: {
+        project: { select: { status: true } },
+      },
+    });
+
+    if (!scene) {
+      return NextResponse.json({ error: "Scene not found" }, { status: 404 });
+    }
+
+    if (scene.projectId !== projectId) {
+      return NextResponse.json(
+        { error: "Scene does not belong to this project" },
+        { status: 400 }
+      );
+    }
+
+    if (SCENE_EDIT_BLOCKED_STATUSES.includes(scene.project.status)) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    if (await hasScenesInProgress(prisma, projectId, sceneId)) {
+      return NextResponse.json(
+        { error: "씬 재생성이 이미 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    // 아바타만 재생성하려면 기존 음성이 필요
+    if (parts.includes("avatar") && !parts.includes("tts") && !scene.audioAssetId) {
+      return NextResponse.json(
+        { error: "음성(TTS)이 없습니다. 음성을 먼저 생성해주세요." },
+        { status: 400 }
+      );
+    }
+
+    // 기존 결과 무효화 (렌더링에 이전 Asset이 섞이지 않도록 연결 해제)
+    // 진행 중이 아닐 때만 generating으로 선점해 동시 요청 중 하나만 통과시킨다
+    const claimed = await prisma.scene.updateMany({
+      where: { id: sceneId, NOT: SCENE_IN_PROGRESS_WHERE },
+      data: {
+        ...(parts.includes("tts") && {
+          audioAssetId: null,
+          ttsStatus: "generating",
+        }),
+        ...(parts.includes("avatar") && {
+          avatarAssetId: null,
+          avatarStatus: "generating",
+        }),
+        ...(parts.includes("background") && {
+          backgroundAssetId: null,
+          backgroundStatus: "generating",
+          backgroundError: null,
+        }),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { error: "씬 재생성이 이미 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    // 씬 처리 이벤트 발송 (해당 씬만)
+    try {
+      await inngest.send({
+        name: "scene/process.requested",
+        data: {
+          projectId,
+          sceneId,
+          userId: session.user.id,
+          parts,
+          chain: false,
+        },
+      });
+    } catch (inngestError) {
+      console.error("Inngest connection failed:", inngestError);
+      // 이벤트가 발송되지 않았으므로 기존 결과 연결 복구
+      await prisma.scene.update({
+        where: { id: sceneId },
+        data: {
+          ...(parts.includes("tts") && {
+            audioAssetId: scene.audioAssetId,
+            ttsStatus: scene.ttsStatus,
+          }),
+          ...(parts.includes("avatar") && {
+            avatarAssetId: scene.avatarAssetId,
+            avatarStatus: scene.avatarStatus,
+          }),
+          ...(parts.includes("background") && {
+            backgroundAssetId: scene.backgroundAssetId,
+            backgroundStatus: scene.backgroundStatus,
+            backgroundError: scene.backgroundError,
+          }),
+        },
+      });
+      return NextResponse.json(
+        {
+          error: "Inngest 서버에 연결할 수 없습니다. 'npm run inngest:dev'를 실행해주세요.",
+          details: inngestError instanceof Error ? inngestError.message : String(inngestError),
+        },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "씬 재생성이 시작되었습니다.",
+      sceneId,
+      parts,
+    });
+  } catch (error) {
+    console.error("Scene regeneration error:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0].message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "씬 재생성에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
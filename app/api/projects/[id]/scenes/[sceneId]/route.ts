@@ -3,6 +3,14 @@ import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import { avatarLayoutSchema } from "@/lib/video/avatar-layout";
+import { sceneTransitionSchema } from "@/lib/video/transitions";
+import {
+  hasScenesInProgress,
+  renumberScenes,
+  SCENE_EDIT_BLOCKED_STATUSES,
+} from "@/lib/video/scene-order";
+import { snapshotScenes } from "@/lib/video/script-versions";
 
 // Zod 스키마: Scene 수정
 const updateSceneSchema = z.object({
@@ -10,6 +18,8 @@ const updateSceneSchema = z.object({
   visualDescription: z.string().max(1000, "시각적 설명은 최대 1000자입니다.").optional(),
   duration: z.number().min(1).max(60).optional(),
   backgroundPriority: z.enum(["low", "medium", "high"]).optional(),
+  avatarLayout: avatarLayoutSchema.nullable().optional(), // null이면 프로젝트 기본값 사용
+  transition: sceneTransitionSchema.nullable().optional(), // 다음 씬으로의 전환, null이면 컷
 });
 
 type Params = Promise<{ id: string; sceneId: string }>;
@@ -57,24 +67,53 @@ export async function PATCH(request: Request, { params }: { params: Params }) {
     const body = await request.json();
     const validated = updateSceneSchema.parse(body);
 
-    // backgroundPriority 분리 (JSONB 필드에 저장)
-    const { backgroundPriority, ...sceneData } = validated;
-
-    // Scene 업데이트
-    const updatedScene = await prisma.scene.update({
-      where: { id: sceneId },
-      data: {
-        ...sceneData,
-        // duration이 변경되면 durationSeconds도 동기화
-        ...(validated.duration && { durationSeconds: validated.duration }),
-        // backgroundPriority가 있으면 backgroundAnalysis.priority 업데이트
-        ...(backgroundPriority && {
-          backgroundAnalysis: {
-            ...(existingScene.backgroundAnalysis as object),
-            priority: backgroundPriority,
-          },
-        }),
-      },
+    // backgroundPriority, avatarLayout, transition 분리 (JSONB 필드에 저장)
+    const { backgroundPriority, avatarLayout, transition, ...sceneData } = validated;
+
+    // avatarLayout: 씬별 레이아웃 오버라이드 (metadata.avatarLayout)
+    // transition: 다음 씬으로의 전환 (metadata.transition)
+    let metadata: Record<string, unknown> | undefined;
+    const metadataUpdates = { avatarLayout, transition };
+    for (const [key, value] of Object.entries(metadataUpdates)) {
+      if (value === undefined) continue;
+
+      metadata ??= {
+        ...((existingScene.metadata as Record<string, unknown> | null) ?? {}),
+      };
+      if (value) {
+        metadata[key] = value;
+      } else {
+        delete metadata[key];
+      }
+    }
+
+    const updatedScene = await prisma.$transaction(async (tx) => {
+      // Scene 업데이트
+      const scene = await tx.scene.update({
+        where: { id: sceneId },
+        data: {
+          ...sceneData,
+          // duration이 변경되면 durationSeconds도 동기화
+          ...(validated.duration && { durationSeconds: validated.duration }),
+          // backgroundPriority가 있으면 backgroundAnalysis.priority 업데이트
+          ...(backgroundPriority && {
+            backgroundAnalysis: {
+              ...(existingScene.backgroundAnalysis as object),
+              priority: backgroundPriority,
+            },
+          }),
+          ...(metadata && { metadata: metadata as object }),
+        },
+      });
+
+      // 대본/프롬프트/길이가 바뀌었으면 새 버전으로 기록
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: `씬 ${existingScene.sceneNumber} 수정`,
+        createdById: session.user.id,
+      });
+
+      return scene;
     });
 
     return NextResponse.json(updatedScene);
@@ -96,3 +135,85 @@ export async function PATCH(request: Request, { params }: { params: Params }) {
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
+
+/**
+ * DELETE /api/projects/[id]/scenes/[sceneId]
+ * Scene 삭제 후 남은 씬 번호 재부여
+ */
+export async function DELETE(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id: projectId, sceneId } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        status: true,
+        scenes: { select: { id: true }, orderBy: { position: "asc" } },
+      },
+    });
+
+    if (!project || !project.scenes.some((scene) => scene.id === sceneId)) {
+      return NextResponse.json(
+        { error: "Scene을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    if (project.scenes.length === 1) {
+      return NextResponse.json(
+        { error: "마지막 씬은 삭제할 수 없습니다." },
+        { status: 400 }
+      );
+    }
+
+    // 씬 삭제 (연결된 Asset은 sceneId만 해제되고 보존됨)
+    await prisma.$transaction(async (tx) => {
+      await tx.scene.delete({ where: { id: sceneId } });
+      await renumberScenes(
+        tx,
+        projectId,
+        project.scenes.map((scene) => scene.id).filter((id) => id !== sceneId)
+      );
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: `씬 ${project.scenes.findIndex((scene) => scene.id === sceneId) + 1} 삭제`,
+        createdById: session.user.id,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to delete scene:", error);
+    return NextResponse.json(
+      { error: "Scene 삭제에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { measureScriptLength, resolveScriptLanguage } from "@/lib/video/languages";
+import {
+  hasScenesInProgress,
+  renumberScenes,
+  SCENE_EDIT_BLOCKED_STATUSES,
+} from "@/lib/video/scene-order";
+import { snapshotScenes } from "@/lib/video/script-versions";
+import { MAX_SCENE_COUNT } from "@/lib/video/scene-plan";
+
+const scriptSchema = z
+  .string()
+  .trim()
+  .min(1, "스크립트는 비워둘 수 없습니다.")
+  .max(5000, "스크립트는 최대 5000자입니다.");
+
+// Zod 스키마: 씬 분할 (앞/뒤 대본)
+const splitSceneSchema = z.object({
+  scripts: z.tuple([scriptSchema, scriptSchema]),
+});
+
+type Params = Promise<{ id: string; sceneId: string }>;
+
+/**
+ * POST /api/projects/[id]/scenes/[sceneId]/split
+ * 씬을 두 개로 분할
+ *
+ * - 씬 길이는 대본 길이 비율로 나눔
+ * - 배경은 두 씬이 함께 사용, 음성/아바타는 대본이 바뀌므로 두 씬 모두 재처리 대상
+ */
+export async function POST(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id: projectId, sceneId } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const body = await request.json();
+    const { scripts } = splitSceneSchema.parse(body);
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        status: true,
+        settings: true,
+        scenes: { orderBy: { position: "asc" } },
+      },
+    });
+
+    const scene = project?.scenes.find((s) => s.id === sceneId);
+
+    if (!project || !scene) {
+      return NextResponse.json(
+        { error: "Scene을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    // 대본 재생성/번역이 한 번의 응답에 들어가도록 씬 수 제한
+    if (project.scenes.length >= MAX_SCENE_COUNT) {
+      return NextResponse.json(
+        { error: `씬은 최대 ${MAX_SCENE_COUNT}개까지 만들 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    if (scene.duration < 2) {
+      return NextResponse.json(
+        { error: "씬 길이가 너무 짧아 분할할 수 없습니다." },
+        { status: 400 }
+      );
+    }
+
+    // 대본 길이 비율로 씬 길이 배분 (각 최소 1초)
+    const language = resolveScriptLanguage(project.settings);
+    const [firstLength, secondLength] = scripts.map((script) =>
+      measureScriptLength(script, language)
+    );
+    const firstDuration = Math.min(
+      scene.duration - 1,
+      Math.max(1, Math.round((scene.duration * firstLength) / (firstLength + secondLength)))
+    );
+    const secondDuration = scene.duration - firstDuration;
+
+    // 다음 씬으로의 전환(metadata.transition)은 뒤 씬이 이어받고, 분할된 두 씬 사이는 컷
+    const firstMetadata = { ...((scene.metadata as Prisma.JsonObject | null) ?? {}) };
+    delete firstMetadata.transition;
+
+    const scenes = await prisma.$transaction(async (tx) => {
+      // 앞 씬: 기존 씬을 그대로 사용 (배경 유지, 음성/아바타 연결 해제)
+      const first = await tx.scene.update({
+        where: { id: sceneId },
+        data: {
+          script: scripts[0],
+          duration: firstDuration,
+          durationSeconds: firstDuration,
+          audioAssetId: null,
+          ttsStatus: "pending",
+          avatarAssetId: null,
+          avatarStatus: "pending",
+          metadata: firstMetadata,
+        },
+      });
+
+      // 이전 대본 기준 자막 제거 (TTS 재처리 시 다시 생성)
+      await tx.asset.deleteMany({
+        where: { sceneId, kind: "subtitle" },
+      });
+
+      // 뒤 씬: 배경 설정/Asset 공유
+      const second = await tx.scene.create({
+        data: {
+          projectId,
+          sceneNumber: 0, // renumberScenes에서 확정
+          position: scene.position + 1,
+          script: scripts[1],
+          duration: secondDuration,
+          durationSeconds: secondDuration,
+          visualDescription: scene.visualDescription,
+          imagePrompt: scene.imagePrompt,
+          videoPrompt: scene.videoPrompt,
+          backgroundAssetId: scene.backgroundAssetId,
+          backgroundSettings: scene.backgroundSettings ?? Prisma.JsonNull,
+          backgroundStatus: scene.backgroundStatus,
+          backgroundType: scene.backgroundType,
+          backgroundAnalysis: scene.backgroundAnalysis ?? Prisma.JsonNull,
+          backgroundMetadata: scene.backgroundMetadata ?? Prisma.JsonNull,
+          metadata: {
+            ...((scene.metadata as Prisma.JsonObject | null) ?? {}),
+            splitFromSceneId: scene.id,
+          },
+        },
+      });
+
+      const orderedIds = project.scenes.map((s) => s.id);
+      orderedIds.splice(orderedIds.indexOf(sceneId) + 1, 0, second.id);
+      await renumberScenes(tx, projectId, orderedIds);
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: `씬 ${orderedIds.indexOf(sceneId) + 1} 분할`,
+        createdById: session.user.id,
+      });
+
+      return tx.scene.findMany({
+        where: { id: { in: [first.id, second.id] } },
+        orderBy: { position: "asc" },
+      });
+    });
+
+    return NextResponse.json({ scenes }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "입력 검증 실패", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to split scene:", error);
+    return NextResponse.json(
+      { error: "씬 분할에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
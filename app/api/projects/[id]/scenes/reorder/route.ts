@@ -0,0 +1,110 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  hasScenesInProgress,
+  renumberScenes,
+  SCENE_EDIT_BLOCKED_STATUSES,
+} from "@/lib/video/scene-order";
+import { snapshotScenes } from "@/lib/video/script-versions";
+
+// Zod 스키마: 씬 순서 변경 (변경 후 전체 순서)
+const reorderScenesSchema = z.object({
+  sceneIds: z.array(z.string()).min(1),
+});
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * PUT /api/projects/[id]/scenes/reorder
+ * 씬 순서 변경
+ *
+ * 생성된 음성/아바타/배경은 씬에 연결되어 있으므로 순서만 바뀌고 재처리는 필요 없다.
+ */
+export async function PUT(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id: projectId } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const body = await request.json();
+    const { sceneIds } = reorderScenesSchema.parse(body);
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        status: true,
+        scenes: { select: { id: true } },
+      },
+    });
+
+    if (!project) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    // 프로젝트의 모든 씬이 정확히 한 번씩 포함되어야 함
+    const currentIds = new Set(project.scenes.map((scene) => scene.id));
+    const isPermutation =
+      sceneIds.length === currentIds.size &&
+      new Set(sceneIds).size === sceneIds.length &&
+      sceneIds.every((id) => currentIds.has(id));
+
+    if (!isPermutation) {
+      return NextResponse.json(
+        { error: "씬 목록이 변경되었습니다. 새로고침 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await renumberScenes(tx, projectId, sceneIds);
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: "씬 순서 변경",
+        createdById: session.user.id,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "입력 검증 실패", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to reorder scenes:", error);
+    return NextResponse.json(
+      { error: "씬 순서 변경에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,23 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
 import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  hasScenesInProgress,
+  renumberScenes,
+  SCENE_EDIT_BLOCKED_STATUSES,
+} from "@/lib/video/scene-order";
+import { snapshotScenes } from "@/lib/video/script-versions";
+import { MAX_SCENE_COUNT } from "@/lib/video/scene-plan";
+
+// Zod 스키마: Scene 추가
+const createSceneSchema = z.object({
+  afterSceneId: z.string().nullable(), // null이면 맨 앞에 추가
+  script: z.string().min(1, "스크립트는 비워둘 수 없습니다.").max(5000, "스크립트는 최대 5000자입니다."),
+  visualDescription: z.string().max(1000, "시각적 설명은 최대 1000자입니다.").optional(),
+  duration: z.number().min(1).max(60).default(8),
+  backgroundPriority: z.enum(["low", "medium", "high"]).default("medium"),
+});
 
 type Params = Promise<{ id: string }>;
 
@@ -74,3 +91,118 @@ export async function GET(
     );
   }
 }
+
+/**
+ * POST /api/projects/:id/scenes
+ * 씬 추가 (afterSceneId 다음 위치에 삽입 후 번호 재부여)
+ *
+ * 새 씬은 TTS/아바타/배경이 모두 없으므로 재처리 대상이 된다.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Params }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { afterSceneId, backgroundPriority, ...sceneData } = createSceneSchema.parse(body);
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        status: true,
+        scenes: { select: { id: true }, orderBy: { position: "asc" } },
+      },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    // 대본 재생성/번역이 한 번의 응답에 들어가도록 씬 수 제한
+    if (project.scenes.length >= MAX_SCENE_COUNT) {
+      return NextResponse.json(
+        { error: `씬은 최대 ${MAX_SCENE_COUNT}개까지 만들 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const orderedIds = project.scenes.map((scene) => scene.id);
+    const insertIndex = afterSceneId ? orderedIds.indexOf(afterSceneId) + 1 : 0;
+
+    if (afterSceneId && insertIndex === 0) {
+      return NextResponse.json({ error: "Scene을 찾을 수 없습니다." }, { status: 404 });
+    }
+
+    const scene = await prisma.$transaction(async (tx) => {
+      const created = await tx.scene.create({
+        data: {
+          projectId,
+          sceneNumber: 0, // renumberScenes에서 확정
+          position: insertIndex,
+          ...sceneData,
+          durationSeconds: sceneData.duration,
+          backgroundAnalysis: {
+            priority: backgroundPriority,
+            ...(sceneData.visualDescription && {
+              visualDescription: sceneData.visualDescription,
+            }),
+          },
+        },
+      });
+
+      orderedIds.splice(insertIndex, 0, created.id);
+      await renumberScenes(tx, projectId, orderedIds);
+      await snapshotScenes(tx, projectId, {
+        source: "edited",
+        description: `씬 ${insertIndex + 1} 추가`,
+        createdById: session.user.id,
+      });
+
+      return tx.scene.findUniqueOrThrow({ where: { id: created.id } });
+    });
+
+    return NextResponse.json(scene, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "입력 검증 실패", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to create scene:", error);
+    return NextResponse.json(
+      { error: "Scene 추가에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import {
+  hasScenesInProgress,
+  renumberScenes,
+  SCENE_EDIT_BLOCKED_STATUSES,
+} from "@/lib/video/scene-order";
+import { parseVersionScenes, snapshotScenes } from "@/lib/video/script-versions";
+
+type Params = Promise<{ id: string; versionId: string }>;
+
+/**
+ * POST /api/projects/[id]/script-versions/[versionId]/restore
+ * 과거 대본 버전을 현재 씬으로 복원
+ *
+ * - 버전에 있는 씬이 아직 남아 있으면 그대로 갱신 (대본이 같으면 음성/아바타 유지)
+ * - 대본이 바뀐 씬은 음성/아바타, 프롬프트가 바뀐 씬은 배경 연결을 해제해 재처리 대상으로 표시
+ * - 버전에 없는 씬은 삭제, 이미 삭제된 씬은 새로 생성
+ */
+export async function POST(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id: projectId, versionId } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const userId = session.user.id;
+
+  try {
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      userId,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const [project, version] = await Promise.all([
+      prisma.project.findUnique({
+        where: { id: projectId },
+        select: { status: true, settings: true },
+      }),
+      prisma.scriptVersion.findFirst({
+        where: { id: versionId, projectId },
+      }),
+    ]);
+
+    if (!project || !version) {
+      return NextResponse.json(
+        { error: "버전을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (
+      SCENE_EDIT_BLOCKED_STATUSES.includes(project.status) ||
+      (await hasScenesInProgress(prisma, projectId))
+    ) {
+      return NextResponse.json(
+        { error: "프로젝트 작업이 진행 중입니다. 완료 후 다시 시도해주세요." },
+        { status: 409 }
+      );
+    }
+
+    const versionScenes = parseVersionScenes(version.scenes);
+    if (versionScenes.length === 0) {
+      return NextResponse.json(
+        { error: "복원할 씬이 없는 버전입니다." },
+        { status: 400 }
+      );
+    }
+
+    const backgroundQuality =
+      ((project.settings as Record<string, unknown> | null)?.backgroundQuality as
+        | "high"
+        | "medium"
+        | "low"
+        | undefined) || "high";
+
+    const scenes = await prisma.$transaction(async (tx) => {
+      const currentScenes = await tx.scene.findMany({ where: { projectId } });
+      const currentById = new Map(currentScenes.map((scene) => [scene.id, scene]));
+      const keptIds = new Set(
+        versionScenes.map((scene) => scene.sceneId).filter((id) => currentById.has(id))
+      );
+
+      await tx.scene.deleteMany({
+        where: { projectId, id: { notIn: [...keptIds] } },
+      });
+
+      // 새로 만드는 씬의 임시 번호는 기존 번호(renumberScenes에서 음수로 이동)와 겹치지 않게
+      const maxSceneNumber = Math.max(0, ...currentScenes.map((scene) => scene.sceneNumber));
+      const orderedIds: string[] = [];
+
+      for (const [index, snapshot] of versionScenes.entries()) {
+        const fields = {
+          script: snapshot.script,
+          duration: snapshot.duration,
+          durationSeconds: snapshot.duration,
+          visualDescription: snapshot.visualDescription,
+          imagePrompt: snapshot.imagePrompt,
+          videoPrompt: snapshot.videoPrompt,
+        };
+        const existing = currentById.get(snapshot.sceneId);
+
+        if (!existing) {
+          const created = await tx.scene.create({
+            data: {
+              projectId,
+              sceneNumber: -(maxSceneNumber + index + 1),
+              position: index,
+              ...fields,
+              backgroundAnalysis: { priority: backgroundQuality },
+            },
+          });
+          orderedIds.push(created.id);
+          continue;
+        }
+
+        const scriptChanged = existing.script !== snapshot.script;
+        const backgroundChanged =
+          existing.visualDescription !== snapshot.visualDescription ||
+          existing.imagePrompt !== snapshot.imagePrompt ||
+          existing.videoPrompt !== snapshot.videoPrompt;
+
+        await tx.scene.update({
+          where: { id: existing.id },
+          data: {
+            ...fields,
+            ...(scriptChanged && {
+              audioAssetId: null,
+              ttsStatus: "pending",
+              avatarAssetId: null,
+              avatarStatus: "pending",
+            }),
+            ...(backgroundChanged && {
+              backgroundAssetId: null,
+              backgroundStatus: "pending",
+              backgroundError: null,
+            }),
+          },
+        });
+
+        if (scriptChanged) {
+          await tx.asset.deleteMany({
+            where: { sceneId: existing.id, kind: "subtitle" },
+          });
+        }
+
+        orderedIds.push(existing.id);
+      }
+
+      await renumberScenes(tx, projectId, orderedIds);
+      await snapshotScenes(tx, projectId, {
+        source: "restored",
+        description: `버전 ${version.version} 복원`,
+        createdById: userId,
+      });
+
+      return tx.scene.findMany({
+        where: { projectId },
+        orderBy: { position: "asc" },
+      });
+    }, { timeout: 30_000 });
+
+    return NextResponse.json({ scenes });
+  } catch (error) {
+    console.error("Failed to restore script version:", error);
+    return NextResponse.json(
+      { error: "버전 복원에 실패했습니다." },
+      { status: 500 }
+    );
+  }
+}
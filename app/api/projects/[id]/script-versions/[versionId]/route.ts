@@ -0,0 +1,55 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+
+type Params = Promise<{ id: string; versionId: string }>;
+
+/**
+ * GET /api/projects/[id]/script-versions/[versionId]
+ * 대본 버전 조회 (씬 스냅샷 포함)
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId, versionId } = await params;
+
+    // 권한 확인
+    const canView = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.VIEWER
+    );
+
+    if (!canView) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const version = await prisma.scriptVersion.findFirst({
+      where: { id: versionId, projectId },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "버전을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(version);
+  } catch (error) {
+    console.error("Failed to fetch script version:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
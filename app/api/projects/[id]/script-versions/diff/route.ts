@@ -0,0 +1,84 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { diffVersionScenes, parseVersionScenes } from "@/lib/video/script-versions";
+
+// Zod 스키마: 비교할 두 버전 ID
+const diffQuerySchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+});
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * GET /api/projects/[id]/script-versions/diff?from=<versionId>&to=<versionId>
+ * 두 대본 버전의 씬 단위 비교
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    // 권한 확인
+    const canView = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.VIEWER
+    );
+
+    if (!canView) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = diffQuerySchema.parse({
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    });
+
+    const versions = await prisma.scriptVersion.findMany({
+      where: { projectId, id: { in: [query.from, query.to] } },
+      select: { id: true, version: true, source: true, description: true, createdAt: true, scenes: true },
+    });
+
+    const from = versions.find((version) => version.id === query.from);
+    const to = versions.find((version) => version.id === query.to);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "버전을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { scenes: fromScenes, ...fromVersion } = from;
+    const { scenes: toScenes, ...toVersion } = to;
+
+    return NextResponse.json({
+      from: fromVersion,
+      to: toVersion,
+      scenes: diffVersionScenes(parseVersionScenes(fromScenes), parseVersionScenes(toScenes)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to diff script versions:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { check, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { NextResponse } from "next/server";
+import { parseVersionScenes } from "@/lib/video/script-versions";
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * GET /api/projects/[id]/script-versions
+ * 대본 버전 목록 (최신순, 씬 내용 제외)
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+
+    // 권한 확인
+    const canView = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      projectId,
+      RELATIONS.VIEWER
+    );
+
+    if (!canView) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await prisma.scriptVersion.findMany({
+      where: { projectId },
+      orderBy: { version: "desc" },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    });
+
+    return NextResponse.json({
+      versions: versions.map(({ scenes, ...version }) => ({
+        ...version,
+        sceneCount: parseVersionScenes(scenes).length,
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch script versions:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { check, grant, organizationSubject, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import { inngest } from "@/lib/inngest/client";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  resolveScriptLanguage,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+  SCRIPT_LANGUAGES,
+  scriptLanguageSchema,
+} from "@/lib/video/languages";
+
+// Zod 스키마: 번역 버전 생성
+const translateProjectSchema = z.object({
+  languages: z
+    .array(scriptLanguageSchema)
+    .min(1)
+    .max(SCRIPT_LANGUAGES.length - 1)
+    .refine((languages) => new Set(languages).size === languages.length, {
+      message: "언어가 중복되었습니다.",
+    }),
+});
+
+type Params = Promise<{ id: string }>;
+
+/**
+ * POST /api/projects/[id]/translate
+ * 다국어 버전 생성
+ *
+ * 언어별로 프로젝트를 복제하고 (sourceProjectId로 원본과 연결)
+ * projectTranslator가 대본 번역 → 배경 복제 → TTS/아바타 재생성을 진행한다.
+ */
+export async function POST(request: Request, { params }: { params: Params }) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    // 권한 확인 (editor 이상)
+    const canEdit = await check(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      id,
+      RELATIONS.EDITOR
+    );
+
+    if (!canEdit) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const body = await request.json();
+    const { languages } = translateProjectSchema.parse(body);
+
+    const source = await prisma.project.findUnique({
+      where: { id },
+      include: { _count: { select: { scenes: true } } },
+    });
+
+    if (!source) {
+      return new Response("Not Found", { status: 404 });
+    }
+
+    // 번역본은 원본 조직에 만들어지므로 현재 조직의 프로젝트만 허용
+    // (다른 조직 프로젝트에 공유받은 editor 권한만으로 그 조직에 프로젝트를 만들 수 없음)
+    if (source.organizationId !== session.user.organizationId) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    if (source._count.scenes === 0) {
+      return NextResponse.json(
+        { error: "씬이 없습니다. 먼저 스크립트를 생성해주세요." },
+        { status: 400 }
+      );
+    }
+
+    const sourceLanguage = resolveScriptLanguage(source.settings);
+    if (languages.includes(sourceLanguage)) {
+      return NextResponse.json(
+        { error: "원본과 같은 언어로는 번역할 수 없습니다." },
+        { status: 400 }
+      );
+    }
+
+    // 언어 버전은 모두 최초 원본에 연결 (번역본을 다시 번역해도 한 그룹)
+    const rootProjectId = source.sourceProjectId ?? source.id;
+    const siblings = await prisma.project.findMany({
+      where: {
+        OR: [{ id: rootProjectId }, { sourceProjectId: rootProjectId }],
+        deletedAt: null,
+      },
+      select: { settings: true },
+    });
+    const existingLanguages = new Set(
+      siblings.map((sibling) => resolveScriptLanguage(sibling.settings))
+    );
+    const duplicated = languages.filter((language) => existingLanguages.has(language));
+
+    if (duplicated.length > 0) {
+      return NextResponse.json(
+        {
+          error: `이미 ${duplicated
+            .map((language) => SCRIPT_LANGUAGE_DEFINITIONS[language].label)
+            .join(", ")} 버전이 있습니다.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const sourceSettings = (source.settings as Prisma.JsonObject | null) ?? {};
+
+    const variants = await Promise.all(
+      languages.map(async (language) => {
+        const project = await prisma.project.create({
+          data: {
+            title: `${source.title} [${SCRIPT_LANGUAGE_DEFINITIONS[language].nativeName}]`,
+            description: source.description,
+            duration: source.duration,
+            organizationId: source.organizationId,
+            createdById: session.user.id,
+            sourceProjectId: rootProjectId,
+            avatarDesignMode: source.avatarDesignMode,
+            avatarDesignSettings: source.avatarDesignSettings ?? {},
+            settings: { ...sourceSettings, language },
+            metadata: { translatedFromProjectId: source.id },
+            status: "translating",
+          },
+        });
+
+        // 생성자에게 owner 권한 부여
+        await grant(
+          session.user.id,
+          NAMESPACES.PROJECT,
+          project.id,
+          RELATIONS.OWNER
+        );
+
+        // 조직 권한이 프로젝트에 상속되도록 상위 조직 연결
+        await grant(
+          organizationSubject(project.organizationId),
+          NAMESPACES.PROJECT,
+          project.id,
+          RELATIONS.PARENT
+        );
+
+        return { id: project.id, title: project.title, language };
+      })
+    );
+
+    try {
+      await inngest.send(
+        variants.map((variant) => ({
+          name: "project/translation.requested",
+          data: {
+            projectId: variant.id,
+            sourceProjectId: source.id,
+            userId: session.user.id,
+          },
+        }))
+      );
+    } catch (inngestError) {
+      console.error("Inngest connection failed:", inngestError);
+      return NextResponse.json(
+        {
+          error: "Inngest 서버에 연결할 수 없습니다. 'npm run inngest:dev'를 실행해주세요.",
+          details: inngestError instanceof Error ? inngestError.message : String(inngestError),
+        },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({ projects: variants }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error("Failed to translate project:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
@@ -1,18 +1,56 @@
 import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
-import { grant, NAMESPACES, RELATIONS } from "@/lib/permissions";
+import {
+  grant,
+  listAccessibleResources,
+  organizationSubject,
+  NAMESPACES,
+  RELATIONS,
+} from "@/lib/permissions";
 import { NextResponse } from "next/server";
 import { z } from "zod";
+import {
+  MAX_VIDEO_DURATION,
+  MIN_VIDEO_DURATION,
+  planScenes,
+  ScenePlanError,
+  scenePlanOptionsSchema,
+} from "@/lib/video/scene-plan";
+import { DEFAULT_SCRIPT_LANGUAGE, scriptLanguageSchema } from "@/lib/video/languages";
+import { aspectRatioSchema, DEFAULT_ASPECT_RATIO } from "@/lib/video/aspect-ratio";
+import { getPosterLinks } from "@/lib/video/thumbnails";
 
 // Zod 스키마: 프로젝트 생성
-const createProjectSchema = z.object({
-  title: z.string().min(1).max(200),
-  description: z.string().optional(),
-  duration: z.number().int().positive().default(30), // 영상 길이 (초 단위)
-  avatarDesignMode: z.enum(["preset", "custom"]).default("preset"),
-  avatarDesignSettings: z.record(z.any()).optional(),
-  settings: z.record(z.any()).optional(),
-});
+const createProjectSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    description: z.string().optional(),
+    duration: z
+      .number()
+      .int()
+      .min(MIN_VIDEO_DURATION)
+      .max(MAX_VIDEO_DURATION)
+      .default(30), // 영상 길이 (초 단위)
+    scenePlan: scenePlanOptionsSchema.optional(), // 씬 개수/씬 길이 범위 (settings.scenePlan에 저장)
+    language: scriptLanguageSchema.default(DEFAULT_SCRIPT_LANGUAGE), // 대본/TTS 언어 (settings.language에 저장)
+    aspectRatio: aspectRatioSchema.default(DEFAULT_ASPECT_RATIO), // 화면 비율 (settings.aspectRatio에 저장)
+    avatarDesignMode: z.enum(["preset", "custom"]).default("preset"),
+    avatarDesignSettings: z.record(z.any()).optional(),
+    settings: z.record(z.any()).optional(),
+  })
+  .superRefine((data, ctx) => {
+    // 목표 길이와 씬 옵션으로 실제 씬 구성이 가능한지 검증
+    try {
+      planScenes(data.duration, data.scenePlan);
+    } catch (error) {
+      if (!(error instanceof ScenePlanError)) throw error;
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error.message,
+        path: ["scenePlan"],
+      });
+    }
+  });
 
 /**
  * GET /api/projects
@@ -26,9 +64,16 @@ export async function GET() {
   }
 
   try {
-    // 사용자가 속한 조직의 프로젝트 조회
+    // 현재 조직 프로젝트 중 viewer 이상 권한이 있는 프로젝트 (직접/팀/조직 권한 상속)
+    const accessibleProjectIds = await listAccessibleResources(
+      session.user.id,
+      NAMESPACES.PROJECT,
+      RELATIONS.VIEWER
+    );
+
     const projects = await prisma.project.findMany({
       where: {
+        id: { in: accessibleProjectIds },
         organizationId: session.user.organizationId,
       },
       include: {
@@ -51,7 +96,27 @@ export async function GET() {
       },
     });
 
-    return NextResponse.json(projects);
+    // 대표 영상의 포스터/미리보기 (최종 영상 Asset metadata)
+    const finalVideos = await prisma.asset.findMany({
+      where: {
+        id: {
+          in: projects
+            .map((project) => project.finalVideoAssetId)
+            .filter((id): id is string => !!id),
+        },
+      },
+      select: { id: true, metadata: true },
+    });
+    const finalVideoMetadata = new Map(finalVideos.map((asset) => [asset.id, asset.metadata]));
+
+    return NextResponse.json(
+      projects.map((project) => ({
+        ...project,
+        ...getPosterLinks(
+          project.finalVideoAssetId ? finalVideoMetadata.get(project.finalVideoAssetId) : null
+        ),
+      }))
+    );
   } catch (error) {
     console.error("Failed to fetch projects:", error);
     return new Response("Internal Server Error", { status: 500 });
@@ -86,7 +151,12 @@ export async function POST(request: Request) {
         createdById: session.user.id,
         avatarDesignMode: validated.avatarDesignMode,
         avatarDesignSettings: validated.avatarDesignSettings || {},
-        settings: validated.settings || {},
+        settings: {
+          ...(validated.settings || {}),
+          ...(validated.scenePlan && { scenePlan: validated.scenePlan }),
+          language: validated.language,
+          aspectRatio: validated.aspectRatio,
+        },
         status: "draft",
       },
     });
@@ -105,6 +175,14 @@ export async function POST(request: Request) {
       RELATIONS.OWNER
     );
 
+    // 조직 권한이 프로젝트에 상속되도록 상위 조직 연결
+    await grant(
+      organizationSubject(project.organizationId),
+      NAMESPACES.PROJECT,
+      project.id,
+      RELATIONS.PARENT
+    );
+
     return NextResponse.json(project, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,17 @@
+import { createLocalFileResponse } from "@/lib/storage/local";
+
+type Params = Promise<{ path: string[] }>;
+
+/**
+ * GET /api/storage/[...path]
+ * 로컬 디스크 Storage 파일 제공 (STORAGE_DRIVER=local 또는 조직 설정 storage: "local")
+ *
+ * Supabase 공개 버킷과 같이 인증 없이 접근 가능 (D-ID 등 외부 서비스가 URL로 가져감).
+ * 서명 URL은 /api/storage/signed/[...path]에서 제공한다.
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  const { path: segments } = await params;
+  const storagePath = segments.map(decodeURIComponent).join("/");
+
+  return createLocalFileResponse(request, storagePath, "public, max-age=3600");
+}
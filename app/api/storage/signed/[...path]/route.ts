@@ -0,0 +1,23 @@
+import { createLocalFileResponse, verifyLocalSignature } from "@/lib/storage/local";
+
+type Params = Promise<{ path: string[] }>;
+
+/**
+ * GET /api/storage/signed/[...path]
+ * 로컬 디스크 Storage 서명 URL (createSignedUrl)
+ *
+ * expires/signature 쿼리가 없거나 맞지 않으면 항상 거부한다.
+ */
+export async function GET(request: Request, { params }: { params: Params }) {
+  const { path: segments } = await params;
+  const storagePath = segments.map(decodeURIComponent).join("/");
+  const { searchParams } = new URL(request.url);
+
+  const expires = searchParams.get("expires") ?? "";
+  const signature = searchParams.get("signature") ?? "";
+  if (!verifyLocalSignature(storagePath, expires, signature)) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  return createLocalFileResponse(request, storagePath, "private, no-store");
+}
@@ -1,17 +1,50 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { useEffect, useState, Suspense } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ORGANIZATION_ROLE_LABELS,
+  getInvitationJoinPath,
+  type OrganizationRole,
+} from "@/lib/organizations/invitations";
 
-export default function SignUpPage() {
+interface InvitationInfo {
+  email: string;
+  role: OrganizationRole;
+  organizationName: string;
+  existingUser: boolean;
+}
+
+function SignUpForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const invitationToken = searchParams.get("invitation");
+
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [invitation, setInvitation] = useState<InvitationInfo | null>(null);
+
+  // 초대 수락 링크로 들어온 경우 초대 정보 확인
+  useEffect(() => {
+    if (!invitationToken) return;
+
+    fetch(`/api/auth/invitations/${encodeURIComponent(invitationToken)}`)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || "초대 정보를 확인할 수 없습니다");
+        }
+        setInvitation(result.invitation);
+      })
+      .catch((error: unknown) => {
+        setError(error instanceof Error ? error.message : "초대 정보를 확인할 수 없습니다");
+      });
+  }, [invitationToken]);
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
@@ -24,6 +57,7 @@ export default function SignUpPage() {
       password: formData.get("password") as string,
       name: formData.get("name") as string,
       organizationName: formData.get("organizationName") as string || undefined,
+      invitationToken: invitationToken || undefined,
     };
 
     try {
@@ -56,10 +90,25 @@ export default function SignUpPage() {
             회원가입
           </CardTitle>
           <CardDescription className="text-center">
-            Gini AI 계정을 생성하세요
+            {invitation
+              ? `${invitation.organizationName}에 ${ORGANIZATION_ROLE_LABELS[invitation.role] ?? invitation.role}(으)로 초대되었습니다`
+              : "Gini AI 계정을 생성하세요"}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {/* 이미 계정이 있으면 로그인 후 수락 */}
+          {invitation?.existingUser && invitationToken && (
+            <div className="mb-4 bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-md text-sm">
+              이미 가입된 이메일입니다.{" "}
+              <Link
+                href={getInvitationJoinPath(invitationToken)}
+                className="font-semibold underline"
+              >
+                로그인하고 초대 수락하기
+              </Link>
+            </div>
+          )}
+
           <form onSubmit={onSubmit} className="space-y-4">
             {/* 이름 */}
             <div className="space-y-2">
@@ -84,6 +133,9 @@ export default function SignUpPage() {
                 placeholder="hong@example.com"
                 required
                 disabled={isLoading}
+                defaultValue={invitation?.email}
+                key={invitation?.email}
+                readOnly={!!invitation}
               />
             </div>
 
@@ -104,22 +156,24 @@ export default function SignUpPage() {
               </p>
             </div>
 
-            {/* 조직 이름 (선택) */}
-            <div className="space-y-2">
-              <Label htmlFor="organizationName">
-                조직 이름 <span className="text-gray-400">(선택)</span>
-              </Label>
-              <Input
-                id="organizationName"
-                name="organizationName"
-                type="text"
-                placeholder="예: Acme Corporation"
-                disabled={isLoading}
-              />
-              <p className="text-xs text-gray-500">
-                비워두면 기본 조직이 할당됩니다
-              </p>
-            </div>
+            {/* 조직 이름 (선택, 초대 가입 시 초대한 조직에 합류) */}
+            {!invitationToken && (
+              <div className="space-y-2">
+                <Label htmlFor="organizationName">
+                  조직 이름 <span className="text-gray-400">(선택)</span>
+                </Label>
+                <Input
+                  id="organizationName"
+                  name="organizationName"
+                  type="text"
+                  placeholder="예: Acme Corporation"
+                  disabled={isLoading}
+                />
+                <p className="text-xs text-gray-500">
+                  비워두면 기본 조직이 할당됩니다
+                </p>
+              </div>
+            )}
 
             {/* 에러 메시지 */}
             {error && (
@@ -132,7 +186,7 @@ export default function SignUpPage() {
             <Button
               type="submit"
               className="w-full"
-              disabled={isLoading}
+              disabled={isLoading || (!!invitationToken && (!invitation || invitation.existingUser))}
             >
               {isLoading ? "처리 중..." : "회원가입"}
             </Button>
@@ -153,3 +207,11 @@ export default function SignUpPage() {
     </div>
   );
 }
+
+export default function SignUpPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center">로딩 중...</div>}>
+      <SignUpForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,51 @@
+import { auth } from "@/auth";
+import { isOrganizationOwner } from "@/lib/permissions";
+import { redirect } from "next/navigation";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lock } from "lucide-react";
+import { BrandKitSettings } from "@/components/brand/brand-kit-settings";
+import { DashboardNavbar } from "@/components/dashboard/navbar";
+
+export default async function BrandKitPage() {
+  const session = await auth();
+  if (!session?.user) redirect("/auth/signin");
+
+  if (!(await isOrganizationOwner(session.user))) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card className="max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-5 w-5" />
+              접근 권한 없음
+            </CardTitle>
+            <CardDescription>
+              이 페이지는 관리자만 접근할 수 있습니다.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardNavbar userEmail={session.user.email || ""} userRole={session.user.role || "member"} />
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0">
+          <div className="space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">브랜드 키트</h1>
+              <p className="text-muted-foreground mt-1">
+                조직의 모든 영상에 인트로/아웃트로와 로고 워터마크를 자동으로 적용합니다
+              </p>
+            </div>
+
+            <BrandKitSettings />
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { auth } from "@/auth";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Building2 } from "lucide-react";
+import { AcceptInvitation } from "@/components/organization/accept-invitation";
+import { findPendingInvitation } from "@/lib/organizations/invitation-library";
+import { ORGANIZATION_ROLE_LABELS, type OrganizationRole } from "@/lib/organizations/invitations";
+
+type Params = Promise<{ token: string }>;
+
+/**
+ * 기존 계정으로 조직 초대 수락
+ */
+export default async function InvitationPage({ params }: { params: Params }) {
+  const { token } = await params;
+  const session = await auth();
+  if (!session?.user) redirect("/auth/signin");
+
+  const invitation = await findPendingInvitation({ token });
+  const emailMatches = invitation?.email === session.user.email?.toLowerCase();
+
+  return (
+    <div className="flex items-center justify-center min-h-[60vh] px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            조직 초대
+          </CardTitle>
+          <CardDescription>
+            {!invitation
+              ? "유효하지 않거나 만료된 초대입니다."
+              : !emailMatches
+                ? `${invitation.email} 계정으로 로그인해야 수락할 수 있습니다.`
+                : `${invitation.organization.name}에 ${
+                    ORGANIZATION_ROLE_LABELS[invitation.role as OrganizationRole] ?? invitation.role
+                  }(으)로 초대되었습니다.`}
+          </CardDescription>
+        </CardHeader>
+        {invitation && emailMatches && (
+          <CardContent>
+            <AcceptInvitation token={token} />
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
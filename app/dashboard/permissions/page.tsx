@@ -1,17 +1,19 @@
 import { auth } from "@/auth";
 import { redirect } from "next/navigation";
 import { prisma } from "@/lib/prisma";
+import { isOrganizationOwner } from "@/lib/permissions";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Shield, Users, Lock } from "lucide-react";
 import { PermissionManager } from "@/components/permissions/permission-manager";
+import { TeamManager } from "@/components/permissions/team-manager";
+import { AccessExplainer } from "@/components/permissions/access-explainer";
 import { DashboardNavbar } from "@/components/dashboard/navbar";
 
 export default async function PermissionsPage() {
   const session = await auth();
   if (!session?.user) redirect("/auth/signin");
 
-  // Admin만 접근 가능
-  if (session.user.role !== "admin") {
+  if (!(await isOrganizationOwner(session.user))) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
         <Card className="max-w-md">
@@ -29,22 +31,51 @@ export default async function PermissionsPage() {
     );
   }
 
-  // 조직의 모든 사용자 조회
-  const users = await prisma.user.findMany({
+  // 조직의 모든 구성원 조회 (조직별 역할은 멤버십 기준)
+  const memberships = await prisma.organizationMembership.findMany({
     where: { organizationId: session.user.organizationId },
+    include: { user: true },
     orderBy: { createdAt: "desc" },
   });
+  const users = memberships.map((m) => ({ ...m.user, role: m.role }));
 
   // 사용자별 권한 튜플 조회
   const relationTuples = await prisma.relationTuple.findMany({
     where: {
+      subjectType: "user",
       subjectId: { in: users.map((u) => u.id) },
       namespace: "project",
     },
   });
 
+  // 조직의 팀 + 팀 구성원 튜플 (team:{id}#member@user:{id})
+  const teams = await prisma.team.findMany({
+    where: { organizationId: session.user.organizationId },
+    orderBy: { name: "asc" },
+  });
+  const teamMap = new Map(teams.map((t) => [t.id, t]));
+  const teamMemberTuples = await prisma.relationTuple.findMany({
+    where: {
+      namespace: "team",
+      objectId: { in: teams.map((t) => t.id) },
+      relation: "member",
+      subjectType: "user",
+    },
+  });
+
+  // 팀(team#member)에 부여된 프로젝트 권한 튜플
+  const teamRelationTuples = await prisma.relationTuple.findMany({
+    where: {
+      subjectType: "team",
+      subjectId: { in: teams.map((t) => t.id) },
+      namespace: "project",
+    },
+  });
+
   // 프로젝트 ID 수집
-  const projectIds = [...new Set(relationTuples.map((rt) => rt.objectId))];
+  const projectIds = [
+    ...new Set([...relationTuples, ...teamRelationTuples].map((rt) => rt.objectId)),
+  ];
   const relationProjects = await prisma.project.findMany({
     where: { id: { in: projectIds } },
     select: { id: true, title: true },
@@ -65,17 +96,53 @@ export default async function PermissionsPage() {
   });
   const creatorMap = new Map(creators.map((c) => [c.id, c]));
 
-  // 프로젝트별 권한 튜플 조회
+  // 프로젝트별 권한 튜플 조회 (상위 조직 연결 튜플 제외)
   const projectRelationTuples = await prisma.relationTuple.findMany({
     where: {
       objectId: { in: projects.map((p) => p.id) },
       namespace: "project",
+      subjectType: { in: ["user", "team"] },
+    },
+  });
+
+  // 조직 전체 권한 튜플 (모든 프로젝트에 상속)
+  const organizationRelationTuples = await prisma.relationTuple.findMany({
+    where: {
+      objectId: session.user.organizationId,
+      namespace: "organization",
+      subjectType: { in: ["user", "team"] },
     },
   });
 
   // 사용자 정보 Map
   const userMap = new Map(users.map((u) => [u.id, u]));
 
+  // 권한 튜플의 주체(사용자/팀) 표시 정보
+  const toSubjectPermission = (rt: (typeof projectRelationTuples)[number]) => {
+    if (rt.subjectType === "team") {
+      const team = teamMap.get(rt.subjectId);
+      const memberCount = teamMemberTuples.filter(
+        (member) => member.objectId === rt.subjectId
+      ).length;
+      return {
+        subjectType: "team" as const,
+        subjectId: rt.subjectId,
+        subjectName: team?.name || "알 수 없음",
+        subjectDetail: `팀 · ${memberCount}명`,
+        relation: rt.relation,
+      };
+    }
+
+    const user = userMap.get(rt.subjectId);
+    return {
+      subjectType: "user" as const,
+      subjectId: rt.subjectId,
+      subjectName: user?.name || user?.email || "알 수 없음",
+      subjectDetail: user?.email || "알 수 없음",
+      relation: rt.relation,
+    };
+  };
+
   // 권한 정의 조회
   const relationDefinitions = await prisma.relationDefinition.findMany({
     where: { namespace: "project" },
@@ -85,7 +152,14 @@ export default async function PermissionsPage() {
   // 통계 계산
   const totalUsers = users.length;
   const totalProjects = projects.length;
-  const totalPermissions = relationTuples.length + projectRelationTuples.length;
+  const totalPermissions = new Set(
+    [
+      ...relationTuples,
+      ...teamRelationTuples,
+      ...projectRelationTuples,
+      ...organizationRelationTuples,
+    ].map((rt) => rt.id)
+  ).size;
 
   return (
     <div className="min-h-screen bg-background">
@@ -175,24 +249,48 @@ export default async function PermissionsPage() {
         </CardContent>
       </Card>
 
+      {/* 팀 관리 */}
+      <TeamManager
+        teams={teams.map((t) => ({
+          id: t.id,
+          name: t.name,
+          description: t.description,
+          memberIds: teamMemberTuples
+            .filter((rt) => rt.objectId === t.id)
+            .map((rt) => rt.subjectId),
+        }))}
+        users={users.map((u) => ({ id: u.id, name: u.name || u.email, email: u.email }))}
+      />
+
       {/* 권한 관리 컴포넌트 */}
       <PermissionManager
-        users={users.map((u) => ({
-          id: u.id,
-          name: u.name || u.email,
-          email: u.email,
-          role: u.role,
-          permissions: relationTuples
+        users={users.map((u) => {
+          // 소속 팀을 통해 받은 권한 (팀 단위로만 해제 가능)
+          const userTeamIds = teamMemberTuples
             .filter((rt) => rt.subjectId === u.id)
-            .map((rt) => {
+            .map((rt) => rt.objectId);
+
+          return {
+            id: u.id,
+            name: u.name || u.email,
+            email: u.email,
+            role: u.role,
+            permissions: [
+              ...relationTuples.filter((rt) => rt.subjectId === u.id),
+              ...teamRelationTuples.filter((rt) => userTeamIds.includes(rt.subjectId)),
+            ].map((rt) => {
               const project = projectMap.get(rt.objectId);
               return {
                 projectId: rt.objectId,
                 projectTitle: project?.title || "알 수 없음",
                 relation: rt.relation,
+                teamName: rt.subjectType === "team" ? teamMap.get(rt.subjectId)?.name : undefined,
               };
             }),
-        }))}
+          };
+        })}
+        teams={teams.map((t) => ({ id: t.id, name: t.name }))}
+        organizationPermissions={organizationRelationTuples.map(toSubjectPermission)}
         projects={projects.map((p) => {
           const creator = creatorMap.get(p.createdById);
           return {
@@ -201,18 +299,16 @@ export default async function PermissionsPage() {
             createdBy: creator || { id: p.createdById, name: null, email: "알 수 없음" },
             permissions: projectRelationTuples
               .filter((rt) => rt.objectId === p.id)
-              .map((rt) => {
-                const user = userMap.get(rt.subjectId);
-                return {
-                  userId: rt.subjectId,
-                  userName: user?.name || user?.email || "알 수 없음",
-                  userEmail: user?.email || "알 수 없음",
-                  relation: rt.relation,
-                };
-              }),
+              .map(toSubjectPermission),
           };
         })}
       />
+
+      {/* 접근 권한 확인 */}
+      <AccessExplainer
+        users={users.map((u) => ({ id: u.id, name: u.name || u.email, email: u.email }))}
+        projects={projects.map((p) => ({ id: p.id, title: p.title }))}
+      />
           </div>
         </div>
       </main>
@@ -7,6 +7,11 @@ import Credentials from "next-auth/providers/credentials";
 import { compare } from "bcryptjs";
 import { prisma } from "@/lib/prisma";
 import { authConfig } from "@/auth.config";
+import {
+  findPendingInvitation,
+  markInvitationAccepted,
+} from "@/lib/organizations/invitation-library";
+import { getMembership, resolveActiveMembership } from "@/lib/organizations/membership-library";
 import type { User, Account, Profile } from "next-auth";
 import type { JWT } from "next-auth/jwt";
 import type { Session } from "next-auth";
@@ -96,10 +101,32 @@ export const config = {
         include: { organization: true },
       });
 
-      if (!existingUser) {
+      // 신규 사용자: 대기 중인 초대가 있으면 초대한 조직에 합류
+      const invitation = existingUser
+        ? null
+        : await findPendingInvitation({ email: user.email });
+
+      if (invitation) {
+        await prisma.$transaction(async (tx) => {
+          await tx.user.create({
+            data: {
+              email: user.email!,
+              name: user.name,
+              image: user.image,
+              role: invitation.role,
+              organizationId: invitation.organizationId,
+              emailVerified: new Date(),
+              memberships: {
+                create: { organizationId: invitation.organizationId, role: invitation.role },
+              },
+            },
+          });
+          await markInvitationAccepted(tx, invitation.id);
+        });
+      } else if (!existingUser) {
         // 신규 사용자: 개인 조직 자동 생성
         const slug = user.email?.split("@")[0] || `user-${Date.now()}`;
-        await prisma.organization.create({
+        const organization = await prisma.organization.create({
           data: {
             name: `${user.name || user.email}'s Organization`,
             slug: slug,
@@ -113,26 +140,55 @@ export const config = {
               },
             },
           },
+          include: { users: { select: { id: true } } },
+        });
+        await prisma.organizationMembership.create({
+          data: {
+            userId: organization.users[0].id,
+            organizationId: organization.id,
+            role: "admin",
+          },
         });
       }
 
       return true;
     },
-    async jwt({ token, user }: { token: JWT; user?: User }) {
-      // 초기 로그인 시 사용자 정보를 토큰에 추가
-      if (user) {
-        const dbUser = await prisma.user.findUnique({
-          where: { id: user.id },
-          include: { organization: true },
-        });
+    async jwt({
+      token,
+      user,
+      trigger,
+    }: {
+      token: JWT;
+      user?: User;
+      trigger?: "signIn" | "signUp" | "update";
+    }) {
+      const userId = user?.id ?? (token.id as string | undefined);
+      if (!userId) {
+        return token;
+      }
+
+      // 로그인/조직 전환이 아닌 요청: 역할 변경/강등이 바로 반영되도록 현재 조직의 역할을 DB에서 다시 읽음
+      if (!user && trigger !== "update" && token.organizationId) {
+        const current = await getMembership(userId, token.organizationId as string);
 
-        if (dbUser) {
-          token.id = dbUser.id;
-          token.role = dbUser.role;
-          token.organizationId = dbUser.organizationId;
-          token.organizationSlug = dbUser.organization.slug;
+        if (current) {
+          token.role = current.role;
+          return token;
         }
       }
+
+      // 초기 로그인, 조직 전환(unstable_update), 현재 조직에서 제거된 경우:
+      // 현재 조직과 조직별 역할을 다시 결정 (남은 멤버십이 없으면 세션 무효화)
+      const membership = await resolveActiveMembership(userId);
+
+      if (!membership) {
+        return null;
+      }
+
+      token.id = userId;
+      token.role = membership.role;
+      token.organizationId = membership.organizationId;
+      token.organizationSlug = membership.organizationSlug;
       return token;
     },
     async session({ session, token }: { session: Session; token: JWT }) {
@@ -153,4 +209,4 @@ export const config = {
   debug: false, // 개발 환경에서도 debug 로그 비활성화
 };
 
-export const { handlers, auth, signIn, signOut } = NextAuth(config);
+export const { handlers, auth, signIn, signOut, unstable_update } = NextAuth(config);
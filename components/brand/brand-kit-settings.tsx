@@ -0,0 +1,419 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Film, Palette, Save, Stamp, Trash2, Upload } from "lucide-react";
+import {
+  BRAND_ASSET_LABELS,
+  BRAND_ASSET_SLOTS,
+  BRAND_ASSET_TYPES,
+  DEFAULT_BRAND_KIT,
+  WATERMARK_POSITIONS,
+  type BrandAssetSlot,
+  type BrandKit,
+  type WatermarkPosition,
+} from "@/lib/video/brand-kit";
+
+interface BrandAsset {
+  id: string;
+  name: string;
+  url: string;
+}
+
+const WATERMARK_POSITION_LABELS: Record<WatermarkPosition, string> = {
+  "top-left": "좌상단",
+  "top-right": "우상단",
+  "bottom-left": "좌하단",
+  "bottom-right": "우하단",
+};
+
+const OPACITY_OPTIONS = [0.3, 0.5, 0.7, 0.85, 1];
+const SCALE_OPTIONS = [0.06, 0.08, 0.1, 0.14, 0.2];
+
+export function BrandKitSettings() {
+  const [brandKit, setBrandKit] = useState<BrandKit>(DEFAULT_BRAND_KIT);
+  const [assets, setAssets] = useState<Record<BrandAssetSlot, BrandAsset | null>>({
+    logo: null,
+    intro: null,
+    outro: null,
+  });
+  const [uploadingSlot, setUploadingSlot] = useState<BrandAssetSlot | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function loadBrandKit() {
+    try {
+      const response = await fetch("/api/brand-kit");
+      if (response.ok) {
+        const data = (await response.json()) as {
+          brandKit: BrandKit;
+          assets: Record<BrandAssetSlot, BrandAsset | null>;
+        };
+        setBrandKit(data.brandKit);
+        setAssets(data.assets);
+      }
+    } catch (error) {
+      console.error("Failed to load brand kit:", error);
+    }
+  }
+
+  useEffect(() => {
+    loadBrandKit();
+  }, []);
+
+  async function handleUpload(slot: BrandAssetSlot, e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploadingSlot(slot);
+    try {
+      const formData = new FormData();
+      formData.append("slot", slot);
+      formData.append("file", file);
+
+      const response = await fetch("/api/brand-kit/assets", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "브랜드 자산 업로드에 실패했습니다.");
+      }
+
+      await loadBrandKit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUploadingSlot(null);
+    }
+  }
+
+  async function handleDelete(slot: BrandAssetSlot) {
+    if (!confirm(`${BRAND_ASSET_LABELS[slot]}을(를) 삭제할까요? 다음 렌더링부터 적용됩니다.`)) return;
+
+    try {
+      const response = await fetch(`/api/brand-kit/assets/${slot}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "브랜드 자산 삭제에 실패했습니다.");
+      }
+
+      await loadBrandKit();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const response = await fetch("/api/brand-kit", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          colors: brandKit.colors,
+          fonts: brandKit.fonts,
+          watermark: brandKit.watermark,
+          cta: brandKit.cta,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "브랜드 키트 저장에 실패했습니다.");
+      }
+
+      alert("브랜드 키트가 저장되었습니다. 다음 렌더링부터 적용됩니다.");
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const updateSection = <K extends "colors" | "fonts" | "watermark" | "cta">(
+    section: K,
+    value: Partial<BrandKit[K]>
+  ) => setBrandKit({ ...brandKit, [section]: { ...brandKit[section], ...value } });
+
+  return (
+    <div className="space-y-6">
+      {/* 로고 / 인트로 / 아웃트로 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Film className="h-5 w-5" />
+            로고 및 인트로/아웃트로
+          </CardTitle>
+          <CardDescription>
+            인트로는 영상 맨 앞, 아웃트로는 맨 뒤에 자동으로 붙습니다. 로고는 워터마크와 CTA 카드에 사용됩니다
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {BRAND_ASSET_SLOTS.map((slot) => {
+            const asset = assets[slot];
+            return (
+              <div key={slot} className="border rounded-lg p-4 space-y-3">
+                <div className="text-sm font-medium">{BRAND_ASSET_LABELS[slot]}</div>
+                <div className="aspect-video bg-muted rounded flex items-center justify-center overflow-hidden">
+                  {!asset ? (
+                    <span className="text-xs text-muted-foreground">없음</span>
+                  ) : slot === "logo" ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={asset.url} alt={asset.name} className="max-h-full max-w-full object-contain" />
+                  ) : (
+                    <video src={asset.url} controls className="h-full w-full" />
+                  )}
+                </div>
+                <div className="flex justify-between gap-2">
+                  <Button variant="outline" size="sm" disabled={uploadingSlot !== null} asChild>
+                    <label className="cursor-pointer">
+                      <Upload className="h-4 w-4 mr-2" />
+                      {uploadingSlot === slot ? "업로드 중..." : asset ? "교체" : "업로드"}
+                      <input
+                        type="file"
+                        accept={[...BRAND_ASSET_TYPES[slot].extensions, ...BRAND_ASSET_TYPES[slot].mimeTypes].join(",")}
+                        onChange={(e) => handleUpload(slot, e)}
+                        disabled={uploadingSlot !== null}
+                        className="hidden"
+                      />
+                    </label>
+                  </Button>
+                  {asset && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(slot)} title="삭제">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* 색상 / 폰트 / CTA */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5" />
+            색상, 폰트, CTA 카드
+          </CardTitle>
+          <CardDescription>
+            아웃트로 클립이 없으면 CTA 문구로 마무리 카드를 만듭니다. 본문 폰트는 자막 기본 폰트로 쓰입니다
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {(
+              [
+                ["primary", "메인 색상 (CTA 배경)"],
+                ["secondary", "보조 색상"],
+                ["text", "텍스트 색상 (CTA 문구)"],
+              ] as const
+            ).map(([key, label]) => (
+              <div key={key}>
+                <Label htmlFor={`brand-color-${key}`} className="text-xs text-muted-foreground mb-1">
+                  {label}
+                </Label>
+                <div className="flex gap-2">
+                  <input
+                    id={`brand-color-${key}`}
+                    type="color"
+                    value={brandKit.colors[key]}
+                    onChange={(e) => updateSection("colors", { [key]: e.target.value.toUpperCase() })}
+                    className="h-9 w-12 rounded border cursor-pointer"
+                  />
+                  <Input value={brandKit.colors[key]} readOnly className="text-sm font-mono" />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="brand-font-heading" className="text-xs text-muted-foreground mb-1">
+                제목 폰트 (CTA 카드)
+              </Label>
+              <Input
+                id="brand-font-heading"
+                value={brandKit.fonts.heading}
+                onChange={(e) => updateSection("fonts", { heading: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor="brand-font-body" className="text-xs text-muted-foreground mb-1">
+                본문 폰트 (자막)
+              </Label>
+              <Input
+                id="brand-font-body"
+                value={brandKit.fonts.body}
+                onChange={(e) => updateSection("fonts", { body: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-3">
+              <Label htmlFor="brand-cta-text" className="text-xs text-muted-foreground mb-1">
+                CTA 문구
+              </Label>
+              <Input
+                id="brand-cta-text"
+                value={brandKit.cta.text}
+                maxLength={120}
+                placeholder="예: 지금 gini.ai에서 무료로 시작하세요"
+                onChange={(e) => updateSection("cta", { text: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+            <div>
+              <Label htmlFor="brand-cta-duration" className="text-xs text-muted-foreground mb-1">
+                CTA 길이 (초)
+              </Label>
+              <Input
+                id="brand-cta-duration"
+                type="number"
+                min={2}
+                max={10}
+                step={0.5}
+                value={brandKit.cta.durationSeconds}
+                onChange={(e) =>
+                  updateSection("cta", {
+                    durationSeconds: Math.min(10, Math.max(2, Number(e.target.value) || 2)),
+                  })
+                }
+                className="text-sm"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 워터마크 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Stamp className="h-5 w-5" />
+            워터마크
+          </CardTitle>
+          <CardDescription>
+            업로드한 로고를 본편(인트로/아웃트로 제외) 모서리에 표시합니다
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={brandKit.watermark.enabled}
+              onChange={(e) => updateSection("watermark", { enabled: e.target.checked })}
+              className="h-4 w-4"
+            />
+            로고 워터마크 표시
+            {!assets.logo && <span className="text-xs text-muted-foreground">(로고를 업로드해야 적용됩니다)</span>}
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="watermark-position" className="text-xs text-muted-foreground mb-1">
+                위치
+              </Label>
+              <Select
+                value={brandKit.watermark.position}
+                onValueChange={(value: WatermarkPosition) => updateSection("watermark", { position: value })}
+                disabled={!brandKit.watermark.enabled}
+              >
+                <SelectTrigger id="watermark-position" className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WATERMARK_POSITIONS.map((position) => (
+                    <SelectItem key={position} value={position}>
+                      {WATERMARK_POSITION_LABELS[position]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="watermark-opacity" className="text-xs text-muted-foreground mb-1">
+                불투명도
+              </Label>
+              <Select
+                value={String(brandKit.watermark.opacity)}
+                onValueChange={(value) => updateSection("watermark", { opacity: Number(value) })}
+                disabled={!brandKit.watermark.enabled}
+              >
+                <SelectTrigger id="watermark-opacity" className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(OPACITY_OPTIONS.includes(brandKit.watermark.opacity)
+                    ? OPACITY_OPTIONS
+                    : [...OPACITY_OPTIONS, brandKit.watermark.opacity].sort((a, b) => a - b)
+                  ).map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {Math.round(option * 100)}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="watermark-scale" className="text-xs text-muted-foreground mb-1">
+                크기 (화면 너비 대비)
+              </Label>
+              <Select
+                value={String(brandKit.watermark.scale)}
+                onValueChange={(value) => updateSection("watermark", { scale: Number(value) })}
+                disabled={!brandKit.watermark.enabled}
+              >
+                <SelectTrigger id="watermark-scale" className="text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(SCALE_OPTIONS.includes(brandKit.watermark.scale)
+                    ? SCALE_OPTIONS
+                    : [...SCALE_OPTIONS, brandKit.watermark.scale].sort((a, b) => a - b)
+                  ).map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {Math.round(option * 100)}%
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? "저장 중..." : "브랜드 키트 저장"}
+        </Button>
+      </div>
+    </div>
+  );
+}
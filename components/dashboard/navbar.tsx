@@ -1,5 +1,6 @@
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
+import { OrganizationSwitcher } from "@/components/dashboard/organization-switcher";
 
 interface NavbarProps {
   userEmail: string;
@@ -25,9 +26,20 @@ export function DashboardNavbar({ userEmail, userRole }: NavbarProps) {
                   <Link href="/dashboard/permissions">권한 관리</Link>
                 </Button>
               )}
+              {userRole === "admin" && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/dashboard/brand">브랜드 키트</Link>
+                </Button>
+              )}
+              {userRole === "admin" && (
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/dashboard/members">멤버 관리</Link>
+                </Button>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <OrganizationSwitcher />
             <span className="text-sm text-muted-foreground">
               {userEmail}
             </span>
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2 } from "lucide-react";
+import { ORGANIZATION_ROLE_LABELS, type OrganizationRole } from "@/lib/organizations/invitations";
+
+interface Membership {
+  organizationId: string;
+  name: string;
+  slug: string;
+  role: string;
+}
+
+/**
+ * 조직 전환 메뉴 (대시보드 상단)
+ *
+ * 전환하면 세션의 현재 조직이 바뀌므로 대시보드로 이동해 모든 화면을 새 조직 기준으로 다시 그린다.
+ */
+export function OrganizationSwitcher() {
+  const router = useRouter();
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string>("");
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/organization/memberships")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { currentOrganizationId: string; memberships: Membership[] } | null) => {
+        if (!data) return;
+        setMemberships(data.memberships);
+        setCurrentOrganizationId(data.currentOrganizationId);
+      })
+      .catch((error) => console.error("Failed to load organizations:", error));
+  }, []);
+
+  async function handleSwitch(organizationId: string) {
+    if (organizationId === currentOrganizationId) return;
+
+    setSwitching(true);
+    try {
+      const response = await fetch("/api/organization/switch", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ organizationId }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "조직 전환에 실패했습니다.");
+      }
+
+      setCurrentOrganizationId(organizationId);
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setSwitching(false);
+    }
+  }
+
+  // 조직이 하나뿐이면 이름만 표시
+  if (memberships.length <= 1) {
+    return memberships[0] ? (
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Building2 className="h-4 w-4" />
+        {memberships[0].name}
+      </span>
+    ) : null;
+  }
+
+  return (
+    <Select value={currentOrganizationId} onValueChange={handleSwitch} disabled={switching}>
+      <SelectTrigger className="w-[220px]">
+        <Building2 className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue placeholder="조직 선택" />
+      </SelectTrigger>
+      <SelectContent>
+        {memberships.map((membership) => (
+          <SelectItem key={membership.organizationId} value={membership.organizationId}>
+            {membership.name}
+            <span className="text-xs text-muted-foreground ml-2">
+              {ORGANIZATION_ROLE_LABELS[membership.role as OrganizationRole] ?? membership.role}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
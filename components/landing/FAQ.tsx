@@ -11,7 +11,7 @@ const faqs = [
   {
     question: "어떤 형식의 문서를 업로드할 수 있나요?",
     answer:
-      "현재 PDF 형식의 문서를 지원합니다. 프레젠테이션, 보고서, 제안서, 교육 자료 등 모든 종류의 PDF를 업로드할 수 있습니다. 향후 PowerPoint, Word 등 다양한 형식을 지원할 예정입니다.",
+      "PDF, PowerPoint(PPTX), Word(DOCX), Markdown, 텍스트 파일을 지원하며, 웹 페이지 URL을 입력해 바로 대본을 만들 수도 있습니다. PowerPoint는 발표자 노트와 슬라이드 이미지까지 함께 분석합니다.",
   },
   {
     question: "영상 제작에 얼마나 시간이 걸리나요?",
@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+
+interface AcceptInvitationProps {
+  token: string;
+}
+
+export function AcceptInvitation({ token }: AcceptInvitationProps) {
+  const router = useRouter();
+  const [accepting, setAccepting] = useState(false);
+
+  async function handleAccept() {
+    setAccepting(true);
+    try {
+      const response = await fetch(`/api/auth/invitations/${encodeURIComponent(token)}`, {
+        method: "POST",
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "초대 수락에 실패했습니다.");
+      }
+
+      router.push("/dashboard");
+      router.refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+      setAccepting(false);
+    }
+  }
+
+  return (
+    <Button onClick={handleAccept} disabled={accepting} className="w-full">
+      {accepting ? "수락 중..." : "초대 수락"}
+    </Button>
+  );
+}
@@ -0,0 +1,366 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Copy, Mail, Trash2, UserMinus, UserPlus } from "lucide-react";
+import {
+  INVITATION_STATUS_LABELS,
+  ORGANIZATION_ROLE_LABELS,
+  ORGANIZATION_ROLES,
+  getInvitationAcceptPath,
+  getInvitationStatus,
+  type OrganizationRole,
+} from "@/lib/organizations/invitations";
+
+interface Member {
+  id: string;
+  email: string;
+  name: string | null;
+  role: string;
+  lastSignInAt: string | null;
+  createdAt: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: string;
+  token: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  invitedBy: { id: string; name: string | null; email: string } | null;
+}
+
+interface MemberManagerProps {
+  currentUserId: string;
+}
+
+function getRoleLabel(role: string): string {
+  return ORGANIZATION_ROLE_LABELS[role as OrganizationRole] ?? role;
+}
+
+export function MemberManager({ currentUserId }: MemberManagerProps) {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>("member");
+  const [inviting, setInviting] = useState(false);
+  const [updatingMemberId, setUpdatingMemberId] = useState<string | null>(null);
+
+  async function loadMembers() {
+    try {
+      const [membersResponse, invitationsResponse] = await Promise.all([
+        fetch("/api/organization/members"),
+        fetch("/api/organization/invitations"),
+      ]);
+
+      if (membersResponse.ok) {
+        const data = (await membersResponse.json()) as { members: Member[] };
+        setMembers(data.members);
+      }
+      if (invitationsResponse.ok) {
+        const data = (await invitationsResponse.json()) as { invitations: Invitation[] };
+        setInvitations(data.invitations);
+      }
+    } catch (error) {
+      console.error("Failed to load members:", error);
+    }
+  }
+
+  useEffect(() => {
+    loadMembers();
+  }, []);
+
+  async function copyInvitationLink(token: string) {
+    const link = `${window.location.origin}${getInvitationAcceptPath(token)}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      alert("초대 링크를 복사했습니다.");
+    } catch {
+      prompt("초대 링크를 복사해 전달하세요.", link);
+    }
+  }
+
+  async function handleInvite(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setInviting(true);
+    try {
+      const response = await fetch("/api/organization/invitations", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email: inviteEmail, role: inviteRole }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "초대 생성에 실패했습니다.");
+      }
+
+      setInviteEmail("");
+      await loadMembers();
+      await copyInvitationLink((data as { invitation: Invitation }).invitation.token);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setInviting(false);
+    }
+  }
+
+  async function handleRevoke(invitation: Invitation) {
+    if (!confirm(`${invitation.email} 초대를 취소할까요? 기존 링크로는 가입할 수 없게 됩니다.`)) return;
+
+    try {
+      const response = await fetch(`/api/organization/invitations/${invitation.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "초대 취소에 실패했습니다.");
+      }
+
+      await loadMembers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function handleRoleChange(member: Member, role: OrganizationRole) {
+    setUpdatingMemberId(member.id);
+    try {
+      const response = await fetch(`/api/organization/members/${member.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "역할 변경에 실패했습니다.");
+      }
+
+      await loadMembers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  }
+
+  async function handleRemove(member: Member) {
+    if (
+      !confirm(
+        `${member.name || member.email}님을 조직에서 제거할까요?\n조직 프로젝트에 대한 권한이 모두 해제됩니다.`
+      )
+    )
+      return;
+
+    setUpdatingMemberId(member.id);
+    try {
+      const response = await fetch(`/api/organization/members/${member.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "구성원 제거에 실패했습니다.");
+      }
+
+      await loadMembers();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 초대 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            구성원 초대
+          </CardTitle>
+          <CardDescription>
+            초대 링크는 생성 후 클립보드에 복사됩니다. 링크로 가입하면 이 조직에 합류합니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-3">
+            <div className="space-y-2 flex-1 min-w-[240px]">
+              <Label htmlFor="inviteEmail">이메일</Label>
+              <Input
+                id="inviteEmail"
+                type="email"
+                placeholder="colleague@example.com"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+                disabled={inviting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>역할</Label>
+              <Select
+                value={inviteRole}
+                onValueChange={(value) => setInviteRole(value as OrganizationRole)}
+              >
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORGANIZATION_ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ORGANIZATION_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={inviting || !inviteEmail}>
+              <Mail className="h-4 w-4 mr-2" />
+              {inviting ? "초대 중..." : "초대하기"}
+            </Button>
+          </form>
+
+          {invitations.length > 0 && (
+            <div className="mt-6 space-y-2">
+              {invitations.map((invitation) => {
+                const status = getInvitationStatus(invitation);
+                return (
+                  <div
+                    key={invitation.id}
+                    className="flex items-center justify-between border rounded-lg p-3"
+                  >
+                    <div>
+                      <div className="font-medium">{invitation.email}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {getRoleLabel(invitation.role)} ·{" "}
+                        {invitation.invitedBy?.name || invitation.invitedBy?.email || "알 수 없음"} 초대 ·{" "}
+                        {new Date(invitation.expiresAt).toLocaleDateString("ko-KR")} 만료
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={status === "pending" ? "default" : "outline"}>
+                        {INVITATION_STATUS_LABELS[status]}
+                      </Badge>
+                      {status === "pending" && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => copyInvitationLink(invitation.token)}
+                            title="초대 링크 복사"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(invitation)}
+                            title="초대 취소"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 구성원 */}
+      <Card>
+        <CardHeader>
+          <CardTitle>구성원</CardTitle>
+          <CardDescription>
+            역할 변경은 해당 사용자의 다음 요청부터 바로 적용됩니다.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between border rounded-lg p-3"
+              >
+                <div>
+                  <div className="font-medium">
+                    {member.name || member.email}
+                    {member.id === currentUserId && (
+                      <span className="text-xs text-muted-foreground ml-2">(나)</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {member.email} · 마지막 로그인{" "}
+                    {member.lastSignInAt
+                      ? new Date(member.lastSignInAt).toLocaleDateString("ko-KR")
+                      : "없음"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member, value as OrganizationRole)}
+                    disabled={updatingMemberId === member.id}
+                  >
+                    <SelectTrigger className="w-[120px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ORGANIZATION_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {ORGANIZATION_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {member.id !== currentUserId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(member)}
+                      disabled={updatingMemberId === member.id}
+                      title="조직에서 제거"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search } from "lucide-react";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Project {
+  id: string;
+  title: string;
+}
+
+interface GrantPath {
+  via: "direct" | "team" | "admin";
+  namespace: string;
+  objectId: string;
+  relation: string;
+  teamId?: string;
+  teamName?: string;
+}
+
+interface Explanation {
+  allowed: boolean;
+  relation: string;
+  grantingRelations: string[];
+  paths: GrantPath[];
+}
+
+interface AccessExplainerProps {
+  users: User[];
+  projects: Project[];
+}
+
+function describePath(path: GrantPath): string {
+  if (path.via === "admin") {
+    return "조직 관리자 (조직 owner로 모든 프로젝트에 접근)";
+  }
+
+  const inherited = path.namespace === "organization";
+  const holder = path.via === "team" ? `팀 ${path.teamName ?? path.teamId}에` : "직접";
+  return inherited
+    ? `${holder} 부여된 조직 전체 ${path.relation} 권한 (프로젝트에 상속)`
+    : `${holder} 부여된 ${path.relation} 권한`;
+}
+
+/**
+ * 접근 권한 설명 (사용자가 프로젝트에 접근할 수 있는/없는 이유)
+ */
+export function AccessExplainer({ users, projects }: AccessExplainerProps) {
+  const [userId, setUserId] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [relation, setRelation] = useState("viewer");
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleExplain = async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ userId, projectId, relation });
+      const response = await fetch(`/api/permissions/explain?${params}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "권한 조회에 실패했습니다");
+      }
+
+      setExplanation(await response.json());
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : "권한 조회에 실패했습니다");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>접근 권한 확인</CardTitle>
+        <CardDescription>사용자가 프로젝트에 접근할 수 있는 이유를 확인합니다</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={userId}
+            onValueChange={(value) => {
+              setUserId(value);
+              setExplanation(null);
+            }}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="사용자 선택..." />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name} ({user.email})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={projectId}
+            onValueChange={(value) => {
+              setProjectId(value);
+              setExplanation(null);
+            }}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="프로젝트 선택..." />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={relation}
+            onValueChange={(value) => {
+              setRelation(value);
+              setExplanation(null);
+            }}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="viewer">viewer</SelectItem>
+              <SelectItem value="editor">editor</SelectItem>
+              <SelectItem value="owner">owner</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={handleExplain} disabled={isLoading || !userId || !projectId}>
+            <Search className="h-4 w-4 mr-2" />
+            {isLoading ? "확인 중..." : "확인"}
+          </Button>
+        </div>
+
+        {explanation && (
+          <div className="border rounded-lg p-4 space-y-2">
+            <Badge variant={explanation.allowed ? "default" : "destructive"}>
+              {explanation.allowed ? `${explanation.relation} 권한 있음` : `${explanation.relation} 권한 없음`}
+            </Badge>
+            {explanation.allowed ? (
+              <ul className="text-sm space-y-1 list-disc pl-5">
+                {explanation.paths.map((path, index) => (
+                  <li key={index}>{describePath(path)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                직접, 소속 팀, 조직 전체 어디에도 {explanation.grantingRelations.join(" / ")} 권한이
+                없습니다
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
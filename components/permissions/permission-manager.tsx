@@ -11,7 +11,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { UserPlus, Trash2, Shield } from "lucide-react";
+import { UserPlus, Trash2, Shield, Users } from "lucide-react";
 
 interface User {
   id: string;
@@ -22,6 +22,7 @@ interface User {
     projectId: string;
     projectTitle: string;
     relation: string;
+    teamName?: string; // 소속 팀을 통해 받은 권한
   }[];
 }
 
@@ -34,20 +35,46 @@ interface Project {
     email: string;
   };
   permissions: {
-    userId: string;
-    userName: string;
-    userEmail: string;
+    subjectType: "user" | "team";
+    subjectId: string;
+    subjectName: string;
+    subjectDetail: string;
     relation: string;
   }[];
 }
 
+interface Team {
+  id: string;
+  name: string;
+}
+
+// 조직 전체 권한 (조직의 모든 프로젝트에 상속)
+interface OrganizationPermission {
+  subjectType: "user" | "team";
+  subjectId: string;
+  subjectName: string;
+  subjectDetail: string;
+  relation: string;
+}
+
+// 권한 주체: 사용자 또는 팀(team#member)
+type PermissionSubject = { userId: string } | { teamId: string };
+
 interface PermissionManagerProps {
   users: User[];
   projects: Project[];
+  teams: Team[];
+  organizationPermissions: OrganizationPermission[];
 }
 
-export function PermissionManager({ users, projects }: PermissionManagerProps) {
+export function PermissionManager({
+  users,
+  projects,
+  teams,
+  organizationPermissions,
+}: PermissionManagerProps) {
   const [selectedView, setSelectedView] = useState<"by-user" | "by-project">("by-user");
+  const [organizationRelation, setOrganizationRelation] = useState<"editor" | "viewer">("viewer");
   const [isLoading, setIsLoading] = useState(false);
 
   const relationColors: Record<string, string> = {
@@ -57,8 +84,8 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
   };
 
   const handleGrantPermission = async (
-    userId: string,
-    projectId: string,
+    subject: PermissionSubject,
+    projectId: string | undefined, // undefined면 조직 전체 권한
     relation: string
   ) => {
     setIsLoading(true);
@@ -66,7 +93,7 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
       const response = await fetch("/api/permissions/grant", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, projectId, relation }),
+        body: JSON.stringify({ ...subject, projectId, relation }),
       });
 
       if (!response.ok) throw new Error("권한 부여 실패");
@@ -82,8 +109,8 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
   };
 
   const handleRevokePermission = async (
-    userId: string,
-    projectId: string,
+    subject: PermissionSubject,
+    projectId: string | undefined, // undefined면 조직 전체 권한
     relation: string
   ) => {
     if (!confirm("정말 이 권한을 해제하시겠습니까?")) return;
@@ -93,7 +120,7 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
       const response = await fetch("/api/permissions/revoke", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ userId, projectId, relation }),
+        body: JSON.stringify({ ...subject, projectId, relation }),
       });
 
       if (!response.ok) throw new Error("권한 해제 실패");
@@ -130,7 +157,110 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
           </Select>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-6">
+        {/* 조직 전체 권한 */}
+        <div className="border rounded-lg p-4">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-semibold">조직 전체</h3>
+              <p className="text-sm text-muted-foreground">
+                조직의 모든 프로젝트에 같은 권한이 상속됩니다. 관리자는 항상 owner 권한을 가집니다.
+              </p>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {organizationPermissions.length}개 권한
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {organizationPermissions.map((perm) => (
+              <div
+                key={`${perm.subjectType}-${perm.subjectId}-${perm.relation}`}
+                className="flex items-center justify-between bg-secondary/50 rounded-md p-3"
+              >
+                <div className="flex items-center gap-3">
+                  {perm.subjectType === "team" ? (
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                  ) : (
+                    <Shield className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  <div>
+                    <div className="text-sm font-medium">{perm.subjectName}</div>
+                    <div className="text-xs text-muted-foreground">{perm.subjectDetail}</div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={relationColors[perm.relation] || ""}>
+                    {perm.relation}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      handleRevokePermission(
+                        perm.subjectType === "team"
+                          ? { teamId: perm.subjectId }
+                          : { userId: perm.subjectId },
+                        undefined,
+                        perm.relation
+                      )
+                    }
+                    disabled={isLoading}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 pt-4 border-t">
+            <div className="flex items-center gap-2">
+              <Select
+                value={organizationRelation}
+                onValueChange={(value) => setOrganizationRelation(value as "editor" | "viewer")}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">viewer</SelectItem>
+                  <SelectItem value="editor">editor</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                onValueChange={(value) => {
+                  const [subjectType, subjectId] = value.split(":");
+                  handleGrantPermission(
+                    subjectType === "team" ? { teamId: subjectId } : { userId: subjectId },
+                    undefined,
+                    organizationRelation
+                  );
+                }}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder="사용자 또는 팀 선택..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={`team:${team.id}`}>
+                      팀: {team.name}
+                    </SelectItem>
+                  ))}
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={`user:${user.id}`}>
+                      {user.name} ({user.email})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <UserPlus className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </div>
+        </div>
+
         {selectedView === "by-user" ? (
           <div className="space-y-6">
             {users.map((user) => (
@@ -159,7 +289,7 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                   ) : (
                     user.permissions.map((perm) => (
                       <div
-                        key={`${perm.projectId}-${perm.relation}`}
+                        key={`${perm.projectId}-${perm.relation}-${perm.teamName ?? ""}`}
                         className="flex items-center justify-between bg-secondary/50 rounded-md p-3"
                       >
                         <div className="flex items-center gap-3">
@@ -167,7 +297,9 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                           <div>
                             <div className="text-sm font-medium">{perm.projectTitle}</div>
                             <div className="text-xs text-muted-foreground">
-                              프로젝트 ID: {perm.projectId.slice(0, 8)}...
+                              {perm.teamName
+                                ? `팀 ${perm.teamName}을(를) 통해 부여됨`
+                                : `프로젝트 ID: ${perm.projectId.slice(0, 8)}...`}
                             </div>
                           </div>
                         </div>
@@ -178,16 +310,18 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                           >
                             {perm.relation}
                           </Badge>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() =>
-                              handleRevokePermission(user.id, perm.projectId, perm.relation)
-                            }
-                            disabled={isLoading}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {!perm.teamName && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                handleRevokePermission({ userId: user.id }, perm.projectId, perm.relation)
+                              }
+                              disabled={isLoading}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))
@@ -200,7 +334,7 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                     <Select
                       onValueChange={(projectId) => {
                         const relation = "viewer"; // 기본값
-                        handleGrantPermission(user.id, projectId, relation);
+                        handleGrantPermission({ userId: user.id }, projectId, relation);
                       }}
                       disabled={isLoading}
                     >
@@ -211,7 +345,9 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                         {projects
                           .filter(
                             (p) =>
-                              !user.permissions.some((perm) => perm.projectId === p.id)
+                              !user.permissions.some(
+                                (perm) => perm.projectId === p.id && !perm.teamName
+                              )
                           )
                           .map((project) => (
                             <SelectItem key={project.id} value={project.id}>
@@ -238,7 +374,7 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                     </p>
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    {project.permissions.length}명 접근 가능
+                    {project.permissions.length}개 권한
                   </div>
                 </div>
 
@@ -246,20 +382,24 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                 <div className="space-y-2">
                   {project.permissions.length === 0 ? (
                     <p className="text-sm text-muted-foreground text-center py-4">
-                      권한이 부여된 사용자가 없습니다
+                      권한이 부여된 사용자나 팀이 없습니다
                     </p>
                   ) : (
                     project.permissions.map((perm) => (
                       <div
-                        key={`${perm.userId}-${perm.relation}`}
+                        key={`${perm.subjectType}-${perm.subjectId}-${perm.relation}`}
                         className="flex items-center justify-between bg-secondary/50 rounded-md p-3"
                       >
                         <div className="flex items-center gap-3">
-                          <Shield className="h-4 w-4 text-muted-foreground" />
+                          {perm.subjectType === "team" ? (
+                            <Users className="h-4 w-4 text-muted-foreground" />
+                          ) : (
+                            <Shield className="h-4 w-4 text-muted-foreground" />
+                          )}
                           <div>
-                            <div className="text-sm font-medium">{perm.userName}</div>
+                            <div className="text-sm font-medium">{perm.subjectName}</div>
                             <div className="text-xs text-muted-foreground">
-                              {perm.userEmail}
+                              {perm.subjectDetail}
                             </div>
                           </div>
                         </div>
@@ -274,7 +414,13 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                             variant="ghost"
                             size="sm"
                             onClick={() =>
-                              handleRevokePermission(perm.userId, project.id, perm.relation)
+                              handleRevokePermission(
+                                perm.subjectType === "team"
+                                  ? { teamId: perm.subjectId }
+                                  : { userId: perm.subjectId },
+                                project.id,
+                                perm.relation
+                              )
                             }
                             disabled={isLoading}
                           >
@@ -286,27 +432,46 @@ export function PermissionManager({ users, projects }: PermissionManagerProps) {
                   )}
                 </div>
 
-                {/* 사용자 추가 폼 */}
+                {/* 사용자/팀 추가 폼 */}
                 <div className="mt-4 pt-4 border-t">
                   <div className="flex items-center gap-2">
                     <Select
-                      onValueChange={(userId) => {
+                      onValueChange={(value) => {
                         const relation = "viewer"; // 기본값
-                        handleGrantPermission(userId, project.id, relation);
+                        const [subjectType, subjectId] = value.split(":");
+                        handleGrantPermission(
+                          subjectType === "team" ? { teamId: subjectId } : { userId: subjectId },
+                          project.id,
+                          relation
+                        );
                       }}
                       disabled={isLoading}
                     >
                       <SelectTrigger className="flex-1">
-                        <SelectValue placeholder="사용자 선택..." />
+                        <SelectValue placeholder="사용자 또는 팀 선택..." />
                       </SelectTrigger>
                       <SelectContent>
+                        {teams
+                          .filter(
+                            (t) =>
+                              !project.permissions.some(
+                                (perm) => perm.subjectType === "team" && perm.subjectId === t.id
+                              )
+                          )
+                          .map((team) => (
+                            <SelectItem key={team.id} value={`team:${team.id}`}>
+                              팀: {team.name}
+                            </SelectItem>
+                          ))}
                         {users
                           .filter(
                             (u) =>
-                              !project.permissions.some((perm) => perm.userId === u.id)
+                              !project.permissions.some(
+                                (perm) => perm.subjectType === "user" && perm.subjectId === u.id
+                              )
                           )
                           .map((user) => (
-                            <SelectItem key={user.id} value={user.id}>
+                            <SelectItem key={user.id} value={`user:${user.id}`}>
                               {user.name} ({user.email})
                             </SelectItem>
                           ))}
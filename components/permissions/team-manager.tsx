@@ -0,0 +1,214 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, Users, X } from "lucide-react";
+
+interface Team {
+  id: string;
+  name: string;
+  description: string | null;
+  memberIds: string[];
+}
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface TeamManagerProps {
+  teams: Team[];
+  users: User[];
+}
+
+/**
+ * 팀 관리 (생성/삭제, 구성원 추가/제거)
+ *
+ * 팀에 부여한 프로젝트 권한은 팀 구성원 모두에게 적용된다.
+ */
+export function TeamManager({ teams, users }: TeamManagerProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const userMap = new Map(users.map((u) => [u.id, u]));
+
+  const request = async (url: string, init: RequestInit, errorMessage: string) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(url, init);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || errorMessage);
+      }
+
+      // 페이지 새로고침
+      window.location.reload();
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    await request(
+      "/api/permissions/teams",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description: description || undefined }),
+      },
+      "팀 생성에 실패했습니다"
+    );
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    if (!confirm(`${team.name} 팀을 삭제할까요?\n팀에 부여된 프로젝트 권한도 모두 해제됩니다.`)) return;
+
+    await request(
+      `/api/permissions/teams/${team.id}`,
+      { method: "DELETE" },
+      "팀 삭제에 실패했습니다"
+    );
+  };
+
+  const handleAddMember = async (teamId: string, userId: string) => {
+    await request(
+      `/api/permissions/teams/${teamId}/members`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId }),
+      },
+      "구성원 추가에 실패했습니다"
+    );
+  };
+
+  const handleRemoveMember = async (teamId: string, userId: string) => {
+    await request(
+      `/api/permissions/teams/${teamId}/members/${userId}`,
+      { method: "DELETE" },
+      "구성원 제거에 실패했습니다"
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          팀 관리
+        </CardTitle>
+        <CardDescription>팀에 부여한 프로젝트 권한은 팀 구성원 모두에게 적용됩니다</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreateTeam} className="flex flex-wrap items-center gap-2">
+          <Input
+            placeholder="팀 이름"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-48"
+            required
+            disabled={isLoading}
+          />
+          <Input
+            placeholder="설명 (선택)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            className="flex-1 min-w-[200px]"
+            disabled={isLoading}
+          />
+          <Button type="submit" disabled={isLoading || !name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            팀 만들기
+          </Button>
+        </form>
+
+        {teams.length === 0 ? (
+          <div className="text-sm text-muted-foreground italic">아직 팀이 없습니다</div>
+        ) : (
+          <div className="space-y-4">
+            {teams.map((team) => (
+              <div key={team.id} className="border rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h3 className="font-semibold">{team.name}</h3>
+                    {team.description && (
+                      <p className="text-sm text-muted-foreground">{team.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{team.memberIds.length}명</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteTeam(team)}
+                      disabled={isLoading}
+                      title="팀 삭제"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {team.memberIds.map((memberId) => {
+                    const member = userMap.get(memberId);
+                    return (
+                      <Badge key={memberId} variant="outline" className="gap-1">
+                        {member?.name ?? memberId.slice(0, 8)}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveMember(team.id, memberId)}
+                          disabled={isLoading}
+                          title="구성원 제거"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    );
+                  })}
+                </div>
+
+                <div className="mt-3">
+                  <Select
+                    onValueChange={(userId) => handleAddMember(team.id, userId)}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="구성원 추가..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {users
+                        .filter((u) => !team.memberIds.includes(u.id))
+                        .map((user) => (
+                          <SelectItem key={user.id} value={user.id}>
+                            {user.name} ({user.email})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { User } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_AVATAR_LAYOUT,
+  type AvatarLayout,
+} from "@/lib/video/avatar-layout";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+
+interface AvatarLayoutPreviewProps {
+  layout: AvatarLayout;
+  aspectRatio?: AspectRatio;
+  backgroundUrl?: string | null;
+  className?: string;
+}
+
+/**
+ * 아바타 레이아웃 미리보기
+ * FFmpeg 합성 결과와 같은 캔버스 비율로 배경/아바타 배치를 CSS로 표시
+ */
+export function AvatarLayoutPreview({
+  layout,
+  aspectRatio = DEFAULT_ASPECT_RATIO,
+  backgroundUrl,
+  className,
+}: AvatarLayoutPreviewProps) {
+  const canvas = ASPECT_RATIO_DEFINITIONS[aspectRatio];
+  const resolved = { ...DEFAULT_AVATAR_LAYOUT, ...canvas.avatarLayout, ...layout };
+  // 세로 캔버스의 분할 레이아웃은 위아래로 나뉨 (FFmpegService와 동일)
+  const isPortrait = canvas.height > canvas.width;
+
+  const background = (
+    <div
+      className="absolute inset-0 bg-gradient-to-br from-slate-600 to-slate-900 bg-cover bg-center"
+      style={backgroundUrl ? { backgroundImage: `url(${backgroundUrl})` } : undefined}
+    />
+  );
+
+  const avatar = (
+    <div className="flex h-full w-full items-center justify-center bg-primary/80 text-primary-foreground">
+      <User className="h-1/2 w-1/2" />
+    </div>
+  );
+
+  let content: React.ReactNode;
+
+  switch (resolved.mode) {
+    case "hidden":
+      content = background;
+      break;
+
+    case "fullscreen":
+      content = <div className="absolute inset-0">{avatar}</div>;
+      break;
+
+    case "split":
+      content = isPortrait ? (
+        <>
+          <div
+            className={cn(
+              "absolute inset-x-0 h-1/2 overflow-hidden",
+              resolved.side === "left" ? "bottom-0" : "top-0"
+            )}
+          >
+            {background}
+          </div>
+          <div
+            className={cn(
+              "absolute inset-x-0 h-1/2",
+              resolved.side === "left" ? "top-0" : "bottom-0"
+            )}
+          >
+            {avatar}
+          </div>
+        </>
+      ) : (
+        <>
+          <div
+            className={cn(
+              "absolute inset-y-0 w-1/2 overflow-hidden",
+              resolved.side === "left" ? "right-0" : "left-0"
+            )}
+          >
+            {background}
+          </div>
+          <div
+            className={cn(
+              "absolute inset-y-0 w-1/2",
+              resolved.side === "left" ? "left-0" : "right-0"
+            )}
+          >
+            {avatar}
+          </div>
+        </>
+      );
+      break;
+
+    case "pip":
+    default: {
+      const marginX = `${(resolved.margin / canvas.width) * 100}%`;
+      const marginY = `${(resolved.margin / canvas.height) * 100}%`;
+      const isLeft = resolved.corner.endsWith("left");
+      const isTop = resolved.corner.startsWith("top");
+
+      content = (
+        <>
+          {background}
+          <div
+            className={cn(
+              "absolute overflow-hidden",
+              resolved.mask === "circle" && "rounded-full aspect-square",
+              resolved.mask === "square" && "aspect-square",
+              resolved.mask === "rounded" && "rounded-lg aspect-square"
+            )}
+            style={{
+              width: `${resolved.scale * 100}%`,
+              ...(isLeft ? { left: marginX } : { right: marginX }),
+              ...(isTop ? { top: marginY } : { bottom: marginY }),
+            }}
+          >
+            {avatar}
+          </div>
+        </>
+      );
+      break;
+    }
+  }
+
+  return (
+    <div
+      className={cn(
+        "relative w-full overflow-hidden rounded-md border bg-black",
+        isPortrait && "max-w-[240px] mx-auto",
+        className
+      )}
+      style={{ aspectRatio: `${canvas.width} / ${canvas.height}` }}
+    >
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Music, Save, Trash2, Upload } from "lucide-react";
+import {
+  DEFAULT_MUSIC_VOLUME,
+  MUSIC_ACCEPT,
+  resolveProjectMusic,
+} from "@/lib/video/music";
+
+interface MusicTrack {
+  id: string;
+  name: string;
+  url: string;
+  metadata: { artist?: string; license?: string } | null;
+}
+
+interface MusicSettingsProps {
+  projectId: string;
+  projectSettings: unknown;
+  onSaved?: () => void;
+}
+
+// "none"은 음악 없음
+const NO_MUSIC = "none";
+
+const VOLUME_OPTIONS = [0.1, 0.15, 0.25, 0.35, 0.5];
+
+export function MusicSettings({ projectId, projectSettings, onSaved }: MusicSettingsProps) {
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [trackId, setTrackId] = useState(NO_MUSIC);
+  const [volume, setVolume] = useState(DEFAULT_MUSIC_VOLUME);
+  const [ducking, setDucking] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // 저장된 프로젝트 설정으로 초기화
+  useEffect(() => {
+    const music = resolveProjectMusic(projectSettings);
+    setTrackId(music?.assetId ?? NO_MUSIC);
+    setVolume(music?.volume ?? DEFAULT_MUSIC_VOLUME);
+    setDucking(music?.ducking ?? true);
+  }, [projectSettings]);
+
+  async function loadTracks() {
+    try {
+      const response = await fetch("/api/music");
+      if (response.ok) {
+        const { tracks: tracksData } = (await response.json()) as { tracks: MusicTrack[] };
+        setTracks(tracksData);
+      }
+    } catch (error) {
+      console.error("Failed to load music tracks:", error);
+    }
+  }
+
+  useEffect(() => {
+    loadTracks();
+  }, []);
+
+  async function handleUpload(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/music", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "음악 업로드에 실패했습니다.");
+      }
+
+      const track = (await response.json()) as MusicTrack;
+      await loadTracks();
+      setTrackId(track.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function handleDeleteTrack() {
+    const track = tracks.find((t) => t.id === trackId);
+    if (!track) return;
+    if (!confirm(`"${track.name}"을(를) 조직 라이브러리에서 삭제할까요? 이 음악을 쓰는 다른 프로젝트도 음악 없이 렌더링됩니다.`)) return;
+
+    try {
+      const response = await fetch(`/api/music/${track.id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "음악 삭제에 실패했습니다.");
+      }
+
+      setTrackId(NO_MUSIC);
+      await loadTracks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          music: trackId === NO_MUSIC ? null : { assetId: trackId, volume, ducking },
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "배경 음악 저장에 실패했습니다.");
+      }
+
+      alert("배경 음악이 저장되었습니다. 다음 렌더링부터 적용됩니다.");
+      onSaved?.();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const selectedTrack = tracks.find((t) => t.id === trackId);
+  const volumeOptions = VOLUME_OPTIONS.includes(volume)
+    ? VOLUME_OPTIONS
+    : [...VOLUME_OPTIONS, volume].sort((a, b) => a - b);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Music className="h-5 w-5" />
+          배경 음악
+        </CardTitle>
+        <CardDescription>
+          조직 음악 라이브러리에서 트랙을 고르면 영상 전체에 이어서 재생되고, 아바타가 말할 때는 자동으로 작아집니다
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="music-track" className="text-xs text-muted-foreground mb-1">
+              트랙
+            </Label>
+            <Select value={trackId} onValueChange={setTrackId}>
+              <SelectTrigger id="music-track" className="text-sm">
+                <SelectValue placeholder="트랙 선택" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_MUSIC}>음악 없음</SelectItem>
+                {tracks.map((track) => (
+                  <SelectItem key={track.id} value={track.id}>
+                    {track.name}
+                    {track.metadata?.artist ? ` - ${track.metadata.artist}` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="music-volume" className="text-xs text-muted-foreground mb-1">
+              음악 볼륨
+            </Label>
+            <Select
+              value={String(volume)}
+              onValueChange={(value) => setVolume(Number(value))}
+              disabled={trackId === NO_MUSIC}
+            >
+              <SelectTrigger id="music-volume" className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {volumeOptions.map((option) => (
+                  <SelectItem key={option} value={String(option)}>
+                    {Math.round(option * 100)}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm cursor-pointer md:mt-6">
+            <input
+              type="checkbox"
+              checked={ducking}
+              onChange={(e) => setDucking(e.target.checked)}
+              disabled={trackId === NO_MUSIC}
+              className="h-4 w-4"
+            />
+            음성 구간에서 음악 줄이기 (ducking)
+          </label>
+        </div>
+
+        {selectedTrack && (
+          <div className="flex items-center gap-2">
+            <audio controls src={selectedTrack.url} className="h-8 flex-1" />
+            <Button variant="ghost" size="sm" onClick={handleDeleteTrack} title="라이브러리에서 삭제">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {selectedTrack?.metadata?.license && (
+          <p className="text-xs text-muted-foreground">라이선스: {selectedTrack.metadata.license}</p>
+        )}
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" size="sm" disabled={uploading} asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? "업로드 중..." : "음악 업로드"}
+              <input
+                type="file"
+                accept={MUSIC_ACCEPT}
+                onChange={handleUpload}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? "저장 중..." : "배경 음악 저장"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
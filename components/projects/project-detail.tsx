@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import {
   Card,
   CardContent,
@@ -40,9 +41,58 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Film, FileText, Upload, Play, Trash2, Pencil, Save, X, RefreshCw } from "lucide-react";
+import { Film, FileText, Upload, Play, Trash2, Pencil, Save, X, RefreshCw, LayoutTemplate, Languages, Plus, Scissors, GripVertical, Download } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
 import { ProjectStatus } from "@/components/realtime/project-status";
 import { SceneProgress } from "@/components/realtime/scene-progress";
+import { AvatarLayoutPreview } from "@/components/projects/avatar-layout-preview";
+import { VideoPlayer } from "@/components/video/video-player";
+import { ScriptVersionHistory } from "@/components/projects/script-version-history";
+import { MusicSettings } from "@/components/projects/music-settings";
+import {
+  AVATAR_LAYOUT_PRESETS,
+  DEFAULT_AVATAR_LAYOUT,
+  getAvatarLayoutPresetKey,
+  resolveAvatarLayout,
+  type AvatarLayout,
+  type AvatarMask,
+} from "@/lib/video/avatar-layout";
+import type { SubtitlePosition } from "@/lib/video/subtitles";
+import {
+  DEFAULT_SCENE_TRANSITION,
+  MAX_TRANSITION_SECONDS,
+  MIN_TRANSITION_SECONDS,
+  resolveSceneTransition,
+  SCENE_TRANSITION_DIRECTION_LABELS,
+  SCENE_TRANSITION_LABELS,
+  type SceneTransition,
+  type SceneTransitionDirection,
+  type SceneTransitionType,
+} from "@/lib/video/transitions";
+import { getMissingSceneParts, type ScenePart } from "@/lib/video/scene-parts";
+import { getPosterLinks, SCENE_THUMBNAIL_ASSET_KIND } from "@/lib/video/thumbnails";
+import { RENDER_STAGE_LABELS, type RenderProgress } from "@/lib/video/render-progress";
+import { subscribeToProjectStatus } from "@/lib/supabase/realtime";
+import {
+  DEFAULT_ENCODING_PROFILE,
+  ENCODING_PROFILES,
+  ENCODING_PROFILE_DEFINITIONS,
+  type EncodingProfile,
+} from "@/lib/video/encoding-profiles";
+import {
+  ASPECT_RATIOS,
+  ASPECT_RATIO_DEFINITIONS,
+  DEFAULT_ASPECT_RATIO,
+  resolveAspectRatio,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import { DOCUMENT_ACCEPT, DOCUMENT_FORMAT_DEFINITIONS, detectDocumentFormat } from "@/lib/documents/formats";
+import {
+  resolveScriptLanguage,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+  SCRIPT_LANGUAGES,
+  type ScriptLanguage,
+} from "@/lib/video/languages";
 
 interface Document {
   id: string;
@@ -52,6 +102,8 @@ interface Document {
     fileName: string;
     fileSize: number;
     mimeType: string;
+    format?: string;
+    sourceUrl?: string;
     uploadedBy?: string;
   };
   storagePath: string;
@@ -73,11 +125,18 @@ interface Scene {
   ttsStatus: string;
   avatarStatus: string;
   backgroundStatus: string;
+  audioAssetId: string | null;
+  avatarAssetId: string | null;
+  backgroundAssetId: string | null;
   backgroundAnalysis?: {
     priority?: "high" | "medium" | "low";
     emotion?: string;
     visualDescription?: string;
   };
+  metadata?: {
+    avatarLayout?: AvatarLayout;
+    transition?: SceneTransition;
+  } | null;
   assets?: Asset[];
   audioAsset?: Asset | null;
   avatarAsset?: Asset | null;
@@ -105,6 +164,13 @@ interface AvatarDesignSettings {
   background?: string;
 }
 
+interface ProjectVariant {
+  id: string;
+  title: string;
+  status: string;
+  settings?: { language?: string } | null;
+}
+
 interface Project {
   id: string;
   title: string;
@@ -113,8 +179,15 @@ interface Project {
   duration: number;
   avatarDesignMode: string;
   avatarDesignSettings: unknown;
+  settings?: {
+    avatarLayout?: AvatarLayout;
+    language?: string;
+  } | null;
+  finalVideoAssetId?: string | null;
   createdAt: string;
   updatedAt: string;
+  sourceProject?: ProjectVariant | null;
+  variants?: ProjectVariant[];
   documents?: Document[];
   scenes?: Scene[];
   assets?: Asset[];
@@ -128,12 +201,21 @@ interface ProjectDetailProps {
   projectId: string;
 }
 
+// 최종 영상 다운로드 버튼 라벨 (비율 · 인코딩 프로필)
+function getFinalVideoLabel(asset: Asset): string {
+  const metadata = asset.metadata as { aspectRatio?: AspectRatio; encodingProfile?: EncodingProfile } | null;
+  const aspectRatio = metadata?.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const encodingProfile = metadata?.encodingProfile ?? DEFAULT_ENCODING_PROFILE;
+  return `${ASPECT_RATIO_DEFINITIONS[aspectRatio].label} · ${ENCODING_PROFILE_DEFINITIONS[encodingProfile].label}`;
+}
+
 export function ProjectDetail({ projectId }: ProjectDetailProps) {
   const router = useRouter();
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [uploadingDocument, setUploadingDocument] = useState(false);
+  const [documentUrl, setDocumentUrl] = useState("");
   const [generatingScript, setGeneratingScript] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
@@ -147,12 +229,63 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
   const [retryVideoPrompt, setRetryVideoPrompt] = useState("");
   const [retryEmotion, setRetryEmotion] = useState("professional");
   const [retryingVideo, setRetryingVideo] = useState(false);
+  const [layoutPresetKey, setLayoutPresetKey] = useState(getAvatarLayoutPresetKey(DEFAULT_AVATAR_LAYOUT));
+  const [layoutMask, setLayoutMask] = useState<AvatarMask>(DEFAULT_AVATAR_LAYOUT.mask);
+  const [layoutAspectRatio, setLayoutAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [savingLayout, setSavingLayout] = useState(false);
+  const [editedLayoutKey, setEditedLayoutKey] = useState("inherit");
+  const [editedTransition, setEditedTransition] = useState<Required<SceneTransition>>(DEFAULT_SCENE_TRANSITION);
+  const [startingRender, setStartingRender] = useState(false);
+  const [renderProgress, setRenderProgress] = useState<RenderProgress | null>(null);
+  const [packageHls, setPackageHls] = useState(false);
+  const [renderAspectRatio, setRenderAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [encodingProfile, setEncodingProfile] = useState<EncodingProfile>(DEFAULT_ENCODING_PROFILE);
+  const [burnSubtitles, setBurnSubtitles] = useState(false);
+  const [subtitlePosition, setSubtitlePosition] = useState<SubtitlePosition>("bottom");
+  const [subtitleBox, setSubtitleBox] = useState(true);
+  const [translationLanguages, setTranslationLanguages] = useState<ScriptLanguage[]>([]);
+  const [translating, setTranslating] = useState(false);
+  const [regeneratingSceneId, setRegeneratingSceneId] = useState<string | null>(null);
+  const [insertAfterSceneId, setInsertAfterSceneId] = useState<string | null | undefined>(undefined); // null: 맨 앞, undefined: 닫힘
+  const [newSceneScript, setNewSceneScript] = useState("");
+  const [newSceneDuration, setNewSceneDuration] = useState(8);
+  const [splittingSceneId, setSplittingSceneId] = useState<string | null>(null);
+  const [splitScripts, setSplitScripts] = useState<[string, string]>(["", ""]);
+  const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+  const [updatingScenes, setUpdatingScenes] = useState(false);
 
   useEffect(() => {
     fetchProject();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [projectId]);
 
+  // 최종 렌더링 진행 상황 (videoRender 브로드캐스트)
+  useEffect(() => {
+    const channel = subscribeToProjectStatus(projectId, (payload) => {
+      if (payload.type !== "render_progress") return;
+
+      const progress = payload as unknown as RenderProgress;
+      setRenderProgress(progress);
+      if (progress.stage === "completed" || progress.stage === "failed") {
+        fetchProject();
+      }
+    });
+
+    return () => {
+      channel.unsubscribe();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId]);
+
+  useEffect(() => {
+    if (project?.status !== "rendering") return;
+
+    pollRenderJob();
+    const interval = setInterval(pollRenderJob, 3000);
+    return () => clearInterval(interval);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId, project?.status]);
+
   async function fetchProject() {
     try {
       const response = await fetch(`/api/projects/${projectId}`);
@@ -161,6 +294,16 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
       }
       const data = await response.json();
       setProject(data);
+
+      // 저장된 아바타 레이아웃을 편집 상태에 반영
+      const layout = resolveAvatarLayout(data.settings);
+      setLayoutPresetKey(getAvatarLayoutPresetKey(layout));
+      setLayoutMask(layout.mask);
+
+      // 프로젝트 화면 비율을 설정/렌더링 기본값으로 반영
+      const aspectRatio = resolveAspectRatio(data.settings);
+      setLayoutAspectRatio(aspectRatio);
+      setRenderAspectRatio(aspectRatio);
     } catch (err) {
       setError(err instanceof Error ? err.message : "알 수 없는 오류");
     } finally {
@@ -172,17 +315,35 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (file.type !== "application/pdf") {
-      alert("PDF 파일만 업로드 가능합니다.");
+    if (!detectDocumentFormat(file.name, file.type)) {
+      alert("PDF, PowerPoint, Word, Markdown, 텍스트 파일만 업로드 가능합니다.");
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("projectId", projectId);
+
+    await submitDocument(formData);
+  }
+
+  async function handleDocumentUrlSubmit() {
+    if (!documentUrl.trim()) {
+      alert("URL을 입력해주세요.");
       return;
     }
 
+    const formData = new FormData();
+    formData.append("url", documentUrl.trim());
+    formData.append("projectId", projectId);
+
+    await submitDocument(formData);
+    setDocumentUrl("");
+  }
+
+  async function submitDocument(formData: FormData) {
     setUploadingDocument(true);
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("projectId", projectId);
-
       const response = await fetch("/api/documents", {
         method: "POST",
         body: formData,
@@ -223,39 +384,65 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     }
   }
 
-  async function handleRenderAndDownload() {
-    if (!confirm("영상 렌더링을 시작하고 다운로드하시겠습니까?\n(렌더링은 약 20-60초 소요됩니다)")) return;
-
-    setGeneratingScript(true); // 렌더링 중 표시용 (임시)
+  async function handleRender() {
+    setStartingRender(true);
     try {
-      const response = await fetch(`/api/projects/${projectId}/render-download`, {
+      const response = await fetch(`/api/projects/${projectId}/render`, {
         method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          aspectRatio: renderAspectRatio,
+          encodingProfile,
+          burnSubtitles,
+          subtitleStyle: {
+            position: subtitlePosition,
+            box: subtitleBox,
+          },
+          packageHls,
+        }),
       });
 
       if (!response.ok) {
-        const data = await response.json();
-        throw new Error(data.error || "렌더링에 실패했습니다.");
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "렌더링을 시작하지 못했습니다.");
       }
 
-      // Blob으로 응답 받기
-      const blob = await response.blob();
-
-      // 다운로드 트리거
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${project?.title || "video"}.mp4`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-
-      alert("렌더링이 완료되어 다운로드가 시작되었습니다.");
+      const data = await response.json();
+      setRenderProgress({
+        type: "render_progress",
+        renderJobId: data.renderJobId,
+        stage: "queued",
+        progress: 0,
+        message: "렌더링 대기 중",
+        timestamp: new Date().toISOString(),
+      });
       await fetchProject();
     } catch (err) {
       alert(err instanceof Error ? err.message : "알 수 없는 오류");
     } finally {
-      setGeneratingScript(false);
+      setStartingRender(false);
+    }
+  }
+
+  // 렌더링 작업 상태 폴링 (Realtime 브로드캐스트가 없을 때도 진행률 표시)
+  async function pollRenderJob() {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/render`);
+      if (!response.ok) return;
+
+      const { renderJob } = await response.json();
+      if (!renderJob) return;
+
+      if (renderJob.progress) {
+        setRenderProgress(renderJob.progress);
+      }
+      if (renderJob.status === "completed" || renderJob.status === "failed") {
+        await fetchProject();
+      }
+    } catch (err) {
+      console.error("Failed to poll render job:", err);
     }
   }
 
@@ -326,8 +513,291 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     }
   }
 
+  function buildProjectLayout(): AvatarLayout {
+    return {
+      ...AVATAR_LAYOUT_PRESETS[layoutPresetKey].layout,
+      mask: layoutMask,
+    };
+  }
+
+  async function handleSaveLayout() {
+    setSavingLayout(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          avatarLayout: buildProjectLayout(),
+          aspectRatio: layoutAspectRatio,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "레이아웃 저장에 실패했습니다.");
+      }
+
+      alert("아바타 레이아웃과 화면 비율이 저장되었습니다. 다음 렌더링부터 적용됩니다.");
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setSavingLayout(false);
+    }
+  }
+
+  async function handleRegenerateScene(scene: Scene, part: ScenePart) {
+    const message =
+      part === "tts"
+        ? `씬 ${scene.sceneNumber}의 음성을 다시 생성할까요? 립싱크를 맞추기 위해 아바타 영상도 함께 다시 생성됩니다.`
+        : part === "avatar"
+        ? `씬 ${scene.sceneNumber}의 아바타 영상을 다시 생성할까요?`
+        : `씬 ${scene.sceneNumber}의 배경을 다시 생성할까요?`;
+    if (!confirm(message)) return;
+
+    setRegeneratingSceneId(scene.id);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/scenes/${scene.id}/regenerate`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ parts: [part] }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "씬 재생성에 실패했습니다.");
+      }
+
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setRegeneratingSceneId(null);
+    }
+  }
+
+  async function handleProcessChangedScenes(scenes: Scene[]) {
+    if (!confirm(`변경된 씬 ${scenes.length}개의 음성/아바타/배경을 생성할까요?`)) return;
+
+    setUpdatingScenes(true);
+    try {
+      for (const scene of scenes) {
+        const response = await fetch(
+          `/api/projects/${projectId}/scenes/${scene.id}/regenerate`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ parts: getMissingSceneParts(scene) }),
+          }
+        );
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || `씬 ${scene.sceneNumber} 처리 시작에 실패했습니다.`);
+        }
+      }
+
+      alert("변경된 씬 처리가 시작되었습니다.");
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingScenes(false);
+    }
+  }
+
+  function handleOpenInsertScene(afterSceneId: string | null) {
+    setInsertAfterSceneId(afterSceneId);
+    setNewSceneScript("");
+    setNewSceneDuration(8);
+  }
+
+  async function handleInsertScene() {
+    setUpdatingScenes(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/scenes`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          afterSceneId: insertAfterSceneId ?? null,
+          script: newSceneScript,
+          duration: newSceneDuration,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "씬 추가에 실패했습니다.");
+      }
+
+      setInsertAfterSceneId(undefined);
+      setNewSceneScript("");
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingScenes(false);
+    }
+  }
+
+  async function handleDeleteScene(scene: Scene) {
+    if (!confirm(`씬 ${scene.sceneNumber}을(를) 삭제할까요? 뒤의 씬 번호가 앞당겨집니다.`)) return;
+
+    setUpdatingScenes(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/scenes/${scene.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "씬 삭제에 실패했습니다.");
+      }
+
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingScenes(false);
+    }
+  }
+
+  async function handleDropScene(targetSceneId: string) {
+    const scenes = project?.scenes ?? [];
+    const fromIndex = scenes.findIndex((scene) => scene.id === draggedSceneId);
+    const toIndex = scenes.findIndex((scene) => scene.id === targetSceneId);
+    setDraggedSceneId(null);
+
+    if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return;
+
+    const sceneIds = scenes.map((scene) => scene.id);
+    const [moved] = sceneIds.splice(fromIndex, 1);
+    sceneIds.splice(toIndex, 0, moved);
+
+    setUpdatingScenes(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/scenes/reorder`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ sceneIds }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "씬 순서 변경에 실패했습니다.");
+      }
+
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingScenes(false);
+    }
+  }
+
+  function handleStartSplit(scene: Scene) {
+    // 문장 경계 중 대본 절반에 가장 가까운 위치를 기본 분할점으로 제안
+    const sentences = scene.script.match(/[^.!?。！？]+[.!?。！？]*\s*/g) ?? [scene.script];
+    let splitIndex = 1;
+    let bestDistance = Infinity;
+    let length = 0;
+    sentences.slice(0, -1).forEach((sentence, index) => {
+      length += sentence.length;
+      const distance = Math.abs(length - scene.script.length / 2);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        splitIndex = index + 1;
+      }
+    });
+
+    setSplittingSceneId(scene.id);
+    setSplitScripts([
+      sentences.slice(0, splitIndex).join("").trim(),
+      sentences.slice(splitIndex).join("").trim(),
+    ]);
+  }
+
+  async function handleSplitScene(sceneId: string) {
+    setUpdatingScenes(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/scenes/${sceneId}/split`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ scripts: splitScripts }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "씬 분할에 실패했습니다.");
+      }
+
+      setSplittingSceneId(null);
+      setSplitScripts(["", ""]);
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setUpdatingScenes(false);
+    }
+  }
+
+  async function handleTranslate() {
+    if (translationLanguages.length === 0) {
+      alert("번역할 언어를 선택해주세요.");
+      return;
+    }
+
+    setTranslating(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/translate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ languages: translationLanguages }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "번역 버전 생성에 실패했습니다.");
+      }
+
+      alert("번역 버전을 생성했습니다. 대본 번역 후 음성과 아바타 영상이 자동으로 생성됩니다.");
+      setTranslationLanguages([]);
+      await fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setTranslating(false);
+    }
+  }
+
   function handleStartEdit(scene: Scene) {
     setEditingSceneId(scene.id);
+    setEditedLayoutKey(
+      scene.metadata?.avatarLayout
+        ? getAvatarLayoutPresetKey(scene.metadata.avatarLayout)
+        : "inherit"
+    );
+    setEditedTransition(resolveSceneTransition(scene.metadata));
     setEditedScript(scene.script);
     setEditedVisualDescription(scene.visualDescription || "");
     const analysis = scene.backgroundAnalysis as { priority?: "high" | "medium" | "low" } | null;
@@ -339,6 +809,8 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     setEditedScript("");
     setEditedVisualDescription("");
     setEditedBackgroundPriority("low");
+    setEditedLayoutKey("inherit");
+    setEditedTransition(DEFAULT_SCENE_TRANSITION);
   }
 
   async function handleSaveEdit(sceneId: string) {
@@ -353,6 +825,13 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
           script: editedScript,
           visualDescription: editedVisualDescription,
           backgroundPriority: editedBackgroundPriority,
+          // "inherit"이면 씬 오버라이드 제거 (프로젝트 레이아웃 사용)
+          avatarLayout:
+            editedLayoutKey === "inherit"
+              ? null
+              : AVATAR_LAYOUT_PRESETS[editedLayoutKey].layout,
+          // 컷이면 metadata.transition 제거
+          transition: editedTransition.type === "cut" ? null : editedTransition,
         }),
       });
 
@@ -439,6 +918,14 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
         label: "대본 생성 중",
         className: "bg-yellow-100 text-yellow-800",
       },
+      translating: {
+        label: "번역 중",
+        className: "bg-yellow-100 text-yellow-800",
+      },
+      scenes_processing: {
+        label: "씬 처리 중",
+        className: "bg-yellow-100 text-yellow-800",
+      },
       rendering: {
         label: "렌더링 중",
         className: "bg-purple-100 text-purple-800",
@@ -460,6 +947,244 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     );
   };
 
+  const renderOutputOptions = () => (
+    <div className="flex items-center gap-3 text-sm">
+      <Select
+        value={renderAspectRatio}
+        onValueChange={(value: AspectRatio) => setRenderAspectRatio(value)}
+      >
+        <SelectTrigger className="h-8 w-28 text-xs">
+          <SelectValue placeholder="화면 비율" />
+        </SelectTrigger>
+        <SelectContent>
+          {ASPECT_RATIOS.map((ratio) => (
+            <SelectItem key={ratio} value={ratio}>
+              {ratio}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={encodingProfile}
+        onValueChange={(value: EncodingProfile) => setEncodingProfile(value)}
+      >
+        <SelectTrigger className="h-8 w-40 text-xs">
+          <SelectValue placeholder="인코딩" />
+        </SelectTrigger>
+        <SelectContent>
+          {ENCODING_PROFILES.map((profile) => (
+            <SelectItem key={profile} value={profile}>
+              {ENCODING_PROFILE_DEFINITIONS[profile].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={burnSubtitles}
+          onChange={(e) => setBurnSubtitles(e.target.checked)}
+          className="h-4 w-4"
+        />
+        자막 삽입
+      </label>
+      {burnSubtitles && (
+        <>
+          <Select
+            value={subtitlePosition}
+            onValueChange={(value: SubtitlePosition) => setSubtitlePosition(value)}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue placeholder="위치" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="bottom">하단</SelectItem>
+              <SelectItem value="middle">중앙</SelectItem>
+              <SelectItem value="top">상단</SelectItem>
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={subtitleBox}
+              onChange={(e) => setSubtitleBox(e.target.checked)}
+              className="h-4 w-4"
+            />
+            배경 박스
+          </label>
+        </>
+      )}
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={packageHls}
+          onChange={(e) => setPackageHls(e.target.checked)}
+          className="h-4 w-4"
+        />
+        HLS 스트리밍
+      </label>
+    </div>
+  );
+
+  // 렌더링 진행률 (렌더링 중 또는 직전 렌더링 실패 시)
+  const renderRenderProgress = () => {
+    if (project?.status !== "rendering" && renderProgress?.stage !== "failed") return null;
+
+    const progress = renderProgress ?? {
+      stage: "queued" as const,
+      progress: 0,
+      message: RENDER_STAGE_LABELS.queued,
+    };
+
+    return (
+      <div className="space-y-1 w-full max-w-md">
+        <div className="flex justify-between text-sm">
+          <span className={progress.stage === "failed" ? "text-destructive" : "text-muted-foreground"}>
+            {RENDER_STAGE_LABELS[progress.stage]}: {progress.message}
+          </span>
+          {progress.stage !== "failed" && <span className="font-medium">{progress.progress}%</span>}
+        </div>
+        {progress.stage !== "failed" && <Progress value={progress.progress} className="h-2" />}
+      </div>
+    );
+  };
+
+  const renderLanguageVariants = (project: Project) => {
+    const currentLanguage = resolveScriptLanguage(project.settings);
+    const linkedProjects = [
+      ...(project.sourceProject ? [project.sourceProject] : []),
+      ...(project.variants ?? []),
+    ];
+    const usedLanguages = new Set<ScriptLanguage>([
+      currentLanguage,
+      ...linkedProjects.map((linked) => resolveScriptLanguage(linked.settings)),
+    ]);
+    const availableLanguages = SCRIPT_LANGUAGES.filter((language) => !usedLanguages.has(language));
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            다국어 버전
+          </CardTitle>
+          <CardDescription>
+            대본만 번역하고 배경과 레이아웃은 그대로 재사용합니다 (음성과 아바타 영상만 다시 생성)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {linkedProjects.length > 0 && (
+            <div className="space-y-2">
+              {linkedProjects.map((linked) => (
+                <div
+                  key={linked.id}
+                  className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span className="inline-flex items-center px-2 py-0.5 rounded bg-muted text-xs font-medium">
+                      {SCRIPT_LANGUAGE_DEFINITIONS[resolveScriptLanguage(linked.settings)].label}
+                    </span>
+                    {linked.id === project.sourceProject?.id && (
+                      <span className="text-xs text-muted-foreground">원본</span>
+                    )}
+                    <Link
+                      href={`/dashboard/projects/${linked.id}`}
+                      className="font-medium truncate hover:underline"
+                    >
+                      {linked.title}
+                    </Link>
+                  </div>
+                  {getStatusBadge(linked.status)}
+                </div>
+              ))}
+            </div>
+          )}
+          {(project.scenes?.length ?? 0) > 0 && availableLanguages.length > 0 && (
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              {availableLanguages.map((language) => (
+                <label key={language} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={translationLanguages.includes(language)}
+                    onChange={(e) =>
+                      setTranslationLanguages(
+                        e.target.checked
+                          ? [...translationLanguages, language]
+                          : translationLanguages.filter((l) => l !== language)
+                      )
+                    }
+                    className="h-4 w-4"
+                  />
+                  {SCRIPT_LANGUAGE_DEFINITIONS[language].label}
+                </label>
+              ))}
+              <Button
+                onClick={handleTranslate}
+                disabled={translating || translationLanguages.length === 0}
+                size="sm"
+              >
+                <Languages className="h-4 w-4 mr-2" />
+                {translating ? "생성 중..." : "번역 버전 만들기"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderInsertSceneForm = () => (
+    <div className="border border-dashed rounded-lg p-4 space-y-3">
+      <div>
+        <Label htmlFor="new-scene-script" className="text-xs text-muted-foreground mb-1">
+          새 씬 스크립트
+        </Label>
+        <Textarea
+          id="new-scene-script"
+          value={newSceneScript}
+          onChange={(e) => setNewSceneScript(e.target.value)}
+          className="min-h-[80px] text-sm"
+          placeholder="스크립트를 입력하세요..."
+        />
+      </div>
+      <div className="flex items-end justify-between gap-2">
+        <div className="w-32">
+          <Label htmlFor="new-scene-duration" className="text-xs text-muted-foreground mb-1">
+            길이 (초)
+          </Label>
+          <Input
+            id="new-scene-duration"
+            type="number"
+            min={1}
+            max={60}
+            value={newSceneDuration}
+            onChange={(e) => setNewSceneDuration(Number(e.target.value))}
+            className="text-sm"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setInsertAfterSceneId(undefined)}
+            disabled={updatingScenes}
+          >
+            <X className="h-4 w-4 mr-1" />
+            취소
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleInsertScene}
+            disabled={updatingScenes || !newSceneScript.trim()}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {updatingScenes ? "추가 중..." : "씬 추가"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -497,6 +1222,20 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
     );
   }
 
+  // 씬 구조 편집 (추가/삭제/순서 변경/분할) 가능 여부
+  const sceneEditLocked =
+    ["script_generating", "translating", "scenes_processing", "rendering"].includes(project.status) ||
+    (project.scenes ?? []).some((scene) =>
+      [scene.ttsStatus, scene.avatarStatus, scene.backgroundStatus].some(
+        (status) => status === "generating" || status === "processing"
+      )
+    );
+  // 처리 완료 후 추가/분할된 씬 (렌더링 전에 재처리 필요)
+  const changedScenes =
+    project.status === "scenes_processed" || project.status === "rendered"
+      ? (project.scenes ?? []).filter((scene) => getMissingSceneParts(scene).length > 0)
+      : [];
+
   return (
     <div className="space-y-6">
       {/* 프로젝트 헤더 */}
@@ -513,11 +1252,17 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
             <div>
               <div className="text-muted-foreground">영상 길이</div>
               <div className="font-medium mt-1">{project.duration}초</div>
             </div>
+            <div>
+              <div className="text-muted-foreground">언어</div>
+              <div className="font-medium mt-1">
+                {SCRIPT_LANGUAGE_DEFINITIONS[resolveScriptLanguage(project.settings)].label}
+              </div>
+            </div>
             <div>
               <div className="text-muted-foreground">아바타 모드</div>
               <div className="font-medium mt-1">
@@ -552,22 +1297,30 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
                 {generatingScript ? "스크립트 생성 중..." : "스크립트 생성"}
               </Button>
             )}
-            {(project.scenes?.length ?? 0) > 0 && project.status === "script_generated" && (
-              <Button
-                onClick={handleProcessScenes}
-                disabled={processingScenes}
-                variant="secondary"
-              >
-                <Film className="h-4 w-4 mr-2" />
-                {processingScenes ? "씬 처리 중..." : "씬 처리 시작"}
-              </Button>
-            )}
+            {(project.scenes?.length ?? 0) > 0 &&
+              (project.status === "script_generated" || project.status === "failed") && (
+                <Button
+                  onClick={handleProcessScenes}
+                  disabled={processingScenes}
+                  variant="secondary"
+                >
+                  <Film className="h-4 w-4 mr-2" />
+                  {processingScenes ? "씬 처리 중..." : "씬 처리 시작"}
+                </Button>
+              )}
             {project.status === "scenes_processed" && (
-              <Button onClick={handleRenderAndDownload} disabled={generatingScript}>
-                <Play className="h-4 w-4 mr-2" />
-                {generatingScript ? "렌더링 중..." : "비디오 렌더링 및 다운로드"}
-              </Button>
+              <>
+                {renderOutputOptions()}
+                <Button
+                  onClick={handleRender}
+                  disabled={startingRender || changedScenes.length > 0}
+                >
+                  <Play className="h-4 w-4 mr-2" />
+                  {startingRender ? "렌더링 요청 중..." : "비디오 렌더링"}
+                </Button>
+              </>
             )}
+            {project.status !== "rendered" && renderRenderProgress()}
           </div>
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -607,13 +1360,58 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {(() => {
+              const finalVideo = project.assets?.find((asset) => asset.id === project.finalVideoAssetId);
+              if (!finalVideo) return null;
+
+              return (
+                <VideoPlayer
+                  src={finalVideo.url}
+                  hlsSrc={(finalVideo.metadata as { hls?: { url?: string } } | null)?.hls?.url}
+                  poster={getPosterLinks(finalVideo.metadata).posterUrl ?? undefined}
+                  className="mb-4"
+                />
+              );
+            })()}
             <div className="text-center py-8">
+              {/* 저장된 영상 다운로드 (대표 영상 + 추가 비율/프로필) */}
+              <div className="flex flex-wrap justify-center gap-2 mb-6">
+                {project.assets
+                  ?.filter((asset) => asset.kind === "final_video")
+                  // 같은 비율/프로필은 최신 결과만 (assets는 최신순)
+                  .filter(
+                    (asset, index, assets) =>
+                      assets.findIndex(
+                        (other) => getFinalVideoLabel(other) === getFinalVideoLabel(asset)
+                      ) === index
+                  )
+                  .map((asset) => (
+                    <Button
+                      key={asset.id}
+                      asChild
+                      variant={asset.id === project.finalVideoAssetId ? "default" : "outline"}
+                      size="sm"
+                    >
+                      <a href={`/api/projects/${projectId}/download?assetId=${asset.id}`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        {getFinalVideoLabel(asset)}
+                      </a>
+                    </Button>
+                  ))}
+              </div>
               <p className="text-muted-foreground mb-4">
-                영상을 다시 렌더링하거나 다운로드하려면 아래 버튼을 클릭하세요.
+                다른 비율이나 화질로 렌더링하려면 옵션을 선택하고 다시 렌더링하세요.
               </p>
-              <Button onClick={handleRenderAndDownload} disabled={generatingScript}>
+              <div className="flex justify-center mb-4">{renderOutputOptions()}</div>
+              {renderProgress?.stage === "failed" && (
+                <div className="flex justify-center mb-4">{renderRenderProgress()}</div>
+              )}
+              <Button
+                onClick={handleRender}
+                disabled={startingRender || changedScenes.length > 0}
+              >
                 <Play className="h-4 w-4 mr-2" />
-                {generatingScript ? "렌더링 중..." : "다시 렌더링 및 다운로드"}
+                {startingRender ? "렌더링 요청 중..." : "다시 렌더링"}
               </Button>
             </div>
           </CardContent>
@@ -627,7 +1425,7 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
           <CardHeader>
             <CardTitle>문서 업로드</CardTitle>
             <CardDescription>
-              PDF 파일을 업로드하면 AI가 자동으로 대본을 생성합니다
+              문서 파일 또는 URL을 등록하면 AI가 자동으로 대본을 생성합니다
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -637,20 +1435,39 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
                 className="cursor-pointer inline-flex items-center justify-center gap-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:pointer-events-none disabled:opacity-50 border border-input bg-background shadow-sm hover:bg-accent hover:text-accent-foreground h-9 px-4 py-2"
               >
                 <Upload className="h-4 w-4" />
-                {uploadingDocument ? "업로드 중..." : "PDF 선택"}
+                {uploadingDocument ? "업로드 중..." : "파일 선택"}
               </Label>
               <Input
                 id="document-upload"
                 type="file"
-                accept=".pdf"
+                accept={DOCUMENT_ACCEPT}
                 className="hidden"
                 onChange={handleDocumentUpload}
                 disabled={uploadingDocument}
               />
               <span className="text-sm text-muted-foreground">
-                PDF 파일 (최대 10MB)
+                {Object.values(DOCUMENT_FORMAT_DEFINITIONS)
+                  .map((definition) => definition.label)
+                  .join(", ")}{" "}
+                (최대 10MB)
               </span>
             </div>
+            <div className="flex items-center gap-2 mt-4">
+              <Input
+                type="url"
+                placeholder="https://example.com/article"
+                value={documentUrl}
+                onChange={(e) => setDocumentUrl(e.target.value)}
+                disabled={uploadingDocument}
+              />
+              <Button
+                variant="outline"
+                onClick={handleDocumentUrlSubmit}
+                disabled={uploadingDocument || !documentUrl.trim()}
+              >
+                URL 가져오기
+              </Button>
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -661,7 +1478,7 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
           <CardHeader>
             <CardTitle>업로드된 문서</CardTitle>
             <CardDescription>
-              프로젝트에 업로드된 PDF 문서 목록
+              프로젝트에 업로드된 문서 목록
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -675,7 +1492,7 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
                     <FileText className="h-5 w-5 text-muted-foreground" />
                     <div className="flex-1 min-w-0">
                       <div className="font-medium truncate">
-                        {doc.metadata?.fileName || "문서"}
+                        {doc.metadata?.sourceUrl || doc.metadata?.fileName || "문서"}
                       </div>
                       <div className="text-sm text-muted-foreground">
                         {doc.metadata?.fileSize
@@ -785,233 +1602,633 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
         </Card>
       )}
 
+      {/* 아바타 레이아웃 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            아바타 레이아웃
+          </CardTitle>
+          <CardDescription>
+            영상 합성 시 아바타 배치 방식 (씬별로 개별 설정 가능)
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="layout-aspect-ratio">화면 비율</Label>
+                <Select
+                  value={layoutAspectRatio}
+                  onValueChange={(value: AspectRatio) => setLayoutAspectRatio(value)}
+                >
+                  <SelectTrigger id="layout-aspect-ratio">
+                    <SelectValue placeholder="화면 비율 선택" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASPECT_RATIOS.map((ratio) => (
+                      <SelectItem key={ratio} value={ratio}>
+                        {ASPECT_RATIO_DEFINITIONS[ratio].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {layoutAspectRatio !== resolveAspectRatio(project.settings) && (
+                  <p className="text-xs text-muted-foreground">
+                    이미 생성된 배경은 새 비율에 맞게 잘려서 합성됩니다. 새 배경은 다음 생성부터 이 비율로 만들어집니다.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="layout-preset">레이아웃</Label>
+                <Select value={layoutPresetKey} onValueChange={setLayoutPresetKey}>
+                  <SelectTrigger id="layout-preset">
+                    <SelectValue placeholder="레이아웃 선택" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(AVATAR_LAYOUT_PRESETS).map(([key, preset]) => (
+                      <SelectItem key={key} value={key}>
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {AVATAR_LAYOUT_PRESETS[layoutPresetKey]?.layout.mode === "pip" && (
+                <div className="space-y-2">
+                  <Label htmlFor="layout-mask">마스크</Label>
+                  <Select
+                    value={layoutMask}
+                    onValueChange={(value: AvatarMask) => setLayoutMask(value)}
+                  >
+                    <SelectTrigger id="layout-mask">
+                      <SelectValue placeholder="마스크 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="circle">원형</SelectItem>
+                      <SelectItem value="square">정사각형</SelectItem>
+                      <SelectItem value="rounded">둥근 사각형</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <Button onClick={handleSaveLayout} disabled={savingLayout} size="sm">
+                <Save className="h-4 w-4 mr-2" />
+                {savingLayout ? "저장 중..." : "레이아웃 저장"}
+              </Button>
+            </div>
+            <AvatarLayoutPreview
+              layout={buildProjectLayout()}
+              aspectRatio={layoutAspectRatio}
+              backgroundUrl={
+                project.scenes?.find((s) => s.backgroundAsset?.kind === "background_image")
+                  ?.backgroundAsset?.url
+              }
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 배경 음악 */}
+      <MusicSettings
+        projectId={projectId}
+        projectSettings={project.settings}
+        onSaved={fetchProject}
+      />
+
+      {/* 다국어 버전 */}
+      {((project.scenes?.length ?? 0) > 0 || project.sourceProject) &&
+        renderLanguageVariants(project)}
+
       {/* 생성된 스크립트 */}
       {project.scenes && project.scenes.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>생성된 스크립트</CardTitle>
-            <CardDescription>
-              AI가 생성한 {project.scenes.length}개 씬의 발표 대본
-            </CardDescription>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <CardTitle>생성된 스크립트</CardTitle>
+                <CardDescription>
+                  AI가 생성한 {project.scenes.length}개 씬의 발표 대본
+                  {!sceneEditLocked && " · 드래그하여 순서를 바꿀 수 있습니다"}
+                </CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {changedScenes.length > 0 && (
+                  <Button
+                    size="sm"
+                    onClick={() => handleProcessChangedScenes(changedScenes)}
+                    disabled={updatingScenes}
+                  >
+                    <Film className="h-4 w-4 mr-1" />
+                    변경된 씬 처리 ({changedScenes.length})
+                  </Button>
+                )}
+                {!sceneEditLocked && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleOpenInsertScene(null)}
+                    disabled={updatingScenes}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    맨 앞에 추가
+                  </Button>
+                )}
+              </div>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {project.scenes.map((scene) => {
+              {insertAfterSceneId === null && renderInsertSceneForm()}
+              {project.scenes.map((scene, sceneIndex) => {
                 const isEditing = editingSceneId === scene.id;
+                const isLastScene = sceneIndex === project.scenes!.length - 1;
+                const transition = resolveSceneTransition(scene.metadata);
+                const isSplitting = splittingSceneId === scene.id;
+                const canDrag = !sceneEditLocked && !editingSceneId && !splittingSceneId && !updatingScenes;
 
                 return (
-                  <div
-                    key={scene.id}
-                    className="border rounded-lg p-4 hover:bg-muted/50 transition-colors"
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        <span className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-semibold">
-                          {scene.sceneNumber}
-                        </span>
-                        <span className="text-sm text-muted-foreground">
-                          씬 {scene.sceneNumber} ({scene.duration}초)
-                        </span>
-                      </div>
-                      <div className="flex gap-2">
-                        <span
-                          className={`text-xs px-2 py-1 rounded-full ${
-                            scene.ttsStatus === "completed"
-                              ? "bg-green-100 text-green-800"
-                              : scene.ttsStatus === "processing"
-                              ? "bg-blue-100 text-blue-800"
-                              : "bg-gray-100 text-gray-800"
-                          }`}
-                        >
-                          TTS: {scene.ttsStatus === "completed" ? "완료" : scene.ttsStatus === "processing" ? "진행중" : "대기"}
-                        </span>
-                        <span
-                          className={`text-xs px-2 py-1 rounded-full ${
-                            scene.avatarStatus === "completed"
-                              ? "bg-green-100 text-green-800"
-                              : scene.avatarStatus === "processing"
-                              ? "bg-blue-100 text-blue-800"
-                              : "bg-gray-100 text-gray-800"
-                          }`}
-                        >
-                          아바타: {scene.avatarStatus === "completed" ? "완료" : scene.avatarStatus === "processing" ? "진행중" : "대기"}
-                        </span>
-                        <span
-                          className={`text-xs px-2 py-1 rounded-full ${
-                            (scene.backgroundAnalysis as { priority?: string })?.priority === "high"
-                              ? "bg-purple-100 text-purple-800"
-                              : (scene.backgroundAnalysis as { priority?: string })?.priority === "medium"
-                              ? "bg-yellow-100 text-yellow-800"
-                              : "bg-gray-100 text-gray-800"
-                          }`}
-                        >
-                          배경: {(scene.backgroundAnalysis as { priority?: string })?.priority === "high" ? "High" : (scene.backgroundAnalysis as { priority?: string })?.priority === "medium" ? "Medium" : "Low"}
-                        </span>
-                        {!isEditing && (
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleStartEdit(scene)}
-                            className="h-6 px-2"
-                          >
-                            <Pencil className="h-3 w-3" />
-                          </Button>
-                        )}
-                      </div>
-                    </div>
-
-                    {isEditing ? (
-                      <div className="space-y-3">
-                        <div>
-                          <Label htmlFor="edit-script" className="text-xs text-muted-foreground mb-1">
-                            스크립트
-                          </Label>
-                          <Textarea
-                            id="edit-script"
-                            value={editedScript}
-                            onChange={(e) => setEditedScript(e.target.value)}
-                            className="min-h-[100px] text-sm"
-                            placeholder="스크립트를 입력하세요..."
-                          />
-                        </div>
-                        <div>
-                          <Label htmlFor="edit-visual" className="text-xs text-muted-foreground mb-1">
-                            배경 설명
-                          </Label>
-                          <Textarea
-                            id="edit-visual"
-                            value={editedVisualDescription}
-                            onChange={(e) => setEditedVisualDescription(e.target.value)}
-                            className="min-h-[60px] text-sm"
-                            placeholder="배경 설명을 입력하세요..."
-                          />
+                  <div key={scene.id} className="space-y-4">
+                    <div
+                      draggable={canDrag}
+                      onDragStart={() => setDraggedSceneId(scene.id)}
+                      onDragEnd={() => setDraggedSceneId(null)}
+                      onDragOver={(e) => {
+                        if (draggedSceneId) e.preventDefault();
+                      }}
+                      onDrop={() => handleDropScene(scene.id)}
+                      className={`border rounded-lg p-4 hover:bg-muted/50 transition-colors ${
+                        draggedSceneId === scene.id ? "opacity-50" : ""
+                      }`}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          {canDrag && (
+                            <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                          )}
+                          <span className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-semibold">
+                            {scene.sceneNumber}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            씬 {scene.sceneNumber} ({scene.duration}초)
+                          </span>
                         </div>
-                        <div>
-                          <Label htmlFor="edit-priority" className="text-xs text-muted-foreground mb-1">
-                            배경 우선순위
-                          </Label>
-                          <Select
-                            value={editedBackgroundPriority}
-                            onValueChange={(value: "low" | "medium" | "high") => setEditedBackgroundPriority(value)}
+                        <div className="flex gap-2">
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full ${
+                              scene.ttsStatus === "completed"
+                                ? "bg-green-100 text-green-800"
+                                : scene.ttsStatus === "processing"
+                                ? "bg-blue-100 text-blue-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
                           >
-                            <SelectTrigger id="edit-priority" className="text-sm">
-                              <SelectValue placeholder="우선순위 선택" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="low">Low (그라데이션)</SelectItem>
-                              <SelectItem value="medium">Medium (이미지)</SelectItem>
-                              <SelectItem value="high">High (영상)</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <p className="text-xs text-muted-foreground mt-1">
-                            Low: FFmpeg 그라데이션 | Medium: Nano Banana 이미지 | High: Veo 3.1 영상
-                          </p>
-                        </div>
-                        <div className="flex gap-2 justify-end">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={handleCancelEdit}
-                            disabled={saving}
+                            TTS: {scene.ttsStatus === "completed" ? "완료" : scene.ttsStatus === "processing" ? "진행중" : "대기"}
+                          </span>
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full ${
+                              scene.avatarStatus === "completed"
+                                ? "bg-green-100 text-green-800"
+                                : scene.avatarStatus === "processing"
+                                ? "bg-blue-100 text-blue-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
                           >
-                            <X className="h-4 w-4 mr-1" />
-                            취소
-                          </Button>
-                          <Button
-                            variant="default"
-                            size="sm"
-                            onClick={() => handleSaveEdit(scene.id)}
-                            disabled={saving}
+                            아바타: {scene.avatarStatus === "completed" ? "완료" : scene.avatarStatus === "processing" ? "진행중" : "대기"}
+                          </span>
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full ${
+                              (scene.backgroundAnalysis as { priority?: string })?.priority === "high"
+                                ? "bg-purple-100 text-purple-800"
+                                : (scene.backgroundAnalysis as { priority?: string })?.priority === "medium"
+                                ? "bg-yellow-100 text-yellow-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
                           >
-                            <Save className="h-4 w-4 mr-1" />
-                            {saving ? "저장 중..." : "저장"}
-                          </Button>
+                            배경: {(scene.backgroundAnalysis as { priority?: string })?.priority === "high" ? "High" : (scene.backgroundAnalysis as { priority?: string })?.priority === "medium" ? "Medium" : "Low"}
+                          </span>
+                          {scene.metadata?.avatarLayout && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-indigo-100 text-indigo-800">
+                              레이아웃: {AVATAR_LAYOUT_PRESETS[getAvatarLayoutPresetKey(scene.metadata.avatarLayout)]?.label}
+                            </span>
+                          )}
+                          {changedScenes.includes(scene) && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                              재처리 필요
+                            </span>
+                          )}
+                          {!isEditing && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleStartEdit(scene)}
+                              className="h-6 px-2"
+                            >
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                          )}
+                          {!isEditing && !isSplitting && !sceneEditLocked && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleStartSplit(scene)}
+                                disabled={updatingScenes}
+                                className="h-6 px-2"
+                                title="씬 분할"
+                              >
+                                <Scissors className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleOpenInsertScene(scene.id)}
+                                disabled={updatingScenes}
+                                className="h-6 px-2"
+                                title="아래에 씬 추가"
+                              >
+                                <Plus className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteScene(scene)}
+                                disabled={updatingScenes || project.scenes!.length === 1}
+                                className="h-6 px-2"
+                                title="씬 삭제"
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
-                    ) : (
-                      <>
-                        <p className="text-sm leading-relaxed">{scene.script}</p>
 
-                        {/* 프롬프트 표시 */}
-                        <div className="mt-4 space-y-3">
-                          {scene.imagePrompt && (
+                      {isEditing ? (
+                        <div className="space-y-3">
+                          <div>
+                            <Label htmlFor="edit-script" className="text-xs text-muted-foreground mb-1">
+                              스크립트
+                            </Label>
+                            <Textarea
+                              id="edit-script"
+                              value={editedScript}
+                              onChange={(e) => setEditedScript(e.target.value)}
+                              className="min-h-[100px] text-sm"
+                              placeholder="스크립트를 입력하세요..."
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="edit-visual" className="text-xs text-muted-foreground mb-1">
+                              배경 설명
+                            </Label>
+                            <Textarea
+                              id="edit-visual"
+                              value={editedVisualDescription}
+                              onChange={(e) => setEditedVisualDescription(e.target.value)}
+                              className="min-h-[60px] text-sm"
+                              placeholder="배경 설명을 입력하세요..."
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="edit-priority" className="text-xs text-muted-foreground mb-1">
+                              배경 우선순위
+                            </Label>
+                            <Select
+                              value={editedBackgroundPriority}
+                              onValueChange={(value: "low" | "medium" | "high") => setEditedBackgroundPriority(value)}
+                            >
+                              <SelectTrigger id="edit-priority" className="text-sm">
+                                <SelectValue placeholder="우선순위 선택" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="low">Low (그라데이션)</SelectItem>
+                                <SelectItem value="medium">Medium (이미지)</SelectItem>
+                                <SelectItem value="high">High (영상)</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Low: FFmpeg 그라데이션 | Medium: Nano Banana 이미지 | High: Veo 3.1 영상
+                            </p>
+                          </div>
+                          <div>
+                            <Label htmlFor="edit-layout" className="text-xs text-muted-foreground mb-1">
+                              아바타 레이아웃
+                            </Label>
+                            <Select value={editedLayoutKey} onValueChange={setEditedLayoutKey}>
+                              <SelectTrigger id="edit-layout" className="text-sm">
+                                <SelectValue placeholder="레이아웃 선택" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="inherit">프로젝트 기본값 사용</SelectItem>
+                                {Object.entries(AVATAR_LAYOUT_PRESETS).map(([key, preset]) => (
+                                  <SelectItem key={key} value={key}>
+                                    {preset.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <AvatarLayoutPreview
+                              className="mt-2 max-w-xs"
+                              aspectRatio={resolveAspectRatio(project.settings)}
+                              layout={resolveAvatarLayout(
+                                project.settings,
+                                editedLayoutKey === "inherit"
+                                  ? null
+                                  : { avatarLayout: AVATAR_LAYOUT_PRESETS[editedLayoutKey].layout }
+                              )}
+                              backgroundUrl={
+                                scene.backgroundAsset?.kind === "background_image"
+                                  ? scene.backgroundAsset.url
+                                  : null
+                              }
+                            />
+                          </div>
+                          {!isLastScene && (
                             <div>
-                              <h4 className="font-medium text-xs text-muted-foreground mb-1.5">
-                                이미지 프롬프트 (Nano Banana)
-                              </h4>
-                              <p className="text-xs text-gray-600 font-mono bg-gray-50 p-2 rounded border border-gray-200">
-                                {scene.imagePrompt}
+                              <Label htmlFor="edit-transition" className="text-xs text-muted-foreground mb-1">
+                                다음 씬으로 전환
+                              </Label>
+                              <div className="flex gap-2">
+                                <Select
+                                  value={editedTransition.type}
+                                  onValueChange={(value: SceneTransitionType) =>
+                                    setEditedTransition({ ...editedTransition, type: value })
+                                  }
+                                >
+                                  <SelectTrigger id="edit-transition" className="text-sm">
+                                    <SelectValue placeholder="전환 선택" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {Object.entries(SCENE_TRANSITION_LABELS).map(([type, label]) => (
+                                      <SelectItem key={type} value={type}>
+                                        {label}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                {(editedTransition.type === "slide" || editedTransition.type === "wipe") && (
+                                  <Select
+                                    value={editedTransition.direction}
+                                    onValueChange={(value: SceneTransitionDirection) =>
+                                      setEditedTransition({ ...editedTransition, direction: value })
+                                    }
+                                  >
+                                    <SelectTrigger className="w-32 text-sm">
+                                      <SelectValue placeholder="방향" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      {Object.entries(SCENE_TRANSITION_DIRECTION_LABELS).map(([direction, label]) => (
+                                        <SelectItem key={direction} value={direction}>
+                                          {label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                )}
+                                {editedTransition.type !== "cut" && (
+                                  <Input
+                                    type="number"
+                                    min={MIN_TRANSITION_SECONDS}
+                                    max={MAX_TRANSITION_SECONDS}
+                                    step={0.1}
+                                    value={editedTransition.duration}
+                                    onChange={(e) =>
+                                      setEditedTransition({
+                                        ...editedTransition,
+                                        duration: Math.min(
+                                          MAX_TRANSITION_SECONDS,
+                                          Math.max(MIN_TRANSITION_SECONDS, Number(e.target.value) || MIN_TRANSITION_SECONDS)
+                                        ),
+                                      })
+                                    }
+                                    className="w-24 text-sm"
+                                    aria-label="전환 길이 (초)"
+                                  />
+                                )}
+                              </div>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                전환 중에는 이 씬의 마지막 화면이 유지되어 음성 타이밍과 전체 길이는 바뀌지 않습니다.
                               </p>
                             </div>
                           )}
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={handleCancelEdit}
+                              disabled={saving}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              취소
+                            </Button>
+                            <Button
+                              variant="default"
+                              size="sm"
+                              onClick={() => handleSaveEdit(scene.id)}
+                              disabled={saving}
+                            >
+                              <Save className="h-4 w-4 mr-1" />
+                              {saving ? "저장 중..." : "저장"}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : isSplitting ? (
+                        <div className="space-y-3">
+                          {splitScripts.map((script, index) => (
+                            <div key={index}>
+                              <Label className="text-xs text-muted-foreground mb-1">
+                                {index === 0 ? "앞 씬" : "뒤 씬"} 스크립트
+                              </Label>
+                              <Textarea
+                                value={script}
+                                onChange={(e) =>
+                                  setSplitScripts(
+                                    index === 0
+                                      ? [e.target.value, splitScripts[1]]
+                                      : [splitScripts[0], e.target.value]
+                                  )
+                                }
+                                className="min-h-[80px] text-sm"
+                              />
+                            </div>
+                          ))}
+                          <p className="text-xs text-muted-foreground">
+                            배경은 두 씬이 함께 사용하고, 음성과 아바타는 다시 생성해야 합니다.
+                          </p>
+                          <div className="flex gap-2 justify-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSplittingSceneId(null)}
+                              disabled={updatingScenes}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              취소
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleSplitScene(scene.id)}
+                              disabled={
+                                updatingScenes || !splitScripts[0].trim() || !splitScripts[1].trim()
+                              }
+                            >
+                              <Scissors className="h-4 w-4 mr-1" />
+                              {updatingScenes ? "분할 중..." : "분할"}
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          {(() => {
+                            const thumbnail = scene.assets?.find(
+                              (asset) => asset.kind === SCENE_THUMBNAIL_ASSET_KIND
+                            );
+                            return (
+                              thumbnail && (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                  src={thumbnail.url}
+                                  alt={`씬 ${scene.sceneNumber} 썸네일`}
+                                  loading="lazy"
+                                  className="mb-2 w-40 rounded border bg-black"
+                                />
+                              )
+                            );
+                          })()}
+                          <p className="text-sm leading-relaxed">{scene.script}</p>
+
+                          {/* 자막 파일 (SRT / WebVTT) */}
+                          {scene.assets?.some((asset) => asset.kind === "subtitle") && (
+                            <div className="mt-2 flex gap-2">
+                              {scene.assets
+                                .filter((asset) => asset.kind === "subtitle")
+                                .map((asset) => (
+                                  <a
+                                    key={asset.id}
+                                    href={asset.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-xs text-primary underline"
+                                  >
+                                    자막 {((asset.metadata as { format?: string } | null)?.format ?? "").toUpperCase()}
+                                  </a>
+                                ))}
+                            </div>
+                          )}
 
-                          {scene.videoPrompt && (
-                            <div>
-                              <div className="flex items-center justify-between mb-1.5">
-                                <h4 className="font-medium text-xs text-muted-foreground">
-                                  영상 프롬프트 (Veo 3.1)
-                                </h4>
+                          {!isLastScene && transition.type !== "cut" && (
+                            <p className="mt-2 text-xs text-muted-foreground">
+                              다음 씬 전환: {SCENE_TRANSITION_LABELS[transition.type]} ({transition.duration}초)
+                            </p>
+                          )}
+
+                          {/* 씬 단위 재생성 */}
+                          {(project.status === "scenes_processed" || project.status === "rendered") && (
+                            <div className="mt-3 flex items-center gap-2">
+                              <span className="text-xs text-muted-foreground">다시 생성:</span>
+                              {([
+                                ["tts", "음성"],
+                                ["avatar", "아바타"],
+                                ["background", "배경"],
+                              ] as const).map(([part, label]) => (
                                 <Button
+                                  key={part}
                                   variant="outline"
                                   size="sm"
-                                  onClick={() => handleOpenRetryDialog(scene)}
+                                  onClick={() => handleRegenerateScene(scene, part)}
+                                  disabled={regeneratingSceneId === scene.id}
                                   className="h-6 px-2 text-xs"
                                 >
                                   <RefreshCw className="h-3 w-3 mr-1" />
-                                  재생성
+                                  {label}
                                 </Button>
-                              </div>
-                              <p className="text-xs text-gray-600 font-mono bg-gray-50 p-2 rounded border border-gray-200">
-                                {scene.videoPrompt}
-                              </p>
+                              ))}
                             </div>
                           )}
 
-                          {scene.visualDescription && (
-                            <div>
-                              <h4 className="font-medium text-xs text-muted-foreground mb-1.5">
-                                배경 설명 (하위 호환성)
-                              </h4>
-                              <p className="text-xs text-gray-500 font-mono bg-gray-50 p-2 rounded border border-gray-200">
-                                {scene.visualDescription}
-                              </p>
-                            </div>
-                          )}
-                        </div>
+                          {/* 프롬프트 표시 */}
+                          <div className="mt-4 space-y-3">
+                            {scene.imagePrompt && (
+                              <div>
+                                <h4 className="font-medium text-xs text-muted-foreground mb-1.5">
+                                  이미지 프롬프트 (Nano Banana)
+                                </h4>
+                                <p className="text-xs text-gray-600 font-mono bg-gray-50 p-2 rounded border border-gray-200">
+                                  {scene.imagePrompt}
+                                </p>
+                              </div>
+                            )}
+
+                            {scene.videoPrompt && (
+                              <div>
+                                <div className="flex items-center justify-between mb-1.5">
+                                  <h4 className="font-medium text-xs text-muted-foreground">
+                                    영상 프롬프트 (Veo 3.1)
+                                  </h4>
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleOpenRetryDialog(scene)}
+                                    className="h-6 px-2 text-xs"
+                                  >
+                                    <RefreshCw className="h-3 w-3 mr-1" />
+                                    재생성
+                                  </Button>
+                                </div>
+                                <p className="text-xs text-gray-600 font-mono bg-gray-50 p-2 rounded border border-gray-200">
+                                  {scene.videoPrompt}
+                                </p>
+                              </div>
+                            )}
+
+                            {scene.visualDescription && (
+                              <div>
+                                <h4 className="font-medium text-xs text-muted-foreground mb-1.5">
+                                  배경 설명 (하위 호환성)
+                                </h4>
+                                <p className="text-xs text-gray-500 font-mono bg-gray-50 p-2 rounded border border-gray-200">
+                                  {scene.visualDescription}
+                                </p>
+                              </div>
+                            )}
+                          </div>
 
-                        {/* Asset 미리보기/재생 */}
-                        {scene.assets && scene.assets.length > 0 && (
-                          <div className="mt-4 space-y-3 border-t pt-4">
-                            <h4 className="font-medium text-sm text-muted-foreground">
-                              생성된 자산
-                            </h4>
-                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                              {/* 배경 영상 */}
-                              {(() => {
-                                const bgVideoAsset = scene.assets.find((a) => a.kind === "background_video");
-                                if (!bgVideoAsset) return null;
-
-                                return (
-                                  <div className="border rounded-lg p-3 bg-muted/30">
-                                    <div className="flex items-center gap-2 mb-2">
-                                      <Film className="h-4 w-4 text-orange-600" />
-                                      <span className="text-xs font-medium">배경 영상</span>
+                          {/* Asset 미리보기/재생 */}
+                          {scene.assets && scene.assets.length > 0 && (
+                            <div className="mt-4 space-y-3 border-t pt-4">
+                              <h4 className="font-medium text-sm text-muted-foreground">
+                                생성된 자산
+                              </h4>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {/* 배경 영상 */}
+                                {(() => {
+                                  const bgVideoAsset = scene.assets.find((a) => a.kind === "background_video");
+                                  if (!bgVideoAsset) return null;
+
+                                  return (
+                                    <div className="border rounded-lg p-3 bg-muted/30">
+                                      <div className="flex items-center gap-2 mb-2">
+                                        <Film className="h-4 w-4 text-orange-600" />
+                                        <span className="text-xs font-medium">배경 영상</span>
+                                      </div>
+                                      <video
+                                        controls
+                                        className="w-full rounded border border-border"
+                                        src={bgVideoAsset.url}
+                                      >
+                                        브라우저가 비디오를 지원하지 않습니다.
+                                      </video>
                                     </div>
-                                    <video
-                                      controls
-                                      className="w-full rounded border border-border"
-                                      src={bgVideoAsset.url}
-                                    >
-                                      브라우저가 비디오를 지원하지 않습니다.
-                                    </video>
-                                  </div>
-                                );
-                              })()}
+                                  );
+                                })()}
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </>
-                    )}
+                          )}
+                        </>
+                      )}
+                    </div>
+                    {insertAfterSceneId === scene.id && renderInsertSceneForm()}
                   </div>
                 );
               })}
@@ -1020,6 +2237,15 @@ export function ProjectDetail({ projectId }: ProjectDetailProps) {
         </Card>
       )}
 
+      {/* 대본 버전 기록 */}
+      {project.scenes && project.scenes.length > 0 && (
+        <ScriptVersionHistory
+          projectId={projectId}
+          reloadKey={project.scenes.map((scene) => `${scene.id}:${scene.updatedAt}`).join(",")}
+          onRestored={fetchProject}
+        />
+      )}
+
       {/* 씬 진행 상황 */}
       <SceneProgress projectId={projectId} />
 
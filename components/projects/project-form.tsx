@@ -21,16 +21,58 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  MAX_SCENE_SECONDS,
+  MAX_VIDEO_DURATION,
+  MIN_SCENE_SECONDS,
+  MIN_VIDEO_DURATION,
+  planScenes,
+  type ScenePlan,
+} from "@/lib/video/scene-plan";
+import {
+  DEFAULT_SCRIPT_LANGUAGE,
+  formatScriptLength,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+  SCRIPT_LANGUAGES,
+  type ScriptLanguage,
+} from "@/lib/video/languages";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  ASPECT_RATIOS,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+
+// 영상 길이 프리셋 (초)
+const DURATION_PRESETS = [
+  { value: 30, label: "30초 (빠른 요약)" },
+  { value: 45, label: "45초" },
+  { value: 60, label: "60초 (표준)" },
+  { value: 90, label: "90초" },
+  { value: 180, label: "3분 (상세)" },
+  { value: 300, label: "5분" },
+  { value: 600, label: "10분" },
+];
 
 export function ProjectForm() {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [customDuration, setCustomDuration] = useState(false);
+  const [showScenePlan, setShowScenePlan] = useState(false);
+  // 빈 문자열 = 자동 계산
+  const [scenePlanInput, setScenePlanInput] = useState({
+    sceneCount: "",
+    minSceneSeconds: "",
+    maxSceneSeconds: "",
+  });
 
   const [formData, setFormData] = useState({
     title: "",
     description: "",
     duration: 30,
+    language: DEFAULT_SCRIPT_LANGUAGE as ScriptLanguage,
+    aspectRatio: DEFAULT_ASPECT_RATIO as AspectRatio,
     avatarDesignMode: "preset" as "preset" | "custom",
     avatarDesignSettings: {
       gender: "female" as "male" | "female",
@@ -45,6 +87,27 @@ export function ProjectForm() {
     },
   });
 
+  const toOptionalNumber = (value: string) =>
+    value.trim() === "" ? undefined : Number(value);
+
+  const scenePlanOptions = {
+    sceneCount: toOptionalNumber(scenePlanInput.sceneCount),
+    minSceneSeconds: toOptionalNumber(scenePlanInput.minSceneSeconds),
+    maxSceneSeconds: toOptionalNumber(scenePlanInput.maxSceneSeconds),
+  };
+  const hasScenePlanOptions = Object.values(scenePlanOptions).some(
+    (value) => value !== undefined
+  );
+
+  // 씬 구성 미리보기 (서버와 동일한 planScenes 사용)
+  let scenePlan: ScenePlan | null = null;
+  let scenePlanError: string | null = null;
+  try {
+    scenePlan = planScenes(formData.duration, scenePlanOptions, formData.language);
+  } catch (err) {
+    scenePlanError = err instanceof Error ? err.message : "씬 구성을 계산할 수 없습니다.";
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -56,7 +119,10 @@ export function ProjectForm() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          ...(hasScenePlanOptions && { scenePlan: scenePlanOptions }),
+        }),
       });
 
       if (!response.ok) {
@@ -117,29 +183,161 @@ export function ProjectForm() {
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="duration">
-              영상 길이 <span className="text-destructive">*</span>
+            <Label htmlFor="language">
+              영상 언어 <span className="text-destructive">*</span>
             </Label>
             <Select
-              value={formData.duration.toString()}
+              value={formData.language}
               onValueChange={(value) =>
-                setFormData({ ...formData, duration: parseInt(value) })
+                setFormData({ ...formData, language: value as ScriptLanguage })
               }
             >
-              <SelectTrigger id="duration">
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCRIPT_LANGUAGES.map((language) => {
+                  const { label, nativeName } = SCRIPT_LANGUAGE_DEFINITIONS[language];
+                  return (
+                    <SelectItem key={language} value={language}>
+                      {label === nativeName ? label : `${label} (${nativeName})`}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              대본과 음성(TTS)이 이 언어로 생성됩니다
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="aspectRatio">
+              화면 비율 <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={formData.aspectRatio}
+              onValueChange={(value) =>
+                setFormData({ ...formData, aspectRatio: value as AspectRatio })
+              }
+            >
+              <SelectTrigger id="aspectRatio">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="30">30초 (빠른 요약)</SelectItem>
-                <SelectItem value="60">60초 (표준)</SelectItem>
-                <SelectItem value="180">180초 (상세)</SelectItem>
+                {ASPECT_RATIOS.map((aspectRatio) => (
+                  <SelectItem key={aspectRatio} value={aspectRatio}>
+                    {ASPECT_RATIO_DEFINITIONS[aspectRatio].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <p className="text-sm text-muted-foreground">
-              영상 길이에 따라 씬 개수가 자동 조정됩니다
+              배경 이미지/영상이 이 비율로 생성됩니다. 다른 비율 영상은 프로젝트 화면에서 추가로 렌더링할 수 있습니다
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="duration">
+              영상 길이 <span className="text-destructive">*</span>
+            </Label>
+            <Select
+              value={customDuration ? "custom" : formData.duration.toString()}
+              onValueChange={(value) => {
+                if (value === "custom") {
+                  setCustomDuration(true);
+                  return;
+                }
+                setCustomDuration(false);
+                setFormData({ ...formData, duration: parseInt(value) });
+              }}
+            >
+              <SelectTrigger id="duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DURATION_PRESETS.map((preset) => (
+                  <SelectItem key={preset.value} value={preset.value.toString()}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom">직접 입력</SelectItem>
+              </SelectContent>
+            </Select>
+            {customDuration && (
+              <Input
+                type="number"
+                min={MIN_VIDEO_DURATION}
+                max={MAX_VIDEO_DURATION}
+                value={formData.duration}
+                onChange={(e) =>
+                  setFormData({ ...formData, duration: parseInt(e.target.value) || 0 })
+                }
+                placeholder={`${MIN_VIDEO_DURATION}~${MAX_VIDEO_DURATION}초`}
+              />
+            )}
+            {scenePlan ? (
+              <p className="text-sm text-muted-foreground">
+                씬 {scenePlan.sceneCount}개 × 약 {scenePlan.sceneSeconds.toFixed(1)}초로 구성됩니다
+                (씬당 대본 최대 {formatScriptLength(scenePlan.maxScriptLength, scenePlan.language)})
+              </p>
+            ) : (
+              <p className="text-sm text-destructive">{scenePlanError}</p>
+            )}
+            <button
+              type="button"
+              className="text-sm text-primary underline"
+              onClick={() => setShowScenePlan(!showScenePlan)}
+            >
+              {showScenePlan ? "씬 구성 옵션 닫기" : "씬 구성 직접 설정"}
+            </button>
+            {showScenePlan && (
+              <div className="grid grid-cols-3 gap-4 p-4 border rounded-lg bg-muted/50">
+                <div className="space-y-2">
+                  <Label htmlFor="sceneCount">씬 개수</Label>
+                  <Input
+                    id="sceneCount"
+                    type="number"
+                    min={1}
+                    placeholder="자동"
+                    value={scenePlanInput.sceneCount}
+                    onChange={(e) =>
+                      setScenePlanInput({ ...scenePlanInput, sceneCount: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="minSceneSeconds">최소 씬 길이 (초)</Label>
+                  <Input
+                    id="minSceneSeconds"
+                    type="number"
+                    min={MIN_SCENE_SECONDS}
+                    max={MAX_SCENE_SECONDS}
+                    placeholder="자동"
+                    value={scenePlanInput.minSceneSeconds}
+                    onChange={(e) =>
+                      setScenePlanInput({ ...scenePlanInput, minSceneSeconds: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="maxSceneSeconds">최대 씬 길이 (초)</Label>
+                  <Input
+                    id="maxSceneSeconds"
+                    type="number"
+                    min={MIN_SCENE_SECONDS}
+                    max={MAX_SCENE_SECONDS}
+                    placeholder="자동"
+                    value={scenePlanInput.maxSceneSeconds}
+                    onChange={(e) =>
+                      setScenePlanInput({ ...scenePlanInput, maxSceneSeconds: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="backgroundQuality">
               배경 영상 품질 <span className="text-destructive">*</span>
@@ -396,7 +594,7 @@ export function ProjectForm() {
           >
             취소
           </Button>
-          <Button type="submit" disabled={loading}>
+          <Button type="submit" disabled={loading || !scenePlan}>
             {loading ? "생성 중..." : "프로젝트 생성"}
           </Button>
         </CardFooter>
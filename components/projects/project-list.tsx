@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { resolveScriptLanguage, SCRIPT_LANGUAGE_DEFINITIONS } from "@/lib/video/languages";
 
 interface Project {
   id: string;
@@ -19,6 +20,10 @@ interface Project {
   status: string;
   duration: number;
   createdAt: string;
+  sourceProjectId?: string | null;
+  settings?: { language?: string } | null;
+  posterUrl?: string | null;
+  previewUrl?: string | null;
   _count?: {
     scenes: number;
   };
@@ -63,6 +68,14 @@ export function ProjectList() {
         label: "대본 생성 중",
         className: "bg-yellow-100 text-yellow-800",
       },
+      translating: {
+        label: "번역 중",
+        className: "bg-yellow-100 text-yellow-800",
+      },
+      scenes_processing: {
+        label: "씬 처리 중",
+        className: "bg-yellow-100 text-yellow-800",
+      },
       rendering: {
         label: "렌더링 중",
         className: "bg-purple-100 text-purple-800",
@@ -147,14 +160,50 @@ export function ProjectList() {
     );
   }
 
+  // 다국어 버전은 원본 카드에 묶어서 표시 (원본이 목록에 없으면 단독 카드)
+  const projectIds = new Set(projects.map((project) => project.id));
+  const variantsBySource = new Map<string, Project[]>();
+  for (const project of projects) {
+    if (project.sourceProjectId && projectIds.has(project.sourceProjectId)) {
+      variantsBySource.set(project.sourceProjectId, [
+        ...(variantsBySource.get(project.sourceProjectId) ?? []),
+        project,
+      ]);
+    }
+  }
+  const rootProjects = projects.filter(
+    (project) => !project.sourceProjectId || !projectIds.has(project.sourceProjectId)
+  );
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {projects.map((project) => (
+      {rootProjects.map((project) => (
         <Card
           key={project.id}
-          className="hover:shadow-lg transition-shadow cursor-pointer"
+          className="group hover:shadow-lg transition-shadow cursor-pointer overflow-hidden"
           onClick={() => router.push(`/dashboard/projects/${project.id}`)}
         >
+          {project.posterUrl && (
+            <div className="relative aspect-video bg-black">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={project.posterUrl}
+                alt={`${project.title} 포스터`}
+                loading="lazy"
+                className="absolute inset-0 h-full w-full object-contain"
+              />
+              {/* 마우스를 올리면 미리보기 애니메이션 */}
+              {project.previewUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={project.previewUrl}
+                  alt=""
+                  loading="lazy"
+                  className="absolute inset-0 h-full w-full object-contain opacity-0 transition-opacity group-hover:opacity-100"
+                />
+              )}
+            </div>
+          )}
           <CardHeader>
             <div className="flex justify-between items-start">
               <CardTitle className="text-lg">{project.title}</CardTitle>
@@ -182,6 +231,26 @@ export function ProjectList() {
                   {formatDate(project.createdAt)}
                 </span>
               </div>
+              {variantsBySource.has(project.id) && (
+                <div className="flex justify-between items-start gap-2">
+                  <span className="shrink-0">언어 버전:</span>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {[project, ...variantsBySource.get(project.id)!].map((variant) => (
+                      <button
+                        key={variant.id}
+                        type="button"
+                        className="inline-flex items-center px-2 py-0.5 rounded bg-muted text-xs font-medium text-foreground hover:bg-muted/70"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          router.push(`/dashboard/projects/${variant.id}`);
+                        }}
+                      >
+                        {SCRIPT_LANGUAGE_DEFINITIONS[resolveScriptLanguage(variant.settings)].label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </CardContent>
           <CardFooter>
@@ -0,0 +1,286 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare, History, RotateCcw } from "lucide-react";
+
+interface ScriptVersion {
+  id: string;
+  version: number;
+  source: string;
+  description: string | null;
+  sceneCount: number;
+  createdAt: string;
+  createdBy: { id: string; name: string | null; email: string } | null;
+}
+
+type ChangeValue = string | number | null;
+
+interface SceneDiff {
+  status: "added" | "removed" | "modified" | "unchanged";
+  sceneId: string;
+  fromSceneNumber: number | null;
+  toSceneNumber: number | null;
+  changes: Record<string, { from: ChangeValue; to: ChangeValue }>;
+  script?: string;
+}
+
+interface ScriptVersionHistoryProps {
+  projectId: string;
+  reloadKey?: string; // 씬이 바뀌면 목록 다시 조회
+  onRestored?: () => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  generated: "생성",
+  edited: "편집",
+  restored: "복원",
+  translated: "번역",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  script: "스크립트",
+  duration: "길이 (초)",
+  visualDescription: "배경 설명",
+  imagePrompt: "이미지 프롬프트",
+  videoPrompt: "영상 프롬프트",
+};
+
+const STATUS_STYLES: Record<SceneDiff["status"], { label: string; className: string }> = {
+  added: { label: "추가", className: "bg-green-100 text-green-800" },
+  removed: { label: "삭제", className: "bg-red-100 text-red-800" },
+  modified: { label: "변경", className: "bg-yellow-100 text-yellow-800" },
+  unchanged: { label: "동일", className: "bg-gray-100 text-gray-800" },
+};
+
+export function ScriptVersionHistory({ projectId, reloadKey, onRestored }: ScriptVersionHistoryProps) {
+  const [versions, setVersions] = useState<ScriptVersion[]>([]);
+  const [fromVersionId, setFromVersionId] = useState("");
+  const [toVersionId, setToVersionId] = useState("");
+  const [diff, setDiff] = useState<SceneDiff[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [restoringVersionId, setRestoringVersionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/script-versions`);
+        if (response.ok) {
+          const { versions: versionsData } = (await response.json()) as { versions: ScriptVersion[] };
+          setVersions(versionsData);
+          // 기본 비교: 직전 버전 → 최신 버전
+          setToVersionId(versionsData[0]?.id ?? "");
+          setFromVersionId(versionsData[1]?.id ?? "");
+          setDiff(null);
+        }
+      } catch (error) {
+        console.error("Failed to load script versions:", error);
+      }
+    };
+
+    loadVersions();
+  }, [projectId, reloadKey]);
+
+  async function handleCompare() {
+    setComparing(true);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/script-versions/diff?from=${fromVersionId}&to=${toVersionId}`
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "버전 비교에 실패했습니다.");
+      }
+
+      const { scenes } = (await response.json()) as { scenes: SceneDiff[] };
+      setDiff(scenes);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  async function handleRestore(version: ScriptVersion) {
+    if (
+      !confirm(
+        `버전 ${version.version}으로 복원할까요? 대본이 바뀐 씬은 음성/아바타를, 프롬프트가 바뀐 씬은 배경을 다시 생성해야 합니다.`
+      )
+    )
+      return;
+
+    setRestoringVersionId(version.id);
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/script-versions/${version.id}/restore`,
+        { method: "POST" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "버전 복원에 실패했습니다.");
+      }
+
+      alert(`버전 ${version.version}이 복원되었습니다.`);
+      onRestored?.();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "알 수 없는 오류");
+    } finally {
+      setRestoringVersionId(null);
+    }
+  }
+
+  if (versions.length === 0) {
+    return null;
+  }
+
+  const renderVersionOption = (version: ScriptVersion) => (
+    <SelectItem key={version.id} value={version.id}>
+      v{version.version} · {SOURCE_LABELS[version.source] ?? version.source}
+      {version.description ? ` · ${version.description}` : ""}
+    </SelectItem>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          대본 버전 기록
+        </CardTitle>
+        <CardDescription>
+          스크립트를 생성하거나 편집할 때마다 전체 씬이 저장됩니다
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {versions.map((version, index) => (
+            <div
+              key={version.id}
+              className="flex items-center justify-between p-3 border rounded-lg text-sm"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="inline-flex items-center px-2 py-0.5 rounded bg-muted text-xs font-medium">
+                  v{version.version}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {SOURCE_LABELS[version.source] ?? version.source}
+                </span>
+                <span className="truncate">
+                  {version.description ?? `${version.sceneCount}개 씬`}
+                </span>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className="text-xs text-muted-foreground">
+                  {version.createdBy?.name ?? version.createdBy?.email ?? ""}{" "}
+                  {new Date(version.createdAt).toLocaleString("ko-KR")}
+                </span>
+                {index === 0 ? (
+                  <span className="text-xs text-muted-foreground">현재</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringVersionId !== null}
+                    className="h-6 px-2 text-xs"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {restoringVersionId === version.id ? "복원 중..." : "복원"}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {versions.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={fromVersionId} onValueChange={setFromVersionId}>
+              <SelectTrigger className="w-64 text-sm">
+                <SelectValue placeholder="비교 기준" />
+              </SelectTrigger>
+              <SelectContent>{versions.map(renderVersionOption)}</SelectContent>
+            </Select>
+            <span className="text-sm text-muted-foreground">→</span>
+            <Select value={toVersionId} onValueChange={setToVersionId}>
+              <SelectTrigger className="w-64 text-sm">
+                <SelectValue placeholder="비교 대상" />
+              </SelectTrigger>
+              <SelectContent>{versions.map(renderVersionOption)}</SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={handleCompare}
+              disabled={comparing || !fromVersionId || !toVersionId || fromVersionId === toVersionId}
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {comparing ? "비교 중..." : "비교"}
+            </Button>
+          </div>
+        )}
+
+        {diff && (
+          <div className="space-y-2">
+            {diff.every((scene) => scene.status === "unchanged") && (
+              <p className="text-sm text-muted-foreground">두 버전의 씬 내용이 같습니다.</p>
+            )}
+            {diff
+              .filter((scene) => scene.status !== "unchanged")
+              .map((scene) => (
+                <div key={`${scene.status}-${scene.sceneId}`} className="border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[scene.status].className}`}
+                    >
+                      {STATUS_STYLES[scene.status].label}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {scene.fromSceneNumber !== null && scene.toSceneNumber !== null
+                        ? scene.fromSceneNumber === scene.toSceneNumber
+                          ? `씬 ${scene.toSceneNumber}`
+                          : `씬 ${scene.fromSceneNumber} → 씬 ${scene.toSceneNumber}`
+                        : `씬 ${scene.fromSceneNumber ?? scene.toSceneNumber}`}
+                    </span>
+                  </div>
+                  {scene.script && (
+                    <p className={`text-xs ${scene.status === "removed" ? "line-through text-red-800" : ""}`}>
+                      {scene.script}
+                    </p>
+                  )}
+                  {Object.entries(scene.changes).map(([field, change]) => (
+                    <div key={field} className="text-xs space-y-1">
+                      <div className="font-medium text-muted-foreground">
+                        {FIELD_LABELS[field] ?? field}
+                      </div>
+                      <div className="bg-red-50 text-red-800 p-2 rounded line-through">
+                        {change.from ?? "(없음)"}
+                      </div>
+                      <div className="bg-green-50 text-green-800 p-2 rounded">
+                        {change.to ?? "(없음)"}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
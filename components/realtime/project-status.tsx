@@ -64,6 +64,7 @@ export function ProjectStatus({ projectId }: ProjectStatusProps) {
       document_uploaded: "문서 업로드됨",
       script_generating: "대본 생성 중",
       script_generated: "대본 생성 완료",
+      scenes_processing: "씬 처리 중",
       rendering: "렌더링 중",
       rendered: "렌더링 완료",
     };
@@ -73,6 +74,7 @@ export function ProjectStatus({ projectId }: ProjectStatusProps) {
   const getStatusIcon = (status: string) => {
     if (
       status === "script_generating" ||
+      status === "scenes_processing" ||
       status === "rendering"
     ) {
       return <Loader2 className="h-5 w-5 animate-spin text-blue-500" />;
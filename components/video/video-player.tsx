@@ -4,7 +4,8 @@ import { useRef, useState, useEffect } from "react";
 import { Play, Pause, Maximize, Volume2, VolumeX, PictureInPicture2 } from "lucide-react";
 
 interface VideoPlayerProps {
-  src: string;
+  src: string; // MP4 (HLS 미지원/실패 시 재생)
+  hlsSrc?: string | null; // HLS 마스터 플레이리스트 (최종 영상 metadata.hls.url)
   poster?: string;
   autoPlay?: boolean;
   className?: string;
@@ -12,6 +13,7 @@ interface VideoPlayerProps {
 
 export function VideoPlayer({
   src,
+  hlsSrc,
   poster,
   autoPlay = false,
   className = "",
@@ -23,6 +25,22 @@ export function VideoPlayer({
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
   const [showControls, setShowControls] = useState(true);
+  const [activeSrc, setActiveSrc] = useState(src);
+
+  // HLS 우선 재생 (Safari/iOS, Android Chrome 등 네이티브 HLS 지원 브라우저)
+  // 지원하지 않으면 MP4
+  useEffect(() => {
+    const canPlayHls = !!hlsSrc && !!videoRef.current?.canPlayType("application/vnd.apple.mpegurl");
+    setActiveSrc(canPlayHls && hlsSrc ? hlsSrc : src);
+  }, [src, hlsSrc]);
+
+  // HLS 재생 실패 시 MP4로 전환
+  const handleError = () => {
+    if (activeSrc !== src) {
+      console.warn("HLS playback failed, falling back to MP4");
+      setActiveSrc(src);
+    }
+  };
 
   useEffect(() => {
     const video = videoRef.current;
@@ -150,11 +168,13 @@ export function VideoPlayer({
       {/* 비디오 */}
       <video
         ref={videoRef}
-        src={src}
+        src={activeSrc}
         poster={poster}
         autoPlay={autoPlay}
+        playsInline
         className="w-full h-full"
         onClick={togglePlay}
+        onError={handleError}
       />
 
       {/* 컨트롤 */}
@@ -0,0 +1,56 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { ArchiveLimitError, extractDocx, extractHtmlText } from "./extractors";
+
+function documentXml(body: string): string {
+  return `<w:document><w:body>${body}</w:body></w:document>`;
+}
+
+async function buildDocx(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [name, content] of Object.entries(files)) zip.file(name, content);
+  return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+}
+
+describe("extractHtmlText", () => {
+  it("숫자 엔티티를 디코딩한다", () => {
+    expect(extractHtmlText("<p>&#54620;&#xAE00; &amp; A</p>").text).toBe("한글 & A");
+  });
+
+  it("범위를 벗어난 코드 포인트는 엔티티를 그대로 둔다", () => {
+    expect(extractHtmlText("<p>&#99999999; &#x110000;</p>").text).toBe("&#99999999; &#x110000;");
+  });
+});
+
+describe("extractDocx", () => {
+  it("제목 스타일을 Markdown 헤더로 변환한다", async () => {
+    const buffer = await buildDocx({
+      "word/document.xml": documentXml(
+        '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>소개</w:t></w:r></w:p>' +
+          "<w:p><w:r><w:t>본문입니다</w:t></w:r></w:p>"
+      ),
+    });
+
+    await expect(extractDocx(buffer)).resolves.toEqual({ text: "# 소개\n\n본문입니다", images: [] });
+  });
+
+  it("압축 해제 크기가 상한을 넘는 XML 파트는 거부한다", async () => {
+    const buffer = await buildDocx({
+      "word/document.xml": documentXml(`<w:p><w:r><w:t>${"a".repeat(21 * 1024 * 1024)}</w:t></w:r></w:p>`),
+    });
+
+    await expect(extractDocx(buffer)).rejects.toBeInstanceOf(ArchiveLimitError);
+  });
+
+  it("상한을 넘는 이미지는 건너뛴다", async () => {
+    const buffer = await buildDocx({
+      "word/document.xml": documentXml("<w:p><w:r><w:t>본문</w:t></w:r></w:p>"),
+      "word/media/image1.png": Buffer.alloc(5 * 1024 * 1024),
+      "word/media/image2.png": Buffer.from("png"),
+    });
+
+    const { images } = await extractDocx(buffer);
+    expect(images).toHaveLength(1);
+    expect(images[0]).toMatchObject({ mimeType: "image/png", data: Buffer.from("png").toString("base64") });
+  });
+});
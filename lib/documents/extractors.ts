@@ -0,0 +1,274 @@
+import "server-only";
+import JSZip from "jszip";
+import path from "path";
+import type { InlineFile } from "./types";
+
+/**
+ * 형식별 로컬 추출기
+ *
+ * - PPTX: 슬라이드 텍스트 + 발표자 노트 + 슬라이드 이미지
+ * - DOCX: 본문 텍스트(제목 구조 유지) + 삽입 이미지
+ * - URL: HTML 본문 텍스트 (PDF/텍스트 응답은 그대로 전달)
+ */
+
+export interface ExtractedContent {
+  text: string;
+  images: InlineFile[];
+}
+
+// Gemini 요청 크기 제한을 고려한 이미지 상한
+const MAX_IMAGES = 16;
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024; // 4MB
+
+// 압축 해제 상한 (zip bomb 방지)
+const MAX_XML_BYTES = 20 * 1024 * 1024; // 20MB, XML 파트 1개
+const MAX_TOTAL_UNCOMPRESSED_BYTES = 100 * 1024 * 1024; // 100MB, 문서 전체
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+export class ArchiveLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveLimitError";
+  }
+}
+
+/**
+ * 코드 포인트 → 문자 (유효 범위를 벗어나면 원래 엔티티 유지)
+ */
+function decodeCodePoint(entity: string, code: number): string {
+  return Number.isInteger(code) && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+}
+
+/**
+ * XML 엔티티 디코딩
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code) => decodeCodePoint(entity, Number(code)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (entity, code) => decodeCodePoint(entity, parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * 단락 단위로 텍스트 런 추출 (<a:p>/<w:p> 등)
+ */
+function extractParagraphs(xml: string, paragraphTag: string, textTag: string): string[] {
+  const paragraphPattern = new RegExp(`<${paragraphTag}[\\s>][\\s\\S]*?</${paragraphTag}>`, "g");
+  const textPattern = new RegExp(`<${textTag}(?:\\s[^>]*)?>([^<]*)</${textTag}>`, "g");
+
+  return (xml.match(paragraphPattern) ?? [])
+    .map((paragraph) =>
+      Array.from(paragraph.matchAll(textPattern))
+        .map((match) => decodeXmlEntities(match[1]))
+        .join("")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * .rels 파일에서 관계 대상 조회
+ */
+function parseRelationships(relsXml: string): { type: string; target: string }[] {
+  return Array.from(relsXml.matchAll(/<Relationship\s[^>]*>/g)).map(([tag]) => ({
+    type: tag.match(/Type="([^"]+)"/)?.[1] ?? "",
+    target: tag.match(/Target="([^"]+)"/)?.[1] ?? "",
+  }));
+}
+
+/**
+ * 헤더에 선언된 압축 해제 크기 (JSZip 내부 필드, 없으면 0)
+ */
+function declaredSize(entry: JSZip.JSZipObject): number {
+  return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+/**
+ * 압축 해제량을 제한하는 ZIP 리더
+ *
+ * 선언된 크기로 먼저 거르고, 헤더가 위조된 경우를 대비해 실제 해제량도
+ * 스트림으로 세면서 파트별/문서 전체 상한을 넘으면 즉시 중단한다.
+ */
+class ZipReader {
+  private totalBytes = 0;
+
+  constructor(private readonly zip: JSZip) {}
+
+  get paths(): string[] {
+    return Object.keys(this.zip.files);
+  }
+
+  size(filePath: string): number | null {
+    const entry = this.zip.file(filePath);
+    return entry ? declaredSize(entry) : null;
+  }
+
+  async read(filePath: string, maxBytes: number): Promise<Buffer | null> {
+    const entry = this.zip.file(filePath);
+    if (!entry) return null;
+
+    const size = declaredSize(entry);
+    if (size > maxBytes || this.totalBytes + size > MAX_TOTAL_UNCOMPRESSED_BYTES) {
+      throw new ArchiveLimitError("문서의 압축 해제 크기가 제한을 초과했습니다");
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let entryBytes = 0;
+
+      const stream = entry.nodeStream("nodebuffer");
+      stream
+        .on("data", (chunk: Buffer) => {
+          entryBytes += chunk.length;
+          this.totalBytes += chunk.length;
+          if (entryBytes > maxBytes || this.totalBytes > MAX_TOTAL_UNCOMPRESSED_BYTES) {
+            stream.pause();
+            stream.removeAllListeners();
+            reject(new ArchiveLimitError("문서의 압축 해제 크기가 제한을 초과했습니다"));
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on("error", reject)
+        .on("end", () => resolve(Buffer.concat(chunks)));
+    });
+  }
+
+  async readText(filePath: string): Promise<string | null> {
+    const buffer = await this.read(filePath, MAX_XML_BYTES);
+    return buffer ? buffer.toString("utf-8") : null;
+  }
+}
+
+async function readImage(
+  reader: ZipReader,
+  filePath: string,
+  label: string
+): Promise<InlineFile | null> {
+  const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  const size = reader.size(filePath);
+  // 상한을 넘는 이미지는 압축을 풀지 않고 건너뜀
+  if (!mimeType || size === null || size > MAX_IMAGE_BYTES) return null;
+
+  const buffer = await reader.read(filePath, MAX_IMAGE_BYTES);
+  if (!buffer) return null;
+
+  return { mimeType, data: buffer.toString("base64"), label };
+}
+
+/**
+ * PPTX 추출: 슬라이드 순서대로 텍스트/노트/이미지 수집
+ */
+export async function extractPptx(buffer: Buffer): Promise<ExtractedContent> {
+  const reader = new ZipReader(await JSZip.loadAsync(buffer));
+
+  const slidePaths = reader.paths
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+
+  const sections: string[] = [];
+  const images: InlineFile[] = [];
+
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slideNumber = index + 1;
+    const slideXml = (await reader.readText(slidePath)) ?? "";
+    const lines = extractParagraphs(slideXml, "a:p", "a:t");
+
+    const relsPath = slidePath.replace("slides/", "slides/_rels/") + ".rels";
+    const relsXml = (await reader.readText(relsPath)) ?? "";
+    const relationships = parseRelationships(relsXml);
+
+    // 발표자 노트
+    const notesRel = relationships.find((rel) => rel.type.endsWith("/notesSlide"));
+    let notes: string[] = [];
+    if (notesRel) {
+      const notesPath = path.posix.join("ppt/slides", notesRel.target);
+      const notesXml = (await reader.readText(notesPath)) ?? "";
+      notes = extractParagraphs(notesXml, "a:p", "a:t").filter((line) => !/^\d+$/.test(line)); // 슬라이드 번호 placeholder 제외
+    }
+
+    sections.push(
+      [
+        `## 슬라이드 ${slideNumber}`,
+        ...lines,
+        ...(notes.length > 0 ? ["", "발표자 노트:", ...notes] : []),
+      ].join("\n")
+    );
+
+    // 슬라이드 이미지
+    for (const rel of relationships.filter((r) => r.type.endsWith("/image"))) {
+      if (images.length >= MAX_IMAGES) break;
+      const imagePath = path.posix.join("ppt/slides", rel.target);
+      const image = await readImage(reader, imagePath, `슬라이드 ${slideNumber} 이미지`);
+      if (image) images.push(image);
+    }
+  }
+
+  return { text: sections.join("\n\n"), images };
+}
+
+/**
+ * DOCX 추출: 제목 스타일은 Markdown 헤더로 변환
+ */
+export async function extractDocx(buffer: Buffer): Promise<ExtractedContent> {
+  const reader = new ZipReader(await JSZip.loadAsync(buffer));
+  const documentXml = (await reader.readText("word/document.xml")) ?? "";
+
+  const paragraphs = (documentXml.match(/<w:p[\s>][\s\S]*?<\/w:p>/g) ?? [])
+    .map((paragraph) => {
+      const text = Array.from(paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g))
+        .map((match) => decodeXmlEntities(match[1]))
+        .join("")
+        .trim();
+      if (!text) return "";
+
+      const headingLevel = paragraph.match(/<w:pStyle w:val="(?:Heading|heading)(\d)"/)?.[1];
+      return headingLevel ? `${"#".repeat(Number(headingLevel))} ${text}` : text;
+    })
+    .filter(Boolean);
+
+  const images: InlineFile[] = [];
+  const mediaPaths = reader.paths
+    .filter((name) => name.startsWith("word/media/"))
+    .sort();
+
+  for (const [index, mediaPath] of mediaPaths.entries()) {
+    if (images.length >= MAX_IMAGES) break;
+    const image = await readImage(reader, mediaPath, `문서 이미지 ${index + 1}`);
+    if (image) images.push(image);
+  }
+
+  return { text: paragraphs.join("\n\n"), images };
+}
+
+/**
+ * HTML → 본문 텍스트 (스크립트/스타일/내비게이션 제거)
+ */
+export function extractHtmlText(html: string): { title?: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim();
+
+  const text = html
+    .replace(/<(script|style|noscript|nav|header|footer|svg)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])[^>]*>/gi, (_, level) => `\n\n${"#".repeat(Number(level))} `)
+    .replace(/<\/(p|div|section|article|li|h[1-6]|tr)>/gi, "\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .split("\n")
+    .map((line) => decodeXmlEntities(line).replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+
+  return { title: title ? decodeXmlEntities(title) : undefined, text };
+}
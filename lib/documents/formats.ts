@@ -0,0 +1,88 @@
+/**
+ * 지원 문서 형식 정의
+ *
+ * 업로드 API(서버)와 project-detail 파일 선택(클라이언트)이 함께 사용하므로
+ * server-only 의존성을 두지 않는다.
+ */
+
+export const DOCUMENT_FORMATS = ["pdf", "pptx", "docx", "markdown", "text", "url"] as const;
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
+
+interface FormatDefinition {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+}
+
+export const DOCUMENT_FORMAT_DEFINITIONS: Record<
+  Exclude<DocumentFormat, "url">,
+  FormatDefinition
+> = {
+  pdf: {
+    label: "PDF",
+    extensions: [".pdf"],
+    mimeTypes: ["application/pdf"],
+  },
+  pptx: {
+    label: "PowerPoint",
+    extensions: [".pptx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    ],
+  },
+  docx: {
+    label: "Word",
+    extensions: [".docx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+  },
+  markdown: {
+    label: "Markdown",
+    extensions: [".md", ".markdown"],
+    mimeTypes: ["text/markdown", "text/x-markdown"],
+  },
+  text: {
+    label: "텍스트",
+    extensions: [".txt"],
+    mimeTypes: ["text/plain"],
+  },
+};
+
+/**
+ * <input type="file" accept> 값
+ */
+export const DOCUMENT_ACCEPT = Object.values(DOCUMENT_FORMAT_DEFINITIONS)
+  .flatMap((definition) => [...definition.extensions, ...definition.mimeTypes])
+  .join(",");
+
+/**
+ * 파일명/MIME 타입으로 문서 형식 판별
+ * 브라우저가 MIME 타입을 비워 보내는 경우(.md 등)가 많아 확장자를 우선 확인
+ *
+ * @returns 지원하지 않는 형식이면 null
+ */
+export function detectDocumentFormat(
+  fileName: string,
+  mimeType?: string | null
+): Exclude<DocumentFormat, "url"> | null {
+  const lowerName = fileName.toLowerCase();
+
+  for (const [format, definition] of Object.entries(DOCUMENT_FORMAT_DEFINITIONS)) {
+    if (definition.extensions.some((ext) => lowerName.endsWith(ext))) {
+      return format as Exclude<DocumentFormat, "url">;
+    }
+  }
+
+  if (mimeType) {
+    const baseType = mimeType.split(";")[0].trim().toLowerCase();
+    for (const [format, definition] of Object.entries(DOCUMENT_FORMAT_DEFINITIONS)) {
+      if (definition.mimeTypes.includes(baseType)) {
+        return format as Exclude<DocumentFormat, "url">;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,133 @@
+import "server-only";
+import { detectDocumentFormat, type DocumentFormat } from "./formats";
+import { extractDocx, extractHtmlText, extractPptx } from "./extractors";
+import { fetchPublicUrl } from "./url-fetcher";
+import type { ScriptSource } from "./types";
+
+/**
+ * 문서 정규화 레이어
+ *
+ * 업로드된 문서(PDF, PPTX, DOCX, Markdown, 텍스트) 또는 URL을
+ * generateScript()가 받는 ScriptSource 하나로 변환한다.
+ */
+
+export * from "./formats";
+export { ArchiveLimitError } from "./extractors";
+export { UrlFetchError } from "./url-fetcher";
+export type { InlineFile, ScriptSource } from "./types";
+
+// Gemini 입력 토큰 한도를 고려한 본문 최대 길이
+const MAX_TEXT_LENGTH = 100_000;
+
+// 업로드 파일/URL 원문 최대 크기
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+const URL_FETCH_TIMEOUT_MS = 15_000;
+
+export class UnsupportedDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH
+    ? `${text.slice(0, MAX_TEXT_LENGTH)}\n\n(이하 생략)`
+    : text;
+}
+
+/**
+ * 파일 버퍼 → ScriptSource
+ *
+ * @param buffer - 원본 파일
+ * @param fileName - 원본 파일명 (형식 판별용)
+ * @param mimeType - 업로드 시 MIME 타입
+ */
+export async function normalizeDocument(
+  buffer: Buffer,
+  fileName: string,
+  mimeType?: string | null
+): Promise<ScriptSource> {
+  const format = detectDocumentFormat(fileName, mimeType);
+  const title = fileName.replace(/\.[^.]+$/, "");
+
+  switch (format) {
+    case "pdf":
+      // PDF는 Gemini가 텍스트/레이아웃을 직접 분석
+      return {
+        format,
+        title,
+        files: [{ mimeType: "application/pdf", data: buffer.toString("base64") }],
+      };
+
+    case "pptx": {
+      const { text, images } = await extractPptx(buffer);
+      return { format, title, text: truncate(text), files: images };
+    }
+
+    case "docx": {
+      const { text, images } = await extractDocx(buffer);
+      return { format, title, text: truncate(text), files: images };
+    }
+
+    case "markdown":
+    case "text":
+      return {
+        format,
+        title,
+        text: truncate(buffer.toString("utf-8").replace(/^\uFEFF/, "")), // BOM 제거
+        files: [],
+      };
+
+    default:
+      throw new UnsupportedDocumentError(`지원하지 않는 문서 형식입니다: ${fileName}`);
+  }
+}
+
+/**
+ * URL 원문 가져오기
+ * 업로드 시 스냅샷으로 저장해 이후 대본 생성이 원본 페이지 변경에 영향받지 않도록 함
+ *
+ * - HTML: 본문 텍스트를 Markdown 파일로 변환
+ * - PDF/PPTX/DOCX/텍스트: 응답 그대로 사용
+ *
+ * 내부망 주소/리다이렉트 검사와 크기 제한은 fetchPublicUrl이 처리한다.
+ */
+export async function fetchUrlDocument(url: string): Promise<{
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  format: Exclude<DocumentFormat, "url">;
+}> {
+  const { buffer, contentType, finalUrl } = await fetchPublicUrl(url, {
+    maxBytes: MAX_DOCUMENT_SIZE,
+    timeoutMs: URL_FETCH_TIMEOUT_MS,
+    headers: { "User-Agent": "GiniAI-DocumentFetcher/1.0" },
+  });
+  const urlFileName = new URL(finalUrl).pathname.split("/").pop() || "document";
+
+  if (contentType.includes("text/html")) {
+    const { title, text } = extractHtmlText(buffer.toString("utf-8"));
+    const markdown = [`# ${title ?? url}`, `원본: ${url}`, "", text].join("\n");
+
+    return {
+      buffer: Buffer.from(markdown, "utf-8"),
+      fileName: `${urlFileName.replace(/\.[^.]+$/, "") || "page"}.md`,
+      mimeType: "text/markdown",
+      format: "markdown",
+    };
+  }
+
+  const format = detectDocumentFormat(urlFileName, contentType);
+  if (!format) {
+    throw new UnsupportedDocumentError(`지원하지 않는 URL 콘텐츠 형식입니다: ${contentType || "unknown"}`);
+  }
+
+  return {
+    buffer,
+    fileName: urlFileName,
+    mimeType: contentType.split(";")[0].trim(),
+    format,
+  };
+}
@@ -0,0 +1,25 @@
+import type { DocumentFormat } from "./formats";
+
+/**
+ * Gemini inlineData로 전달할 파일 (Base64)
+ */
+export interface InlineFile {
+  mimeType: string;
+  data: string;
+  label?: string; // 예: "슬라이드 3 이미지"
+}
+
+/**
+ * 대본 생성 입력 추상화
+ *
+ * 모든 문서 형식은 normalizeDocument()를 거쳐 ScriptSource로 변환된 뒤
+ * generateScript()에 전달된다.
+ * - text: 로컬에서 추출한 본문 (PDF는 Gemini가 직접 분석하므로 비어있을 수 있음)
+ * - files: 원본 PDF 또는 슬라이드/문서 이미지
+ */
+export interface ScriptSource {
+  format: DocumentFormat;
+  title?: string;
+  text?: string;
+  files: InlineFile[];
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { fetchPublicUrl, isBlockedAddress, UrlFetchError } from "./url-fetcher";
+
+describe("isBlockedAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.0.0.5",
+    "172.16.0.1",
+    "192.168.1.10",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "fd00:ec2::254",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:a9fe:a9fe",
+  ])("내부 주소 %s를 거부한다", (address) => {
+    expect(isBlockedAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "151.101.1.69", "2606:4700:4700::1111"])("공개 주소 %s는 허용한다", (address) => {
+    expect(isBlockedAddress(address)).toBe(false);
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  const options = { maxBytes: 1024, timeoutMs: 1000 };
+
+  it.each(["http://127.0.0.1/", "http://[::1]/", "http://[::ffff:127.0.0.1]/", "file:///etc/passwd"])(
+    "%s 요청은 연결 전에 거부한다",
+    async (url) => {
+      await expect(fetchPublicUrl(url, options)).rejects.toThrow(UrlFetchError);
+    }
+  );
+});
@@ -0,0 +1,191 @@
+import "server-only";
+import dns from "dns";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import net from "net";
+
+/**
+ * 사용자 URL 안전 다운로드 (SSRF 방지)
+ *
+ * - 루프백/사설망/링크 로컬(클라우드 메타데이터 169.254.169.254 포함) 주소는 거부
+ * - 호스트 이름은 실제 연결에 쓰는 DNS 조회 결과로 검사 (검사 후 재조회로 우회하는 DNS rebinding 방지)
+ * - 리다이렉트는 직접 따라가며 매 단계 다시 검사
+ * - 본문은 스트리밍하면서 크기 제한을 적용
+ */
+
+const MAX_REDIRECTS = 5;
+
+export class UrlFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UrlFetchError";
+  }
+}
+
+function parseIPv4(address: string): number[] | null {
+  if (net.isIPv4(address)) {
+    return address.split(".").map(Number);
+  }
+
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1, URL 파서가 정규화한 ::ffff:7f00:1)
+  const normalized = address.toLowerCase();
+  const dotted = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    return dotted[1].split(".").map(Number);
+  }
+
+  const hex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (hex) {
+    const high = parseInt(hex[1], 16);
+    const low = parseInt(hex[2], 16);
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  }
+
+  return null;
+}
+
+/**
+ * 외부에서 접근하면 안 되는 주소인지 확인
+ */
+export function isBlockedAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return (
+      a === 0 || // 0.0.0.0/8
+      a === 10 || // 10.0.0.0/8 사설망
+      a === 127 || // 루프백
+      (a === 100 && b >= 64 && b <= 127) || // 100.64.0.0/10 CGNAT
+      (a === 169 && b === 254) || // 링크 로컬 (클라우드 메타데이터)
+      (a === 172 && b >= 16 && b <= 31) || // 172.16.0.0/12 사설망
+      (a === 192 && b === 168) || // 192.168.0.0/16 사설망
+      (a === 192 && b === 0 && ipv4[2] === 0) || // 192.0.0.0/24
+      (a === 198 && (b === 18 || b === 19)) || // 198.18.0.0/15 벤치마크
+      a >= 224 // 멀티캐스트/예약
+    );
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase();
+    return (
+      normalized === "::" ||
+      normalized === "::1" ||
+      /^f[cd]/.test(normalized) || // fc00::/7 고유 로컬 (fd00:ec2::254 메타데이터 포함)
+      /^fe[89ab]/.test(normalized) || // fe80::/10 링크 로컬
+      normalized.startsWith("ff") || // 멀티캐스트
+      normalized.startsWith("64:ff9b:") // NAT64 (내부 IPv4로 변환될 수 있음)
+    );
+  }
+
+  return true;
+}
+
+// 연결 직전 DNS 조회 결과를 검사하는 lookup (http.request의 lookup 옵션)
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    const list = addresses as dns.LookupAddress[];
+    if (list.length === 0 || list.some((entry) => isBlockedAddress(entry.address))) {
+      callback(new UrlFetchError("내부 네트워크 주소로는 요청할 수 없습니다"), "", 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new UrlFetchError("http(s) URL만 허용됩니다");
+  }
+
+  // IP 리터럴은 DNS 조회를 거치지 않으므로 여기서 검사
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new UrlFetchError("내부 네트워크 주소로는 요청할 수 없습니다");
+  }
+}
+
+function requestOnce(
+  url: URL,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { headers, signal, lookup: safeLookup }, resolve);
+    request.on("error", reject);
+  });
+}
+
+/**
+ * 공개 URL 다운로드
+ *
+ * @param url - 사용자가 입력한 http(s) URL
+ * @param options.maxBytes - 본문 최대 크기 (초과 시 UrlFetchError)
+ * @param options.timeoutMs - 리다이렉트 포함 전체 제한 시간
+ * @returns 본문, Content-Type, 리다이렉트 후 최종 URL
+ */
+export async function fetchPublicUrl(
+  url: string,
+  options: { maxBytes: number; timeoutMs: number; headers?: Record<string, string> }
+): Promise<{ buffer: Buffer; contentType: string; finalUrl: string }> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    assertFetchableUrl(currentUrl);
+
+    const response = await requestOnce(currentUrl, options.headers ?? {}, signal);
+    const status = response.statusCode ?? 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume(); // 본문은 버림
+      if (redirects >= MAX_REDIRECTS) {
+        throw new UrlFetchError("리다이렉트가 너무 많습니다");
+      }
+      currentUrl = new URL(response.headers.location, currentUrl);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new UrlFetchError(
+        `URL을 가져오지 못했습니다 (${status} ${response.statusMessage ?? ""})`.trim()
+      );
+    }
+
+    const declaredLength = Number(response.headers["content-length"]);
+    if (declaredLength > options.maxBytes) {
+      response.destroy();
+      throw new UrlFetchError("문서 크기가 제한을 초과했습니다");
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of response) {
+      received += (chunk as Buffer).length;
+      if (received > options.maxBytes) {
+        response.destroy();
+        throw new UrlFetchError("문서 크기가 제한을 초과했습니다");
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    return {
+      buffer: Buffer.concat(chunks),
+      contentType: response.headers["content-type"] ?? "",
+      finalUrl: currentUrl.toString(),
+    };
+  }
+}
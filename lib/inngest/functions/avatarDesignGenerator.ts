@@ -1,7 +1,11 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { generateAvatarDesign } from "@/lib/services/gemini";
-import { uploadFromBuffer } from "@/lib/supabase/storage";
+import {
+  getImageProvider,
+  getProjectProviders,
+  type AvatarDesignSettings,
+} from "@/lib/providers";
+import { getProjectStorage } from "@/lib/storage";
 
 export const avatarDesignGenerator = inngest.createFunction(
   {
@@ -62,22 +66,22 @@ export const avatarDesignGenerator = inngest.createFunction(
       });
     });
 
-    const settings = project.avatarDesignSettings as {
-      gender: string;
-      ageRange: string;
-      style: string;
-      expression: string;
-      background: string;
-      nationality?: string;
-    };
+    const settings = project.avatarDesignSettings as AvatarDesignSettings;
+
+    // 조직별 이미지 Provider 결정
+    const providerName = await step.run("resolve-image-provider", async () => {
+      const providers = await getProjectProviders(projectId);
+      return providers.image;
+    });
+    const imageProvider = getImageProvider(providerName);
 
     // 3. Imagen API로 아바타 이미지 생성 및 업로드 (Inngest output size 제한 회피)
-    const imageUrl = await step.run("generate-and-upload-avatar-image", async () => {
+    const { imageUrl, storageProvider } = await step.run("generate-and-upload-avatar-image", async () => {
       try {
         // 이미지 생성
-        const imageBuffer = await generateAvatarDesign(settings);
+        const imageBuffer = await imageProvider.generateAvatarDesign(settings);
 
-        // 즉시 Supabase Storage에 업로드 (Buffer를 step output으로 반환하지 않음)
+        // 즉시 조직 Storage에 업로드 (Buffer를 step output으로 반환하지 않음)
         const fileName = `avatar_design.png`;
         const storagePath = `projects/${projectId}/avatars/${fileName}`;
 
@@ -86,8 +90,9 @@ export const avatarDesignGenerator = inngest.createFunction(
           ? imageBuffer
           : Buffer.from(imageBuffer as unknown as ArrayBuffer);
 
-        const { url } = await uploadFromBuffer(buffer, storagePath, "image/png");
-        return url; // URL만 반환 (크기 작음)
+        const storage = await getProjectStorage(projectId);
+        const { url } = await storage.uploadFromBuffer(buffer, storagePath, "image/png");
+        return { imageUrl: url, storageProvider: storage.name }; // URL만 반환 (크기 작음)
       } catch (error: unknown) {
         console.error("Avatar design generation failed:", error);
 
@@ -153,9 +158,10 @@ export const avatarDesignGenerator = inngest.createFunction(
           kind: "avatar_design",
           type: "avatar_design",
           url: imageUrl,
+          storageProvider,
           storagePath: `projects/${projectId}/avatars/avatar_design.png`,
           metadata: {
-            provider: "imagen",
+            provider: imageProvider.name,
             settings,
             cost: 0.039, // Imagen 예상 비용
           },
@@ -1,6 +1,6 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { createTalk } from "@/lib/services/did";
+import { getAvatarProvider, getProjectProviders } from "@/lib/providers";
 
 export const avatarGenerator = inngest.createFunction(
   { id: "avatar-generator", retries: 2, concurrency: [{ limit: 2 }] },
@@ -45,7 +45,14 @@ export const avatarGenerator = inngest.createFunction(
       throw new Error(`Audio URL not found for scene ${sceneId}`);
     }
 
-    // 2. 아바타 이미지 URL 결정 (커스텀 또는 프리셋)
+    // 2. 조직별 아바타 Provider 결정
+    const providerName = await step.run("resolve-avatar-provider", async () => {
+      const providers = await getProjectProviders(scene.projectId);
+      return providers.avatar;
+    });
+    const avatarProvider = getAvatarProvider(providerName);
+
+    // 3. 아바타 이미지 URL 결정 (커스텀 또는 프리셋)
     const avatarImageUrl = await step.run("determine-avatar-url", async () => {
       if (scene.project.avatarDesignMode === "custom") {
         // 커스텀 아바타 Asset 명시적 조회
@@ -69,15 +76,13 @@ export const avatarGenerator = inngest.createFunction(
         }
       }
 
-      // 프리셋 아바타 URL (환경 변수 또는 기본값)
-      const presetUrl =
-        process.env.DID_AVATAR_URL ||
-        "https://create-images-results.d-id.com/default_presenter_image_url.webp";
+      // 프리셋 아바타 URL (Provider별 환경 변수 또는 기본값)
+      const presetUrl = avatarProvider.getPresetAvatarUrl();
       console.log(`📸 Using preset avatar: ${presetUrl}`);
       return presetUrl;
     });
 
-    // 3. 아바타 상태 업데이트 (generating)
+    // 4. 아바타 상태 업데이트 (generating)
     await step.run("update-avatar-status-generating", async () => {
       await prisma.scene.update({
         where: { id: sceneId },
@@ -85,13 +90,14 @@ export const avatarGenerator = inngest.createFunction(
       });
     });
 
-    // 4. D-ID Talk 생성
+    // 5. 아바타 립싱크 작업 생성
     const talkId = await step.run("create-did-talk", async () => {
       // 로컬 환경에서는 웹훅 비활성화 (D-ID는 HTTPS만 허용)
       const appUrl = process.env.NEXT_PUBLIC_APP_URL || "";
-      const webhookUrl = appUrl.startsWith("https://")
-        ? `${appUrl}/api/webhooks/did`
-        : undefined;
+      const webhookUrl =
+        avatarProvider.webhookPath && appUrl.startsWith("https://")
+          ? `${appUrl}${avatarProvider.webhookPath}`
+          : undefined;
 
       console.log(
         webhookUrl
@@ -99,17 +105,17 @@ export const avatarGenerator = inngest.createFunction(
           : "⚠️  Webhook disabled (local dev - using polling only)"
       );
 
-      return await createTalk(avatarImageUrl, audioUrl, webhookUrl);
+      return await avatarProvider.createJob({ avatarImageUrl, audioUrl, webhookUrl });
     });
 
-    // 5. RenderJob 생성 (D-ID 작업 추적)
+    // 6. RenderJob 생성 (아바타 작업 추적)
     await step.run("create-render-job", async () => {
       await prisma.renderJob.create({
         data: {
           sceneId: scene.id,
           projectId: scene.projectId,
           externalId: talkId,
-          provider: "did",
+          provider: avatarProvider.name,
           status: "processing",
           metadata: {
             talkId: talkId,
@@ -120,12 +126,13 @@ export const avatarGenerator = inngest.createFunction(
       });
     });
 
-    // 6. 폴링 시작 (D-ID 상태 확인)
+    // 7. 폴링 시작 (아바타 작업 상태 확인)
     await step.sendEvent("start-avatar-polling", {
       name: "avatar/polling.requested",
       data: {
         sceneId: scene.id,
         talkId: talkId,
+        provider: avatarProvider.name,
         maxAttempts: 20, // 5초 간격 × 20회 = 100초
       },
     });
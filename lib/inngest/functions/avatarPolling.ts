@@ -1,20 +1,22 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { getTalkStatus } from "@/lib/services/did";
-import { uploadFromUrl } from "@/lib/supabase/storage";
+import { getAvatarProvider } from "@/lib/providers";
+import { getProjectStorage } from "@/lib/storage";
 
 export const avatarPolling = inngest.createFunction(
   { id: "avatar-polling" },
   { event: "avatar/polling.requested" },
   async ({ event, step }) => {
-    const { sceneId, talkId, maxAttempts = 20, currentAttempt = 1 } = event.data;
+    // provider가 없는 이벤트는 Provider 도입 이전에 시작된 D-ID 작업
+    const { sceneId, talkId, provider = "did", maxAttempts = 20, currentAttempt = 1 } = event.data;
+    const avatarProvider = getAvatarProvider(provider);
 
     // 5초 대기
     await step.sleep("wait-before-check", "5s");
 
-    // D-ID 상태 확인
+    // 아바타 작업 상태 확인
     const talkStatus = await step.run("check-did-status", async () => {
-      return await getTalkStatus(talkId);
+      return await avatarProvider.getJobStatus(talkId);
     });
 
     // RenderJob 업데이트
@@ -34,7 +36,7 @@ export const avatarPolling = inngest.createFunction(
       });
     });
 
-    if (talkStatus.status === "done" && talkStatus.resultUrl) {
+    if (talkStatus.status === "done") {
       // 완료: 비디오 다운로드 및 저장
       const scene = await step.run("fetch-scene", async () => {
         return await prisma.scene.findUnique({
@@ -46,13 +48,15 @@ export const avatarPolling = inngest.createFunction(
         throw new Error(`Scene ${sceneId} not found`);
       }
 
-      // Supabase Storage에 아바타 비디오 저장
-      const videoUrl = await step.run("save-avatar-video", async () => {
-        const fileName = `scene_${scene.sceneNumber}_avatar.mp4`;
+      // 조직 Storage에 아바타 비디오 저장
+      const { videoUrl, storageProvider } = await step.run("save-avatar-video", async () => {
+        const fileName = `scene_${scene.id}_avatar.mp4`;
         const storagePath = `projects/${scene.projectId}/avatars/${fileName}`;
 
-        const { url } = await uploadFromUrl(talkStatus.resultUrl!, storagePath);
-        return url;
+        const videoBuffer = await avatarProvider.downloadResult(talkId, talkStatus.resultUrl);
+        const storage = await getProjectStorage(scene.projectId);
+        const { url } = await storage.uploadFromBuffer(videoBuffer, storagePath, "video/mp4");
+        return { videoUrl: url, storageProvider: storage.name };
       });
 
       // Asset 생성
@@ -63,11 +67,12 @@ export const avatarPolling = inngest.createFunction(
             kind: "avatar_video",
             type: "avatar_video",
             url: videoUrl,
-            storagePath: `projects/${scene.projectId}/avatars/scene_${scene.sceneNumber}_avatar.mp4`,
+            storageProvider,
+            storagePath: `projects/${scene.projectId}/avatars/scene_${scene.id}_avatar.mp4`,
             metadata: {
               sceneId: scene.id,
               sceneNumber: scene.sceneNumber,
-              provider: "did",
+              provider: avatarProvider.name,
               talkId,
               originalUrl: talkStatus.resultUrl,
             },
@@ -103,7 +108,7 @@ export const avatarPolling = inngest.createFunction(
         assetId: asset.id,
         videoUrl,
       };
-    } else if (talkStatus.status === "error") {
+    } else if (talkStatus.status === "failed") {
       // 실패
       await step.run("mark-avatar-failed", async () => {
         await prisma.scene.update({
@@ -112,7 +117,7 @@ export const avatarPolling = inngest.createFunction(
         });
       });
 
-      throw new Error(`D-ID Talk ${talkId} failed: ${talkStatus.error}`);
+      throw new Error(`Avatar job ${talkId} (${avatarProvider.name}) failed: ${talkStatus.error}`);
     } else if (currentAttempt < maxAttempts) {
       // 아직 처리 중: 재시도
       await step.sendEvent("retry-polling", {
@@ -120,6 +125,7 @@ export const avatarPolling = inngest.createFunction(
         data: {
           sceneId,
           talkId,
+          provider,
           maxAttempts,
           currentAttempt: currentAttempt + 1,
         },
@@ -141,7 +147,7 @@ export const avatarPolling = inngest.createFunction(
       });
 
       throw new Error(
-        `D-ID Talk ${talkId} timeout after ${maxAttempts} attempts`
+        `Avatar job ${talkId} (${avatarProvider.name}) timeout after ${maxAttempts} attempts`
       );
     }
   }
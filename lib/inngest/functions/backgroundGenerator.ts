@@ -1,7 +1,8 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { generateBackgroundImage } from "@/lib/services/gemini";
-import { uploadFromBuffer } from "@/lib/supabase/storage";
+import { getImageProvider, getProjectProviders } from "@/lib/providers";
+import { getProjectStorage } from "@/lib/storage";
+import { resolveAspectRatio } from "@/lib/video/aspect-ratio";
 
 export const backgroundGenerator = inngest.createFunction(
   { id: "background-generator", retries: 2, concurrency: [{ limit: 1 }] }, // Rate Limit 회피: 3 → 1
@@ -71,7 +72,23 @@ export const backgroundGenerator = inngest.createFunction(
       };
     }
 
-    // Medium/High priority: Nano Banana 이미지 생성 및 업로드 (Inngest output size 제한 회피)
+    // 조직별 이미지 Provider 결정
+    const providerName = await step.run("resolve-image-provider", async () => {
+      const providers = await getProjectProviders(scene.projectId);
+      return providers.image;
+    });
+    const imageProvider = getImageProvider(providerName);
+
+    // 프로젝트 화면 비율 (배경 이미지 비율 및 구도)
+    const aspectRatio = await step.run("resolve-aspect-ratio", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: scene.projectId },
+        select: { settings: true },
+      });
+      return resolveAspectRatio(project?.settings);
+    });
+
+    // Medium/High priority: 배경 이미지 생성 및 업로드 (Inngest output size 제한 회피)
     // imagePrompt 우선 사용, 없으면 visualDescription, 그것도 없으면 개선된 기본값
     const imagePrompt =
       scene.imagePrompt ||
@@ -80,13 +97,13 @@ export const backgroundGenerator = inngest.createFunction(
       Sophisticated office or conference setting with contemporary architecture and elegant furnishings.
       Subtle business context elements including workspace details and professional ambiance.`;
 
-    const imageUrl = await step.run("generate-and-upload-nano-image", async () => {
+    const { imageUrl, storageProvider } = await step.run("generate-and-upload-nano-image", async () => {
       // 이미지 생성 (emotion 파라미터 전달하여 조명/색상 최적화)
       const emotion = analysis?.emotion || "professional";
-      const imageBuffer = await generateBackgroundImage(imagePrompt, emotion);
+      const imageBuffer = await imageProvider.generateBackground(imagePrompt, emotion, aspectRatio);
 
-      // 즉시 Supabase Storage에 업로드 (Buffer를 step output으로 반환하지 않음)
-      const fileName = `scene_${scene.sceneNumber}_background.png`;
+      // 즉시 조직 Storage에 업로드 (Buffer를 step output으로 반환하지 않음)
+      const fileName = `scene_${scene.id}_background.png`;
       const storagePath = `projects/${scene.projectId}/backgrounds/${fileName}`;
 
       // API 응답이 JSON 직렬화된 Buffer일 수 있으므로 변환
@@ -94,8 +111,9 @@ export const backgroundGenerator = inngest.createFunction(
         ? imageBuffer
         : Buffer.from(imageBuffer as unknown as ArrayBuffer);
 
-      const { url } = await uploadFromBuffer(buffer, storagePath, "image/png");
-      return url; // URL만 반환 (크기 작음)
+      const storage = await getProjectStorage(scene.projectId);
+      const { url } = await storage.uploadFromBuffer(buffer, storagePath, "image/png");
+      return { imageUrl: url, storageProvider: storage.name }; // URL만 반환 (크기 작음)
     });
 
     // 5. Asset 생성
@@ -106,13 +124,15 @@ export const backgroundGenerator = inngest.createFunction(
           kind: "background_image",
           type: "background_image",
           url: imageUrl,
-          storagePath: `projects/${scene.projectId}/backgrounds/scene_${scene.sceneNumber}_background.png`,
+          storageProvider,
+          storagePath: `projects/${scene.projectId}/backgrounds/scene_${scene.id}_background.png`,
           metadata: {
             sceneId: scene.id,
             sceneNumber: scene.sceneNumber,
             priority,
-            provider: "nano_banana",
+            provider: imageProvider.name,
             imagePrompt: imagePrompt,
+            aspectRatio,
             cost: 0.039,
           },
         },
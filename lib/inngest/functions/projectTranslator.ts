@@ -0,0 +1,222 @@
+import { inngest } from "../client";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { translateScripts } from "@/lib/services/gemini";
+import { getStorage } from "@/lib/storage";
+import {
+  resolveScriptLanguage,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+  type ScriptLanguage,
+} from "@/lib/video/languages";
+import { snapshotScenes } from "@/lib/video/script-versions";
+
+/**
+ * ProjectTranslator (다국어 버전 생성)
+ *
+ * POST /api/projects/[id]/translate가 만든 빈 프로젝트에 원본 씬을 복제한다.
+ * 1. 씬 대본 번역 (원본 발화 시간 기준 길이 제한)
+ * 2. 배경 / 커스텀 아바타 이미지 Asset 복제 (재생성 없음)
+ * 3. 씬 생성 후 TTS + 아바타만 처리 (sceneProcessor parts)
+ */
+export const projectTranslator = inngest.createFunction(
+  {
+    id: "project-translator",
+    retries: 1,
+    onFailure: async ({ error, event }) => {
+      const { projectId } = event.data.event.data;
+
+      console.error(`Project translation failed for ${projectId}:`, error);
+
+      // 기존 메타데이터(translatedFromProjectId 등)는 유지
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { metadata: true },
+      });
+
+      await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          status: "failed",
+          metadata: {
+            ...((project?.metadata as Prisma.JsonObject | null) ?? {}),
+            translationError: error.message,
+            errorTimestamp: new Date().toISOString(),
+          },
+        },
+      });
+    },
+  },
+  { event: "project/translation.requested" },
+  async ({ event, step }) => {
+    const { projectId, sourceProjectId, userId } = event.data as {
+      projectId: string;
+      sourceProjectId: string;
+      userId: string;
+    };
+
+    // 1. 원본 프로젝트 조회 (씬 + 배경 Asset + 커스텀 아바타 이미지)
+    const source = await step.run("fetch-source-project", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: sourceProjectId },
+        include: {
+          scenes: {
+            orderBy: { position: "asc" },
+            include: { backgroundAsset: true },
+          },
+          assets: { where: { kind: "avatar_design" }, orderBy: { createdAt: "desc" }, take: 1 },
+        },
+      });
+
+      if (!project) {
+        throw new Error(`Source project ${sourceProjectId} not found`);
+      }
+
+      return project;
+    });
+
+    const target = await step.run("fetch-target-project", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { id: true, settings: true },
+      });
+
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+
+      return project;
+    });
+
+    const fromLanguage: ScriptLanguage = resolveScriptLanguage(source.settings);
+    const toLanguage: ScriptLanguage = resolveScriptLanguage(target.settings);
+
+    // 2. 대본 번역 (측정된 TTS 길이 우선, 없으면 계획된 씬 길이)
+    const translations = await step.run("translate-scripts", async () => {
+      const translated = await translateScripts(
+        source.scenes.map((scene) => ({
+          sceneNumber: scene.sceneNumber,
+          script: scene.script,
+          seconds: scene.durationSeconds ?? scene.duration,
+        })),
+        fromLanguage,
+        toLanguage
+      );
+
+      return Object.fromEntries(translated) as Record<number, string>;
+    });
+
+    // 3. Asset 복제 (Storage 파일도 새 프로젝트 경로로 복사 → 원본 삭제와 무관)
+    const clonedAssetIds = await step.run("clone-assets", async () => {
+      // 재시도 시 이전에 만든 복제본 정리
+      await prisma.asset.deleteMany({ where: { projectId } });
+
+      const sourceAssets = [
+        ...source.assets,
+        ...source.scenes.flatMap((scene) => (scene.backgroundAsset ? [scene.backgroundAsset] : [])),
+      ];
+      const idMap: Record<string, string> = {};
+
+      for (const asset of sourceAssets) {
+        const storagePath = asset.storagePath.replace(
+          `projects/${sourceProjectId}/`,
+          `projects/${projectId}/`
+        );
+        // 원본과 같은 드라이버 안에서 복사
+        const { url } = await getStorage(asset.storageProvider).copyFile(asset.storagePath, storagePath);
+
+        const cloned = await prisma.asset.create({
+          data: {
+            projectId,
+            kind: asset.kind,
+            type: asset.type,
+            url,
+            storageProvider: asset.storageProvider,
+            storagePath,
+            metadata: {
+              ...((asset.metadata as Prisma.JsonObject | null) ?? {}),
+              clonedFromAssetId: asset.id,
+            },
+          },
+        });
+        idMap[asset.id] = cloned.id;
+      }
+
+      console.log(`✅ Cloned ${sourceAssets.length} assets from project ${sourceProjectId}`);
+      return idMap;
+    });
+
+    // 4. 씬 생성 (배경 설정 유지, TTS/아바타는 대기 상태)
+    const sceneIds = await step.run("create-scenes", async () => {
+      await prisma.scene.deleteMany({ where: { projectId } });
+
+      const scenes = await prisma.$transaction(
+        source.scenes.map((scene) =>
+          prisma.scene.create({
+            data: {
+              projectId,
+              sceneNumber: scene.sceneNumber,
+              position: scene.position,
+              script: translations[scene.sceneNumber],
+              duration: scene.duration,
+              visualDescription: scene.visualDescription,
+              imagePrompt: scene.imagePrompt,
+              videoPrompt: scene.videoPrompt,
+              backgroundAssetId: scene.backgroundAssetId
+                ? clonedAssetIds[scene.backgroundAssetId]
+                : null,
+              backgroundSettings: scene.backgroundSettings ?? Prisma.JsonNull,
+              backgroundStatus: scene.backgroundStatus,
+              backgroundType: scene.backgroundType,
+              backgroundAnalysis: scene.backgroundAnalysis ?? Prisma.JsonNull,
+              backgroundMetadata: scene.backgroundMetadata ?? Prisma.JsonNull,
+              metadata: {
+                ...((scene.metadata as Prisma.JsonObject | null) ?? {}),
+                translatedFromSceneId: scene.id,
+              },
+            },
+          })
+        )
+      );
+
+      await prisma.$transaction((tx) =>
+        snapshotScenes(tx, projectId, {
+          source: "translated",
+          description: `${SCRIPT_LANGUAGE_DEFINITIONS[fromLanguage].label}에서 번역`,
+          createdById: userId,
+        })
+      );
+
+      return scenes.map((scene) => scene.id);
+    });
+
+    // 5. 프로젝트 상태 업데이트
+    await step.run("mark-script-generated", async () => {
+      const hasAvatarDesign = source.assets.length > 0;
+
+      await prisma.project.update({
+        where: { id: projectId },
+        data: {
+          status: "script_generated",
+          scriptGeneratedAt: new Date(),
+          // 복제한 커스텀 아바타 이미지가 있으면 디자인 생성을 건너뜀
+          ...(hasAvatarDesign && { avatarDesignStatus: "completed" }),
+        },
+      });
+    });
+
+    // 6. TTS + 아바타만 처리 (배경은 복제본 재사용)
+    if (sceneIds.length > 0) {
+      await step.sendEvent("start-scene-processing", {
+        name: "scene/process.requested",
+        data: {
+          projectId,
+          sceneId: sceneIds[0],
+          userId,
+          parts: ["tts", "avatar"],
+        },
+      });
+    }
+
+    return { success: true, projectId, sceneCount: sceneIds.length };
+  }
+);
@@ -1,5 +1,12 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
+import { SCENE_PARTS, type ScenePart } from "@/lib/video/scene-parts";
+
+const SCENE_STATUS_FIELDS = {
+  tts: "ttsStatus",
+  avatar: "avatarStatus",
+  background: "backgroundStatus",
+} as const satisfies Record<ScenePart, string>;
 
 /**
  * SceneProcessor (씬 순차 처리 오케스트레이터)
@@ -10,15 +17,43 @@ import { prisma } from "@/lib/prisma";
  * 3. 아바타 폴링
  * 4. 배경 생성
  * 5. 다음 씬 or 비디오 합성
+ *
+ * event.data.parts가 있으면 해당 단계만 실행 (다음 씬에도 그대로 전달)
+ * event.data.chain이 false면 해당 씬만 처리 (씬 단위 재생성)
  */
 export const sceneProcessor = inngest.createFunction(
   {
     id: "scene-processor",
     name: "Scene Processor (Orchestrator)",
+    onFailure: async ({ error, event }) => {
+      const { projectId, sceneId } = event.data.event.data;
+      const parts: readonly ScenePart[] = event.data.event.data.parts ?? SCENE_PARTS;
+
+      console.error(`Scene processing failed for ${projectId}:`, error);
+
+      // 처리 중 상태로 남으면 씬 편집이 계속 막히므로 해제
+      await prisma.project.updateMany({
+        where: { id: projectId, status: "scenes_processing" },
+        data: { status: "failed" },
+      });
+
+      // 씬 단위 재생성이 선점한 generating 상태도 해제 (재시도 가능하도록)
+      await Promise.all(
+        parts.map((part) => {
+          const field = SCENE_STATUS_FIELDS[part];
+          return prisma.scene.updateMany({
+            where: { id: sceneId, [field]: "generating" },
+            data: { [field]: "failed" },
+          });
+        })
+      );
+    },
   },
   { event: "scene/process.requested" },
   async ({ event, step }) => {
     const { projectId, sceneId, userId } = event.data;
+    const parts: readonly ScenePart[] = event.data.parts ?? SCENE_PARTS;
+    const chain: boolean = event.data.chain ?? true;
 
     // Scene 조회
     const scene = await step.run("fetch-scene", async () => {
@@ -42,6 +77,10 @@ export const sceneProcessor = inngest.createFunction(
 
     // 커스텀 아바타 모드면 생성 완료 대기
     const needsAvatarWait = await step.run("check-avatar-design-status", async () => {
+      if (!parts.includes("avatar")) {
+        return false;
+      }
+
       if (scene.project.avatarDesignMode !== "custom") {
         console.log(`📸 Preset avatar mode - no wait needed for project ${projectId}`);
         return false; // 프리셋 모드는 대기 불필요
@@ -84,64 +123,94 @@ export const sceneProcessor = inngest.createFunction(
     }
 
     // Step 1: TTS 생성
-    await step.sendEvent("trigger-tts", {
-      name: "tts/generation.requested", // ttsGenerator가 리스닝하는 정확한 이벤트명
-      data: {
-        sceneId,
-        projectId,
-        userId,
-      },
-    });
+    if (parts.includes("tts")) {
+      await step.sendEvent("trigger-tts", {
+        name: "tts/generation.requested", // ttsGenerator가 리스닝하는 정확한 이벤트명
+        data: {
+          sceneId,
+          projectId,
+          userId,
+        },
+      });
 
-    // TTS 완료 대기
-    await step.waitForEvent("wait-for-tts", {
-      event: "tts/completed",
-      timeout: "5m",
-      match: "data.sceneId",
-    });
+      // TTS 완료 대기
+      await step.waitForEvent("wait-for-tts", {
+        event: "tts/completed",
+        timeout: "5m",
+        match: "data.sceneId",
+      });
+    }
 
     // Step 2: 아바타 생성
-    await step.sendEvent("trigger-avatar", {
-      name: "avatar/generation.requested", // avatarGenerator가 리스닝하는 정확한 이벤트명
-      data: {
-        sceneId,
-        projectId,
-        userId,
-      },
-    });
+    if (parts.includes("avatar")) {
+      await step.sendEvent("trigger-avatar", {
+        name: "avatar/generation.requested", // avatarGenerator가 리스닝하는 정확한 이벤트명
+        data: {
+          sceneId,
+          projectId,
+          userId,
+        },
+      });
 
-    // 아바타 완료 대기 (폴링 포함)
-    await step.waitForEvent("wait-for-avatar", {
-      event: "avatar/completed",
-      timeout: "5m",
-      match: "data.sceneId",
-    });
+      // 아바타 완료 대기 (폴링 포함)
+      await step.waitForEvent("wait-for-avatar", {
+        event: "avatar/completed",
+        timeout: "5m",
+        match: "data.sceneId",
+      });
+    }
 
     // Step 3: 배경 생성
-    await step.sendEvent("trigger-background", {
-      name: "background/generation.requested", // backgroundGenerator가 리스닝하는 정확한 이벤트명
-      data: {
-        sceneId,
-        projectId,
-        userId,
-      },
-    });
+    if (parts.includes("background")) {
+      await step.sendEvent("trigger-background", {
+        name: "background/generation.requested", // backgroundGenerator가 리스닝하는 정확한 이벤트명
+        data: {
+          sceneId,
+          projectId,
+          userId,
+        },
+      });
 
-    // 배경 완료 대기
-    await step.waitForEvent("wait-for-background", {
-      event: "background/completed",
-      timeout: "15m", // Veo 영상은 최대 10분 소요
-      match: "data.sceneId",
-    });
+      // 배경 완료 대기
+      await step.waitForEvent("wait-for-background", {
+        event: "background/completed",
+        timeout: "15m", // Veo 영상은 최대 10분 소요
+        match: "data.sceneId",
+      });
+    }
 
     // Rate limiting (API 제한 방지)
     await step.sleep("rate-limit", "2s");
 
     // 다음 씬 처리 or 완료 처리
     const currentIndex = scene.project.scenes.findIndex((s) => s.id === sceneId);
-    const nextScene = scene.project.scenes[currentIndex + 1];
+    const nextScene = chain ? scene.project.scenes[currentIndex + 1] : undefined;
+
+    if (!chain) {
+      // 단일 씬 재생성 완료 → 모든 씬의 음성/아바타가 준비된 경우에만 렌더링 가능 상태로
+      const ready = await step.run("mark-scenes-processed-if-ready", async () => {
+        const pendingScenes = await prisma.scene.count({
+          where: {
+            projectId,
+            OR: [{ audioAssetId: null }, { avatarAssetId: null }],
+          },
+        });
+
+        if (pendingScenes > 0) {
+          return false;
+        }
 
-    if (nextScene) {
+        await prisma.project.update({
+          where: { id: projectId },
+          data: { status: "scenes_processed" },
+        });
+        return true;
+      });
+
+      console.log(
+        `✅ Scene ${sceneId} regenerated (${parts.join(", ")})${ready ? " - project ready to render" : ""}`
+      );
+    } else if (nextScene) {
       // 다음 씬 처리
       await step.sendEvent("trigger-next-scene", {
         name: "scene/process.requested",
@@ -149,21 +218,35 @@ export const sceneProcessor = inngest.createFunction(
           projectId,
           sceneId: nextScene.id,
           userId,
+          parts,
         },
       });
     } else {
       // 모든 씬 완료 → 프로젝트 상태 업데이트
-      // 실제 렌더링은 사용자가 프론트엔드에서 "비디오 렌더링 및 다운로드" 버튼 클릭 시
-      // /api/projects/[id]/render-download API를 통해 수동으로 진행
-      await step.run("mark-scenes-processed", async () => {
+      // 음성/아바타가 빠진 씬이 있으면 failed (씬 단위 재생성 또는 전체 재처리 필요)
+      // 실제 렌더링은 사용자가 프론트엔드에서 "비디오 렌더링" 버튼 클릭 시
+      // /api/projects/[id]/render API를 통해 수동으로 진행
+      const ready = await step.run("mark-scenes-processed", async () => {
+        const pendingScenes = await prisma.scene.count({
+          where: {
+            projectId,
+            OR: [{ audioAssetId: null }, { avatarAssetId: null }],
+          },
+        });
+
         await prisma.project.update({
           where: { id: projectId },
-          data: { status: "scenes_processed" },
+          data: { status: pendingScenes === 0 ? "scenes_processed" : "failed" },
         });
+        return pendingScenes === 0;
       });
 
-      console.log(`✅ All scenes processed for project ${projectId}`);
-      console.log(`   User can now manually trigger rendering from the frontend`);
+      if (ready) {
+        console.log(`✅ All scenes processed for project ${projectId}`);
+        console.log(`   User can now manually trigger rendering from the frontend`);
+      } else {
+        console.warn(`⚠️  Scene processing finished with missing audio/avatar for project ${projectId}`);
+      }
     }
 
     return { success: true, sceneId };
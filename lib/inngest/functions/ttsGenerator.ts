@@ -1,7 +1,12 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { generateTTS } from "@/lib/services/elevenlabs";
-import { uploadFromBuffer } from "@/lib/supabase/storage";
+import { getProjectProviders, getTTSProvider } from "@/lib/providers";
+import { getProjectStorage } from "@/lib/storage";
+import { buildSubtitleCues, toSrt, toVtt } from "@/lib/video/subtitles";
+import {
+  resolveScriptLanguage,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+} from "@/lib/video/languages";
 
 export const ttsGenerator = inngest.createFunction(
   { id: "tts-generator", retries: 2, concurrency: [{ limit: 3 }] },
@@ -19,6 +24,7 @@ export const ttsGenerator = inngest.createFunction(
               id: true,
               avatarDesignMode: true,
               avatarDesignSettings: true,
+              settings: true,
             },
           },
         },
@@ -33,35 +39,40 @@ export const ttsGenerator = inngest.createFunction(
 
     const scene = data;
 
-    // 2. 성별별 보이스 ID 결정
-    const voiceId = await step.run("determine-voice-id", async () => {
-      // 성별별 ElevenLabs 보이스 ID 매핑
-      const VOICE_IDS = {
-        female: "8jHHF8rMqMlg8if2mOUe", // Aria (여성)
-        male: "jB1Cifc2UQbq1gR3wnb0", // Callum (남성)
-      };
+    const language = resolveScriptLanguage(scene.project.settings);
+
+    // 2. 조직별 TTS Provider 결정
+    const providerName = await step.run("resolve-tts-provider", async () => {
+      const providers = await getProjectProviders(scene.projectId);
+      return providers.tts;
+    });
+    const ttsProvider = getTTSProvider(providerName);
 
+    // 3. 언어 + 성별별 보이스 ID 결정
+    const voiceId = await step.run("determine-voice-id", async () => {
       // 커스텀 아바타인 경우 성별 기반 보이스 선택
       if (scene.project.avatarDesignMode === "custom") {
         const settings = scene.project.avatarDesignSettings as {
           gender?: "male" | "female";
         };
         const gender = settings?.gender || "female";
+        const voiceId = ttsProvider.getVoiceId(language, gender);
 
         console.log(
-          `✅ Custom avatar detected - using ${gender} voice: ${VOICE_IDS[gender]}`
+          `✅ Custom avatar detected - using ${language} ${gender} voice: ${voiceId}`
         );
-        return VOICE_IDS[gender];
+        return voiceId;
       }
 
       // 프리셋 아바타인 경우 기본 보이스 (여성)
+      const voiceId = ttsProvider.getVoiceId(language, "female");
       console.log(
-        `📸 Preset avatar - using default female voice: ${VOICE_IDS.female}`
+        `📸 Preset avatar - using default ${language} female voice: ${voiceId}`
       );
-      return VOICE_IDS.female;
+      return voiceId;
     });
 
-    // 3. TTS 상태 업데이트 (generating)
+    // 4. TTS 상태 업데이트 (generating)
     await step.run("update-tts-status-generating", async () => {
       await prisma.scene.update({
         where: { id: sceneId },
@@ -69,19 +80,23 @@ export const ttsGenerator = inngest.createFunction(
       });
     });
 
-    // 4. ElevenLabs TTS 생성 및 임시 저장
-    const { audioUrl, audioDuration } = await step.run("generate-and-upload-tts", async () => {
+    // 5. TTS 생성 및 임시 저장
+    const { audioUrl, audioDuration, storageProvider } = await step.run("generate-and-upload-tts", async () => {
       const { promises: fs } = await import("fs");
       const os = await import("os");
       const path = await import("path");
 
-      // TTS 생성 (성별별 보이스 적용)
-      const ttsResult = await generateTTS(scene.script, voiceId);
+      // TTS 생성 (언어/성별별 보이스 적용)
+      const ttsBuffer = await ttsProvider.synthesize({
+        text: scene.script,
+        voiceId,
+        language,
+      });
 
       // API 응답이 JSON 직렬화된 Buffer일 수 있으므로 변환
-      const audioBuffer = Buffer.isBuffer(ttsResult.audioBuffer)
-        ? ttsResult.audioBuffer
-        : Buffer.from(ttsResult.audioBuffer as unknown as ArrayBuffer);
+      const audioBuffer = Buffer.isBuffer(ttsBuffer)
+        ? ttsBuffer
+        : Buffer.from(ttsBuffer as unknown as ArrayBuffer);
 
       // 임시 파일로 저장 (길이 측정을 위해)
       const tempDir = os.tmpdir();
@@ -97,10 +112,11 @@ export const ttsGenerator = inngest.createFunction(
 
       console.log(`✅ Measured audio duration: ${audioDuration.toFixed(2)}s for scene ${scene.sceneNumber}`);
 
-      // Supabase Storage에 업로드
-      const fileName = `scene_${scene.sceneNumber}_audio.mp3`;
+      // 조직 Storage에 업로드
+      const storage = await getProjectStorage(scene.projectId);
+      const fileName = `scene_${scene.id}_audio.mp3`;
       const storagePath = `projects/${scene.projectId}/audio/${fileName}`;
-      const { url } = await uploadFromBuffer(
+      const { url } = await storage.uploadFromBuffer(
         audioBuffer,
         storagePath,
         "audio/mpeg"
@@ -109,10 +125,10 @@ export const ttsGenerator = inngest.createFunction(
       // 임시 파일 삭제
       await fs.unlink(tempPath);
 
-      return { audioUrl: url, audioDuration };
+      return { audioUrl: url, audioDuration, storageProvider: storage.name };
     });
 
-    // 5. Asset 생성
+    // 6. Asset 생성
     const asset = await step.run("create-asset", async () => {
       return await prisma.asset.create({
         data: {
@@ -120,18 +136,19 @@ export const ttsGenerator = inngest.createFunction(
           kind: "audio",
           type: "audio",
           url: audioUrl,
-          storagePath: `projects/${scene.projectId}/audio/scene_${scene.sceneNumber}_audio.mp3`,
+          storageProvider,
+          storagePath: `projects/${scene.projectId}/audio/scene_${scene.id}_audio.mp3`,
           metadata: {
             sceneId: scene.id,
             sceneNumber: scene.sceneNumber,
             duration: scene.duration,
-            provider: "elevenlabs",
+            provider: ttsProvider.name,
           },
         },
       });
     });
 
-    // 6. 씬의 audioAssetId 업데이트 및 TTS 상태 완료
+    // 7. 씬의 audioAssetId 업데이트 및 TTS 상태 완료
     await step.run("update-scene-audio-asset", async () => {
       await prisma.scene.update({
         where: { id: sceneId },
@@ -145,7 +162,62 @@ export const ttsGenerator = inngest.createFunction(
       console.log(`✅ Scene ${scene.sceneNumber} updated with audio duration: ${audioDuration.toFixed(2)}s`);
     });
 
-    // 7. TTS 완료 이벤트 발송 (Scene Processor가 대기 중)
+    // 8. 자막 파일 생성 (SRT + WebVTT, 측정된 오디오 길이 기준)
+    await step.run("create-subtitle-assets", async () => {
+      const cues = buildSubtitleCues(
+        scene.script,
+        audioDuration,
+        SCRIPT_LANGUAGE_DEFINITIONS[language].subtitleMaxChars
+      );
+      if (cues.length === 0) {
+        console.warn(`⚠️ Scene ${scene.sceneNumber}: no subtitle cues generated`);
+        return;
+      }
+
+      // 재생성 시 이전 자막 Asset 정리 (Storage 파일은 같은 경로로 덮어씀)
+      await prisma.asset.deleteMany({
+        where: { sceneId: scene.id, kind: "subtitle" },
+      });
+
+      const files = [
+        { format: "srt", content: toSrt(cues), contentType: "application/x-subrip" },
+        { format: "vtt", content: toVtt(cues), contentType: "text/vtt" },
+      ];
+
+      const storage = await getProjectStorage(scene.projectId);
+
+      for (const file of files) {
+        const storagePath = `projects/${scene.projectId}/subtitles/scene_${scene.id}.${file.format}`;
+        const { url } = await storage.uploadFromBuffer(
+          Buffer.from(file.content, "utf-8"),
+          storagePath,
+          file.contentType
+        );
+
+        await prisma.asset.create({
+          data: {
+            projectId: scene.projectId,
+            sceneId: scene.id,
+            kind: "subtitle",
+            type: "subtitle",
+            url,
+            storageProvider: storage.name,
+            storagePath,
+            metadata: {
+              sceneId: scene.id,
+              sceneNumber: scene.sceneNumber,
+              format: file.format,
+              cueCount: cues.length,
+              duration: audioDuration,
+            },
+          },
+        });
+      }
+
+      console.log(`✅ Scene ${scene.sceneNumber} subtitles created (${cues.length} cues)`);
+    });
+
+    // 9. TTS 완료 이벤트 발송 (Scene Processor가 대기 중)
     await step.sendEvent("tts-completed", {
       name: "tts/completed",
       data: {
@@ -1,6 +1,7 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { generateVeoVideo } from "@/lib/services/gemini";
+import { getProjectProviders, getVideoProvider } from "@/lib/providers";
+import { resolveAspectRatio } from "@/lib/video/aspect-ratio";
 
 /**
  * TTS 길이를 Veo 3.0 허용 값으로 올림
@@ -49,7 +50,23 @@ export const veoVideoGenerator = inngest.createFunction(
       return scene;
     });
 
-    // 2. Veo 영상 생성 시작
+    // 2. 조직별 영상 Provider 결정
+    const providerName = await step.run("resolve-video-provider", async () => {
+      const providers = await getProjectProviders(scene.projectId);
+      return providers.video;
+    });
+    const videoProvider = getVideoProvider(providerName);
+
+    // 프로젝트 화면 비율 (영상 생성 비율)
+    const aspectRatio = await step.run("resolve-aspect-ratio", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: scene.projectId },
+        select: { settings: true },
+      });
+      return resolveAspectRatio(project?.settings);
+    });
+
+    // 3. 영상 생성 시작
     const operation = await step.run("start-veo-generation", async () => {
       // TTS 길이 기반으로 Veo 길이 동적 계산
       const veoDuration = calculateVeoDuration(scene.durationSeconds);
@@ -68,7 +85,7 @@ export const veoVideoGenerator = inngest.createFunction(
         ? `${basePrompt}, ${veoDuration} seconds duration`
         : `Slow camera movement, subtle scene changes, ${veoDuration} seconds duration, cinematic motion`;
 
-      console.log(`🎬 Veo generation starting:`);
+      console.log(`🎬 Background video generation starting (${videoProvider.name}):`);
       console.log(`   Scene ID: ${sceneId}`);
       console.log(`   Scene Number: ${scene.sceneNumber}`);
       console.log(`   Image URL: ${imageUrl}`);
@@ -78,17 +95,24 @@ export const veoVideoGenerator = inngest.createFunction(
       console.log(`   Final Prompt: ${prompt.substring(0, 100)}...`);
       console.log(`   Emotion: ${emotion || "professional"}`);
 
-      return await generateVeoVideo(imageUrl, prompt, emotion, veoDuration);
+      const name = await videoProvider.createJob({
+        imageUrl,
+        prompt,
+        emotion,
+        durationSeconds: veoDuration,
+        aspectRatio,
+      });
+      return { name };
     });
 
-    // 3. RenderJob 생성 (Veo LRO 추적)
+    // 4. RenderJob 생성 (영상 작업 추적)
     await step.run("create-veo-render-job", async () => {
       await prisma.renderJob.create({
         data: {
           sceneId: scene.id,
           projectId: scene.projectId,
           externalId: operation.name,
-          provider: "veo",
+          provider: videoProvider.name,
           status: "processing",
           metadata: {
             operationName: operation.name,
@@ -100,12 +124,13 @@ export const veoVideoGenerator = inngest.createFunction(
       });
     });
 
-    // 4. 폴링 시작 (Veo LRO 상태 확인)
+    // 5. 폴링 시작 (영상 작업 상태 확인)
     await step.sendEvent("start-veo-polling", {
       name: "veo/polling.requested",
       data: {
         sceneId: scene.id,
         operationName: operation.name,
+        provider: videoProvider.name,
         imageAssetId, // Veo 실패 시 이미지 fallback을 위해 전달
         maxAttempts: 120, // 5초 간격 × 120회 = 600초 (10분)
       },
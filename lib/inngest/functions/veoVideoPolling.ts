@@ -1,13 +1,22 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { checkVeoOperation } from "@/lib/services/gemini";
-import { uploadFromBuffer } from "@/lib/supabase/storage";
+import { getVideoProvider } from "@/lib/providers";
+import { getProjectStorage } from "@/lib/storage";
 
 export const veoVideoPolling = inngest.createFunction(
   { id: "veo-video-polling" },
   { event: "veo/polling.requested" },
   async ({ event, step }) => {
-    const { sceneId, operationName, imageAssetId, maxAttempts = 120, currentAttempt = 1 } = event.data;
+    // provider가 없는 이벤트는 Provider 도입 이전에 시작된 Veo 작업
+    const {
+      sceneId,
+      operationName,
+      provider = "veo",
+      imageAssetId,
+      maxAttempts = 120,
+      currentAttempt = 1,
+    } = event.data;
+    const videoProvider = getVideoProvider(provider);
 
     // 첫 번째 시도: 더 긴 대기 (operation 생성 전파 대기)
     // 이후 시도: 5초 대기
@@ -15,18 +24,11 @@ export const veoVideoPolling = inngest.createFunction(
     console.log(`⏳ Attempt ${currentAttempt}/${maxAttempts}: Waiting ${waitTime} before polling...`);
     await step.sleep("wait-before-check", waitTime);
 
-    // Veo LRO 상태 확인 (실제 API 호출)
-    console.log(`🔍 Checking Veo operation status: ${operationName}`);
+    // 영상 작업 상태 확인 (실제 API 호출)
+    // ⚠️ IMPORTANT: 영상 Buffer는 Step Output 크기 제한(512KB)을 초과하므로 done, error 상태만 받음
+    console.log(`🔍 Checking ${videoProvider.name} operation status: ${operationName}`);
     const statusCheck = await step.run("check-veo-operation", async () => {
-      const result = await checkVeoOperation(operationName);
-
-      // ⚠️ IMPORTANT: videoBuffer는 Step Output 크기 제한(512KB)을 초과하므로 반환하지 않음
-      // 대신 done, error 상태만 반환
-      return {
-        done: result.done,
-        error: result.error,
-        // videoBuffer는 제외 (대용량 데이터)
-      };
+      return await videoProvider.getJobStatus(operationName);
     });
 
     console.log(`📊 Veo operation status: done=${statusCheck.done}, error=${statusCheck.error || "none"}`);
@@ -68,6 +70,7 @@ export const veoVideoPolling = inngest.createFunction(
         data: {
           sceneId,
           operationName,
+          provider,
           imageAssetId,
           maxAttempts,
           currentAttempt: currentAttempt + 1,
@@ -181,8 +184,8 @@ export const veoVideoPolling = inngest.createFunction(
       throw new Error(`Veo operation failed and no image fallback available: ${userFriendlyError}`);
     }
 
-    // 성공한 경우 - videoBuffer를 다시 가져와서 Supabase Storage에 업로드
-    // ⚠️ checkVeoOperation을 다시 호출하여 videoBuffer 획득
+    // 성공한 경우 - 영상 Buffer를 다시 가져와서 조직 Storage에 업로드
+    // ⚠️ downloadResult로 영상 Buffer 획득
     // (Step Output 크기 제한을 피하기 위해 분리)
     const uploadResult = await step.run("fetch-video-and-upload", async () => {
       // 1. Scene 조회 (projectId, sceneNumber 필요)
@@ -194,37 +197,36 @@ export const veoVideoPolling = inngest.createFunction(
         throw new Error(`Scene ${sceneId} not found`);
       }
 
-      // 2. videoBuffer 다시 가져오기
-      const fullResult = await checkVeoOperation(operationName);
-      if (!fullResult.videoBuffer) {
-        throw new Error("Veo operation succeeded but no video buffer returned");
-      }
+      // 2. 영상 Buffer 가져오기
+      const resultBuffer = await videoProvider.downloadResult(operationName);
 
       // Buffer 타입 보장
-      const videoBuffer = Buffer.isBuffer(fullResult.videoBuffer)
-        ? fullResult.videoBuffer
-        : Buffer.from(fullResult.videoBuffer as unknown as ArrayBuffer);
+      const videoBuffer = Buffer.isBuffer(resultBuffer)
+        ? resultBuffer
+        : Buffer.from(resultBuffer as unknown as ArrayBuffer);
 
       const videoSizeMB = (videoBuffer.length / 1024 / 1024).toFixed(2);
-      console.log(`✅ Veo video fetched: ${videoSizeMB} MB (${videoBuffer.length} bytes)`);
+      console.log(`✅ Background video fetched: ${videoSizeMB} MB (${videoBuffer.length} bytes)`);
 
-      // 3. Supabase Storage에 업로드 (50MB 이상은 자동으로 resumable upload 사용)
-      const fileName = `projects/${scene.projectId}/backgrounds/scene_${scene.sceneNumber}_background.mp4`;
-      console.log(`📤 Uploading to Supabase Storage: ${fileName} (${videoSizeMB} MB)`);
+      // 3. 조직 Storage에 업로드 (Supabase는 50MB 이상 자동으로 resumable upload 사용)
+      const storage = await getProjectStorage(scene.projectId);
+      const fileName = `projects/${scene.projectId}/backgrounds/scene_${scene.id}_background.mp4`;
+      console.log(`📤 Uploading to ${storage.name} storage: ${fileName} (${videoSizeMB} MB)`);
 
-      const { url, path } = await uploadFromBuffer(videoBuffer, fileName, "video/mp4");
+      const { url, path } = await storage.uploadFromBuffer(videoBuffer, fileName, "video/mp4");
 
       console.log(`✅ Upload complete: ${path}`);
 
       return {
         videoUrl: url,
         storagePath: path,
+        storageProvider: storage.name,
         projectId: scene.projectId,
         sceneNumber: scene.sceneNumber,
       };
     });
 
-    const { videoUrl, storagePath } = uploadResult;
+    const { videoUrl, storagePath, storageProvider } = uploadResult;
 
     // Asset 생성
     const asset = await step.run("create-background-video-asset", async () => {
@@ -235,12 +237,13 @@ export const veoVideoPolling = inngest.createFunction(
           kind: "background_video",
           type: "video",
           url: videoUrl,
+          storageProvider,
           storagePath,
           metadata: {
             sceneId,
             sceneNumber: uploadResult.sceneNumber,
-            provider: "veo",
-            model: "veo-3.0-fast-generate-001",
+            provider: videoProvider.name,
+            model: videoProvider.model,
             operationName,
             duration: 8, // Veo 3.0 Fast 기본 길이
             cost: 1.5, // 예상 비용 (~$1.5/영상)
@@ -1,7 +1,43 @@
 import { inngest } from "../client";
 import { prisma } from "@/lib/prisma";
-import { uploadFromBuffer } from "@/lib/supabase/storage";
+import { Prisma } from "@prisma/client";
+import { broadcastStatus } from "@/lib/supabase/broadcast";
 import { FFmpegService } from "@/lib/services/ffmpeg";
+import { getProjectStorage } from "@/lib/storage";
+import { resolveAvatarLayout } from "@/lib/video/avatar-layout";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  resolveAspectRatio,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import {
+  DEFAULT_SCENE_TRANSITION,
+  resolveSceneTransition,
+} from "@/lib/video/transitions";
+import {
+  DEFAULT_ENCODING_PROFILE,
+  ENCODING_PROFILE_DEFINITIONS,
+  type EncodingProfile,
+} from "@/lib/video/encoding-profiles";
+import { prepareProjectMusic } from "@/lib/video/music-library";
+import { applyBrandKit, prepareBrandKit } from "@/lib/video/brand-kit-library";
+import { packageHls } from "@/lib/video/hls-library";
+import { createPosterAndPreview, createSceneThumbnails } from "@/lib/video/thumbnail-library";
+import { DEFAULT_POSTER_SELECTION, type PosterSelection } from "@/lib/video/thumbnails";
+import {
+  getCompositionProgress,
+  getProjectStatusChannel,
+  type RenderProgress,
+} from "@/lib/video/render-progress";
+import {
+  resolveScriptLanguage,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+} from "@/lib/video/languages";
+import {
+  buildSubtitleCues,
+  toSrt,
+  type SubtitleStyle,
+} from "@/lib/video/subtitles";
 import { promises as fs } from "fs";
 import path from "path";
 import os from "os";
@@ -15,14 +51,137 @@ interface SceneData {
   backgroundType: string;
 }
 
+/**
+ * 렌더링 진행 상황 기록 (RenderJob.metadata.progress) + 프로젝트 상태 채널 브로드캐스트
+ */
+async function reportRenderProgress(
+  projectId: string,
+  renderJobId: string | undefined,
+  update: Pick<RenderProgress, "stage" | "progress" | "message" | "assetId">
+): Promise<void> {
+  const progress: RenderProgress = {
+    type: "render_progress",
+    renderJobId: renderJobId ?? null,
+    ...update,
+    timestamp: new Date().toISOString(),
+  };
+
+  if (renderJobId) {
+    const renderJob = await prisma.renderJob.findUnique({
+      where: { id: renderJobId },
+      select: { metadata: true },
+    });
+
+    await prisma.renderJob.update({
+      where: { id: renderJobId },
+      data: {
+        metadata: {
+          ...((renderJob?.metadata as Prisma.JsonObject | null) ?? {}),
+          progress: progress as unknown as Prisma.InputJsonObject,
+        },
+      },
+    });
+  }
+
+  await broadcastStatus(getProjectStatusChannel(projectId), { ...progress });
+}
+
+/**
+ * 렌더링 중 상태 해제 (대표 영상이 있으면 rendered, 없으면 scenes_processed)
+ * 추가 비율 렌더링 완료 또는 렌더링 실패 시
+ */
+async function releaseRenderingStatus(projectId: string): Promise<void> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { finalVideoAssetId: true },
+  });
+
+  await prisma.project.updateMany({
+    where: { id: projectId, status: "rendering" },
+    data: { status: project?.finalVideoAssetId ? "rendered" : "scenes_processed" },
+  });
+}
+
+/**
+ * 렌더링 입력 다운로드 (오류 응답 본문이 미디어로 저장되지 않도록 상태 확인)
+ */
+async function fetchRenderInput(url: string, label: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${label}: ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
 export const videoRender = inngest.createFunction(
-  { id: "video-render", retries: 1 },
+  {
+    id: "video-render",
+    retries: 1,
+    onFailure: async ({ error, event }) => {
+      const { projectId, renderJobId } = event.data.event.data as {
+        projectId: string;
+        renderJobId?: string;
+      };
+
+      console.error(`Video render failed for ${projectId}:`, error);
+
+      if (renderJobId) {
+        await prisma.renderJob.update({
+          where: { id: renderJobId },
+          data: {
+            status: "failed",
+            errorMessage: error.message,
+          },
+        });
+      }
+
+      await releaseRenderingStatus(projectId);
+      await reportRenderProgress(projectId, renderJobId, {
+        stage: "failed",
+        progress: 0,
+        message: error.message,
+      });
+    },
+  },
   { event: "video/render.requested" },
   async ({ event, step }) => {
-    const { projectId, sceneData } = event.data as {
+    const {
+      projectId,
+      sceneData,
+      burnSubtitles,
+      subtitleStyle,
+      aspectRatio: requestedAspectRatio,
+      encodingProfile = DEFAULT_ENCODING_PROFILE,
+      packageHls: shouldPackageHls,
+      poster = DEFAULT_POSTER_SELECTION,
+      renderJobId,
+    } = event.data as {
       projectId: string;
       sceneData: SceneData[];
+      burnSubtitles?: boolean;
+      subtitleStyle?: SubtitleStyle;
+      aspectRatio?: AspectRatio; // 생략 시 프로젝트 비율 (다르면 추가 비율 렌더링)
+      encodingProfile?: EncodingProfile;
+      packageHls?: boolean; // 최종 영상을 HLS 렌디션으로도 패키징 (앱 내 플레이어 스트리밍)
+      poster?: PosterSelection; // 포스터 프레임 선택 (기본: 자동)
+      renderJobId?: string; // POST /api/projects/[id]/render가 만든 RenderJob (상태 추적)
     };
+    const profile = ENCODING_PROFILE_DEFINITIONS[encodingProfile];
+
+    await step.run("mark-render-started", async () => {
+      if (renderJobId) {
+        await prisma.renderJob.update({
+          where: { id: renderJobId },
+          data: { status: "processing" },
+        });
+      }
+
+      await reportRenderProgress(projectId, renderJobId, {
+        stage: "composing",
+        progress: getCompositionProgress(0, sceneData.length),
+        message: "렌더링 준비 중",
+      });
+    });
 
     // 0. FFmpeg 설치 확인
     const ffmpegAvailable = await step.run("check-ffmpeg", async () => {
@@ -35,7 +194,90 @@ export const videoRender = inngest.createFunction(
       );
     }
 
-    const ffmpeg = new FFmpegService();
+    // 0-1. 출력 화면 비율 (요청 비율 또는 프로젝트 비율)
+    const { aspectRatio, isProjectAspectRatio } = await step.run("resolve-aspect-ratio", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { settings: true },
+      });
+      const projectAspectRatio = resolveAspectRatio(project?.settings);
+      const aspectRatio = requestedAspectRatio ?? projectAspectRatio;
+
+      return { aspectRatio, isProjectAspectRatio: aspectRatio === projectAspectRatio };
+    });
+
+    const ffmpeg = new FFmpegService(aspectRatio);
+
+    // 0-2. 씬별 아바타 레이아웃 조회 (씬 오버라이드 > 프로젝트 설정 > 비율별 기본값)
+    const avatarLayouts = await step.run("resolve-avatar-layouts", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: {
+          settings: true,
+          scenes: { select: { sceneNumber: true, metadata: true } },
+        },
+      });
+
+      return Object.fromEntries(
+        (project?.scenes ?? []).map((s) => [
+          s.sceneNumber,
+          resolveAvatarLayout(project?.settings, s.metadata, aspectRatio),
+        ])
+      );
+    });
+
+    // 0-3. 씬별 다음 씬으로의 전환 (Scene.metadata.transition, 없으면 컷)
+    const sceneTransitions = await step.run("resolve-scene-transitions", async () => {
+      const scenes = await prisma.scene.findMany({
+        where: { projectId },
+        select: { sceneNumber: true, metadata: true },
+      });
+
+      return Object.fromEntries(
+        scenes.map((s) => [s.sceneNumber, resolveSceneTransition(s.metadata)])
+      );
+    });
+
+    // 0-4. 자막 번인용 SRT 준비 (저장된 subtitle Asset 우선, 없으면 스크립트로 생성)
+    const subtitles = await step.run("prepare-subtitles", async () => {
+      if (!burnSubtitles) return {} as Record<number, string>;
+
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: {
+          settings: true,
+          scenes: {
+            select: {
+              sceneNumber: true,
+              script: true,
+              duration: true,
+              durationSeconds: true,
+              assets: { where: { kind: "subtitle" } },
+            },
+          },
+        },
+      });
+      const { subtitleMaxChars } =
+        SCRIPT_LANGUAGE_DEFINITIONS[resolveScriptLanguage(project?.settings)];
+
+      const entries = await Promise.all(
+        (project?.scenes ?? []).map(async (s) => {
+          const srtAsset = s.assets.find(
+            (a) => (a.metadata as { format?: string } | null)?.format === "srt"
+          );
+
+          const srt = srtAsset
+            ? await (await fetchRenderInput(srtAsset.url, `subtitles for scene ${s.sceneNumber}`)).text()
+            : toSrt(
+                buildSubtitleCues(s.script, s.durationSeconds ?? s.duration, subtitleMaxChars)
+              );
+
+          return [s.sceneNumber, srt] as const;
+        })
+      );
+
+      return Object.fromEntries(entries) as Record<number, string>;
+    });
 
     // 1. 임시 디렉토리 생성
     const tempDir = await step.run("create-temp-directory", async () => {
@@ -47,6 +289,32 @@ export const videoRender = inngest.createFunction(
       return dir;
     });
 
+    // 1-1. 배경 음악 다운로드 (Project.settings.music 선택 시)
+    const music = await step.run("prepare-background-music", async () => {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { organizationId: true, settings: true },
+      });
+
+      return project ? prepareProjectMusic(project, tempDir) : null;
+    });
+
+    // 1-2. 조직 브랜드 키트 준비 (로고 다운로드, 인트로/아웃트로 정규화 또는 CTA 카드 생성)
+    const brandKit = await step.run("prepare-brand-kit", async () => {
+      const project = await prisma.project.findUniqueOrThrow({
+        where: { id: projectId },
+        select: { organizationId: true },
+      });
+
+      return prepareBrandKit(project.organizationId, tempDir, ffmpeg);
+    });
+
+    // 자막 폰트를 지정하지 않으면 브랜드 본문 폰트
+    const brandedSubtitleStyle: SubtitleStyle = {
+      fontName: brandKit.kit.fonts.body,
+      ...subtitleStyle,
+    };
+
     // 2. 씬별 자산 다운로드 및 배경 합성
     const composedScenes: string[] = [];
 
@@ -65,7 +333,10 @@ export const videoRender = inngest.createFunction(
             `bg_${scene.sceneNumber}${backgroundExt}`
           );
 
-          const bgResponse = await fetch(scene.backgroundUrl);
+          const bgResponse = await fetchRenderInput(
+            scene.backgroundUrl,
+            `background for scene ${scene.sceneNumber}`
+          );
           const bgBuffer = Buffer.from(await bgResponse.arrayBuffer());
           await fs.writeFile(backgroundPath, bgBuffer);
 
@@ -75,11 +346,26 @@ export const videoRender = inngest.createFunction(
             `avatar_${scene.sceneNumber}.mp4`
           );
 
-          const avatarResponse = await fetch(scene.avatarUrl);
+          const avatarResponse = await fetchRenderInput(
+            scene.avatarUrl,
+            `avatar video for scene ${scene.sceneNumber}`
+          );
           const avatarBuffer = Buffer.from(await avatarResponse.arrayBuffer());
           await fs.writeFile(avatarPath, avatarBuffer);
 
-          // 2-3. 배경 + 아바타 합성
+          // 2-3. 자막 파일 저장 (번인 옵션 시)
+          const srt = subtitles[scene.sceneNumber];
+          let subtitlePath: string | null = null;
+
+          if (srt) {
+            subtitlePath = path.join(
+              tempDir,
+              `subtitle_${scene.sceneNumber}.srt`
+            );
+            await fs.writeFile(subtitlePath, srt, "utf-8");
+          }
+
+          // 2-4. 배경 + 아바타 합성
           const composedPath = path.join(
             tempDir,
             `composed_${scene.sceneNumber}.mp4`
@@ -88,7 +374,10 @@ export const videoRender = inngest.createFunction(
           const command = ffmpeg.buildCompositionCommand(
             backgroundPath,
             avatarPath,
-            composedPath
+            composedPath,
+            avatarLayouts[scene.sceneNumber], // 없으면 기본 레이아웃
+            subtitlePath ? { path: subtitlePath, style: brandedSubtitleStyle } : undefined,
+            music ? 0 : undefined // 배경 음악이 있으면 영상 배경 오디오는 제외
           );
 
           await ffmpeg.executeCommand(
@@ -96,6 +385,12 @@ export const videoRender = inngest.createFunction(
             `Scene ${scene.sceneNumber} composition`
           );
 
+          await reportRenderProgress(projectId, renderJobId, {
+            stage: "composing",
+            progress: getCompositionProgress(i + 1, sceneData.length),
+            message: `씬 ${i + 1}/${sceneData.length} 합성 완료`,
+          });
+
           return composedPath;
         }
       );
@@ -103,56 +398,131 @@ export const videoRender = inngest.createFunction(
       composedScenes.push(composedScenePath);
     }
 
-    // 3. 모든 씬 연결 (concat)
-    const finalVideoPath = await step.run("concatenate-scenes", async () => {
+    const composedSceneFiles = sceneData.map((scene, i) => ({
+      sceneNumber: scene.sceneNumber,
+      path: composedScenes[i],
+    }));
+
+    // 2-5. 씬 썸네일 (프로젝트 비율 렌더링만, 씬 카드 표시용)
+    if (isProjectAspectRatio) {
+      await step.run("create-scene-thumbnails", async () => {
+        return createSceneThumbnails(ffmpeg, projectId, composedSceneFiles, tempDir);
+      });
+    }
+
+    // 3. 모든 씬 연결 (씬 경계마다 전환 적용)
+    const concatenatedPath = await step.run("concatenate-scenes", async () => {
+      await reportRenderProgress(projectId, renderJobId, {
+        stage: "concatenating",
+        progress: getCompositionProgress(sceneData.length, sceneData.length),
+        message: "씬 연결 중",
+      });
+
       if (composedScenes.length === 1) {
         return composedScenes[0]; // 씬이 1개면 concat 불필요
       }
 
-      // concat 파일 생성
-      const concatFilePath = path.join(tempDir, "concat.txt");
-      await ffmpeg.createConcatFile(composedScenes, concatFilePath);
+      // 전환 offset 계산용 씬 길이 측정
+      const scenes = await Promise.all(
+        composedScenes.map(async (scenePath) => ({
+          path: scenePath,
+          duration: await ffmpeg.getVideoDuration(scenePath),
+        }))
+      );
+      const transitions = sceneData
+        .slice(0, -1)
+        .map((scene) => sceneTransitions[scene.sceneNumber] ?? DEFAULT_SCENE_TRANSITION);
 
-      // 최종 비디오 경로
-      const finalPath = path.join(tempDir, "final_video.mp4");
+      // 연결 결과 경로 (배경 음악 믹스 전)
+      const finalPath = path.join(tempDir, "concatenated.mp4");
 
-      // concat 명령 실행
-      const command = ffmpeg.buildConcatenationCommand(
-        concatFilePath,
-        finalPath
-      );
+      const command = ffmpeg.buildConcatenationCommand(scenes, transitions, finalPath);
 
       await ffmpeg.executeCommand(command, "Scene concatenation");
 
       return finalPath;
     });
 
+    // 3-1. 배경 음악 믹스 (연결된 영상 전체에 한 트랙 + 음성 구간 ducking)
+    const mixedVideoPath = await step.run("mix-background-music", async () => {
+      if (!music) {
+        return concatenatedPath;
+      }
+
+      const mixedPath = path.join(tempDir, "final_video.mp4");
+      const command = ffmpeg.buildMusicMixCommand(concatenatedPath, music.path, mixedPath, {
+        volume: music.settings.volume,
+        ducking: music.settings.ducking,
+        duration: await ffmpeg.getVideoDuration(concatenatedPath),
+      });
+
+      await ffmpeg.executeCommand(command, "Background music mix");
+
+      return mixedPath;
+    });
+
+    // 3-2. 브랜드 키트 적용 (본편 워터마크 + 인트로/아웃트로)
+    const brandedVideoPath = await step.run("apply-brand-kit", async () => {
+      return applyBrandKit(ffmpeg, mixedVideoPath, brandKit, tempDir);
+    });
+
+    // 3-3. 인코딩 프로필 적용 (해상도, 코덱, CRF, 오디오 비트레이트)
+    const finalVideoPath = await step.run("encode-final-video", async () => {
+      await reportRenderProgress(projectId, renderJobId, {
+        stage: "finishing",
+        progress: 85,
+        message: `최종 인코딩 중 (${profile.label})`,
+      });
+
+      const encodedPath = path.join(tempDir, `final_encoded.${profile.container}`);
+
+      await ffmpeg.executeCommand(
+        ffmpeg.buildFinalEncodeCommand(brandedVideoPath, encodedPath, encodingProfile),
+        `Final encode (${encodingProfile})`
+      );
+
+      return encodedPath;
+    });
+
     // 4. 최종 비디오 파일 읽기 및 업로드
-    const { videoUrl, storagePath } = await step.run(
+    const { videoUrl, storagePath, storageProvider } = await step.run(
       "upload-final-video",
       async () => {
+        await reportRenderProgress(projectId, renderJobId, {
+          stage: "uploading",
+          progress: 92,
+          message: "최종 영상 업로드 중",
+        });
+
         const videoBuffer = await fs.readFile(finalVideoPath);
 
-        const fileName = `final_video.mp4`;
-        const storagePath = `projects/${projectId}/final/${fileName}`;
+        // 추가 비율/기본 외 프로필은 파일명에 표시 (프로젝트 대표 결과를 덮어쓰지 않음)
+        const fileName = [
+          "final_video",
+          ...(isProjectAspectRatio ? [] : [ASPECT_RATIO_DEFINITIONS[aspectRatio].fileSuffix]),
+          ...(encodingProfile === DEFAULT_ENCODING_PROFILE ? [] : [encodingProfile]),
+        ].join("_");
+        const storagePath = `projects/${projectId}/final/${fileName}.${profile.container}`;
 
-        const { url, path } = await uploadFromBuffer(
+        const storage = await getProjectStorage(projectId);
+        const { url, path } = await storage.uploadFromBuffer(
           videoBuffer,
           storagePath,
-          "video/mp4"
+          profile.mimeType
         );
 
-        return { videoUrl: url, storagePath: path };
+        return { videoUrl: url, storagePath: path, storageProvider: storage.name };
       }
     );
 
-    // 5. 비디오 duration 및 파일 크기 조회
-    const { duration, fileSize } = await step.run(
+    // 5. 비디오 duration, 파일 크기, 코덱/비트레이트 조회
+    const { duration, fileSize, mediaInfo } = await step.run(
       "get-video-metadata",
       async () => {
         const duration = await ffmpeg.getVideoDuration(finalVideoPath);
         const stats = await fs.stat(finalVideoPath);
-        return { duration, fileSize: stats.size };
+        const mediaInfo = await ffmpeg.getMediaInfo(finalVideoPath);
+        return { duration, fileSize: stats.size, mediaInfo };
       }
     );
 
@@ -164,9 +534,25 @@ export const videoRender = inngest.createFunction(
           kind: "final_video",
           type: "final_video",
           url: videoUrl,
+          storageProvider,
           storagePath,
           metadata: {
             sceneCount: sceneData.length,
+            aspectRatio,
+            burnSubtitles: !!burnSubtitles,
+            musicAssetId: music?.settings.assetId ?? null,
+            brandKit: {
+              intro: !!brandKit.introPath,
+              outro: !!brandKit.outroPath,
+              watermark: !!brandKit.logoPath && brandKit.kit.watermark.enabled,
+            },
+            encodingProfile,
+            mimeType: profile.mimeType,
+            width: mediaInfo.width,
+            height: mediaInfo.height,
+            videoCodec: mediaInfo.videoCodec,
+            audioCodec: mediaInfo.audioCodec,
+            bitrate: mediaInfo.bitrate,
             totalDuration: duration,
             fileSize,
             renderedAt: new Date().toISOString(),
@@ -175,8 +561,13 @@ export const videoRender = inngest.createFunction(
       });
     });
 
-    // 7. 프로젝트 상태 업데이트 (rendered)
+    // 7. 프로젝트 상태 업데이트 (rendered, 추가 비율 렌더링은 대표 영상을 바꾸지 않음)
     await step.run("update-project-status-rendered", async () => {
+      if (!isProjectAspectRatio) {
+        await releaseRenderingStatus(projectId);
+        return;
+      }
+
       await prisma.project.update({
         where: { id: projectId },
         data: {
@@ -186,6 +577,53 @@ export const videoRender = inngest.createFunction(
       });
     });
 
+    // 6-1. 포스터 + 미리보기 애니메이션
+    const { posterUrl, previewUrl } = await step.run("create-poster-and-preview", async () => {
+      return createPosterAndPreview(
+        ffmpeg,
+        asset.id,
+        { finalVideoPath, mainVideoPath: mixedVideoPath, composedScenes: composedSceneFiles },
+        poster,
+        tempDir
+      );
+    });
+
+    // 6-2. HLS 패키징 (선택)
+    const hls = shouldPackageHls
+      ? await step.run("package-hls", async () => {
+          return packageHls(ffmpeg, finalVideoPath, tempDir, asset.id);
+        })
+      : null;
+
+    // 7-1. RenderJob 완료 기록 + 완료 알림
+    await step.run("complete-render-job", async () => {
+      if (renderJobId) {
+        await prisma.renderJob.update({
+          where: { id: renderJobId },
+          data: {
+            status: "completed",
+            completedAt: new Date(),
+            metadata: {
+              assetId: asset.id,
+              fileSize,
+              bitrate: mediaInfo.bitrate,
+              videoCodec: mediaInfo.videoCodec,
+              audioCodec: mediaInfo.audioCodec,
+              posterUrl,
+              hlsAssetId: hls?.assetId ?? null,
+            },
+          },
+        });
+      }
+
+      await reportRenderProgress(projectId, renderJobId, {
+        stage: "completed",
+        progress: 100,
+        message: "렌더링이 완료되었습니다",
+        assetId: asset.id,
+      });
+    });
+
     // 8. 임시 파일 정리
     await step.run("cleanup-temp-files", async () => {
       try {
@@ -200,7 +638,12 @@ export const videoRender = inngest.createFunction(
       success: true,
       projectId,
       assetId: asset.id,
+      aspectRatio,
+      encodingProfile,
       videoUrl,
+      posterUrl,
+      previewUrl,
+      hlsUrl: hls?.url ?? null,
       duration,
       fileSize,
     };
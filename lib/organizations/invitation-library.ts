@@ -0,0 +1,80 @@
+import "server-only";
+import { randomBytes } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { INVITATION_EXPIRY_DAYS, getInvitationStatus } from "./invitations";
+
+/**
+ * 수락 링크 토큰 (URL-safe, 추측 불가)
+ */
+export function createInvitationToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function getInvitationExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * 수락 가능한 초대 조회 (토큰 또는 이메일 기준, 수락/취소/만료된 초대는 null)
+ *
+ * 이메일 기준이면 가장 최근 초대를 사용한다 (OAuth 첫 로그인).
+ */
+export async function findPendingInvitation(where: { token: string } | { email: string }) {
+  const invitation = await prisma.invitation.findFirst({
+    where:
+      "token" in where
+        ? { token: where.token }
+        : { email: where.email.trim().toLowerCase(), acceptedAt: null, revokedAt: null },
+    include: { organization: { select: { id: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (!invitation || getInvitationStatus(invitation) !== "pending") {
+    return null;
+  }
+
+  return invitation;
+}
+
+/**
+ * 초대 수락 처리 (사용자 생성과 같은 트랜잭션에서 호출)
+ *
+ * 그 사이 다른 가입으로 수락됐거나 취소된 초대면 예외를 던져 트랜잭션을 되돌린다.
+ */
+export async function markInvitationAccepted(
+  tx: Prisma.TransactionClient,
+  invitationId: string
+): Promise<void> {
+  const { count } = await tx.invitation.updateMany({
+    where: { id: invitationId, acceptedAt: null, revokedAt: null },
+    data: { acceptedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new Error(`Invitation ${invitationId} is no longer pending`);
+  }
+}
+
+/**
+ * 기존 사용자의 초대 수락 (멤버십 추가 후 초대한 조직을 현재 조직으로 선택)
+ */
+export async function acceptInvitationAsMember(
+  invitation: { id: string; organizationId: string; role: string },
+  userId: string
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    await markInvitationAccepted(tx, invitation.id);
+    await tx.organizationMembership.upsert({
+      where: {
+        userId_organizationId: { userId, organizationId: invitation.organizationId },
+      },
+      create: { userId, organizationId: invitation.organizationId, role: invitation.role },
+      update: {},
+    });
+    await tx.user.update({
+      where: { id: userId },
+      data: { organizationId: invitation.organizationId },
+    });
+  });
+}
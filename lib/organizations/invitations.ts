@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+/**
+ * 조직 초대 / 구성원 역할
+ *
+ * 관리자가 이메일과 역할로 초대하면 토큰이 담긴 수락 링크(/auth/signup?invitation={token})가 만들어지고,
+ * 그 링크로 가입(또는 같은 이메일로 첫 OAuth 로그인)하면 초대한 조직에 해당 역할로 합류한다.
+ * 이미 계정이 있으면 로그인 후 /dashboard/invitations/{token}에서 수락해 멤버십을 추가한다.
+ * 초대 API(서버)와 구성원 관리/회원가입 화면(클라이언트)이 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const ORGANIZATION_ROLES = ["admin", "member"] as const;
+
+export const organizationRoleSchema = z.enum(ORGANIZATION_ROLES);
+
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  admin: "관리자",
+  member: "멤버",
+};
+
+export const INVITATION_EXPIRY_DAYS = 7;
+
+export const invitationCreateSchema = z.object({
+  email: z
+    .string()
+    .email("유효한 이메일 주소를 입력해주세요")
+    .transform((email) => email.trim().toLowerCase()),
+  role: organizationRoleSchema.default("member"),
+});
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: "대기 중",
+  accepted: "수락됨",
+  revoked: "취소됨",
+  expired: "만료됨",
+};
+
+/**
+ * 초대 상태 (수락/취소 시각과 만료 시각으로 판단)
+ */
+export function getInvitationStatus(
+  invitation: {
+    acceptedAt: Date | string | null;
+    revokedAt: Date | string | null;
+    expiresAt: Date | string;
+  },
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (new Date(invitation.expiresAt) <= now) return "expired";
+  return "pending";
+}
+
+export function getInvitationAcceptPath(token: string): string {
+  return `/auth/signup?invitation=${encodeURIComponent(token)}`;
+}
+
+export function getInvitationJoinPath(token: string): string {
+  return `/dashboard/invitations/${encodeURIComponent(token)}`;
+}
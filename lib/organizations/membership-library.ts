@@ -0,0 +1,72 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+
+export interface ActiveMembership {
+  organizationId: string;
+  organizationSlug: string;
+  role: string;
+}
+
+/**
+ * 세션에 넣을 현재 조직 + 조직별 역할
+ * (jwt 콜백에서 로그인/조직 전환 시, 또는 토큰의 조직 멤버십이 사라졌을 때 호출)
+ *
+ * User.organizationId(마지막으로 선택한 조직)의 멤버십을 쓰고, 그 조직에서 제거됐으면
+ * 남은 멤버십 중 가장 오래된 조직으로 옮긴다.
+ * 멤버십 도입 전 사용자는 User.organizationId / User.role로 멤버십을 만든다.
+ */
+export async function resolveActiveMembership(userId: string): Promise<ActiveMembership | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      organizationId: true,
+      role: true,
+      memberships: {
+        include: { organization: { select: { slug: true } } },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  if (user.memberships.length === 0) {
+    const membership = await prisma.organizationMembership.create({
+      data: { userId, organizationId: user.organizationId, role: user.role },
+      include: { organization: { select: { slug: true } } },
+    });
+    return {
+      organizationId: membership.organizationId,
+      organizationSlug: membership.organization.slug,
+      role: membership.role,
+    };
+  }
+
+  const membership =
+    user.memberships.find((m) => m.organizationId === user.organizationId) ??
+    user.memberships[0];
+
+  if (membership.organizationId !== user.organizationId) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { organizationId: membership.organizationId },
+    });
+  }
+
+  return {
+    organizationId: membership.organizationId,
+    organizationSlug: membership.organization.slug,
+    role: membership.role,
+  };
+}
+
+/**
+ * 사용자의 조직 멤버십 조회 (조직 권한 확인용, 없으면 null)
+ */
+export async function getMembership(userId: string, organizationId: string) {
+  return prisma.organizationMembership.findUnique({
+    where: { userId_organizationId: { userId, organizationId } },
+  });
+}
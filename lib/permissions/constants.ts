@@ -3,26 +3,70 @@
 export const NAMESPACES = {
   PROJECT: "project",
   ORGANIZATION: "organization",
+  TEAM: "team",
 } as const;
 
 export const RELATIONS = {
   OWNER: "owner",
   EDITOR: "editor",
   VIEWER: "viewer",
+  MEMBER: "member", // 팀 구성원
+  PARENT: "parent", // 상위 리소스 (project → organization)
 } as const;
 
 export const SUBJECT_TYPES = {
   USER: "user",
+  TEAM: "team",
+  ORGANIZATION: "organization",
 } as const;
 
 export type Namespace = typeof NAMESPACES[keyof typeof NAMESPACES];
 export type Relation = typeof RELATIONS[keyof typeof RELATIONS];
 export type SubjectType = typeof SUBJECT_TYPES[keyof typeof SUBJECT_TYPES];
 
-// 권한 상속 정의
+/**
+ * 권한 주체
+ *
+ * - 사용자: { type: "user", id }
+ * - subject set: { type: "team", id, relation: "member" } = 해당 팀의 모든 구성원
+ */
+export interface Subject {
+  type: SubjectType;
+  id: string;
+  relation?: Relation;
+}
+
+export function userSubject(userId: string): Subject {
+  return { type: SUBJECT_TYPES.USER, id: userId };
+}
+
+export function teamSubject(teamId: string): Subject {
+  return { type: SUBJECT_TYPES.TEAM, id: teamId, relation: RELATIONS.MEMBER };
+}
+
+export function organizationSubject(organizationId: string): Subject {
+  return { type: SUBJECT_TYPES.ORGANIZATION, id: organizationId };
+}
+
+/**
+ * 상위 리소스 네임스페이스
+ *
+ * project:{id}#parent@organization:{orgId} 튜플로 연결하며,
+ * 상위 리소스에 대한 권한(owner/editor/viewer)은 하위 리소스에 같은 권한으로 상속된다.
+ */
+export const PARENT_NAMESPACES: Partial<Record<Namespace, Namespace>> = {
+  [NAMESPACES.PROJECT]: NAMESPACES.ORGANIZATION,
+};
+
+/**
+ * 권한 상속 기본값
+ *
+ * RelationDefinition seed 원본이며, 런타임 상속은 RelationDefinition 행을 기준으로 계산한다.
+ * (정의가 seed되지 않은 네임스페이스만 이 값을 그대로 쓴다)
+ */
 export const PERMISSION_HIERARCHY: Record<
   Namespace,
-  Record<Relation, Relation[]>
+  Partial<Record<Relation, Relation[]>>
 > = {
   [NAMESPACES.PROJECT]: {
     [RELATIONS.OWNER]: [RELATIONS.EDITOR, RELATIONS.VIEWER],
@@ -34,4 +78,7 @@ export const PERMISSION_HIERARCHY: Record<
     [RELATIONS.EDITOR]: [RELATIONS.VIEWER],
     [RELATIONS.VIEWER]: [],
   },
+  [NAMESPACES.TEAM]: {
+    [RELATIONS.MEMBER]: [],
+  },
 };
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NAMESPACES, RELATIONS } from "./constants";
+import { check, checkMany, createPermissionCache, isOrganizationOwner } from "./index";
+
+interface Tuple {
+  namespace: string;
+  objectId: string;
+  relation: string;
+  subjectType: string;
+  subjectId: string;
+  subjectRelation: string;
+}
+
+type Where = Record<string, unknown> & { OR?: Where[] };
+
+const db = vi.hoisted(() => ({
+  tuples: [] as Tuple[],
+  memberships: [] as { userId: string; organizationId: string; role: string }[],
+  projects: [] as { id: string; organizationId: string }[],
+}));
+
+// Prisma where 절 중 권한 모듈이 쓰는 형태(값, { in }, OR)만 평가
+function matchesWhere(row: Record<string, unknown>, where: Where): boolean {
+  const { OR, ...fields } = where;
+  const fieldsMatch = Object.entries(fields).every(([key, condition]) => {
+    if (condition !== null && typeof condition === "object" && "in" in condition) {
+      return (condition.in as unknown[]).includes(row[key]);
+    }
+    return row[key] === condition;
+  });
+  return fieldsMatch && (!OR || OR.some((branch) => matchesWhere(row, branch)));
+}
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    relationDefinition: { findMany: async () => [] },
+    relationTuple: {
+      findMany: async ({ where }: { where: Where }) =>
+        db.tuples.filter((tuple) => matchesWhere({ ...tuple }, where)),
+    },
+    organizationMembership: {
+      findMany: async ({ where }: { where: Where }) =>
+        db.memberships.filter((membership) => matchesWhere({ ...membership }, where)),
+    },
+    project: {
+      findMany: async ({ where }: { where: Where }) =>
+        db.projects.filter((project) => matchesWhere({ ...project }, where)),
+    },
+  },
+}));
+
+function tuple(
+  namespace: string,
+  objectId: string,
+  relation: string,
+  subject: { type: string; id: string; relation?: string }
+): Tuple {
+  return {
+    namespace,
+    objectId,
+    relation,
+    subjectType: subject.type,
+    subjectId: subject.id,
+    subjectRelation: subject.relation ?? "",
+  };
+}
+
+const alice = { type: "user", id: "alice" };
+const designTeam = { type: "team", id: "design", relation: "member" };
+const org = { type: "organization", id: "org-1" };
+
+beforeEach(() => {
+  db.tuples = [];
+  db.memberships = [];
+  db.projects = [
+    { id: "p1", organizationId: "org-1" },
+    { id: "p2", organizationId: "org-1" },
+    { id: "p3", organizationId: "org-2" },
+  ];
+});
+
+describe("check", () => {
+  it("직접 부여된 상위 권한은 하위 권한을 포함한다", async () => {
+    db.tuples.push(tuple("project", "p1", "owner", alice));
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.VIEWER)).resolves.toBe(true);
+    await expect(check("alice", NAMESPACES.PROJECT, "p2", RELATIONS.VIEWER)).resolves.toBe(false);
+  });
+
+  it("하위 권한으로는 상위 권한을 얻지 못한다", async () => {
+    db.tuples.push(tuple("project", "p1", "viewer", alice));
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.EDITOR)).resolves.toBe(false);
+  });
+
+  it("소속 팀(team#member)에 부여된 권한을 구성원에게 적용한다", async () => {
+    db.tuples.push(
+      tuple("team", "design", "member", alice),
+      tuple("project", "p1", "editor", designTeam)
+    );
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.EDITOR)).resolves.toBe(true);
+    await expect(check("bob", NAMESPACES.PROJECT, "p1", RELATIONS.EDITOR)).resolves.toBe(false);
+  });
+
+  it("상위 조직의 권한을 parent 튜플로 프로젝트에 상속한다", async () => {
+    db.tuples.push(
+      tuple("project", "p1", "parent", org),
+      tuple("organization", "org-1", "viewer", alice)
+    );
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.VIEWER)).resolves.toBe(true);
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.EDITOR)).resolves.toBe(false);
+  });
+
+  it("parent 튜플이 없는 프로젝트는 Project.organizationId로 상속한다", async () => {
+    db.tuples.push(tuple("organization", "org-1", "editor", alice));
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p2", RELATIONS.EDITOR)).resolves.toBe(true);
+    await expect(check("alice", NAMESPACES.PROJECT, "p3", RELATIONS.EDITOR)).resolves.toBe(false);
+  });
+
+  it("조직 관리자 멤버십은 조직과 조직 프로젝트의 owner로 취급한다", async () => {
+    db.memberships.push({ userId: "alice", organizationId: "org-1", role: "admin" });
+
+    await expect(isOrganizationOwner({ id: "alice", organizationId: "org-1" })).resolves.toBe(true);
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.OWNER)).resolves.toBe(true);
+    await expect(isOrganizationOwner({ id: "alice", organizationId: "org-2" })).resolves.toBe(false);
+  });
+
+  it("일반 구성원 멤버십은 조직 owner가 아니다", async () => {
+    db.memberships.push({ userId: "alice", organizationId: "org-1", role: "member" });
+
+    await expect(isOrganizationOwner({ id: "alice", organizationId: "org-1" })).resolves.toBe(false);
+  });
+});
+
+describe("checkMany", () => {
+  it("리소스별 결과를 요청 순서의 모든 ID에 대해 돌려준다", async () => {
+    db.tuples.push(
+      tuple("project", "p1", "editor", alice),
+      tuple("team", "design", "member", alice),
+      tuple("project", "p2", "owner", designTeam)
+    );
+
+    const results = await checkMany("alice", NAMESPACES.PROJECT, ["p1", "p2", "p3", "p1"], RELATIONS.EDITOR);
+
+    expect([...results]).toEqual([
+      ["p1", true],
+      ["p2", true],
+      ["p3", false],
+    ]);
+  });
+
+  it("같은 캐시로 반복 체크하면 결과를 재사용한다", async () => {
+    db.tuples.push(tuple("project", "p1", "viewer", alice));
+    const cache = createPermissionCache();
+
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.VIEWER, cache)).resolves.toBe(true);
+    db.tuples = [];
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.VIEWER, cache)).resolves.toBe(true);
+    await expect(check("alice", NAMESPACES.PROJECT, "p1", RELATIONS.VIEWER)).resolves.toBe(false);
+  });
+
+  it("빈 ID 목록이나 사용자 ID가 없으면 조회 없이 false", async () => {
+    await expect(checkMany("", NAMESPACES.PROJECT, ["p1"], RELATIONS.VIEWER)).resolves.toEqual(
+      new Map([["p1", false]])
+    );
+    await expect(checkMany("alice", NAMESPACES.PROJECT, [], RELATIONS.VIEWER)).resolves.toEqual(new Map());
+  });
+});
@@ -1,108 +1,510 @@
 import "server-only";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import {
   NAMESPACES,
   RELATIONS,
   SUBJECT_TYPES,
   PERMISSION_HIERARCHY,
+  PARENT_NAMESPACES,
+  userSubject,
+  teamSubject,
+  organizationSubject,
   type Namespace,
   type Relation,
+  type Subject,
   type SubjectType,
 } from "./constants";
 
+type PermissionHierarchy = Partial<Record<Namespace, Partial<Record<Relation, Relation[]>>>>;
+
+/**
+ * 요청 단위 권한 캐시
+ *
+ * 한 요청 안에서 같은 사용자의 팀 소속/관리자 조직/권한 체크 결과를 재사용한다.
+ * 라우트 핸들러에서 createPermissionCache()로 만들어 check/checkMany 등에 넘긴다.
+ * (요청 간에 공유하면 권한 변경이 반영되지 않으므로 요청마다 새로 만든다)
+ */
+export interface PermissionCache {
+  teamIds: Map<string, Promise<string[]>>;
+  adminOrganizationIds: Map<string, Promise<string[]>>;
+  checks: Map<string, Promise<boolean>>;
+}
+
+export function createPermissionCache(): PermissionCache {
+  return {
+    teamIds: new Map(),
+    adminOrganizationIds: new Map(),
+    checks: new Map(),
+  };
+}
+
+function memoize<T>(map: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> {
+  const cached = map.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const promise = load();
+  map.set(key, promise);
+  // 실패한 조회는 캐시하지 않는다
+  promise.catch(() => map.delete(key));
+  return promise;
+}
+
+// 권한 정의는 거의 바뀌지 않으므로 프로세스 메모리에 잠시 캐시
+const DEFINITION_CACHE_TTL_MS = 60_000;
+let definitionCache: { hierarchy: Promise<PermissionHierarchy>; expiresAt: number } | null = null;
+
+/**
+ * 권한 상속 구조 (RelationDefinition 기준)
+ *
+ * 정의가 seed되지 않은 네임스페이스는 PERMISSION_HIERARCHY 기본값을 쓴다.
+ */
+async function loadPermissionHierarchy(): Promise<PermissionHierarchy> {
+  if (definitionCache && definitionCache.expiresAt > Date.now()) {
+    return definitionCache.hierarchy;
+  }
+
+  const hierarchy = prisma.relationDefinition
+    .findMany({ select: { namespace: true, relation: true, inherits: true } })
+    .then((definitions) => {
+      const fromDefinitions: PermissionHierarchy = {};
+      for (const definition of definitions) {
+        const namespace = definition.namespace as Namespace;
+        fromDefinitions[namespace] = {
+          ...fromDefinitions[namespace],
+          [definition.relation]: definition.inherits as Relation[],
+        };
+      }
+      return { ...PERMISSION_HIERARCHY, ...fromDefinitions };
+    });
+
+  definitionCache = { hierarchy, expiresAt: Date.now() + DEFINITION_CACHE_TTL_MS };
+  hierarchy.catch(() => {
+    definitionCache = null;
+  });
+  return hierarchy;
+}
+
+// 사용자 ID 문자열은 사용자 주체로 취급
+function toSubject(subject: string | Subject): Subject {
+  return typeof subject === "string" ? userSubject(subject) : subject;
+}
+
+function subjectWhere(subject: Subject) {
+  return {
+    subjectType: subject.type,
+    subjectId: subject.id,
+    subjectRelation: subject.relation ?? "",
+  };
+}
+
+/**
+ * 요구 권한을 충족하는 관계 목록 (요구 권한 + 이를 상속하는 상위 권한)
+ *
+ * inherits는 여러 단계로 이어질 수 있으므로 (owner → editor → viewer) 전이적으로 모은다.
+ */
+async function getGrantingRelations(namespace: Namespace, relation: Relation): Promise<Relation[]> {
+  const hierarchy = (await loadPermissionHierarchy())[namespace] ?? {};
+  const relations: Relation[] = [relation];
+
+  for (let i = 0; i < relations.length; i++) {
+    for (const [higherRelation, inheritedRelations] of Object.entries(hierarchy)) {
+      if (
+        inheritedRelations?.includes(relations[i]) &&
+        !relations.includes(higherRelation as Relation)
+      ) {
+        relations.push(higherRelation as Relation);
+      }
+    }
+  }
+
+  return relations;
+}
+
+/**
+ * 사용자가 구성원인 팀 ID 목록 (team:{id}#member@user:{userId})
+ */
+export async function listUserTeamIds(
+  userId: string,
+  cache: PermissionCache = createPermissionCache()
+): Promise<string[]> {
+  return memoize(cache.teamIds, userId, async () => {
+    const memberships = await prisma.relationTuple.findMany({
+      where: {
+        namespace: NAMESPACES.TEAM,
+        relation: RELATIONS.MEMBER,
+        ...subjectWhere(userSubject(userId)),
+      },
+      select: { objectId: true },
+    });
+
+    return memberships.map((m) => m.objectId);
+  });
+}
+
+/**
+ * 사용자에게 해당하는 주체 조건 (사용자 직접 + 소속 팀의 team#member subject set)
+ */
+async function getUserSubjectConditions(
+  userId: string,
+  cache: PermissionCache
+): Promise<Prisma.RelationTupleWhereInput[]> {
+  const teamIds = await listUserTeamIds(userId, cache);
+  const conditions: Prisma.RelationTupleWhereInput[] = [subjectWhere(userSubject(userId))];
+
+  if (teamIds.length > 0) {
+    conditions.push({
+      subjectType: SUBJECT_TYPES.TEAM,
+      subjectId: { in: teamIds },
+      subjectRelation: RELATIONS.MEMBER,
+    });
+  }
+
+  return conditions;
+}
+
+/**
+ * 사용자가 관리자 멤버십을 가진 조직 ID 목록
+ *
+ * 조직 관리자는 organization#owner 튜플 없이도 해당 조직의 owner로 취급한다.
+ * (역할의 원본은 OrganizationMembership이라 튜플을 따로 동기화하지 않는다)
+ */
+async function listAdminOrganizationIds(
+  userId: string,
+  cache: PermissionCache
+): Promise<string[]> {
+  return memoize(cache.adminOrganizationIds, userId, async () => {
+    const memberships = await prisma.organizationMembership.findMany({
+      where: { userId, role: "admin" },
+      select: { organizationId: true },
+    });
+
+    return memberships.map((m) => m.organizationId);
+  });
+}
+
+/**
+ * 리소스별 상위 리소스 ID 목록 (namespace:{id}#parent@parentNamespace:{parentId})
+ */
+async function listParentIds(
+  namespace: Namespace,
+  objectIds: string[],
+  parentNamespace: Namespace
+): Promise<Map<string, string[]>> {
+  const parents = await prisma.relationTuple.findMany({
+    where: {
+      namespace,
+      objectId: { in: objectIds },
+      relation: RELATIONS.PARENT,
+      subjectType: parentNamespace,
+    },
+    select: { objectId: true, subjectId: true },
+  });
+
+  const parentIds = new Map<string, string[]>();
+  for (const parent of parents) {
+    parentIds.set(parent.objectId, [...(parentIds.get(parent.objectId) ?? []), parent.subjectId]);
+  }
+
+  // parent 튜플이 없는 (상속 도입 전) 프로젝트는 Project.organizationId를 상위 조직으로 사용
+  const missing = objectIds.filter((id) => !parentIds.has(id));
+  if (
+    namespace === NAMESPACES.PROJECT &&
+    parentNamespace === NAMESPACES.ORGANIZATION &&
+    missing.length > 0
+  ) {
+    const projects = await prisma.project.findMany({
+      where: { id: { in: missing } },
+      select: { id: true, organizationId: true },
+    });
+    for (const project of projects) {
+      parentIds.set(project.id, [project.organizationId]);
+    }
+  }
+
+  return parentIds;
+}
+
+function checkCacheKey(userId: string, namespace: Namespace, objectId: string, relation: Relation) {
+  return `${userId}:${namespace}:${objectId}#${relation}`;
+}
+
+/**
+ * ReBAC 권한 일괄 체크
+ *
+ * 리소스 수와 관계없이 단계(직접/팀 → 조직 관리자 → 상위 리소스)마다 한 번씩만 조회한다.
+ *
+ * @param userId - 사용자 ID
+ * @param namespace - 리소스 네임스페이스 (예: "project")
+ * @param objectIds - 리소스 ID 목록
+ * @param relation - 요구 권한 (예: "editor")
+ * @param cache - 요청 단위 캐시 (생략하면 이 호출 안에서만 사용)
+ * @returns 리소스 ID별 권한 여부
+ */
+export async function checkMany(
+  userId: string,
+  namespace: Namespace,
+  objectIds: string[],
+  relation: Relation,
+  cache: PermissionCache = createPermissionCache()
+): Promise<Map<string, boolean>> {
+  const uniqueIds = [...new Set(objectIds.filter(Boolean))];
+  const results = new Map<string, boolean>(objectIds.map((id) => [id, false]));
+
+  if (!userId || !namespace || !relation || uniqueIds.length === 0) {
+    return results;
+  }
+
+  const pending = uniqueIds.filter(
+    (id) => !cache.checks.has(checkCacheKey(userId, namespace, id, relation))
+  );
+
+  if (pending.length > 0) {
+    const resolved = resolveChecks(userId, namespace, pending, relation, cache);
+    for (const id of pending) {
+      const key = checkCacheKey(userId, namespace, id, relation);
+      const result = resolved.then((allowed) => allowed.has(id));
+      cache.checks.set(key, result);
+      result.catch(() => cache.checks.delete(key));
+    }
+  }
+
+  await Promise.all(
+    uniqueIds.map(async (id) => {
+      results.set(id, await cache.checks.get(checkCacheKey(userId, namespace, id, relation))!);
+    })
+  );
+
+  return results;
+}
+
+async function resolveChecks(
+  userId: string,
+  namespace: Namespace,
+  objectIds: string[],
+  relation: Relation,
+  cache: PermissionCache
+): Promise<Set<string>> {
+  // 요구 권한 또는 상위 권한이 사용자/소속 팀에 부여됐는지 확인
+  const permissions = await prisma.relationTuple.findMany({
+    where: {
+      namespace,
+      objectId: { in: objectIds },
+      relation: { in: await getGrantingRelations(namespace, relation) },
+      OR: await getUserSubjectConditions(userId, cache),
+    },
+    select: { objectId: true },
+    distinct: ["objectId"],
+  });
+  const allowed = new Set(permissions.map((p) => p.objectId));
+
+  if (namespace === NAMESPACES.ORGANIZATION) {
+    for (const organizationId of await listAdminOrganizationIds(userId, cache)) {
+      if (objectIds.includes(organizationId)) {
+        allowed.add(organizationId);
+      }
+    }
+  }
+
+  // 상위 리소스 권한 상속
+  const parentNamespace = PARENT_NAMESPACES[namespace];
+  const remaining = objectIds.filter((id) => !allowed.has(id));
+  if (!parentNamespace || remaining.length === 0) {
+    return allowed;
+  }
+
+  const parentIds = await listParentIds(namespace, remaining, parentNamespace);
+  const parentResults = await checkMany(
+    userId,
+    parentNamespace,
+    [...new Set([...parentIds.values()].flat())],
+    relation,
+    cache
+  );
+
+  for (const id of remaining) {
+    if ((parentIds.get(id) ?? []).some((parentId) => parentResults.get(parentId))) {
+      allowed.add(id);
+    }
+  }
+
+  return allowed;
+}
+
 /**
  * ReBAC 권한 체크
  *
+ * 사용자에게 직접 부여된 권한과 소속 팀(team#member)에 부여된 권한을 함께 확인하고,
+ * 없으면 상위 리소스(project → organization)의 같은 권한을 확인한다.
+ * 조직 관리자는 조직 owner이므로 조직의 모든 프로젝트에 owner 권한을 가진다.
+ *
  * @param userId - 사용자 ID
  * @param namespace - 리소스 네임스페이스 (예: "project")
  * @param objectId - 리소스 ID
  * @param relation - 요구 권한 (예: "editor")
+ * @param cache - 요청 단위 캐시 (같은 요청에서 여러 번 체크할 때 전달)
  * @returns 권한 여부
  */
 export async function check(
   userId: string,
   namespace: Namespace,
   objectId: string,
-  relation: Relation
+  relation: Relation,
+  cache?: PermissionCache
 ): Promise<boolean> {
   if (!userId || !namespace || !objectId || !relation) {
     return false;
   }
 
-  // 1. 직접 권한 체크
-  const directPermission = await prisma.relationTuple.findFirst({
+  const results = await checkMany(userId, namespace, [objectId], relation, cache);
+  return results.get(objectId) ?? false;
+}
+
+/**
+ * 현재 조직의 owner인지 확인 (조직 관리자 멤버십 포함)
+ *
+ * 구성원/초대/팀/권한/브랜드 키트 등 조직 관리 화면과 API의 접근 조건.
+ *
+ * @param user - 세션 사용자 (id, 현재 조직 organizationId)
+ */
+export async function isOrganizationOwner(
+  user: { id: string; organizationId: string },
+  cache?: PermissionCache
+): Promise<boolean> {
+  return check(user.id, NAMESPACES.ORGANIZATION, user.organizationId, RELATIONS.OWNER, cache);
+}
+
+/**
+ * 권한 근거
+ *
+ * - direct: 사용자에게 직접 부여된 권한
+ * - team: 소속 팀(team#member)에 부여된 권한
+ * - admin: 조직 관리자 멤버십 (조직 owner로 취급)
+ *
+ * namespace/objectId가 요청한 리소스와 다르면 상위 리소스에서 상속된 권한이다.
+ */
+export interface PermissionGrantPath {
+  via: "direct" | "team" | "admin";
+  namespace: Namespace;
+  objectId: string;
+  relation: Relation;
+  teamId?: string;
+}
+
+export interface PermissionExplanation {
+  allowed: boolean;
+  namespace: Namespace;
+  objectId: string;
+  relation: Relation;
+  grantingRelations: Relation[]; // 요구 권한을 충족하는 관계
+  paths: PermissionGrantPath[]; // 권한을 주는 모든 경로 (없으면 접근 불가)
+}
+
+/**
+ * 권한 설명
+ *
+ * 사용자가 리소스에 요구 권한을 갖는(또는 갖지 못하는) 이유를 경로별로 돌려준다.
+ * check()와 같은 규칙을 따르되 첫 번째 근거에서 멈추지 않고 모든 근거를 모은다.
+ *
+ * @param userId - 사용자 ID
+ * @param namespace - 리소스 네임스페이스
+ * @param objectId - 리소스 ID
+ * @param relation - 요구 권한
+ * @param cache - 요청 단위 캐시
+ */
+export async function expand(
+  userId: string,
+  namespace: Namespace,
+  objectId: string,
+  relation: Relation,
+  cache: PermissionCache = createPermissionCache()
+): Promise<PermissionExplanation> {
+  const grantingRelations = await getGrantingRelations(namespace, relation);
+  const paths = await collectGrantPaths(userId, namespace, objectId, grantingRelations, cache);
+
+  return {
+    allowed: paths.length > 0,
+    namespace,
+    objectId,
+    relation,
+    grantingRelations,
+    paths,
+  };
+}
+
+async function collectGrantPaths(
+  userId: string,
+  namespace: Namespace,
+  objectId: string,
+  grantingRelations: Relation[],
+  cache: PermissionCache
+): Promise<PermissionGrantPath[]> {
+  const tuples = await prisma.relationTuple.findMany({
     where: {
       namespace,
       objectId,
-      relation,
-      subjectType: SUBJECT_TYPES.USER,
-      subjectId: userId,
+      relation: { in: grantingRelations },
+      OR: await getUserSubjectConditions(userId, cache),
     },
+    select: { relation: true, subjectType: true, subjectId: true },
   });
 
-  if (directPermission) {
-    return true;
-  }
-
-  // 2. 상속된 권한 체크
-  const hierarchy = PERMISSION_HIERARCHY[namespace];
-  if (!hierarchy) {
-    return false;
-  }
-
-  // 현재 요구 권한보다 상위 권한을 가진지 체크
-  for (const [higherRelation, inheritedRelations] of Object.entries(hierarchy)) {
-    if (inheritedRelations.includes(relation)) {
-      const inheritedPermission = await prisma.relationTuple.findFirst({
-        where: {
+  const paths: PermissionGrantPath[] = tuples.map((tuple) =>
+    tuple.subjectType === SUBJECT_TYPES.TEAM
+      ? {
+          via: "team",
           namespace,
           objectId,
-          relation: higherRelation as Relation,
-          subjectType: SUBJECT_TYPES.USER,
-          subjectId: userId,
-        },
-      });
+          relation: tuple.relation as Relation,
+          teamId: tuple.subjectId,
+        }
+      : { via: "direct", namespace, objectId, relation: tuple.relation as Relation }
+  );
 
-      if (inheritedPermission) {
-        return true;
-      }
+  if (
+    namespace === NAMESPACES.ORGANIZATION &&
+    grantingRelations.includes(RELATIONS.OWNER) &&
+    (await listAdminOrganizationIds(userId, cache)).includes(objectId)
+  ) {
+    paths.push({ via: "admin", namespace, objectId, relation: RELATIONS.OWNER });
+  }
+
+  const parentNamespace = PARENT_NAMESPACES[namespace];
+  if (parentNamespace) {
+    const parentIds = (await listParentIds(namespace, [objectId], parentNamespace)).get(objectId) ?? [];
+    for (const parentId of parentIds) {
+      paths.push(
+        ...(await collectGrantPaths(userId, parentNamespace, parentId, grantingRelations, cache))
+      );
     }
   }
 
-  return false;
+  return paths;
 }
 
 /**
  * 권한 부여
  *
- * @param userId - 사용자 ID
+ * @param subject - 사용자 ID 또는 주체 (팀이면 teamSubject(teamId))
  * @param namespace - 리소스 네임스페이스
  * @param objectId - 리소스 ID
  * @param relation - 부여할 권한
  */
 export async function grant(
-  userId: string,
+  subject: string | Subject,
   namespace: Namespace,
   objectId: string,
   relation: Relation
 ): Promise<void> {
+  const where = { namespace, objectId, relation, ...subjectWhere(toSubject(subject)) };
+
   await prisma.relationTuple.upsert({
     where: {
-      namespace_objectId_relation_subjectType_subjectId: {
-        namespace,
-        objectId,
-        relation,
-        subjectType: SUBJECT_TYPES.USER,
-        subjectId: userId,
-      },
-    },
-    create: {
-      namespace,
-      objectId,
-      relation,
-      subjectType: SUBJECT_TYPES.USER,
-      subjectId: userId,
+      namespace_objectId_relation_subjectType_subjectId_subjectRelation: where,
     },
+    create: where,
     update: {},
   });
 }
@@ -110,13 +512,13 @@ export async function grant(
 /**
  * 권한 취소
  *
- * @param userId - 사용자 ID
+ * @param subject - 사용자 ID 또는 주체 (팀이면 teamSubject(teamId))
  * @param namespace - 리소스 네임스페이스
  * @param objectId - 리소스 ID
  * @param relation - 취소할 권한
  */
 export async function revoke(
-  userId: string,
+  subject: string | Subject,
   namespace: Namespace,
   objectId: string,
   relation: Relation
@@ -126,14 +528,43 @@ export async function revoke(
       namespace,
       objectId,
       relation,
-      subjectType: SUBJECT_TYPES.USER,
-      subjectId: userId,
+      ...subjectWhere(toSubject(subject)),
     },
   });
 }
 
 /**
- * 사용자의 특정 네임스페이스에 대한 모든 권한 조회
+ * 조직 삭제 전 관계 튜플 정리
+ *
+ * 튜플의 subjectId는 사용자/팀을 가리키는 다형 참조라 외래 키 cascade가 없다.
+ * 조직 삭제로 함께 지워지는 프로젝트·팀·사용자(현재 조직이 이 조직인 사용자)를
+ * 객체나 주체로 가진 튜플을 먼저 삭제해 고아 튜플이 남지 않게 한다.
+ *
+ * @param organizationId - 삭제할 조직 ID
+ */
+export async function deleteOrganizationTuples(organizationId: string): Promise<void> {
+  const [projects, teams, users] = await Promise.all([
+    prisma.project.findMany({ where: { organizationId }, select: { id: true } }),
+    prisma.team.findMany({ where: { organizationId }, select: { id: true } }),
+    prisma.user.findMany({ where: { organizationId }, select: { id: true } }),
+  ]);
+  const teamIds = teams.map((t) => t.id);
+
+  await prisma.relationTuple.deleteMany({
+    where: {
+      OR: [
+        { namespace: NAMESPACES.ORGANIZATION, objectId: organizationId },
+        { namespace: NAMESPACES.PROJECT, objectId: { in: projects.map((p) => p.id) } },
+        { namespace: NAMESPACES.TEAM, objectId: { in: teamIds } },
+        { subjectType: SUBJECT_TYPES.TEAM, subjectId: { in: teamIds } },
+        { subjectType: SUBJECT_TYPES.USER, subjectId: { in: users.map((u) => u.id) } },
+      ],
+    },
+  });
+}
+
+/**
+ * 사용자의 특정 네임스페이스에 대한 모든 권한 조회 (직접 부여된 권한만)
  *
  * @param userId - 사용자 ID
  * @param namespace - 리소스 네임스페이스
@@ -146,8 +577,7 @@ export async function listUserPermissions(
   const permissions = await prisma.relationTuple.findMany({
     where: {
       namespace,
-      subjectType: SUBJECT_TYPES.USER,
-      subjectId: userId,
+      ...subjectWhere(userSubject(userId)),
     },
     select: {
       objectId: true,
@@ -161,66 +591,109 @@ export async function listUserPermissions(
   }));
 }
 
+/**
+ * 팀 구성원 사용자 ID 목록
+ *
+ * @param teamId - 팀 ID
+ */
+export async function listTeamMembers(teamId: string): Promise<string[]> {
+  const members = await prisma.relationTuple.findMany({
+    where: {
+      namespace: NAMESPACES.TEAM,
+      objectId: teamId,
+      relation: RELATIONS.MEMBER,
+      subjectType: SUBJECT_TYPES.USER,
+    },
+    select: { subjectId: true },
+  });
+
+  return members.map((m) => m.subjectId);
+}
+
 /**
  * 특정 리소스에 대한 모든 권한 조회
  *
+ * 팀에 부여된 권한은 구성원별로 풀어서 돌려주고 teamId로 출처를 표시한다.
+ *
  * @param namespace - 리소스 네임스페이스
  * @param objectId - 리소스 ID
- * @returns 권한 목록 (사용자 ID와 권한)
+ * @returns 권한 목록 (사용자 ID와 권한, 팀을 통한 권한이면 teamId)
  */
 export async function listResourcePermissions(
   namespace: Namespace,
   objectId: string
-): Promise<Array<{ userId: string; relation: Relation }>> {
+): Promise<Array<{ userId: string; relation: Relation; teamId?: string }>> {
   const permissions = await prisma.relationTuple.findMany({
     where: {
       namespace,
       objectId,
-      subjectType: SUBJECT_TYPES.USER,
     },
     select: {
+      subjectType: true,
       subjectId: true,
+      subjectRelation: true,
       relation: true,
     },
   });
 
-  return permissions.map((p) => ({
-    userId: p.subjectId,
-    relation: p.relation as Relation,
-  }));
+  const teamIds = permissions
+    .filter((p) => p.subjectType === SUBJECT_TYPES.TEAM && p.subjectRelation === RELATIONS.MEMBER)
+    .map((p) => p.subjectId);
+
+  const teamMembers = teamIds.length
+    ? await prisma.relationTuple.findMany({
+        where: {
+          namespace: NAMESPACES.TEAM,
+          objectId: { in: teamIds },
+          relation: RELATIONS.MEMBER,
+          subjectType: SUBJECT_TYPES.USER,
+        },
+        select: { objectId: true, subjectId: true },
+      })
+    : [];
+
+  return permissions.flatMap((p) => {
+    if (p.subjectType === SUBJECT_TYPES.USER) {
+      return [{ userId: p.subjectId, relation: p.relation as Relation }];
+    }
+
+    // 상위 리소스 연결(parent) 등 사용자/팀이 아닌 주체는 제외
+    if (p.subjectType !== SUBJECT_TYPES.TEAM) {
+      return [];
+    }
+
+    return teamMembers
+      .filter((member) => member.objectId === p.subjectId)
+      .map((member) => ({
+        userId: member.subjectId,
+        relation: p.relation as Relation,
+        teamId: p.subjectId,
+      }));
+  });
 }
 
 /**
- * 사용자가 접근 가능한 모든 리소스 ID 조회
+ * 사용자가 접근 가능한 모든 리소스 ID 조회 (직접 + 소속 팀 + 상위 리소스 상속)
  *
  * @param userId - 사용자 ID
  * @param namespace - 리소스 네임스페이스
  * @param minRelation - 최소 요구 권한
+ * @param cache - 요청 단위 캐시
  * @returns 리소스 ID 목록
  */
 export async function listAccessibleResources(
   userId: string,
   namespace: Namespace,
-  minRelation: Relation = RELATIONS.VIEWER
+  minRelation: Relation = RELATIONS.VIEWER,
+  cache: PermissionCache = createPermissionCache()
 ): Promise<string[]> {
-  const hierarchy = PERMISSION_HIERARCHY[namespace];
-  const allowedRelations: Relation[] = [minRelation];
-
-  // 상위 권한 포함
-  for (const [relation, inheritedRelations] of Object.entries(hierarchy)) {
-    if (inheritedRelations.includes(minRelation)) {
-      allowedRelations.push(relation as Relation);
-    }
-  }
-
   const permissions = await prisma.relationTuple.findMany({
     where: {
       namespace,
-      subjectType: SUBJECT_TYPES.USER,
-      subjectId: userId,
       relation: {
-        in: allowedRelations,
+        in: await getGrantingRelations(namespace, minRelation),
       },
+      OR: await getUserSubjectConditions(userId, cache),
     },
     select: {
       objectId: true,
@@ -228,9 +701,60 @@ export async function listAccessibleResources(
     distinct: ["objectId"],
   });
 
-  return permissions.map((p) => p.objectId);
+  const objectIds = new Set(permissions.map((p) => p.objectId));
+
+  if (namespace === NAMESPACES.ORGANIZATION) {
+    for (const organizationId of await listAdminOrganizationIds(userId, cache)) {
+      objectIds.add(organizationId);
+    }
+  }
+
+  // 접근 가능한 상위 리소스의 하위 리소스
+  const parentNamespace = PARENT_NAMESPACES[namespace];
+  if (parentNamespace) {
+    const parentIds = await listAccessibleResources(userId, parentNamespace, minRelation, cache);
+
+    if (parentIds.length > 0) {
+      const children = await prisma.relationTuple.findMany({
+        where: {
+          namespace,
+          relation: RELATIONS.PARENT,
+          subjectType: parentNamespace,
+          subjectId: { in: parentIds },
+        },
+        select: { objectId: true },
+        distinct: ["objectId"],
+      });
+
+      for (const child of children) {
+        objectIds.add(child.objectId);
+      }
+
+      // parent 튜플이 없는 프로젝트도 소속 조직으로 상속 (listParentIds와 같은 기준)
+      if (namespace === NAMESPACES.PROJECT && parentNamespace === NAMESPACES.ORGANIZATION) {
+        const projects = await prisma.project.findMany({
+          where: { organizationId: { in: parentIds } },
+          select: { id: true },
+        });
+        for (const project of projects) {
+          objectIds.add(project.id);
+        }
+      }
+    }
+  }
+
+  return [...objectIds];
 }
 
 // 상수 및 타입 재export
-export { NAMESPACES, RELATIONS, SUBJECT_TYPES, PERMISSION_HIERARCHY };
-export type { Namespace, Relation, SubjectType };
+export {
+  NAMESPACES,
+  RELATIONS,
+  SUBJECT_TYPES,
+  PERMISSION_HIERARCHY,
+  PARENT_NAMESPACES,
+  userSubject,
+  teamSubject,
+  organizationSubject,
+};
+export type { Namespace, Relation, Subject, SubjectType };
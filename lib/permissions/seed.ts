@@ -1,117 +1,32 @@
 import { prisma } from "@/lib/prisma";
-import { NAMESPACES, RELATIONS } from "./constants";
+import { PERMISSION_HIERARCHY, type Namespace, type Relation } from "./constants";
 
 /**
  * ReBAC 권한 정의 Seed
  *
- * 권한 상속 규칙을 데이터베이스에 저장
+ * 권한 상속 규칙(PERMISSION_HIERARCHY)을 데이터베이스에 저장
+ * (check()는 저장된 RelationDefinition으로 상속을 계산하므로 규칙을 바꾸면 다시 실행)
  */
 export async function seedPermissionDefinitions() {
   console.log("🌱 Seeding permission definitions...");
 
-  // Project 권한 정의
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.PROJECT,
-        relation: RELATIONS.OWNER,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.PROJECT,
-      relation: RELATIONS.OWNER,
-      inherits: [RELATIONS.EDITOR, RELATIONS.VIEWER],
-    },
-    update: {
-      inherits: [RELATIONS.EDITOR, RELATIONS.VIEWER],
-    },
-  });
-
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.PROJECT,
-        relation: RELATIONS.EDITOR,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.PROJECT,
-      relation: RELATIONS.EDITOR,
-      inherits: [RELATIONS.VIEWER],
-    },
-    update: {
-      inherits: [RELATIONS.VIEWER],
-    },
-  });
-
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.PROJECT,
-        relation: RELATIONS.VIEWER,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.PROJECT,
-      relation: RELATIONS.VIEWER,
-      inherits: [],
-    },
-    update: {
-      inherits: [],
-    },
-  });
-
-  // Organization 권한 정의
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.ORGANIZATION,
-        relation: RELATIONS.OWNER,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.ORGANIZATION,
-      relation: RELATIONS.OWNER,
-      inherits: [RELATIONS.EDITOR, RELATIONS.VIEWER],
-    },
-    update: {
-      inherits: [RELATIONS.EDITOR, RELATIONS.VIEWER],
-    },
-  });
-
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.ORGANIZATION,
-        relation: RELATIONS.EDITOR,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.ORGANIZATION,
-      relation: RELATIONS.EDITOR,
-      inherits: [RELATIONS.VIEWER],
-    },
-    update: {
-      inherits: [RELATIONS.VIEWER],
-    },
-  });
-
-  await prisma.relationDefinition.upsert({
-    where: {
-      namespace_relation: {
-        namespace: NAMESPACES.ORGANIZATION,
-        relation: RELATIONS.VIEWER,
-      },
-    },
-    create: {
-      namespace: NAMESPACES.ORGANIZATION,
-      relation: RELATIONS.VIEWER,
-      inherits: [],
-    },
-    update: {
-      inherits: [],
-    },
-  });
+  for (const [namespace, relations] of Object.entries(PERMISSION_HIERARCHY) as [
+    Namespace,
+    Partial<Record<Relation, Relation[]>>,
+  ][]) {
+    for (const [relation, inherits = []] of Object.entries(relations) as [
+      Relation,
+      Relation[] | undefined,
+    ][]) {
+      await prisma.relationDefinition.upsert({
+        where: {
+          namespace_relation: { namespace, relation },
+        },
+        create: { namespace, relation, inherits },
+        update: { inherits },
+      });
+    }
+  }
 
   console.log("✅ Permission definitions seeded successfully");
 }
@@ -0,0 +1,47 @@
+import "server-only";
+import { createTalk, getTalkStatus } from "@/lib/services/did";
+import type { AvatarProvider } from "./types";
+
+/**
+ * D-ID 아바타 Provider (lib/services/did.ts 래핑)
+ */
+export const didAvatarProvider: AvatarProvider = {
+  name: "did",
+  webhookPath: "/api/webhooks/did",
+
+  getPresetAvatarUrl() {
+    return (
+      process.env.DID_AVATAR_URL ||
+      "https://create-images-results.d-id.com/default_presenter_image_url.webp"
+    );
+  },
+
+  async createJob({ avatarImageUrl, audioUrl, webhookUrl }) {
+    return await createTalk(avatarImageUrl, audioUrl, webhookUrl);
+  },
+
+  async getJobStatus(talkId) {
+    const talk = await getTalkStatus(talkId);
+
+    if (talk.status === "done" && talk.resultUrl) {
+      return { status: "done", resultUrl: talk.resultUrl };
+    }
+    if (talk.status === "error" || talk.status === "rejected") {
+      return { status: "failed", error: talk.error?.description || talk.status };
+    }
+    return { status: "processing" };
+  },
+
+  async downloadResult(talkId, resultUrl) {
+    const url = resultUrl || (await getTalkStatus(talkId)).resultUrl;
+    if (!url) {
+      throw new Error(`D-ID Talk ${talkId} has no result URL`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download D-ID result: ${response.statusText}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+};
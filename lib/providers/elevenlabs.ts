@@ -0,0 +1,19 @@
+import "server-only";
+import { generateTTS, getVoiceId } from "@/lib/services/elevenlabs";
+import type { TTSProvider } from "./types";
+
+/**
+ * ElevenLabs TTS Provider (lib/services/elevenlabs.ts 래핑)
+ */
+export const elevenLabsTTSProvider: TTSProvider = {
+  name: "elevenlabs",
+
+  getVoiceId(language, gender) {
+    return getVoiceId(language, gender);
+  },
+
+  async synthesize({ text, voiceId, language }) {
+    const { audioBuffer } = await generateTTS(text, voiceId, language);
+    return audioBuffer;
+  },
+};
@@ -0,0 +1,50 @@
+import "server-only";
+import type { ImageProvider, VideoProvider } from "./types";
+
+/**
+ * Google Vertex AI Provider (lib/services/gemini.ts 래핑)
+ *
+ * gemini 서비스는 import 시점에 Vertex AI 클라이언트를 만들기 때문에
+ * 다른 Provider만 쓰는 환경(mock 등)에서 Google 자격증명 없이 동작하도록 호출 시점에 불러온다.
+ */
+
+export const nanoBananaImageProvider: ImageProvider = {
+  name: "nano_banana",
+
+  async generateBackground(prompt, emotion, aspectRatio) {
+    const { generateBackgroundImage } = await import("@/lib/services/gemini");
+    return await generateBackgroundImage(prompt, emotion, aspectRatio);
+  },
+
+  async generateAvatarDesign(settings) {
+    const { generateAvatarDesign } = await import("@/lib/services/gemini");
+    return await generateAvatarDesign(settings);
+  },
+};
+
+export const veoVideoProvider: VideoProvider = {
+  name: "veo",
+  model: "veo-3.0-fast-generate-001",
+
+  async createJob({ imageUrl, prompt, emotion, durationSeconds, aspectRatio }) {
+    const { generateVeoVideo } = await import("@/lib/services/gemini");
+    const operation = await generateVeoVideo(imageUrl, prompt, emotion, durationSeconds, aspectRatio);
+    return operation.name;
+  },
+
+  async getJobStatus(operationName) {
+    const { checkVeoOperation } = await import("@/lib/services/gemini");
+    const result = await checkVeoOperation(operationName);
+    // videoBuffer는 Step Output 크기 제한(512KB)을 초과하므로 버림 → downloadResult에서 다시 받음
+    return { done: result.done, error: result.error };
+  },
+
+  async downloadResult(operationName) {
+    const { checkVeoOperation } = await import("@/lib/services/gemini");
+    const result = await checkVeoOperation(operationName);
+    if (!result.videoBuffer) {
+      throw new Error(result.error || "Veo operation succeeded but no video buffer returned");
+    }
+    return result.videoBuffer;
+  },
+};
@@ -0,0 +1,136 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { didAvatarProvider } from "./did";
+import { elevenLabsTTSProvider } from "./elevenlabs";
+import { nanoBananaImageProvider, veoVideoProvider } from "./gemini";
+import {
+  mockAvatarProvider,
+  mockImageProvider,
+  mockTTSProvider,
+  mockVideoProvider,
+} from "./mock";
+import type {
+  AvatarProvider,
+  ImageProvider,
+  TTSProvider,
+  VideoProvider,
+} from "./types";
+
+export type * from "./types";
+
+/**
+ * 미디어 생성 Provider 레지스트리
+ *
+ * 조직별 선택: Organization.settings.providers = { tts, avatar, image, video }
+ * 지정하지 않은 항목은 기본 벤더(ElevenLabs, D-ID, Nano Banana, Veo)를 사용한다.
+ *
+ * MEDIA_PROVIDERS=mock 환경변수를 주면 조직 설정과 관계없이 모두 mock으로 고정 (CI, 오프라인 개발).
+ *
+ * Inngest 함수에서는 선택 결과(이름)만 step 출력/이벤트 데이터로 넘기고,
+ * 구현체는 get*Provider(name)로 매번 조회한다 (함수 객체는 직렬화되지 않음).
+ */
+
+interface ProviderTypes {
+  tts: TTSProvider;
+  avatar: AvatarProvider;
+  image: ImageProvider;
+  video: VideoProvider;
+}
+
+export type ProviderKind = keyof ProviderTypes;
+
+const REGISTRY: { [K in ProviderKind]: Record<string, ProviderTypes[K]> } = {
+  tts: {
+    elevenlabs: elevenLabsTTSProvider,
+    mock: mockTTSProvider,
+  },
+  avatar: {
+    did: didAvatarProvider,
+    mock: mockAvatarProvider,
+  },
+  image: {
+    nano_banana: nanoBananaImageProvider,
+    mock: mockImageProvider,
+  },
+  video: {
+    veo: veoVideoProvider,
+    mock: mockVideoProvider,
+  },
+};
+
+const DEFAULT_PROVIDERS = {
+  tts: "elevenlabs",
+  avatar: "did",
+  image: "nano_banana",
+  video: "veo",
+} satisfies Record<ProviderKind, string>;
+
+export type ProviderSelection = Record<ProviderKind, string>;
+
+/**
+ * Provider 구현체 등록 (사내 구현체, 파이프라인 하네스의 실패 시나리오용 Provider 등)
+ * 같은 이름이 있으면 교체한다.
+ */
+export function registerProvider<K extends ProviderKind>(kind: K, provider: ProviderTypes[K]): void {
+  const providers: Record<string, ProviderTypes[K]> = REGISTRY[kind];
+  providers[provider.name] = provider;
+}
+
+/**
+ * Organization.settings에서 Provider 선택 추출 (미지정/등록되지 않은 이름은 기본 벤더)
+ */
+export function resolveProviderSelection(organizationSettings: unknown): ProviderSelection {
+  if (process.env.MEDIA_PROVIDERS === "mock") {
+    return { tts: "mock", avatar: "mock", image: "mock", video: "mock" };
+  }
+
+  const providers = (organizationSettings as { providers?: Record<string, unknown> } | null)
+    ?.providers;
+  const kinds = Object.keys(DEFAULT_PROVIDERS) as ProviderKind[];
+
+  return Object.fromEntries(
+    kinds.map((kind) => {
+      const name = providers?.[kind];
+      return [
+        kind,
+        typeof name === "string" && name in REGISTRY[kind] ? name : DEFAULT_PROVIDERS[kind],
+      ];
+    })
+  ) as ProviderSelection;
+}
+
+/**
+ * 프로젝트가 속한 조직의 Provider 선택 조회
+ */
+export async function getProjectProviders(projectId: string): Promise<ProviderSelection> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { organization: { select: { settings: true } } },
+  });
+
+  return resolveProviderSelection(project?.organization.settings);
+}
+
+function lookup<K extends ProviderKind>(kind: K, name: string): ProviderTypes[K] {
+  const provider = REGISTRY[kind][name];
+  if (!provider) {
+    throw new Error(`Unknown ${kind} provider: ${name}`);
+  }
+  return provider;
+}
+
+export function getTTSProvider(name: string): TTSProvider {
+  return lookup("tts", name);
+}
+
+export function getAvatarProvider(name: string): AvatarProvider {
+  return lookup("avatar", name);
+}
+
+export function getImageProvider(name: string): ImageProvider {
+  return lookup("image", name);
+}
+
+export function getVideoProvider(name: string): VideoProvider {
+  return lookup("video", name);
+}
@@ -0,0 +1,166 @@
+import "server-only";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { FFmpegService } from "@/lib/services/ffmpeg";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import {
+  measureScriptLength,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+} from "@/lib/video/languages";
+import type {
+  AvatarProvider,
+  ImageProvider,
+  TTSProvider,
+  VideoProvider,
+} from "./types";
+
+/**
+ * 로컬 mock Provider (외부 API 없이 FFmpeg로 실제 미디어 파일 생성)
+ *
+ * - TTS: 대본 길이에 비례하는 무음 MP3
+ * - 아바타: TTS 오디오를 입힌 테스트 패턴 MP4
+ * - 이미지: 테스트 패턴 PNG
+ * - 영상: 요청 길이의 테스트 패턴 MP4
+ *
+ * 같은 입력이면 같은 결과가 나오도록 작업 ID에 필요한 값을 모두 담고,
+ * 결과 파일은 downloadResult 시점에 만든다 (별도 상태 저장 없음 → 즉시 완료).
+ */
+
+const ffmpegService = new FFmpegService();
+
+/**
+ * 임시 디렉토리에서 FFmpeg 명령을 실행하고 결과 파일을 Buffer로 반환
+ */
+async function renderToBuffer(
+  fileName: string,
+  buildCommand: (outputPath: string, tempDir: string) => Promise<string[]> | string[]
+): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "mock-provider-"));
+
+  try {
+    const outputPath = path.join(tempDir, fileName);
+    const command = await buildCommand(outputPath, tempDir);
+    await ffmpegService.executeCommand(command, `Mock ${fileName} generation`);
+    return await fs.readFile(outputPath);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+function encodeJobId(prefix: string, payload: Record<string, unknown>): string {
+  return `${prefix}_${Buffer.from(JSON.stringify(payload)).toString("base64url")}`;
+}
+
+function decodeJobId<T>(prefix: string, jobId: string): T {
+  if (!jobId.startsWith(`${prefix}_`)) {
+    throw new Error(`Invalid mock job ID: ${jobId}`);
+  }
+  return JSON.parse(Buffer.from(jobId.slice(prefix.length + 1), "base64url").toString("utf-8")) as T;
+}
+
+export const mockTTSProvider: TTSProvider = {
+  name: "mock",
+
+  getVoiceId(language, gender) {
+    return `mock_${language}_${gender}`;
+  },
+
+  async synthesize({ text, language }) {
+    // 언어별 발화 속도로 길이 추정 (최소 1초)
+    const definition = SCRIPT_LANGUAGE_DEFINITIONS[language];
+    const durationSeconds = Math.max(
+      1,
+      Math.round((measureScriptLength(text, language) / definition.unitsPerSecond) * 10) / 10
+    );
+
+    return await renderToBuffer("audio.mp3", (outputPath) =>
+      ffmpegService.buildSilentAudioCommand(outputPath, durationSeconds)
+    );
+  },
+};
+
+export const mockAvatarProvider: AvatarProvider = {
+  name: "mock",
+
+  getPresetAvatarUrl() {
+    return "mock://avatar/preset.png";
+  },
+
+  async createJob({ audioUrl }) {
+    return encodeJobId("mock_avatar", { audioUrl });
+  },
+
+  async getJobStatus() {
+    return { status: "done" };
+  },
+
+  async downloadResult(jobId) {
+    const { audioUrl } = decodeJobId<{ audioUrl: string }>("mock_avatar", jobId);
+
+    return await renderToBuffer("avatar.mp4", async (outputPath, tempDir) => {
+      const response = await fetch(audioUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to download audio for mock avatar: ${response.statusText}`);
+      }
+
+      const audioPath = path.join(tempDir, "audio.mp3");
+      await fs.writeFile(audioPath, Buffer.from(await response.arrayBuffer()));
+
+      return ffmpegService.buildTestPatternVideoCommand(outputPath, {
+        audioPath,
+        width: 512,
+        height: 512,
+      });
+    });
+  },
+};
+
+export const mockImageProvider: ImageProvider = {
+  name: "mock",
+
+  async generateBackground(prompt, emotion, aspectRatio = DEFAULT_ASPECT_RATIO) {
+    const { width, height } = ASPECT_RATIO_DEFINITIONS[aspectRatio];
+    return await renderToBuffer("background.png", (outputPath) =>
+      ffmpegService.buildTestPatternImageCommand(outputPath, width, height)
+    );
+  },
+
+  async generateAvatarDesign() {
+    return await renderToBuffer("avatar_design.png", (outputPath) =>
+      ffmpegService.buildTestPatternImageCommand(outputPath, 1024, 1024)
+    );
+  },
+};
+
+export const mockVideoProvider: VideoProvider = {
+  name: "mock",
+  model: "mock-test-pattern",
+
+  async createJob({ imageUrl, prompt, durationSeconds, aspectRatio = DEFAULT_ASPECT_RATIO }) {
+    // 입력 요약 해시는 로그/RenderJob 구분용
+    const digest = createHash("sha1").update(`${imageUrl}\n${prompt}`).digest("hex").slice(0, 12);
+    return encodeJobId("mock_video", { durationSeconds, aspectRatio, digest });
+  },
+
+  async getJobStatus() {
+    return { done: true };
+  },
+
+  async downloadResult(jobId) {
+    const { durationSeconds, aspectRatio } = decodeJobId<{
+      durationSeconds: number;
+      aspectRatio?: AspectRatio;
+    }>("mock_video", jobId);
+    const { width, height } = ASPECT_RATIO_DEFINITIONS[aspectRatio ?? DEFAULT_ASPECT_RATIO];
+
+    return await renderToBuffer("background.mp4", (outputPath) =>
+      ffmpegService.buildTestPatternVideoCommand(outputPath, { durationSeconds, width, height })
+    );
+  },
+};
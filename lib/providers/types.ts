@@ -0,0 +1,79 @@
+import type { AspectRatio } from "@/lib/video/aspect-ratio";
+import type { ScriptLanguage } from "@/lib/video/languages";
+
+/**
+ * 미디어 생성 Provider 인터페이스
+ *
+ * Inngest 함수(ttsGenerator, avatarGenerator, backgroundGenerator, veoVideoGenerator 등)는
+ * 벤더 SDK 대신 이 인터페이스만 호출한다. 구현체 선택은 registry(index.ts) 참고.
+ *
+ * 비동기 작업(아바타, 영상)은 "작업 시작 → 상태 폴링 → 결과 다운로드" 3단계로 나뉜다.
+ * Inngest step 출력 크기 제한 때문에 결과 Buffer는 폴링 결과에 담지 않고 downloadResult로 따로 받는다.
+ */
+
+export type VoiceGender = "male" | "female";
+
+export interface TTSProvider {
+  name: string;
+  getVoiceId(language: ScriptLanguage, gender: VoiceGender): string;
+  /** MP3 Buffer 반환 (길이는 호출 측에서 ffprobe로 측정) */
+  synthesize(request: { text: string; voiceId: string; language: ScriptLanguage }): Promise<Buffer>;
+}
+
+export interface AvatarJobStatus {
+  status: "processing" | "done" | "failed";
+  resultUrl?: string;
+  error?: string;
+}
+
+export interface AvatarProvider {
+  name: string;
+  webhookPath?: string; // 완료 웹훅을 지원하는 경우 (예: /api/webhooks/did)
+  getPresetAvatarUrl(): string;
+  createJob(request: {
+    avatarImageUrl: string;
+    audioUrl: string;
+    webhookUrl?: string;
+  }): Promise<string>; // 외부 작업 ID
+  getJobStatus(jobId: string): Promise<AvatarJobStatus>;
+  /** 완료된 립싱크 MP4 Buffer */
+  downloadResult(jobId: string, resultUrl?: string): Promise<Buffer>;
+}
+
+// Prisma Json 필드에 그대로 저장하므로 interface 대신 type (암시적 index signature)
+export type AvatarDesignSettings = {
+  gender: string;
+  ageRange: string;
+  style: string;
+  expression: string;
+  background: string;
+  nationality?: string;
+};
+
+export interface ImageProvider {
+  name: string;
+  /** 씬 배경 PNG (aspectRatio: 프로젝트 화면 비율, 기본 16:9) */
+  generateBackground(prompt: string, emotion?: string, aspectRatio?: AspectRatio): Promise<Buffer>;
+  /** 커스텀 아바타 인물 PNG */
+  generateAvatarDesign(settings: AvatarDesignSettings): Promise<Buffer>;
+}
+
+export interface VideoJobStatus {
+  done: boolean;
+  error?: string;
+}
+
+export interface VideoProvider {
+  name: string;
+  model: string; // Asset 메타데이터 기록용
+  createJob(request: {
+    imageUrl: string;
+    prompt: string;
+    emotion?: string;
+    durationSeconds: number;
+    aspectRatio?: AspectRatio; // 기본 16:9
+  }): Promise<string>; // 외부 작업 ID
+  getJobStatus(jobId: string): Promise<VideoJobStatus>;
+  /** 완료된 배경 MP4 Buffer */
+  downloadResult(jobId: string): Promise<Buffer>;
+}
@@ -1,4 +1,8 @@
 import "server-only";
+import {
+  DEFAULT_SCRIPT_LANGUAGE,
+  type ScriptLanguage,
+} from "@/lib/video/languages";
 
 /**
  * ElevenLabs TTS 서비스
@@ -10,18 +14,61 @@ const API_KEY = process.env.ELEVEN_API_KEY!;
 const MODEL_ID = process.env.ELEVEN_MODEL_ID || "eleven_multilingual_v2";
 const DEFAULT_VOICE_ID = process.env.ELEVEN_DEFAULT_VOICE_ID!;
 
+export type VoiceGender = "male" | "female";
+
+// 언어별 기본 보이스 (ELEVEN_VOICE_ID_<LANG>_<GENDER> 환경변수로 교체 가능)
+const LANGUAGE_VOICE_IDS: Record<ScriptLanguage, Record<VoiceGender, string>> = {
+  ko: {
+    female: "8jHHF8rMqMlg8if2mOUe", // Aria (여성)
+    male: "jB1Cifc2UQbq1gR3wnb0", // Callum (남성)
+  },
+  en: {
+    female: "21m00Tcm4TlvDq8ikWAM", // Rachel
+    male: "pNInz6obpgDQGcFmaJgB", // Adam
+  },
+  ja: {
+    female: "21m00Tcm4TlvDq8ikWAM", // Rachel (multilingual)
+    male: "pNInz6obpgDQGcFmaJgB", // Adam (multilingual)
+  },
+  vi: {
+    female: "21m00Tcm4TlvDq8ikWAM", // Rachel (multilingual)
+    male: "pNInz6obpgDQGcFmaJgB", // Adam (multilingual)
+  },
+};
+
+// eleven_multilingual_v2가 지원하지 않는 언어는 v2.5 모델 사용
+const LANGUAGE_MODEL_IDS: Partial<Record<ScriptLanguage, string>> = {
+  vi: "eleven_turbo_v2_5",
+};
+
+/**
+ * 언어/성별에 맞는 보이스 ID 조회
+ */
+export function getVoiceId(
+  language: ScriptLanguage = DEFAULT_SCRIPT_LANGUAGE,
+  gender: VoiceGender = "female"
+): string {
+  const override = process.env[`ELEVEN_VOICE_ID_${language.toUpperCase()}_${gender.toUpperCase()}`];
+  return override || LANGUAGE_VOICE_IDS[language][gender];
+}
+
 /**
  * TTS 생성
  *
  * @param text - 변환할 텍스트
  * @param voiceId - 음성 ID (선택적, 기본값: Rachel)
+ * @param language - 대본 언어 (모델 선택 및 v2.5 모델의 language_code)
  * @returns 오디오 파일 Buffer
  */
 export async function generateTTS(
   text: string,
-  voiceId?: string
+  voiceId?: string,
+  language?: ScriptLanguage
 ): Promise<{ audioBuffer: Buffer; durationSeconds: number }> {
   const voice = voiceId || DEFAULT_VOICE_ID;
+  const modelId = (language && LANGUAGE_MODEL_IDS[language]) || MODEL_ID;
+  // language_code는 v2.5 계열 모델만 지원
+  const languageCode = language && modelId.endsWith("v2_5") ? language : undefined;
 
   const response = await fetch(
     `https://api.elevenlabs.io/v1/text-to-speech/${voice}`,
@@ -33,7 +80,8 @@ export async function generateTTS(
       },
       body: JSON.stringify({
         text,
-        model_id: MODEL_ID,
+        model_id: modelId,
+        ...(languageCode && { language_code: languageCode }),
         voice_settings: {
           stability: 0.5,
           similarity_boost: 0.75,
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SUBTITLE_STYLE } from "@/lib/video/subtitles";
+import { DEFAULT_SCENE_TRANSITION } from "@/lib/video/transitions";
+import { FFmpegService } from "./ffmpeg";
+
+function filterGraph(command: string[]): string {
+  return command[command.indexOf("-filter_complex") + 1];
+}
+
+describe("buildCompositionCommand", () => {
+  const ffmpeg = new FFmpegService();
+
+  it("이미지 배경은 반복 입력으로 두고 아바타 음성만 사용한다", () => {
+    const command = ffmpeg.buildCompositionCommand("/tmp/bg.png", "/tmp/avatar.mp4", "/tmp/out.mp4");
+
+    expect(command.slice(0, 4)).toEqual(["ffmpeg", "-loop", "1", "-i"]);
+    expect(command).toContain("1:a?");
+    expect(filterGraph(command)).not.toContain("amix");
+  });
+
+  it("영상 배경은 배경 오디오를 지정 볼륨으로 섞는다", () => {
+    const command = ffmpeg.buildCompositionCommand(
+      "/tmp/bg.mp4",
+      "/tmp/avatar.mp4",
+      "/tmp/out.mp4",
+      undefined,
+      undefined,
+      0.25
+    );
+
+    expect(command).not.toContain("-loop");
+    expect(filterGraph(command)).toContain("[0:a]volume=0.25[bg_audio]");
+    expect(command).toContain("[audio_out]");
+  });
+
+  it("배경 오디오 볼륨이 0이면 영상 배경도 아바타 음성만 사용한다", () => {
+    const command = ffmpeg.buildCompositionCommand(
+      "/tmp/bg.mp4",
+      "/tmp/avatar.mp4",
+      "/tmp/out.mp4",
+      undefined,
+      undefined,
+      0
+    );
+
+    expect(command).toContain("1:a?");
+    expect(filterGraph(command)).not.toContain("amix");
+  });
+
+  it("PIP 아바타를 코너와 여백에 맞춰 짝수 크기로 배치한다", () => {
+    const graph = filterGraph(
+      ffmpeg.buildCompositionCommand("/tmp/bg.png", "/tmp/avatar.mp4", "/tmp/out.mp4", {
+        mode: "pip",
+        corner: "top-left",
+        scale: 0.3,
+        margin: 40,
+        mask: "square",
+      })
+    );
+
+    expect(graph).toContain("[1:v]crop='min(iw,ih)':'min(iw,ih)',scale=576:576[avatar]");
+    expect(graph).toContain("[bg][avatar]overlay=x=40:y=40:format=auto[video_out]");
+  });
+
+  it("세로 캔버스의 split은 위아래로 나눈다", () => {
+    const graph = filterGraph(
+      new FFmpegService("9:16").buildCompositionCommand("/tmp/bg.png", "/tmp/avatar.mp4", "/tmp/out.mp4", {
+        mode: "split",
+        side: "right",
+      })
+    );
+
+    expect(graph).toContain("pad=1080:1920:0:0:black[bg]");
+    expect(graph).toContain("overlay=x=0:y=960:format=auto[video_out]");
+  });
+
+  it("자막이 있으면 합성 결과 뒤에 자막 필터를 잇는다", () => {
+    const graph = filterGraph(
+      ffmpeg.buildCompositionCommand("/tmp/bg.png", "/tmp/avatar.mp4", "/tmp/out.mp4", undefined, {
+        path: "/tmp/scene.srt",
+      })
+    );
+
+    expect(graph).toContain("format=auto[video_base]");
+    expect(graph).toContain("[video_base]subtitles=filename='/tmp/scene.srt'");
+    expect(graph.endsWith("[video_out]")).toBe(true);
+  });
+});
+
+describe("buildSubtitleFilter", () => {
+  const ffmpeg = new FFmpegService();
+
+  it("px 크기를 ASS 좌표계로 환산하고 색상을 &HAABBGGRR로 변환한다", () => {
+    const filter = ffmpeg.buildSubtitleFilter("/tmp/scene.srt", {
+      fontSize: 60,
+      color: "#112233",
+      boxColor: "#000000",
+      boxOpacity: 0.5,
+      position: "top",
+    });
+
+    expect(filter).toContain("FontSize=16");
+    expect(filter).toContain("PrimaryColour=&H00332211");
+    expect(filter).toContain("BackColour=&H80000000");
+    expect(filter).toContain("Alignment=8");
+  });
+
+  it("필터 구분자가 든 폰트 이름은 기본 폰트로 대체한다", () => {
+    const filter = ffmpeg.buildSubtitleFilter("/tmp/scene.srt", {
+      fontName: "Evil':force_style='x",
+    });
+
+    expect(filter).toContain(`FontName=${DEFAULT_SUBTITLE_STYLE.fontName},`);
+    expect(filter).not.toContain("Evil");
+  });
+
+  it("박스를 끄면 외곽선 스타일을 사용한다", () => {
+    const filter = ffmpeg.buildSubtitleFilter("/tmp/scene.srt", { box: false });
+
+    expect(filter).toContain("BorderStyle=1");
+    expect(filter).toContain("Outline=2");
+  });
+});
+
+describe("buildConcatenationCommand", () => {
+  const ffmpeg = new FFmpegService();
+  const scenes = [
+    { path: "/tmp/scene1.mp4", duration: 5 },
+    { path: "/tmp/scene2.mp4", duration: 1 },
+    { path: "/tmp/scene3.mp4", duration: 4 },
+  ];
+
+  it("씬 길이 누적으로 xfade 오프셋을 계산하고 전환 길이를 씬 길이 절반으로 제한한다", () => {
+    const graph = filterGraph(
+      ffmpeg.buildConcatenationCommand(
+        scenes,
+        [
+          { type: "crossfade", duration: 2, direction: "left" },
+          { type: "dip_to_black", duration: 0.5, direction: "left" },
+        ],
+        "/tmp/out.mp4"
+      )
+    );
+
+    expect(graph).toContain("[v0][v1]xfade=transition=fade:duration=0.500:offset=5.000[vx0]");
+    expect(graph).toContain("[vx0][v2]xfade=transition=fadeblack:duration=0.500:offset=6.000[video_out]");
+    expect(graph).toContain("tpad=stop_mode=clone:stop_duration=0.500[v0]");
+  });
+
+  it("컷 전환은 concat 필터로 잇는다", () => {
+    const graph = filterGraph(
+      ffmpeg.buildConcatenationCommand(
+        scenes.slice(0, 2),
+        [DEFAULT_SCENE_TRANSITION],
+        "/tmp/out.mp4"
+      )
+    );
+
+    expect(graph).toContain("[v0][v1]concat=n=2:v=1:a=0[video_out]");
+    expect(graph).toContain("[a0][a1]acrossfade=d=0.05:c1=tri:c2=tri[audio_out]");
+    expect(graph).not.toContain("tpad");
+  });
+
+  it("씬이 하나면 전환 없이 그대로 출력한다", () => {
+    const command = ffmpeg.buildConcatenationCommand(scenes.slice(0, 1), [], "/tmp/out.mp4");
+
+    expect(command).toContain("[v0]");
+    expect(command).toContain("[a0]");
+    expect(filterGraph(command)).not.toContain("xfade");
+  });
+});
@@ -4,39 +4,133 @@
  */
 
 import { spawn } from "child_process";
-import { promises as fs } from "fs";
 import path from "path";
+import {
+  DEFAULT_AVATAR_LAYOUT,
+  type AvatarLayout,
+  type AvatarMask,
+} from "@/lib/video/avatar-layout";
+import {
+  DEFAULT_SUBTITLE_STYLE,
+  SUBTITLE_FONT_NAME_PATTERN,
+  type SubtitleStyle,
+} from "@/lib/video/subtitles";
+import {
+  DEFAULT_SCENE_TRANSITION,
+  getXfadeTransitionName,
+  type SceneTransition,
+} from "@/lib/video/transitions";
+import type { BrandKit } from "@/lib/video/brand-kit";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  DEFAULT_ASPECT_RATIO,
+  scaleToShortSide,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import { BEST_FRAME_BATCH, PREVIEW_ANIMATION } from "@/lib/video/thumbnails";
+import {
+  HLS_MASTER_PLAYLIST,
+  HLS_SEGMENT_SECONDS,
+  type HlsRendition,
+} from "@/lib/video/hls";
+import {
+  ENCODING_PROFILE_DEFINITIONS,
+  getEncodingSize,
+  type EncodingProfile,
+} from "@/lib/video/encoding-profiles";
+
+// libass가 SRT를 렌더링할 때 사용하는 기본 PlayResY (폰트 크기/여백 환산용)
+const ASS_PLAY_RES_Y = 288;
+
+// Veo 영상 배경에 포함된 오디오 볼륨 (배경 음악 미선택 시)
+export const DEFAULT_BACKGROUND_AUDIO_VOLUME = 0.4;
+
+// 배경 음악 페이드 인/아웃 (초)
+const MUSIC_FADE_SECONDS = 2;
+
+// 씬 연결 시 출력 프레임레이트 (Veo 24fps, 아바타 25fps 등 입력을 통일)
+const CONCAT_FPS = 30;
+
+// 씬 경계 오디오 크로스페이드 (초, 팝 노이즈 제거용으로 짧게)
+const AUDIO_CROSSFADE_SECONDS = 0.05;
+
+export interface MusicMixOptions {
+  volume: number; // 음성이 없을 때의 음악 볼륨 (0~1)
+  ducking: boolean; // 음성 구간에서 사이드체인 컴프레서로 감쇠
+  duration: number; // 최종 영상 길이 (페이드 아웃 시점 계산)
+}
+
+export interface ConcatScene {
+  path: string; // 합성된 씬 영상 (로컬 경로)
+  duration: number; // 초
+}
+
+export interface MediaInfo {
+  width: number;
+  height: number;
+  videoCodec: string;
+  audioCodec: string | null;
+  bitrate: number; // 전체 비트레이트 (bps)
+}
+
+export interface BrandCardOptions {
+  durationSeconds: number;
+  backgroundColor: string; // #RRGGBB
+  textColor: string; // #RRGGBB
+  fontName: string;
+  textPath: string; // CTA 문구 파일 (drawtext textfile, 이스케이프 불필요)
+  logoPath?: string | null; // 문구 위에 배치
+}
+
+export interface CompositionSubtitleOptions {
+  path: string; // 로컬 SRT 파일 경로
+  style?: SubtitleStyle;
+}
 
 export class FFmpegService {
+  // 출력 캔버스 크기 (화면 비율별, 16:9는 1920x1080)
+  private readonly canvas: { width: number; height: number };
+
+  constructor(aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO) {
+    const { width, height } = ASPECT_RATIO_DEFINITIONS[aspectRatio];
+    this.canvas = { width, height };
+  }
+
   /**
    * 배경 + 아바타 합성 명령 빌드
-   * Avatar overlay: bottom-right corner, 28% width, circular mask
-   * Audio mix: Background music 40% + Avatar voice 100%
+   * Avatar overlay: layout에 따라 배치 (기본값: 우하단, 캔버스 너비 28%, circular mask)
+   * Audio mix: 영상 배경 오디오 (기본 40%) + Avatar voice 100%
+   *   - 프로젝트 배경 음악을 쓰면 0으로 지정 (연결 후 buildMusicMixCommand에서 음악을 깐다)
+   * Subtitles: 지정 시 합성 결과 위에 자막 번인
    */
   buildCompositionCommand(
     backgroundPath: string,
     avatarVideoPath: string,
-    outputPath: string
+    outputPath: string,
+    layout: AvatarLayout = DEFAULT_AVATAR_LAYOUT,
+    subtitles?: CompositionSubtitleOptions,
+    backgroundAudioVolume: number = DEFAULT_BACKGROUND_AUDIO_VOLUME
   ): string[] {
     const backgroundExt = path.extname(backgroundPath).toLowerCase();
     const isVideoBackground = this.isVideoExtension(backgroundExt);
 
-    // Avatar overlay filter: bottom-right corner, 28% width, circular mask
-    const videoFilter = [
-      "[0:v]scale=1920:1080:force_original_aspect_ratio=increase,crop=1920:1080[bg]",
-      "[1:v]scale=iw*0.28:-1,format=rgba,geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(lt(hypot(X-(W/2),Y-(H/2)),min(W,H)/2),255,0)'[avatar]",
-      "[bg][avatar]overlay=x=W-w-64:y=H-h-64:format=auto[video_out]",
-    ].join(";");
+    const resolvedLayout = { ...DEFAULT_AVATAR_LAYOUT, ...layout };
+    const videoFilter = subtitles
+      ? [
+          this.buildAvatarLayoutFilter(resolvedLayout, "video_base"),
+          `[video_base]${this.buildSubtitleFilter(subtitles.path, subtitles.style)}[video_out]`,
+        ].join(";")
+      : this.buildAvatarLayoutFilter(resolvedLayout);
 
-    // Audio mixing: Background music (40% volume) + Avatar voice (100% volume)
+    // Audio mixing: Background audio + Avatar voice (100% volume)
     const audioFilter = [
-      "[0:a]volume=0.40[bg_audio]",
+      `[0:a]volume=${backgroundAudioVolume.toFixed(2)}[bg_audio]`,
       "[1:a]volume=1.0[avatar_audio]",
       "[bg_audio][avatar_audio]amix=inputs=2:duration=first:dropout_transition=2[audio_out]",
     ].join(";");
 
-    if (isVideoBackground) {
-      // Video background (Veo): mix background music with avatar voice
+    if (isVideoBackground && backgroundAudioVolume > 0) {
+      // Video background (Veo): mix background audio with avatar voice
       return [
         "ffmpeg",
         "-i",
@@ -58,23 +152,16 @@ export class FFmpegService {
         outputPath,
       ];
     } else {
-      // Image background (Nano): only avatar audio (no background music)
-      const videoFilterImage = [
-        "[0:v]scale=1920:1080:force_original_aspect_ratio=increase,crop=1920:1080[bg]",
-        "[1:v]scale=iw*0.28:-1,format=rgba,geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(lt(hypot(X-(W/2),Y-(H/2)),min(W,H)/2),255,0)'[avatar]",
-        "[bg][avatar]overlay=x=W-w-64:y=H-h-64:format=auto[video_out]",
-      ].join(";");
-
+      // Image background (Nano) 또는 배경 오디오 음소거: avatar audio only
       return [
         "ffmpeg",
-        "-loop",
-        "1",
+        ...(isVideoBackground ? [] : ["-loop", "1"]),
         "-i",
         backgroundPath,
         "-i",
         avatarVideoPath,
         "-filter_complex",
-        videoFilterImage,
+        videoFilter,
         "-map",
         "[video_out]", // Composed video output
         "-map",
@@ -91,27 +178,679 @@ export class FFmpegService {
   }
 
   /**
-   * 여러 씬 연결 명령 빌드
+   * 아바타 레이아웃 비디오 필터 빌드
+   * 입력: [0:v] 배경, [1:v] 아바타 → 출력: [outputLabel]
+   *
+   * - pip: 지정 코너에 캔버스 너비 비율로 축소 + 마스크
+   * - fullscreen: 아바타가 캔버스 전체를 채움
+   * - split: 캔버스를 좌우로 나눠 한쪽은 아바타, 반대쪽은 배경
+   *   (세로 캔버스는 위아래로 나눔: side left → 아바타 위, right → 아바타 아래)
+   * - hidden: 배경만 출력 (음성은 그대로 유지)
+   */
+  private buildAvatarLayoutFilter(
+    layout: Required<AvatarLayout>,
+    outputLabel = "video_out"
+  ): string {
+    const { width, height } = this.canvas;
+    const cover = (w: number, h: number) =>
+      `scale=${w}:${h}:force_original_aspect_ratio=increase,crop=${w}:${h}`;
+
+    switch (layout.mode) {
+      case "hidden":
+        return [
+          `[0:v]${cover(width, height)}[${outputLabel}]`,
+          "[1:v]nullsink", // 아바타 영상 스트림은 사용하지 않음
+        ].join(";");
+
+      case "fullscreen":
+        return [
+          `[0:v]${cover(width, height)}[bg]`,
+          `[1:v]${cover(width, height)}[avatar]`,
+          `[bg][avatar]overlay=x=0:y=0:format=auto[${outputLabel}]`,
+        ].join(";");
+
+      case "split": {
+        if (height > width) {
+          const half = Math.round(height / 4) * 2; // libx264 짝수 크기
+          const avatarY = layout.side === "left" ? 0 : height - half;
+          const backgroundY = layout.side === "left" ? half : 0;
+
+          return [
+            `[0:v]${cover(width, height - half)},pad=${width}:${height}:0:${backgroundY}:black[bg]`,
+            `[1:v]${cover(width, half)}[avatar]`,
+            `[bg][avatar]overlay=x=0:y=${avatarY}:format=auto[${outputLabel}]`,
+          ].join(";");
+        }
+
+        const half = Math.round(width / 2);
+        const avatarX = layout.side === "left" ? 0 : width - half;
+        const backgroundX = layout.side === "left" ? half : 0;
+
+        return [
+          `[0:v]${cover(width - half, height)},pad=${width}:${height}:${backgroundX}:0:black[bg]`,
+          `[1:v]${cover(half, height)}[avatar]`,
+          `[bg][avatar]overlay=x=${avatarX}:y=0:format=auto[${outputLabel}]`,
+        ].join(";");
+      }
+
+      case "pip":
+      default: {
+        const avatarWidth = Math.round((width * layout.scale) / 2) * 2; // libx264 짝수 크기
+        const margin = layout.margin;
+        const x = layout.corner.endsWith("left") ? `${margin}` : `W-w-${margin}`;
+        const y = layout.corner.startsWith("top") ? `${margin}` : `H-h-${margin}`;
+
+        return [
+          `[0:v]${cover(width, height)}[bg]`,
+          `[1:v]${this.buildAvatarMaskFilter(layout.mask, avatarWidth)}[avatar]`,
+          `[bg][avatar]overlay=x=${x}:y=${y}:format=auto[${outputLabel}]`,
+        ].join(";");
+      }
+    }
+  }
+
+  /**
+   * PIP 아바타 마스크 필터 빌드
+   * - circle: 정사각형 크롭 후 원형 알파
+   * - square: 정사각형 크롭
+   * - rounded: 원본 비율 유지 + 둥근 모서리 알파 (반경: 짧은 변의 12%)
+   */
+  private buildAvatarMaskFilter(mask: AvatarMask, avatarWidth: number): string {
+    const squareCrop = "crop='min(iw,ih)':'min(iw,ih)'";
+
+    switch (mask) {
+      case "square":
+        return `${squareCrop},scale=${avatarWidth}:${avatarWidth}`;
+
+      case "rounded": {
+        const radius = "(min(W,H)*0.12)";
+        const dx = `max(abs(X-W/2)-(W/2-${radius}),0)`;
+        const dy = `max(abs(Y-H/2)-(H/2-${radius}),0)`;
+        return `scale=${avatarWidth}:-2,format=rgba,geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(lte(hypot(${dx},${dy}),${radius}),255,0)'`;
+      }
+
+      case "circle":
+      default:
+        return `${squareCrop},scale=${avatarWidth}:${avatarWidth},format=rgba,geq=r='r(X,Y)':g='g(X,Y)':b='b(X,Y)':a='if(lt(hypot(X-(W/2),Y-(H/2)),min(W,H)/2),255,0)'`;
+    }
+  }
+
+  /**
+   * 자막 번인 필터 빌드 (libass subtitles 필터)
+   * 폰트/크기/위치/배경 박스를 force_style로 지정
+   */
+  buildSubtitleFilter(subtitlePath: string, style: SubtitleStyle = {}): string {
+    const resolved = { ...DEFAULT_SUBTITLE_STYLE, ...style };
+
+    // 출력 px → ASS 좌표계 환산 (libass는 PlayResY를 영상 높이에 맞춰 확대)
+    const toAssUnits = (px: number) =>
+      Math.max(1, Math.round((px * ASS_PLAY_RES_Y) / this.canvas.height));
+
+    // ASS Alignment (numpad 배치): 하단 중앙 2, 중앙 5, 상단 중앙 8
+    const alignment = { bottom: 2, middle: 5, top: 8 }[resolved.position];
+
+    // 스키마 검증 전에 저장된 설정도 있으므로 필터 구분자가 든 폰트 이름은 기본 폰트로 대체
+    const fontName = SUBTITLE_FONT_NAME_PATTERN.test(resolved.fontName)
+      ? resolved.fontName
+      : DEFAULT_SUBTITLE_STYLE.fontName;
+
+    const forceStyle = [
+      `FontName=${fontName}`,
+      `FontSize=${toAssUnits(resolved.fontSize)}`,
+      `PrimaryColour=${this.toAssColor(resolved.color)}`,
+      `OutlineColour=${this.toAssColor(resolved.outlineColor)}`,
+      `BackColour=${this.toAssColor(resolved.boxColor, resolved.boxOpacity)}`,
+      // BorderStyle 3: 불투명 박스, 1: 외곽선 + 그림자
+      `BorderStyle=${resolved.box ? 3 : 1}`,
+      `Outline=${resolved.box ? 1 : 2}`,
+      "Shadow=0",
+      `Alignment=${alignment}`,
+      `MarginV=${toAssUnits(resolved.marginV)}`,
+    ].join(",");
+
+    // 작은따옴표 안의 값은 그대로 전달됨 (임시 경로에는 따옴표가 없음)
+    return `subtitles=filename='${subtitlePath}':charenc=UTF-8:force_style='${forceStyle}'`;
+  }
+
+  /**
+   * 배경 음악 믹스 명령 빌드 (씬 연결이 끝난 최종 영상에 적용)
+   *
+   * 음악은 영상 길이만큼 반복 재생되며 씬 경계에서 다시 시작하지 않는다.
+   * ducking: 영상 오디오(아바타 음성)를 사이드체인으로 음악을 압축 → 말할 때만 음악이 작아짐
+   * 비디오 스트림은 재인코딩하지 않음 (-c:v copy)
+   */
+  buildMusicMixCommand(
+    videoPath: string,
+    musicPath: string,
+    outputPath: string,
+    options: MusicMixOptions
+  ): string[] {
+    const fadeOutStart = Math.max(0, options.duration - MUSIC_FADE_SECONDS);
+    const musicFilter =
+      `[1:a]volume=${options.volume.toFixed(2)},` +
+      `afade=t=in:d=${MUSIC_FADE_SECONDS},` +
+      `afade=t=out:st=${fadeOutStart.toFixed(2)}:d=${MUSIC_FADE_SECONDS}[music]`;
+
+    const audioFilter = options.ducking
+      ? [
+          musicFilter,
+          "[0:a]asplit=2[voice][sidechain]",
+          "[music][sidechain]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[ducked]",
+          "[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[audio_out]",
+        ]
+      : [
+          musicFilter,
+          "[0:a][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[audio_out]",
+        ];
+
+    return [
+      "ffmpeg",
+      "-i",
+      videoPath,
+      "-stream_loop",
+      "-1", // 영상보다 짧은 트랙은 반복
+      "-i",
+      musicPath,
+      "-filter_complex",
+      audioFilter.join(";"),
+      "-map",
+      "0:v",
+      "-map",
+      "[audio_out]",
+      "-c:v",
+      "copy",
+      "-c:a",
+      "aac",
+      "-shortest",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 여러 씬 연결 명령 빌드 (씬 경계마다 전환 적용, 재인코딩)
+   *
+   * 타이밍: 나가는 씬의 마지막 프레임을 전환 길이만큼 늘려(tpad) 전환 구간으로 쓰므로
+   *   다음 씬은 항상 앞 씬들 길이의 합에서 시작한다 → 총 길이와 TTS 타이밍이 컷 전환과 동일.
+   * 오디오: 전환 유형과 관계없이 경계마다 짧은 acrossfade만 적용 (음성이 겹치거나 잘리지 않고, 팝 노이즈 제거)
+   *
+   * @param scenes - 합성된 씬 영상 (duration: ffprobe로 측정한 길이)
+   * @param transitions - scenes[i] → scenes[i + 1] 전환 (길이 scenes.length - 1)
    */
   buildConcatenationCommand(
-    concatFilePath: string,
+    scenes: ConcatScene[],
+    transitions: Required<SceneTransition>[],
     outputPath: string
   ): string[] {
+    const lastIndex = scenes.length - 1;
+
+    // 전환 길이는 양쪽 씬 길이의 절반을 넘지 않도록 제한
+    const effective = scenes.slice(0, lastIndex).map((scene, i) => {
+      const transition = transitions[i] ?? DEFAULT_SCENE_TRANSITION;
+      const xfade = getXfadeTransitionName(transition);
+      const duration = Math.min(
+        transition.duration,
+        scene.duration / 2,
+        scenes[i + 1].duration / 2
+      );
+      return xfade && duration > 0 ? { xfade, duration } : null;
+    });
+
+    const filters: string[] = [];
+
+    scenes.forEach((scene, i) => {
+      const outgoing = i < lastIndex ? effective[i] : null;
+      // xfade는 두 입력의 프레임레이트/픽셀 포맷/타임베이스가 같아야 함
+      filters.push(
+        `[${i}:v]fps=${CONCAT_FPS},format=yuv420p,settb=AVTB,setpts=PTS-STARTPTS` +
+          (outgoing ? `,tpad=stop_mode=clone:stop_duration=${outgoing.duration.toFixed(3)}` : "") +
+          `[v${i}]`
+      );
+
+      const fadeOutStart = Math.max(0, scene.duration - AUDIO_CROSSFADE_SECONDS);
+      filters.push(
+        `[${i}:a]aformat=sample_rates=44100:channel_layouts=stereo,asetpts=PTS-STARTPTS` +
+          (i < lastIndex
+            ? `,afade=t=out:st=${fadeOutStart.toFixed(3)}:d=${AUDIO_CROSSFADE_SECONDS},` +
+              `apad=pad_dur=${AUDIO_CROSSFADE_SECONDS}`
+            : "") +
+          `[a${i}]`
+      );
+    });
+
+    let videoLabel = "v0";
+    let audioLabel = "a0";
+    let offset = 0;
+
+    for (let i = 0; i < lastIndex; i++) {
+      offset += scenes[i].duration;
+      const transition = effective[i];
+      const nextVideo = i === lastIndex - 1 ? "video_out" : `vx${i}`;
+      const nextAudio = i === lastIndex - 1 ? "audio_out" : `ax${i}`;
+
+      filters.push(
+        transition
+          ? `[${videoLabel}][v${i + 1}]xfade=transition=${transition.xfade}:` +
+              `duration=${transition.duration.toFixed(3)}:offset=${offset.toFixed(3)}[${nextVideo}]`
+          : `[${videoLabel}][v${i + 1}]concat=n=2:v=1:a=0[${nextVideo}]`
+      );
+      filters.push(
+        `[${audioLabel}][a${i + 1}]acrossfade=d=${AUDIO_CROSSFADE_SECONDS}:c1=tri:c2=tri[${nextAudio}]`
+      );
+
+      videoLabel = nextVideo;
+      audioLabel = nextAudio;
+    }
+
+    return [
+      "ffmpeg",
+      ...scenes.flatMap((scene) => ["-i", scene.path]),
+      "-filter_complex",
+      filters.join(";"),
+      "-map",
+      `[${videoLabel}]`,
+      "-map",
+      `[${audioLabel}]`,
+      "-c:v",
+      "libx264",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "aac",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 브랜드 인트로/아웃트로 클립 정규화 명령 빌드
+   * 캔버스 크기에 맞춰 축소 후 검은 여백(pad), 프레임레이트/픽셀 포맷 통일
+   * 오디오 트랙이 없는 클립은 무음 트랙을 추가 (씬 연결 필터가 모든 입력의 오디오를 사용)
+   */
+  buildBumperNormalizeCommand(inputPath: string, outputPath: string, hasAudio: boolean): string[] {
+    const { width, height } = this.canvas;
+    const videoFilter =
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,setsar=1,` +
+      `fps=${CONCAT_FPS},format=yuv420p`;
+
+    return [
+      "ffmpeg",
+      "-i",
+      inputPath,
+      ...(hasAudio ? [] : ["-f", "lavfi", "-i", "anullsrc=r=44100:cl=stereo"]),
+      "-vf",
+      videoFilter,
+      "-map",
+      "0:v:0",
+      "-map",
+      hasAudio ? "0:a:0" : "1:a",
+      "-c:v",
+      "libx264",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "aac",
+      "-ar",
+      "44100",
+      "-ac",
+      "2",
+      ...(hasAudio ? [] : ["-shortest"]),
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 브랜드 CTA 카드 생성 명령 빌드 (아웃트로 클립이 없을 때)
+   * 브랜드 색상 배경 + (로고) + 중앙 문구, 앞뒤 페이드, 무음 오디오
+   */
+  buildBrandCardCommand(outputPath: string, options: BrandCardOptions): string[] {
+    const duration = options.durationSeconds;
+    const fade = Math.min(0.5, duration / 4);
+    const hasLogo = !!options.logoPath;
+
+    const text =
+      `drawtext=textfile='${options.textPath}':font='${options.fontName}':fontsize=72:` +
+      `fontcolor=0x${options.textColor.slice(1)}:x=(w-text_w)/2:` +
+      `y=${hasLogo ? "h/2+40" : "(h-text_h)/2"}`;
+    const fades =
+      `fade=t=in:d=${fade.toFixed(2)},` +
+      `fade=t=out:st=${(duration - fade).toFixed(2)}:d=${fade.toFixed(2)}`;
+
+    const videoFilter = hasLogo
+      ? [
+          `[2:v]scale=-1:${Math.round(this.canvas.height * 0.22)}[logo]`,
+          "[0:v][logo]overlay=x=(W-w)/2:y=H/2-h-40:format=auto:shortest=1[card]",
+          `[card]${text},${fades}[video_out]`,
+        ].join(";")
+      : `[0:v]${text},${fades}[video_out]`;
+
     return [
       "ffmpeg",
       "-f",
-      "concat",
-      "-safe",
-      "0",
+      "lavfi",
+      "-i",
+      `color=c=0x${options.backgroundColor.slice(1)}:s=${this.canvas.width}x${this.canvas.height}:r=${CONCAT_FPS}:d=${duration.toFixed(2)}`,
+      "-f",
+      "lavfi",
       "-i",
-      concatFilePath,
-      "-c",
+      "anullsrc=r=44100:cl=stereo",
+      ...(hasLogo ? ["-loop", "1", "-i", options.logoPath as string] : []),
+      "-filter_complex",
+      videoFilter,
+      "-map",
+      "[video_out]",
+      "-map",
+      "1:a",
+      "-t",
+      duration.toFixed(2),
+      "-c:v",
+      "libx264",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "aac",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 로고 워터마크 오버레이 명령 빌드
+   * 로고를 캔버스 너비 비율로 축소하고 알파에 opacity를 곱해 코너에 배치 (오디오는 복사)
+   */
+  buildWatermarkCommand(
+    videoPath: string,
+    logoPath: string,
+    outputPath: string,
+    watermark: BrandKit["watermark"]
+  ): string[] {
+    const logoWidth = Math.round((this.canvas.width * watermark.scale) / 2) * 2; // libx264 짝수 크기
+    const x = watermark.position.endsWith("left") ? `${watermark.margin}` : `W-w-${watermark.margin}`;
+    const y = watermark.position.startsWith("top") ? `${watermark.margin}` : `H-h-${watermark.margin}`;
+
+    return [
+      "ffmpeg",
+      "-i",
+      videoPath,
+      "-i",
+      logoPath,
+      "-filter_complex",
+      [
+        `[1:v]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${watermark.opacity.toFixed(2)}[watermark]`,
+        `[0:v][watermark]overlay=x=${x}:y=${y}:format=auto[video_out]`,
+      ].join(";"),
+      "-map",
+      "[video_out]",
+      "-map",
+      "0:a?",
+      "-c:v",
+      "libx264",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
       "copy",
       "-y",
       outputPath,
     ];
   }
 
+  /**
+   * 최종 인코딩 명령 빌드 (인코딩 프로필 적용)
+   * 프로필 해상도로 스케일 후 코덱/CRF/프리셋/오디오 비트레이트 지정
+   * MP4는 faststart로 moov를 앞에 둬서 다운로드 중 재생 가능
+   */
+  buildFinalEncodeCommand(inputPath: string, outputPath: string, profile: EncodingProfile): string[] {
+    const definition = ENCODING_PROFILE_DEFINITIONS[profile];
+    const { width, height } = getEncodingSize(this.canvas, profile);
+
+    const videoOptions =
+      definition.videoCodec === "libvpx-vp9"
+        ? ["-c:v", "libvpx-vp9", "-crf", `${definition.crf}`, "-b:v", "0", "-deadline", definition.preset, "-row-mt", "1"]
+        : ["-c:v", "libx264", "-crf", `${definition.crf}`, "-preset", definition.preset, "-profile:v", "high"];
+
+    return [
+      "ffmpeg",
+      "-i",
+      inputPath,
+      "-vf",
+      `scale=${width}:${height}:flags=lanczos,setsar=1`,
+      ...videoOptions,
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      definition.audioCodec,
+      "-b:a",
+      definition.audioBitrate,
+      ...(definition.container === "mp4" ? ["-movflags", "+faststart"] : []),
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * HLS 패키징 명령 빌드 (렌디션별 H.264/AAC TS 세그먼트 + 마스터 플레이리스트)
+   * 모든 렌디션의 키프레임을 세그먼트 경계에 맞춰 화질 전환이 끊기지 않게 한다
+   * 출력: outputDir/master.m3u8, outputDir/{name}.m3u8, outputDir/{name}_NNN.ts
+   */
+  buildHlsCommand(inputPath: string, outputDir: string, renditions: HlsRendition[]): string[] {
+    const filters = [
+      `[0:v]split=${renditions.length}${renditions.map((_, i) => `[v${i}_in]`).join("")}`,
+      ...renditions.map((rendition, i) => {
+        const { width, height } = scaleToShortSide(this.canvas, rendition.shortSide);
+        return `[v${i}_in]scale=${width}:${height}:flags=lanczos,setsar=1[v${i}_out]`;
+      }),
+    ];
+
+    const streamOptions = renditions.flatMap((rendition, i) => [
+      "-map",
+      `[v${i}_out]`,
+      "-map",
+      "0:a:0",
+      `-b:v:${i}`,
+      `${rendition.videoBitrateKbps}k`,
+      `-maxrate:v:${i}`,
+      `${Math.round(rendition.videoBitrateKbps * 1.07)}k`,
+      `-bufsize:v:${i}`,
+      `${rendition.videoBitrateKbps * 2}k`,
+      `-b:a:${i}`,
+      `${rendition.audioBitrateKbps}k`,
+    ]);
+
+    return [
+      "ffmpeg",
+      "-i",
+      inputPath,
+      "-filter_complex",
+      filters.join(";"),
+      ...streamOptions,
+      "-c:v",
+      "libx264",
+      "-preset",
+      "veryfast",
+      "-pix_fmt",
+      "yuv420p",
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+      "-sc_threshold",
+      "0",
+      "-c:a",
+      "aac",
+      "-ac",
+      "2",
+      "-f",
+      "hls",
+      "-hls_time",
+      `${HLS_SEGMENT_SECONDS}`,
+      "-hls_playlist_type",
+      "vod",
+      "-hls_flags",
+      "independent_segments",
+      "-hls_segment_filename",
+      path.join(outputDir, "%v_%03d.ts"),
+      "-master_pl_name",
+      HLS_MASTER_PLAYLIST,
+      "-var_stream_map",
+      renditions.map((rendition, i) => `v:${i},a:${i},name:${rendition.name}`).join(" "),
+      "-y",
+      path.join(outputDir, "%v.m3u8"),
+    ];
+  }
+
+  /**
+   * 대표 프레임 JPEG 추출 명령 빌드 (포스터, 씬 썸네일)
+   * bestFrame이면 seek 지점부터 thumbnail 필터로 가장 대표적인 프레임을 고르고,
+   * 아니면 seek 지점의 프레임을 그대로 쓴다. width를 주면 비율 유지 축소
+   */
+  buildFrameExtractCommand(
+    inputPath: string,
+    outputPath: string,
+    options: { seekSeconds?: number; bestFrame?: boolean; width?: number } = {}
+  ): string[] {
+    const filters = [
+      ...(options.bestFrame ? [`thumbnail=${BEST_FRAME_BATCH}`] : []),
+      ...(options.width ? [`scale=${options.width}:-2:flags=lanczos`] : []),
+    ];
+
+    return [
+      "ffmpeg",
+      "-ss",
+      (options.seekSeconds ?? 0).toFixed(2),
+      "-i",
+      inputPath,
+      ...(filters.length > 0 ? ["-vf", filters.join(",")] : []),
+      "-frames:v",
+      "1",
+      "-q:v",
+      "3",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 미리보기 애니메이션 WebP 생성 명령 빌드 (무한 반복, 오디오 없음)
+   */
+  buildPreviewAnimationCommand(inputPath: string, outputPath: string, startSeconds: number): string[] {
+    return [
+      "ffmpeg",
+      "-ss",
+      startSeconds.toFixed(2),
+      "-t",
+      `${PREVIEW_ANIMATION.durationSeconds}`,
+      "-i",
+      inputPath,
+      "-vf",
+      `fps=${PREVIEW_ANIMATION.fps},scale=${PREVIEW_ANIMATION.width}:-2:flags=lanczos`,
+      "-an",
+      "-c:v",
+      "libwebp",
+      "-loop",
+      "0",
+      "-q:v",
+      "60",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 무음 MP3 생성 명령 빌드 (mock TTS)
+   * -bitexact: 같은 입력이면 항상 같은 바이트가 나오도록 인코더 메타데이터 제거
+   */
+  buildSilentAudioCommand(outputPath: string, durationSeconds: number): string[] {
+    return [
+      "ffmpeg",
+      "-f",
+      "lavfi",
+      "-i",
+      "anullsrc=r=44100:cl=mono",
+      "-t",
+      durationSeconds.toFixed(2),
+      "-c:a",
+      "libmp3lame",
+      "-b:a",
+      "64k",
+      "-map_metadata",
+      "-1",
+      "-fflags",
+      "+bitexact",
+      "-flags:a",
+      "+bitexact",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 테스트 패턴 PNG 생성 명령 빌드 (mock 이미지)
+   */
+  buildTestPatternImageCommand(
+    outputPath: string,
+    width = this.canvas.width,
+    height = this.canvas.height
+  ): string[] {
+    return [
+      "ffmpeg",
+      "-f",
+      "lavfi",
+      "-i",
+      `testsrc2=size=${width}x${height}:rate=1`,
+      "-frames:v",
+      "1",
+      "-fflags",
+      "+bitexact",
+      "-flags:v",
+      "+bitexact",
+      "-y",
+      outputPath,
+    ];
+  }
+
+  /**
+   * 테스트 패턴 MP4 생성 명령 빌드 (mock 아바타/배경 영상)
+   *
+   * audioPath가 있으면 오디오 길이에 맞춰 끝남 (아바타 립싱크 대용),
+   * 없으면 durationSeconds 길이의 무음 영상
+   */
+  buildTestPatternVideoCommand(
+    outputPath: string,
+    options: { durationSeconds?: number; audioPath?: string; width?: number; height?: number }
+  ): string[] {
+    const width = options.width ?? this.canvas.width;
+    const height = options.height ?? this.canvas.height;
+    const input = options.audioPath
+      ? ["-i", options.audioPath]
+      : ["-f", "lavfi", "-i", "anullsrc=r=44100:cl=stereo"];
+
+    return [
+      "ffmpeg",
+      "-f",
+      "lavfi",
+      "-i",
+      `testsrc2=size=${width}x${height}:rate=25`,
+      ...input,
+      ...(options.audioPath ? ["-shortest"] : ["-t", (options.durationSeconds ?? 8).toFixed(2)]),
+      "-c:v",
+      "libx264",
+      "-preset",
+      "ultrafast",
+      "-pix_fmt",
+      "yuv420p",
+      "-c:a",
+      "aac",
+      "-map_metadata",
+      "-1",
+      "-fflags",
+      "+bitexact",
+      "-flags",
+      "+bitexact",
+      "-y",
+      outputPath,
+    ];
+  }
+
   /**
    * 비디오 duration 조회 명령 빌드 (ffprobe)
    */
@@ -128,6 +867,40 @@ export class FFmpegService {
     ];
   }
 
+  /**
+   * 미디어 정보 조회 명령 빌드 (ffprobe JSON: 스트림 코덱/해상도 + 전체 비트레이트)
+   */
+  buildMediaInfoProbeCommand(videoPath: string): string[] {
+    return [
+      "ffprobe",
+      "-v",
+      "error",
+      "-show_entries",
+      "stream=codec_type,codec_name,width,height:format=bit_rate",
+      "-of",
+      "json",
+      videoPath,
+    ];
+  }
+
+  /**
+   * 오디오 스트림 조회 명령 빌드 (ffprobe, 스트림이 없으면 빈 출력)
+   */
+  buildAudioStreamProbeCommand(videoPath: string): string[] {
+    return [
+      "ffprobe",
+      "-v",
+      "error",
+      "-select_streams",
+      "a",
+      "-show_entries",
+      "stream=index",
+      "-of",
+      "csv=p=0",
+      videoPath,
+    ];
+  }
+
   /**
    * FFmpeg 명령 실행
    */
@@ -218,6 +991,38 @@ export class FFmpegService {
     return duration;
   }
 
+  /**
+   * 오디오 스트림 존재 여부 (ffprobe)
+   */
+  async hasAudioStream(videoPath: string): Promise<boolean> {
+    const command = this.buildAudioStreamProbeCommand(videoPath);
+    const output = await this.executeAndCapture(command);
+    return output.length > 0;
+  }
+
+  /**
+   * 최종 영상 미디어 정보 조회 (ffprobe, 최종 Asset metadata 기록용)
+   */
+  async getMediaInfo(videoPath: string): Promise<MediaInfo> {
+    const command = this.buildMediaInfoProbeCommand(videoPath);
+    const output = await this.executeAndCapture(command);
+
+    const probe = JSON.parse(output || "{}") as {
+      streams?: { codec_type?: string; codec_name?: string; width?: number; height?: number }[];
+      format?: { bit_rate?: string };
+    };
+    const video = probe.streams?.find((stream) => stream.codec_type === "video");
+    const audio = probe.streams?.find((stream) => stream.codec_type === "audio");
+
+    return {
+      width: video?.width ?? 0,
+      height: video?.height ?? 0,
+      videoCodec: video?.codec_name ?? "unknown",
+      audioCodec: audio?.codec_name ?? null,
+      bitrate: parseInt(probe.format?.bit_rate ?? "", 10) || 0,
+    };
+  }
+
   /**
    * FFmpeg 설치 확인
    */
@@ -237,19 +1042,20 @@ export class FFmpegService {
     }
   }
 
+  // Helper methods
+
   /**
-   * concat 파일 생성 (씬 연결용)
+   * #RRGGBB → ASS 색상(&HAABBGGRR) 변환 (opacity 1 = 불투명)
    */
-  async createConcatFile(
-    scenePaths: string[],
-    concatFilePath: string
-  ): Promise<void> {
-    const content = scenePaths.map((p) => `file '${p}'`).join("\n");
-    await fs.writeFile(concatFilePath, content, "utf-8");
+  private toAssColor(hex: string, opacity = 1): string {
+    const [r, g, b] = [1, 3, 5].map((i) => hex.slice(i, i + 2).toUpperCase());
+    const alpha = Math.round((1 - opacity) * 255)
+      .toString(16)
+      .toUpperCase()
+      .padStart(2, "0");
+    return `&H${alpha}${b}${g}${r}`;
   }
 
-  // Helper methods
-
   private isVideoExtension(ext: string): boolean {
     return [".mp4", ".mov", ".avi", ".webm", ".mkv"].includes(ext);
   }
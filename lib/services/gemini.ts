@@ -5,11 +5,31 @@ import {
   getGoogleProjectId,
   getGoogleLocation,
 } from "@/lib/google/credentials";
+import type { ScriptSource } from "@/lib/documents";
+import {
+  SCRIPT_BASE_TOKENS,
+  SCRIPT_MAX_OUTPUT_TOKENS,
+  SCRIPT_TOKENS_PER_SCENE,
+  type ScenePlan,
+} from "@/lib/video/scene-plan";
+import {
+  ASPECT_RATIO_DEFINITIONS,
+  DEFAULT_ASPECT_RATIO,
+  type AspectRatio,
+} from "@/lib/video/aspect-ratio";
+import {
+  formatScriptLength,
+  getMaxScriptLength,
+  measureScriptLength,
+  SCRIPT_LANGUAGE_DEFINITIONS,
+  truncateScript,
+  type ScriptLanguage,
+} from "@/lib/video/languages";
 
 /**
  * Google Vertex AI 서비스
  *
- * - Gemini 2.5 Pro: 대본 생성 + PDF 분석
+ * - Gemini 2.5 Pro: 대본 생성 + 문서 분석 (PDF, PPTX, DOCX, Markdown, 텍스트, URL) + 대본 번역
  * - Nano Banana: 커스텀 아바타 + 씬 배경 이미지
  * - Veo 3.1: 씬 배경 영상 (image-to-video)
  */
@@ -28,22 +48,94 @@ const vertexAI = new VertexAI({
   }),
 });
 
+// 대본 생성 프롬프트에 표시할 자료 형식 이름
+const SOURCE_FORMAT_LABELS: Record<ScriptSource["format"], string> = {
+  pdf: "PDF 발표 자료",
+  pptx: "PowerPoint 슬라이드",
+  docx: "Word 문서",
+  markdown: "Markdown 문서",
+  text: "텍스트 문서",
+  url: "웹 페이지",
+};
+
+/**
+ * ScriptSource → Gemini 요청 parts 변환
+ * 추출된 본문은 텍스트 part, 원본 PDF/이미지는 inlineData part로 전달
+ */
+function buildSourceParts(source: ScriptSource) {
+  const parts: (
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } }
+  )[] = [];
+
+  if (source.text) {
+    parts.push({
+      text: `[발표 자료 본문${source.title ? `: ${source.title}` : ""}]\n${source.text}`,
+    });
+  }
+
+  for (const file of source.files) {
+    if (file.label) {
+      parts.push({ text: `[${file.label}]` });
+    }
+    parts.push({ inlineData: { mimeType: file.mimeType, data: file.data } });
+  }
+
+  return parts;
+}
+
+/**
+ * 언어별 길이 제한 표기: "60자 (공백 제외)" / "20단어"
+ */
+function describeScriptLimit(maxLength: number, language: ScriptLanguage): string {
+  const label = formatScriptLength(maxLength, language);
+  return SCRIPT_LANGUAGE_DEFINITIONS[language].lengthUnit === "chars"
+    ? `${label} (공백 제외)`
+    : label;
+}
+
+/**
+ * 대본 생성 출력 토큰 예산
+ * 씬당 약 700 토큰 (대본 + 프롬프트 3종) + thinking 여유분, 모델 상한 65,535
+ * (MAX_SCENE_COUNT는 이 상한 안에 들어가도록 정해져 있음)
+ */
+function getScriptTokenBudget(sceneCount: number): number {
+  return Math.min(
+    SCRIPT_MAX_OUTPUT_TOKENS,
+    Math.max(16384, SCRIPT_BASE_TOKENS + sceneCount * SCRIPT_TOKENS_PER_SCENE)
+  );
+}
+
 /**
  * Gemini 2.5 Pro - 대본 생성
  *
- * @param pdfBase64 - PDF 파일 Base64 인코딩
- * @param duration - 영상 길이 (30/60/180초)
+ * @param source - 정규화된 발표 자료 (lib/documents의 normalizeDocument 결과)
+ * @param plan - 씬 구성 (lib/video/scene-plan의 planScenes 결과)
+ * @param aspectRatio - 프로젝트 화면 비율 (imagePrompt/videoPrompt 구도)
  * @returns 생성된 대본 (씬 배열)
  */
 export async function generateScript(
-  pdfBase64: string,
-  duration: 30 | 60 | 180
+  source: ScriptSource,
+  plan: ScenePlan,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ) {
+  const { duration, sceneCount, sceneSeconds, language, maxScriptLength } = plan;
+  const { promptFormat } = ASPECT_RATIO_DEFINITIONS[aspectRatio];
+  const languageDefinition = SCRIPT_LANGUAGE_DEFINITIONS[language];
+  const maxLengthLabel = describeScriptLimit(maxScriptLength, language);
+  const sceneSecondsLabel = Number.isInteger(sceneSeconds)
+    ? `${sceneSeconds}`
+    : sceneSeconds.toFixed(1);
+  // 발화 목표: 씬 길이의 80~90% (전환 여유)
+  const speakMin = Math.floor(sceneSeconds * 0.8);
+  const speakMax = Math.round(sceneSeconds * 0.9);
+  const recommendedMinLength = Math.round(maxScriptLength * 0.83);
+
   const model = vertexAI.getGenerativeModel({
     model: "gemini-2.5-pro",
     generationConfig: {
       temperature: 0.7,
-      maxOutputTokens: 16384, // 증가: 8192 → 16384 (180초 23개 씬 생성 위해)
+      maxOutputTokens: getScriptTokenBudget(sceneCount), // 씬 개수에 비례
       responseMimeType: "application/json", // JSON 응답 강제
       responseSchema: {
         type: SchemaType.OBJECT,
@@ -79,57 +171,49 @@ export async function generateScript(
   const prompt = `
 당신은 발표 자료를 분석하여 아바타가 발표할 대본을 생성하는 AI입니다.
 
-첨부된 PDF 발표 자료를 분석하여 ${duration}초 길이의 영상 대본을 생성하세요.
+첨부된 ${SOURCE_FORMAT_LABELS[source.format]}를 분석하여 ${duration}초 길이의 영상 대본을 생성하세요.
 
 요구사항:
 1. 전체 영상 길이: 정확히 ${duration}초
-2. 씬 구성: 8초씩 나눠서 총 ${duration / 8}개 씬 (Veo 3.1 영상 길이에 맞춤)
+2. 씬 구성: 씬당 약 ${sceneSecondsLabel}초씩 총 ${sceneCount}개 씬 (반드시 ${sceneCount}개)
 3. 각 씬마다 다음 정보를 포함:
    - 대본 (script): 아바타가 말할 내용
-     * 🚨 **ABSOLUTE LIMIT: 최대 60자 (공백 제외)**
-     * 🚨 **60자 초과 시 즉시 거부됩니다**
-     * **목표 시간: 정확히 6-7초 분량**
+     * 🚨 **작성 언어: 반드시 ${languageDefinition.nativeName}로만 작성** (자료가 다른 언어여도 번역해서 작성)
+     * 🚨 **ABSOLUTE LIMIT: 최대 ${maxLengthLabel}**
+     * 🚨 **${formatScriptLength(maxScriptLength, language)} 초과 시 즉시 거부됩니다**
+     * **목표 시간: 정확히 ${speakMin}-${speakMax}초 분량**
      * **문장 스타일: 자연스럽고 친근한 톤 (딱딱한 설명체 금지)**
      * **필수 원칙**:
-       - 인사말/자기소개 절대 금지 ("안녕하세요", "여러분" 등)
-       - 괄호 표현 절대 금지 ("(잠시 뜸들임)", "(예시)" 등)
-       - 설명문 금지 ("~에 대해 이야기하겠습니다", "~를 소개합니다" 등)
-       - 핵심 메시지를 충분히 설명하되 간결하게 (50~60자 권장)
-       - 자연스러운 구어체 사용 (~죠, ~네요, ~거든요, ~잖아요)
-       - 영어는 꼭 필요할 때만 (한글로 대체 가능하면 대체)
-       - 구체적인 수치나 예시로 설득력 높이기
+       - 핵심 메시지를 충분히 설명하되 간결하게 (${recommendedMinLength}~${formatScriptLength(maxScriptLength, language)} 권장)
+${languageDefinition.styleRules.map((rule) => `       - ${rule}`).join("\n")}
      * ✅ 좋은 예시들 (자연스럽고 적절한 길이):
-       - "클로드 코드는 정말 강력하지만, 무제한 요금제가 없어져서 비용 관리가 필수가 됐어요." (43자) ← 완벽
-       - "MCP 서버들을 전부 연결하면 기능은 좋지만, 오히려 토큰 낭비가 심해질 수 있거든요." (46자) ← 완벽
-       - "코드 분석 에이전트를 활용하면 토큰을 30%나 절약하면서도 더 정확한 분석이 가능해요." (49자) ← 완벽
-       - "컨텍스트 7을 쓰면 AI가 실시간으로 최신 기술 문서를 읽고 코드를 짜줘서 개발이 훨씬 빨라져요." (52자) ← 완벽
+${languageDefinition.goodExamples
+  .map((example) => `       - "${example}" (${formatScriptLength(measureScriptLength(example, language), language)}) ← 완벽`)
+  .join("\n")}
      * ❌ 나쁜 예시들 (절대 금지):
-       - "안녕하세요. 오늘은 MCP 서버 활용법을 소개합니다." (인사말 + 설명문)
-       - "정말 놀랍죠? (잠시 뜸들임) 이제 자세히 알아볼까요?" (괄호 표현)
-       - "클로드 코드 짱" (너무 짧음, 20자 미만)
-       - "본 발표에서는 AI 코딩 도구의 효율적 활용 방안에 대하여 상세히 설명드리고자 합니다." (딱딱한 설명체)
+${languageDefinition.badExamples.map((example) => `       - ${example}`).join("\n")}
    - 시각적 설명 (visualDescription): 배경에 표시할 내용 설명 (하위 호환성용)
    - 이미지 프롬프트 (imagePrompt): Nano Banana 이미지 생성 모델용 프롬프트
-     * 🚨 **필수: 16:9 aspect ratio 명시 (반드시 "16:9 composition" 또는 "16:9 aspect ratio" 포함)**
+     * 🚨 **필수: ${aspectRatio} aspect ratio 명시 (반드시 "${aspectRatio} composition" 또는 "${aspectRatio} aspect ratio" 포함)**
      * 포토리얼리스틱 스타일
      * 구체적인 조명, 색상, 구도, 질감 포함
-     * 예: "Modern office interior with large windows, soft natural daylight, minimalist wooden desk, potted plants, 16:9 aspect ratio composition, photorealistic, 8k quality, cinematic lighting, professional photography"
+     * 예: "Modern office interior with large windows, soft natural daylight, minimalist wooden desk, potted plants, ${aspectRatio} aspect ratio composition, photorealistic, 8k quality, cinematic lighting, professional photography"
    - 영상 프롬프트 (videoPrompt): Veo 3.1 영상 생성 모델용 프롬프트
-     * 🚨 **필수: 16:9 aspect ratio 명시 (Veo API parameters에 16:9 지정되므로 프롬프트에도 명시)**
+     * 🚨 **필수: ${aspectRatio} aspect ratio 명시 (영상 생성 API에도 같은 비율이 지정되므로 프롬프트에도 명시)**
      * 🚨 **중요: duration은 절대 포함하지 마세요 (TTS 길이에 따라 자동 계산됨)**
      * 카메라 움직임 (slow pan, gentle zoom, static shot)
      * 동적 요소 (subtle movement, light changes)
-     * 예: "Slow camera pan from left to right across the office space, subtle light movement through windows, smooth transition, 16:9 widescreen format, cinematic motion"
+     * 예: "Slow camera pan from left to right across the office space, subtle light movement through windows, smooth transition, ${promptFormat} format, cinematic motion"
 
 응답 형식 (JSON):
 {
   "scenes": [
     {
       "sceneNumber": 1,
-      "script": "v1.0은 코드 중심 협업 시대를 열었습니다.",
+      "script": "${languageDefinition.goodExamples[0]}",
       "visualDescription": "현대적인 사무실 배경",
-      "imagePrompt": "Modern office interior with large windows, soft natural daylight, minimalist wooden desk, potted plants, 16:9 composition, photorealistic, 8k quality, cinematic lighting",
-      "videoPrompt": "Slow camera pan across the office space, subtle light movement through windows, smooth transition, 16:9 widescreen format, cinematic motion"
+      "imagePrompt": "Modern office interior with large windows, soft natural daylight, minimalist wooden desk, potted plants, ${aspectRatio} composition, photorealistic, 8k quality, cinematic lighting",
+      "videoPrompt": "Slow camera pan across the office space, subtle light movement through windows, smooth transition, ${promptFormat} format, cinematic motion"
     }
   ]
 }
@@ -139,15 +223,7 @@ export async function generateScript(
     contents: [
       {
         role: "user",
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              mimeType: "application/pdf",
-              data: pdfBase64,
-            },
-          },
-        ],
+        parts: [{ text: prompt }, ...buildSourceParts(source)],
       },
     ],
   });
@@ -179,6 +255,9 @@ export async function generateScript(
 
   // 디버깅: 파싱된 JSON 확인
   console.log("📦 Parsed JSON - scenes count:", parsedJson.scenes?.length || 0);
+  if (parsedJson.scenes?.length !== sceneCount) {
+    console.warn(`⚠️ 계획된 씬 개수(${sceneCount})와 생성된 씬 개수(${parsedJson.scenes?.length || 0})가 다릅니다`);
+  }
   if (parsedJson.scenes && parsedJson.scenes.length > 0) {
     console.log("First scene:", JSON.stringify(parsedJson.scenes[0], null, 2));
     console.log("Last scene:", JSON.stringify(parsedJson.scenes[parsedJson.scenes.length - 1], null, 2));
@@ -194,17 +273,17 @@ export async function generateScript(
     const originalScript = scene.script;
 
     console.log(`\n📝 씬 ${sceneNum} 처리 중...`);
-    console.log(`   원본: "${originalScript}" (${originalScript.replace(/\s/g, "").length}자)`);
+    console.log(`   원본: "${originalScript}" (${formatScriptLength(measureScriptLength(originalScript, language), language)})`);
 
     // 1. 괄호 자동 제거 (TTS가 괄호 안 단어를 중복 읽는 문제 방지)
     let processedScript = originalScript;
-    if (originalScript.includes("(") || originalScript.includes(")")) {
+    if (/[()（）]/.test(originalScript)) {
       console.warn(`   ⚠️ 괄호 발견 - 자동 제거 중...`);
-      // 괄호와 괄호 안의 내용 제거: "커서(Cursor)" → "커서"
-      processedScript = originalScript.replace(/\([^)]*\)/g, '').trim();
+      // 괄호와 괄호 안의 내용 제거: "커서(Cursor)" → "커서" (일본어 전각 괄호 포함)
+      processedScript = originalScript.replace(/\([^)]*\)|（[^）]*）/g, '').trim();
       // 연속 공백 정리
       processedScript = processedScript.replace(/\s+/g, ' ');
-      console.log(`   🔧 괄호 제거 후: "${processedScript}" (${processedScript.replace(/\s/g, "").length}자)`);
+      console.log(`   🔧 괄호 제거 후: "${processedScript}" (${formatScriptLength(measureScriptLength(processedScript, language), language)})`);
     }
 
     // 2. 인사말 검증 (비활성화: 길이만 적절하면 인사말 허용)
@@ -213,23 +292,17 @@ export async function generateScript(
     //   invalidScenes.push(`씬 ${sceneNum}: 인사말 포함 금지 - "${processedScript}"`);
     // }
 
-    // 3. 설명문 검증
-    const explanations = [
-      "이야기하겠습니다",
-      "소개합니다",
-      "설명하겠습니다",
-      "말씀드리겠습니다",
-      "에 대해",
-    ];
-    if (explanations.some((exp) => processedScript.includes(exp))) {
+    // 3. 설명문 검증 (언어별 표현, 대소문자 무시)
+    const normalizedScript = processedScript.toLowerCase();
+    if (languageDefinition.forbiddenPhrases.some((exp) => normalizedScript.includes(exp))) {
       invalidScenes.push(`씬 ${sceneNum}: 설명문 포함 금지 - "${processedScript}"`);
     }
 
     // 4. 길이 검증 및 AI 요약
     try {
-      const summarized = await validateAndSummarizeScript(processedScript);
+      const summarized = await validateAndSummarizeScript(processedScript, maxScriptLength, language);
       parsedJson.scenes[i].script = summarized;
-      console.log(`   ✅ 최종: "${summarized}" (${summarized.replace(/\s/g, "").length}자)`);
+      console.log(`   ✅ 최종: "${summarized}" (${formatScriptLength(measureScriptLength(summarized, language), language)})`);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       invalidScenes.push(`씬 ${sceneNum}: 요약 실패 - ${errorMsg}`);
@@ -255,46 +328,56 @@ export async function generateScript(
  * Gemini 2.5 Flash - 스크립트 길이 검증 및 요약
  *
  * @param script - 원본 스크립트
- * @returns 60자 이내로 요약된 스크립트
+ * @param maxLength - 최대 길이 (언어별 단위, 씬 길이에 따라 결정)
+ * @param language - 대본 언어
+ * @returns maxLength 이내로 요약된 스크립트
  */
-async function validateAndSummarizeScript(script: string): Promise<string> {
-  const scriptLength = script.replace(/\s/g, "").length;
-
-  // 이미 60자 이내면 그대로 반환
-  if (scriptLength <= 60) {
-    console.log(`✅ 스크립트 길이 OK: ${scriptLength}자`);
+async function validateAndSummarizeScript(
+  script: string,
+  maxLength = 60,
+  language: ScriptLanguage = "ko"
+): Promise<string> {
+  const languageDefinition = SCRIPT_LANGUAGE_DEFINITIONS[language];
+  const scriptLength = measureScriptLength(script, language);
+  const formatLength = (length: number) => formatScriptLength(length, language);
+
+  // 이미 제한 이내면 그대로 반환
+  if (scriptLength <= maxLength) {
+    console.log(`✅ 스크립트 길이 OK: ${formatLength(scriptLength)}`);
     return script;
   }
 
-  console.log(`⚠️ 스크립트 길이 초과: ${scriptLength}자 → 요약 필요`);
+  console.log(`⚠️ 스크립트 길이 초과: ${formatLength(scriptLength)} → 요약 필요`);
 
   // Gemini 2.5 Flash 모델 사용 (빠르고 저렴)
+  // 단어 단위 언어는 단어당 토큰이 많으므로 여유를 더 둠
+  const tokensPerUnit = languageDefinition.lengthUnit === "words" ? 4 : 2;
   const model = vertexAI.getGenerativeModel({
     model: "gemini-2.5-flash",
     generationConfig: {
       temperature: 0.3, // 일관성 있는 요약
-      maxOutputTokens: 100,
+      maxOutputTokens: Math.max(100, maxLength * tokensPerUnit),
     },
   });
 
+  const maxLengthLabel = describeScriptLimit(maxLength, language);
   const prompt = `
-다음 스크립트를 **정확히 60자 이내 (공백 제외)**로 요약하세요.
+다음 스크립트를 **정확히 ${maxLengthLabel} 이내**로 요약하세요.
 
 원본 스크립트:
 "${script}"
 
 요구사항:
-1. 🚨 **절대 제한: 60자 이내 (공백 제외)**
-2. 핵심 메시지를 충분히 설명하되 간결하게 (40~60자 권장)
-3. 자연스러운 구어체 (~죠, ~네요, ~거든요, ~잖아요)
-4. 인사말/설명문 절대 금지
-5. 괄호 표현 절대 금지
-6. 영어는 꼭 필요할 때만
-7. 구체적인 수치나 예시로 설득력 높이기
+1. 🚨 **절대 제한: ${maxLengthLabel} 이내**
+2. 🚨 **작성 언어: 원본과 같은 ${languageDefinition.nativeName}**
+3. 핵심 메시지를 충분히 설명하되 간결하게 (${Math.round(maxLength * 0.67)}~${formatLength(maxLength)} 권장)
+${languageDefinition.styleRules.map((rule, index) => `${index + 4}. ${rule}`).join("\n")}
 
 ✅ 좋은 예시:
-- "클로드 코드는 정말 강력하지만, 무제한 요금제가 없어져서 비용 관리가 필수가 됐어요." (43자)
-- "MCP 서버들을 전부 연결하면 기능은 좋지만, 오히려 토큰 낭비가 심해질 수 있거든요." (46자)
+${languageDefinition.goodExamples
+  .slice(0, 2)
+  .map((example) => `- "${example}" (${formatLength(measureScriptLength(example, language))})`)
+  .join("\n")}
 
 **요약된 스크립트만 출력하세요 (설명 없이):**
 `.trim();
@@ -308,17 +391,17 @@ async function validateAndSummarizeScript(script: string): Promise<string> {
   if (!summarized) {
     console.warn(`⚠️ Gemini 요약 실패 → 강제 자르기`);
     console.warn(`   Response structure:`, JSON.stringify(result.response, null, 2).substring(0, 500));
-    const trimmed = script.replace(/\s/g, "").slice(0, 60);
-    console.warn(`   강제 절단: "${trimmed}" (60자)`);
+    const trimmed = truncateScript(script, maxLength, language);
+    console.warn(`   강제 절단: "${trimmed}" (${formatLength(maxLength)})`);
     return trimmed;
   }
 
-  const summarizedLength = summarized.replace(/\s/g, "").length;
-  console.log(`✅ 요약 완료: ${scriptLength}자 → ${summarizedLength}자`);
+  const summarizedLength = measureScriptLength(summarized, language);
+  console.log(`✅ 요약 완료: ${formatLength(scriptLength)} → ${formatLength(summarizedLength)}`);
 
-  // 요약 후에도 60자 초과 시 강제 자르기
-  if (summarizedLength > 60) {
-    const trimmed = summarized.replace(/\s/g, "").slice(0, 60);
+  // 요약 후에도 제한 초과 시 강제 자르기
+  if (summarizedLength > maxLength) {
+    const trimmed = truncateScript(summarized, maxLength, language);
     console.warn(`⚠️ 요약 후에도 초과 → 강제 자르기: ${trimmed}`);
     return trimmed;
   }
@@ -326,6 +409,119 @@ async function validateAndSummarizeScript(script: string): Promise<string> {
   return summarized;
 }
 
+/**
+ * Gemini 2.5 Pro - 씬 대본 번역
+ *
+ * 씬 순서와 개수를 유지한 채 한 번에 번역하고 (문맥 유지),
+ * 각 씬은 원본 발화 시간에 맞는 대상 언어 길이 제한으로 다시 검증/요약한다.
+ *
+ * @param scenes - 원본 씬 (sceneNumber, script, 발화 시간)
+ * @param from - 원본 언어
+ * @param to - 대상 언어
+ * @returns sceneNumber → 번역된 대본
+ */
+export async function translateScripts(
+  scenes: { sceneNumber: number; script: string; seconds: number }[],
+  from: ScriptLanguage,
+  to: ScriptLanguage
+): Promise<Map<number, string>> {
+  const target = SCRIPT_LANGUAGE_DEFINITIONS[to];
+  const limits = new Map(
+    scenes.map((scene) => [scene.sceneNumber, getMaxScriptLength(scene.seconds, to)])
+  );
+
+  const model = vertexAI.getGenerativeModel({
+    model: "gemini-2.5-pro",
+    generationConfig: {
+      temperature: 0.3,
+      maxOutputTokens: getScriptTokenBudget(scenes.length),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: SchemaType.OBJECT,
+        properties: {
+          scenes: {
+            type: SchemaType.ARRAY,
+            items: {
+              type: SchemaType.OBJECT,
+              properties: {
+                sceneNumber: { type: SchemaType.INTEGER },
+                script: { type: SchemaType.STRING },
+              },
+              required: ["sceneNumber", "script"],
+            },
+          },
+        },
+        required: ["scenes"],
+      },
+    },
+  });
+
+  const prompt = `
+아바타 발표 영상의 씬별 대본을 ${SCRIPT_LANGUAGE_DEFINITIONS[from].nativeName}에서 ${target.nativeName}로 번역하세요.
+
+요구사항:
+1. 🚨 **씬 개수와 sceneNumber를 그대로 유지** (씬 합치기/나누기 금지)
+2. 🚨 **각 씬은 지정된 최대 길이 이내** (원본과 같은 발화 시간에 맞춰야 함)
+3. 직역보다 자연스러운 ${target.nativeName} 구어체로 의역
+4. 제품명/고유명사는 원문 표기 유지
+${target.styleRules.map((rule, index) => `${index + 5}. ${rule}`).join("\n")}
+
+✅ ${target.nativeName} 대본 예시:
+${target.goodExamples
+  .slice(0, 2)
+  .map((example) => `- "${example}"`)
+  .join("\n")}
+
+번역할 씬:
+${scenes
+  .map(
+    (scene) =>
+      `- 씬 ${scene.sceneNumber} (최대 ${describeScriptLimit(limits.get(scene.sceneNumber)!, to)}): "${scene.script}"`
+  )
+  .join("\n")}
+`.trim();
+
+  const result = await model.generateContent(prompt);
+  const text = result.response.candidates?.[0]?.content?.parts?.[0]?.text || "";
+
+  let parsed: { scenes?: { sceneNumber: number; script: string }[] };
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const jsonMatch = text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error("Failed to parse Gemini translation response - no valid JSON found");
+    }
+    parsed = JSON.parse(jsonMatch[0]);
+  }
+
+  const translated = new Map<number, string>();
+  for (const scene of parsed.scenes ?? []) {
+    const maxLength = limits.get(scene.sceneNumber);
+    if (maxLength === undefined || !scene.script?.trim()) continue;
+
+    // 괄호 제거 후 길이 검증 (generateScript와 동일한 후처리)
+    const cleaned = scene.script
+      .replace(/\([^)]*\)|（[^）]*）/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    translated.set(
+      scene.sceneNumber,
+      await validateAndSummarizeScript(cleaned, maxLength, to)
+    );
+  }
+
+  const missing = scenes.filter((scene) => !translated.has(scene.sceneNumber));
+  if (missing.length > 0) {
+    throw new Error(
+      `번역 결과에 누락된 씬이 있습니다: ${missing.map((scene) => scene.sceneNumber).join(", ")}`
+    );
+  }
+
+  console.log(`✅ ${scenes.length}개 씬 번역 완료 (${from} → ${to})`);
+  return translated;
+}
+
 /**
  * Nano Banana - 커스텀 아바타 이미지 생성
  *
@@ -421,11 +617,13 @@ Front-facing view, suitable for video avatar animation.
  *
  * @param rawPrompt - 원본 프롬프트
  * @param emotion - 감정/분위기 (조명과 색상 결정)
+ * @param aspectRatio - 화면 비율 (구도 문장 결정)
  * @returns 향상된 프롬프트
  */
 function enhanceImagePrompt(
   rawPrompt: string,
-  emotion: string = "professional"
+  emotion: string = "professional",
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): string {
   // Sanitization 적용
   const sanitizedPrompt = sanitizePrompt(rawPrompt);
@@ -479,7 +677,7 @@ function enhanceImagePrompt(
   // 공식 가이드라인에 따른 서술형 프롬프트 구성
   const enhancedPrompt = `
 ${sanitizedPrompt.trim()}.
-The scene is photographed with professional camera equipment, utilizing a wide-angle lens for comprehensive framing in 16:9 aspect ratio composition.
+The scene is photographed with professional camera equipment, ${ASPECT_RATIO_DEFINITIONS[aspectRatio].framing}.
 ${style.lighting}, creating a ${style.mood} atmosphere throughout the environment.
 The setting features ${style.colors}, with meticulous attention to material textures and surface qualities.
 Rich environmental details include smooth polished surfaces, natural material textures, and carefully considered spatial depth.
@@ -495,19 +693,21 @@ Rendered in 8k resolution with photorealistic quality, featuring cinematic color
 /**
  * Nano Banana - 씬 배경 이미지 생성
  *
- * @param imagePrompt - 이미지 생성 프롬프트 (16:9, photorealistic)
+ * @param imagePrompt - 이미지 생성 프롬프트 (photorealistic)
  * @param emotion - 감정/분위기 (선택사항, 프롬프트 향상에 사용)
+ * @param aspectRatio - 프로젝트 화면 비율 (기본 16:9)
  * @returns 생성된 이미지 Buffer
  */
 export async function generateBackgroundImage(
   imagePrompt: string,
-  emotion?: string
+  emotion?: string,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<Buffer> {
   console.log(`🎨 Generating background image with Gemini 2.5 Flash Image`);
   console.log(`   Original prompt: ${imagePrompt.substring(0, 100)}...`);
 
   // 프롬프트 향상 (공식 가이드라인 적용)
-  const enhancedPrompt = enhanceImagePrompt(imagePrompt, emotion);
+  const enhancedPrompt = enhanceImagePrompt(imagePrompt, emotion, aspectRatio);
   console.log(`   Enhanced prompt: ${enhancedPrompt.substring(0, 150)}...`);
 
   // Gemini 2.5 Flash Image 모델 사용
@@ -546,7 +746,7 @@ export async function generateBackgroundImage(
       candidateCount: 1,
       responseModalities: ["IMAGE"], // 이미지만 생성
       imageConfig: {
-        aspectRatio: "16:9", // 배경은 16:9 (와이드스크린)
+        aspectRatio, // 배경은 프로젝트 화면 비율 (16:9, 9:16, 1:1)
       },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } as any, // TypeScript 타입 우회 (SDK 타입 정의 부족)
@@ -610,13 +810,15 @@ export async function generateBackgroundImage(
  * @param prompt - 영상 설명
  * @param emotion - 감정/분위기 (선택사항, 카메라 움직임 최적화)
  * @param durationSeconds - 영상 길이 (초, Veo 3.0: 4/6/8만 허용, 기본값 8)
+ * @param aspectRatio - 프로젝트 화면 비율 (Veo는 16:9/9:16만 지원, 1:1은 16:9로 생성)
  * @returns Operation 정보
  */
 export async function generateVeoVideo(
   imageUrl: string,
   prompt: string,
   emotion?: string,
-  durationSeconds: number = 8
+  durationSeconds: number = 8,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
 ): Promise<{ name: string }> {
   const { GoogleAuth } = await import("google-auth-library");
 
@@ -677,7 +879,7 @@ export async function generateVeoVideo(
         },
       ],
       parameters: {
-        aspectRatio: "16:9",
+        aspectRatio: ASPECT_RATIO_DEFINITIONS[aspectRatio].veoAspectRatio,
         resolution: "720p",
         sampleCount: 1,
         duration: durationSeconds, // TTS 길이 기반 동적 설정
@@ -0,0 +1,171 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { localStorageDriver } from "./local";
+import { s3StorageDriver } from "./s3";
+import { supabaseStorageDriver } from "./supabase";
+import type { StorageDriver, StorageDriverName, StoredFile } from "./types";
+
+export type * from "./types";
+
+/**
+ * Storage 드라이버 레지스트리
+ *
+ * 배포 기본값: STORAGE_DRIVER (supabase | s3 | local, 기본 supabase)
+ * 조직별 선택: Organization.settings.storage (예: 온프레미스 고객은 "s3")
+ * 접속 정보(S3 endpoint, 로컬 디렉토리 등)는 배포 환경변수로만 설정한다.
+ *
+ * 파일을 쓸 때 사용한 드라이버 이름은 Asset / Document / OrganizationAsset.storageProvider에 기록하고,
+ * 읽기·삭제는 기록된 드라이버로 한다 (조직 설정이 바뀌어도 기존 파일은 그대로 접근 가능).
+ */
+
+const DRIVERS: Record<StorageDriverName, StorageDriver> = {
+  supabase: supabaseStorageDriver,
+  s3: s3StorageDriver,
+  local: localStorageDriver,
+};
+
+/**
+ * 드라이버 + 공통 헬퍼 (경로 정규화, File/URL 업로드, 단건 삭제, 프로젝트 정리)
+ */
+export interface Storage extends StorageDriver {
+  uploadFile(file: File, path: string): Promise<StoredFile>;
+  uploadFromUrl(url: string, path: string): Promise<StoredFile>;
+  deleteFile(path: string): Promise<void>;
+  deleteProjectFiles(projectId: string): Promise<void>;
+}
+
+function isStorageDriverName(name: unknown): name is StorageDriverName {
+  return typeof name === "string" && name in DRIVERS;
+}
+
+/**
+ * 파일 경로 정규화 (한글 및 특수문자 처리)
+ *
+ * @param path - 원본 경로
+ * @returns 정규화된 경로 (파일명에 한글/특수문자가 있으면 임의 이름으로 대체)
+ */
+function normalizePath(path: string): string {
+  // 경로를 슬래시로 분리
+  const parts = path.split("/");
+
+  // 각 부분을 정규화 (파일명만 인코딩, 디렉토리는 유지)
+  const normalized = parts.map((part, index) => {
+    // 마지막 부분(파일명)만 처리
+    if (index === parts.length - 1) {
+      // 파일명과 확장자 분리
+      const lastDotIndex = part.lastIndexOf(".");
+      if (lastDotIndex === -1) return part;
+
+      const name = part.substring(0, lastDotIndex);
+      const ext = part.substring(lastDotIndex);
+
+      // 한글 및 특수문자를 타임스탬프로 대체
+      const safeName = /[^\w\-.]/.test(name)
+        ? `file_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`
+        : name;
+
+      return `${safeName}${ext}`;
+    }
+    return part;
+  });
+
+  return normalized.join("/");
+}
+
+function withHelpers(driver: StorageDriver): Storage {
+  const uploadFromBuffer = (buffer: Buffer, path: string, contentType: string) =>
+    driver.uploadFromBuffer(buffer, normalizePath(path), contentType);
+
+  return {
+    ...driver,
+    uploadFromBuffer,
+
+    async uploadFile(file, path) {
+      return uploadFromBuffer(Buffer.from(await file.arrayBuffer()), path, file.type);
+    },
+
+    async uploadFromUrl(url, path) {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch file from URL: ${response.statusText}`);
+      }
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      const contentType = response.headers.get("content-type") || "application/octet-stream";
+
+      return uploadFromBuffer(buffer, path, contentType);
+    },
+
+    deleteFile: (path) => driver.deleteFiles([path]),
+
+    async deleteProjectFiles(projectId) {
+      const paths = await driver.listFiles(`projects/${projectId}`);
+      await driver.deleteFiles(paths);
+    },
+  };
+}
+
+const STORAGES = Object.fromEntries(
+  Object.entries(DRIVERS).map(([name, driver]) => [name, withHelpers(driver)])
+) as Record<StorageDriverName, Storage>;
+
+/**
+ * 배포 기본 드라이버 (STORAGE_DRIVER)
+ */
+export function getDefaultStorageName(): StorageDriverName {
+  const name = process.env.STORAGE_DRIVER;
+  if (!name) {
+    return "supabase";
+  }
+  if (!isStorageDriverName(name)) {
+    throw new Error(`Unknown STORAGE_DRIVER: ${name}`);
+  }
+  return name;
+}
+
+/**
+ * Organization.settings에서 드라이버 선택 추출 (미지정/알 수 없는 이름은 배포 기본값)
+ */
+export function resolveStorageName(organizationSettings: unknown): StorageDriverName {
+  const name = (organizationSettings as { storage?: unknown } | null)?.storage;
+  return isStorageDriverName(name) ? name : getDefaultStorageName();
+}
+
+/**
+ * 드라이버 조회 (이름 생략 시 배포 기본값)
+ *
+ * 기존 파일은 레코드의 storageProvider로 조회: getStorage(asset.storageProvider)
+ */
+export function getStorage(name?: string | null): Storage {
+  if (!name) {
+    return STORAGES[getDefaultStorageName()];
+  }
+  if (!isStorageDriverName(name)) {
+    throw new Error(`Unknown storage driver: ${name}`);
+  }
+  return STORAGES[name];
+}
+
+/**
+ * 조직의 새 파일 저장용 드라이버
+ */
+export async function getOrganizationStorage(organizationId: string): Promise<Storage> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+
+  return getStorage(resolveStorageName(organization?.settings));
+}
+
+/**
+ * 프로젝트가 속한 조직의 새 파일 저장용 드라이버
+ */
+export async function getProjectStorage(projectId: string): Promise<Storage> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { organization: { select: { settings: true } } },
+  });
+
+  return getStorage(resolveStorageName(project?.organization.settings));
+}
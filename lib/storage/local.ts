@@ -0,0 +1,213 @@
+import "server-only";
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageDriver, StoredFile } from "./types";
+
+/**
+ * 로컬 디스크 Storage 드라이버 (개발, 테스트, 단일 서버 온프레미스)
+ *
+ * - LOCAL_STORAGE_DIR: 저장 루트 (기본 ./.storage)
+ * - LOCAL_STORAGE_PUBLIC_URL: 공개 URL 베이스 (기본 {NEXTAUTH_URL}/api/storage)
+ *   → app/api/storage/[...path] 라우트가 파일을 제공한다.
+ *   D-ID 등 외부 서비스가 파일을 가져가야 하면 외부에서 접근 가능한 주소로 지정할 것.
+ *
+ * 서명 URL은 {공개 URL 베이스}/signed/... + expires, HMAC signature 쿼리
+ * (키: LOCAL_STORAGE_SIGNING_KEY 또는 NEXTAUTH_SECRET) → app/api/storage/signed/[...path] 라우트가 항상 검증한다.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain; charset=utf-8",
+  ".srt": "application/x-subrip",
+  ".vtt": "text/vtt",
+};
+
+function getRootDir(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || ".storage");
+}
+
+function getBaseUrl(): string {
+  const configured = process.env.LOCAL_STORAGE_PUBLIC_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, "");
+  }
+  return `${(process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/+$/, "")}/api/storage`;
+}
+
+function getSigningKey(): string {
+  const key = process.env.LOCAL_STORAGE_SIGNING_KEY || process.env.NEXTAUTH_SECRET;
+  if (!key) {
+    throw new Error("LOCAL_STORAGE_SIGNING_KEY or NEXTAUTH_SECRET is required for signed URLs");
+  }
+  return key;
+}
+
+/**
+ * 저장 경로 → 디스크 경로 (루트 밖으로 나가는 경로 차단)
+ */
+function resolveFilePath(storagePath: string): string {
+  const rootDir = getRootDir();
+  const resolved = path.resolve(rootDir, storagePath);
+  if (!resolved.startsWith(rootDir + path.sep)) {
+    throw new Error(`Invalid storage path: ${storagePath}`);
+  }
+  return resolved;
+}
+
+function sign(storagePath: string, expires: number): string {
+  return createHmac("sha256", getSigningKey())
+    .update(`${storagePath}:${expires}`)
+    .digest("hex");
+}
+
+// Content-Type은 저장하지 않고 제공 시 확장자로 결정
+async function uploadFromBuffer(buffer: Buffer, storagePath: string): Promise<StoredFile> {
+  const filePath = resolveFilePath(storagePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, buffer);
+
+  console.log(`[Storage] Saved to local disk: ${storagePath} (${(buffer.length / 1024).toFixed(2)} KB)`);
+
+  return { url: getPublicUrl(storagePath), path: storagePath };
+}
+
+async function downloadFile(storagePath: string): Promise<Blob> {
+  const data = await fs.readFile(resolveFilePath(storagePath)).catch((error: NodeJS.ErrnoException) => {
+    throw new Error(`Failed to read local file ${storagePath}: ${error.code ?? error.message}`);
+  });
+
+  return new Blob([new Uint8Array(data)], { type: getContentType(storagePath) });
+}
+
+async function copyFile(fromPath: string, toPath: string): Promise<StoredFile> {
+  const target = resolveFilePath(toPath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.copyFile(resolveFilePath(fromPath), target);
+
+  return { url: getPublicUrl(toPath), path: toPath };
+}
+
+async function deleteFiles(paths: string[]): Promise<void> {
+  await Promise.all(paths.map((storagePath) => fs.rm(resolveFilePath(storagePath), { force: true })));
+}
+
+async function listFiles(prefix: string): Promise<string[]> {
+  const rootDir = getRootDir();
+  const entries = await fs
+    .readdir(resolveFilePath(prefix), { recursive: true, withFileTypes: true })
+    .catch(() => []);
+
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => path.relative(rootDir, path.join(entry.parentPath, entry.name)).split(path.sep).join("/"));
+}
+
+function getPublicUrl(storagePath: string): string {
+  return `${getBaseUrl()}/${storagePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+async function createSignedUrl(storagePath: string, expiresIn: number): Promise<string> {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn;
+  const encodedPath = storagePath.split("/").map(encodeURIComponent).join("/");
+  return `${getBaseUrl()}/signed/${encodedPath}?expires=${expires}&signature=${sign(storagePath, expires)}`;
+}
+
+export function getContentType(storagePath: string): string {
+  return CONTENT_TYPES[path.extname(storagePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * 서명 URL 검증 (app/api/storage/signed 라우트용)
+ */
+export function verifyLocalSignature(storagePath: string, expires: string, signature: string): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isFinite(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(storagePath, expiresAt), "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 파일 읽기 (app/api/storage 라우트용, 없으면 null)
+ */
+export async function readLocalFile(storagePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(resolveFilePath(storagePath));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 파일 응답 생성 (app/api/storage 라우트용)
+ *
+ * 브라우저 영상 탐색을 위해 단일 Range 요청을 지원한다.
+ */
+export async function createLocalFileResponse(
+  request: Request,
+  storagePath: string,
+  cacheControl: string
+): Promise<Response> {
+  const data = await readLocalFile(storagePath);
+  if (!data) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const headers = {
+    "Content-Type": getContentType(storagePath),
+    "Accept-Ranges": "bytes",
+    "Cache-Control": cacheControl,
+  };
+
+  const range = request.headers.get("range")?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(data.length - Number(range[2]), 0);
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), data.length - 1) : data.length - 1;
+
+    if (start > end || start >= data.length) {
+      return new Response(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${data.length}` },
+      });
+    }
+
+    return new Response(new Uint8Array(data.subarray(start, end + 1)), {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": `bytes ${start}-${end}/${data.length}`,
+        "Content-Length": String(end - start + 1),
+      },
+    });
+  }
+
+  return new Response(new Uint8Array(data), {
+    headers: { ...headers, "Content-Length": String(data.length) },
+  });
+}
+
+export const localStorageDriver: StorageDriver = {
+  name: "local",
+  uploadFromBuffer,
+  downloadFile,
+  copyFile,
+  deleteFiles,
+  listFiles,
+  getPublicUrl,
+  createSignedUrl,
+};
@@ -0,0 +1,274 @@
+import "server-only";
+import { createHash, createHmac } from "crypto";
+import type { StorageDriver, StoredFile } from "./types";
+
+/**
+ * S3 호환 Storage 드라이버 (AWS S3, MinIO 등)
+ *
+ * SDK 없이 fetch + AWS Signature V4로 호출한다 (path-style 주소: {endpoint}/{bucket}/{key}).
+ *
+ * - S3_ENDPOINT: 예) http://minio.internal:9000, https://s3.ap-northeast-2.amazonaws.com
+ * - S3_REGION: 기본 us-east-1 (MinIO 기본값)
+ * - S3_BUCKET: 기본 assets
+ * - S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY
+ * - S3_PUBLIC_URL: 공개 URL 베이스 (CDN 등, 기본 {endpoint}/{bucket})
+ *   공개 URL을 쓰려면 버킷에 public read 정책이 있어야 한다.
+ */
+
+const DELETE_CONCURRENCY = 10;
+
+interface S3Config {
+  endpoint: URL;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string;
+}
+
+function getConfig(): S3Config {
+  const { S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_ENDPOINT || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error("S3_ENDPOINT, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for s3 storage");
+  }
+
+  const endpoint = new URL(S3_ENDPOINT);
+  const bucket = process.env.S3_BUCKET || "assets";
+  const basePath = endpoint.pathname.replace(/\/+$/, "");
+
+  return {
+    endpoint,
+    region: process.env.S3_REGION || "us-east-1",
+    bucket,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    publicUrl: (process.env.S3_PUBLIC_URL || `${endpoint.origin}${basePath}/${bucket}`).replace(/\/+$/, ""),
+  };
+}
+
+// ---- AWS Signature V4 ----
+
+// RFC 3986 인코딩 (encodeURIComponent가 남기는 !'()*까지 인코딩)
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeRfc3986).join("/");
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function signingKey(config: S3Config, date: string): Buffer {
+  const dateKey = hmac(`AWS4${config.secretAccessKey}`, date);
+  const regionKey = hmac(dateKey, config.region);
+  const serviceKey = hmac(regionKey, "s3");
+  return hmac(serviceKey, "aws4_request");
+}
+
+function amzTimestamp(now: Date): { amzDate: string; date: string } {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  return { amzDate, date: amzDate.slice(0, 8) };
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+  return Object.keys(query)
+    .sort()
+    .map((key) => `${encodeRfc3986(key)}=${encodeRfc3986(query[key])}`)
+    .join("&");
+}
+
+function objectPath(config: S3Config, key?: string): string {
+  const basePath = config.endpoint.pathname.replace(/\/+$/, "");
+  return `${basePath}/${encodeRfc3986(config.bucket)}${key === undefined ? "" : `/${encodeKey(key)}`}`;
+}
+
+/**
+ * 서명된 S3 요청
+ */
+async function s3Request(
+  method: "GET" | "PUT" | "DELETE",
+  key: string | undefined,
+  options: { query?: Record<string, string>; headers?: Record<string, string>; body?: Buffer } = {}
+): Promise<Response> {
+  const config = getConfig();
+  const { amzDate, date } = amzTimestamp(new Date());
+  const query = options.query ?? {};
+  const payloadHash = sha256Hex(options.body ?? "");
+
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(options.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])),
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": payloadHash,
+  };
+  // Host는 서명에만 포함 (요청 헤더는 fetch가 URL에서 설정)
+  const signed: Record<string, string> = { ...headers, host: config.endpoint.host };
+  const headerNames = Object.keys(signed).sort();
+  const signedHeaders = headerNames.join(";");
+
+  const path = objectPath(config, key);
+  const queryString = canonicalQuery(query);
+  const canonicalRequest = [
+    method,
+    path,
+    queryString,
+    headerNames.map((name) => `${name}:${signed[name].trim()}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signature = createHmac("sha256", signingKey(config, date)).update(stringToSign).digest("hex");
+
+  return fetch(`${config.endpoint.origin}${path}${queryString ? `?${queryString}` : ""}`, {
+    method,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: options.body ? new Uint8Array(options.body) : undefined,
+  });
+}
+
+async function assertOk(response: Response, action: string): Promise<void> {
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`S3 ${action} failed (${response.status}): ${detail.slice(0, 500)}`);
+  }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// ---- 드라이버 구현 ----
+
+async function uploadFromBuffer(buffer: Buffer, path: string, contentType: string): Promise<StoredFile> {
+  console.log(`[Storage] Uploading to S3: ${path} (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
+
+  const response = await s3Request("PUT", path, {
+    headers: { "content-type": contentType, "cache-control": "max-age=3600" },
+    body: buffer,
+  });
+  await assertOk(response, `upload of ${path}`);
+
+  return { url: getPublicUrl(path), path };
+}
+
+async function downloadFile(path: string): Promise<Blob> {
+  const response = await s3Request("GET", path);
+  await assertOk(response, `download of ${path}`);
+  return response.blob();
+}
+
+async function copyFile(fromPath: string, toPath: string): Promise<StoredFile> {
+  const config = getConfig();
+  const response = await s3Request("PUT", toPath, {
+    headers: { "x-amz-copy-source": `/${encodeRfc3986(config.bucket)}/${encodeKey(fromPath)}` },
+  });
+  await assertOk(response, `copy of ${fromPath} → ${toPath}`);
+
+  return { url: getPublicUrl(toPath), path: toPath };
+}
+
+async function deleteFiles(paths: string[]): Promise<void> {
+  // DeleteObjects(POST ?delete)는 Content-MD5가 필요해 MinIO/S3 호환성이 갈리므로 개별 DELETE
+  for (let i = 0; i < paths.length; i += DELETE_CONCURRENCY) {
+    await Promise.all(
+      paths.slice(i, i + DELETE_CONCURRENCY).map(async (path) => {
+        const response = await s3Request("DELETE", path);
+        if (response.status !== 404) {
+          await assertOk(response, `delete of ${path}`);
+        }
+      })
+    );
+  }
+}
+
+async function listFiles(prefix: string): Promise<string[]> {
+  const paths: string[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await s3Request("GET", undefined, {
+      query: {
+        "list-type": "2",
+        prefix: `${prefix.replace(/\/+$/, "")}/`,
+        ...(continuationToken ? { "continuation-token": continuationToken } : {}),
+      },
+    });
+    await assertOk(response, `list of ${prefix}`);
+
+    const xml = await response.text();
+    for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+      paths.push(decodeXml(match[1]));
+    }
+
+    const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+    continuationToken = next ? decodeXml(next[1]) : undefined;
+  } while (continuationToken);
+
+  return paths;
+}
+
+function getPublicUrl(path: string): string {
+  return `${getConfig().publicUrl}/${encodeKey(path)}`;
+}
+
+/**
+ * Presigned GET URL (쿼리 서명, 최대 7일)
+ */
+async function createSignedUrl(path: string, expiresIn: number): Promise<string> {
+  const config = getConfig();
+  const { amzDate, date } = amzTimestamp(new Date());
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${config.accessKeyId}/${scope}`,
+    "X-Amz-Date": amzDate,
+    "X-Amz-Expires": String(Math.min(expiresIn, 7 * 24 * 3600)),
+    "X-Amz-SignedHeaders": "host",
+  };
+
+  const canonicalPath = objectPath(config, path);
+  const canonicalRequest = [
+    "GET",
+    canonicalPath,
+    canonicalQuery(query),
+    `host:${config.endpoint.host}\n`,
+    "host",
+    "UNSIGNED-PAYLOAD",
+  ].join("\n");
+
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signature = createHmac("sha256", signingKey(config, date)).update(stringToSign).digest("hex");
+
+  return `${config.endpoint.origin}${canonicalPath}?${canonicalQuery(query)}&X-Amz-Signature=${signature}`;
+}
+
+export const s3StorageDriver: StorageDriver = {
+  name: "s3",
+  uploadFromBuffer,
+  downloadFile,
+  copyFile,
+  deleteFiles,
+  listFiles,
+  getPublicUrl,
+  createSignedUrl,
+};
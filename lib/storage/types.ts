@@ -0,0 +1,27 @@
+/**
+ * Storage 드라이버 인터페이스
+ *
+ * 업로드/다운로드 코드는 벤더 SDK 대신 이 인터페이스만 호출한다. 드라이버 선택은 index.ts 참고.
+ * 경로(path)는 드라이버와 무관하게 "projects/{projectId}/..." 형식의 버킷 내 상대 경로.
+ */
+
+export type StorageDriverName = "supabase" | "s3" | "local";
+
+export interface StoredFile {
+  url: string; // 공개 URL
+  path: string; // 실제 저장된 경로 (정규화 후)
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  uploadFromBuffer(buffer: Buffer, path: string, contentType: string): Promise<StoredFile>;
+  downloadFile(path: string): Promise<Blob>;
+  /** 같은 드라이버 내부 복사 (대상이 있으면 덮어씀) */
+  copyFile(fromPath: string, toPath: string): Promise<StoredFile>;
+  /** 없는 경로는 무시 */
+  deleteFiles(paths: string[]): Promise<void>;
+  /** prefix 하위 모든 파일 경로 (하위 폴더 포함) */
+  listFiles(prefix: string): Promise<string[]>;
+  getPublicUrl(path: string): string;
+  createSignedUrl(path: string, expiresIn: number): Promise<string>;
+}
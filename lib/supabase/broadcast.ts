@@ -0,0 +1,31 @@
+import "server-only";
+import { createServiceClient } from "./server";
+
+/**
+ * 상태 브로드캐스트 (서버에서 호출, lib/supabase/realtime.ts의 subscribeTo*Status로 구독)
+ *
+ * 진행 상황 알림용이므로 Supabase 미설정/전송 실패 시 경고만 남기고 작업은 계속한다.
+ *
+ * @param channelName - 채널 이름 (예: project:{id}:status)
+ * @param payload - 전송할 데이터
+ */
+export async function broadcastStatus(
+  channelName: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return;
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    await supabase.channel(channelName).send({
+      type: "broadcast",
+      event: "status",
+      payload,
+    });
+  } catch (error) {
+    console.warn(`⚠️ Failed to broadcast status on ${channelName}:`, error);
+  }
+}
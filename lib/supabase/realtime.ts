@@ -6,7 +6,7 @@ import type { RealtimeChannel } from "@supabase/supabase-js";
 /**
  * Supabase Realtime 헬퍼
  *
- * 실시간 데이터 변경 감지 및 브로드캐스트
+ * 실시간 데이터 변경 감지 (브로드캐스트 전송은 서버 전용 lib/supabase/broadcast.ts)
  */
 
 /**
@@ -77,22 +77,3 @@ export function subscribeToSceneStatus(
 
   return channel;
 }
-
-/**
- * 상태 브로드캐스트 (서버에서 호출)
- *
- * @param channelName - 채널 이름
- * @param payload - 전송할 데이터
- */
-export async function broadcastStatus(
-  channelName: string,
-  payload: Record<string, unknown>
-): Promise<void> {
-  const supabase = createClient();
-
-  await supabase.channel(channelName).send({
-    type: "broadcast",
-    event: "status",
-    payload,
-  });
-}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import type { AvatarLayout } from "./avatar-layout";
+
+/**
+ * 영상 화면 비율
+ *
+ * - 프로젝트 기본값: Project.settings.aspectRatio (대본 프롬프트, 배경 이미지/영상 생성, 기본 렌더링)
+ * - 추가 비율 렌더링: render API (videoRender) 옵션으로 지정
+ *   → 이미 생성된 배경은 새 캔버스를 채우도록 잘라서(cover) 합성한다
+ *
+ * FFmpegService(서버)와 프로젝트 폼/미리보기(클라이언트)가 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const ASPECT_RATIOS = ["16:9", "9:16", "1:1"] as const;
+export type AspectRatio = (typeof ASPECT_RATIOS)[number];
+
+export const aspectRatioSchema = z.enum(ASPECT_RATIOS);
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "16:9";
+
+export interface AspectRatioDefinition {
+  label: string;
+  width: number; // 출력 캔버스 (px)
+  height: number;
+  promptFormat: string; // 대본 프롬프트의 imagePrompt/videoPrompt 비율 표현
+  framing: string; // 배경 이미지 프롬프트 구도 문장
+  veoAspectRatio: "16:9" | "9:16"; // Veo 지원 비율 (1:1은 16:9로 생성 후 합성 시 크롭)
+  fileSuffix: string; // 추가 비율 렌더링 파일명 (final_video_9x16.mp4)
+  avatarLayout: Partial<AvatarLayout>; // 비율별 기본 PIP 크기/여백 (scale은 캔버스 너비 대비)
+}
+
+export const ASPECT_RATIO_DEFINITIONS: Record<AspectRatio, AspectRatioDefinition> = {
+  "16:9": {
+    label: "16:9 가로 (YouTube, 발표)",
+    width: 1920,
+    height: 1080,
+    promptFormat: "16:9 widescreen",
+    framing: "utilizing a wide-angle lens for comprehensive framing in 16:9 aspect ratio composition",
+    veoAspectRatio: "16:9",
+    fileSuffix: "16x9",
+    avatarLayout: {},
+  },
+  "9:16": {
+    label: "9:16 세로 (Shorts, Reels)",
+    width: 1080,
+    height: 1920,
+    promptFormat: "9:16 vertical",
+    framing:
+      "framed vertically for mobile viewing in 9:16 portrait aspect ratio composition, " +
+      "with the key elements in the upper two-thirds of the frame",
+    veoAspectRatio: "9:16",
+    fileSuffix: "9x16",
+    avatarLayout: { scale: 0.5, margin: 48 },
+  },
+  "1:1": {
+    label: "1:1 정사각형 (피드)",
+    width: 1080,
+    height: 1080,
+    promptFormat: "1:1 square",
+    framing: "with balanced centered framing in 1:1 square aspect ratio composition",
+    veoAspectRatio: "16:9",
+    fileSuffix: "1x1",
+    avatarLayout: { scale: 0.36, margin: 48 },
+  },
+};
+
+/**
+ * Project.settings에서 화면 비율 추출 (미지정/잘못된 값은 16:9)
+ */
+export function resolveAspectRatio(projectSettings: unknown): AspectRatio {
+  const parsed = aspectRatioSchema.safeParse(
+    (projectSettings as { aspectRatio?: unknown } | null)?.aspectRatio
+  );
+  return parsed.success ? parsed.data : DEFAULT_ASPECT_RATIO;
+}
+
+/**
+ * 캔버스를 짧은 변 기준으로 축소/확대한 크기 (짝수 px, 인코딩 프로필/HLS 렌디션용)
+ */
+export function scaleToShortSide(
+  canvas: Pick<AspectRatioDefinition, "width" | "height">,
+  shortSide: number
+): { width: number; height: number } {
+  const factor = shortSide / Math.min(canvas.width, canvas.height);
+
+  return {
+    width: Math.round((canvas.width * factor) / 2) * 2,
+    height: Math.round((canvas.height * factor) / 2) * 2,
+  };
+}
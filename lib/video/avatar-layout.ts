@@ -0,0 +1,140 @@
+import { z } from "zod";
+import { ASPECT_RATIO_DEFINITIONS, resolveAspectRatio, type AspectRatio } from "./aspect-ratio";
+
+/**
+ * 아바타 오버레이 레이아웃 모델
+ *
+ * - 프로젝트 기본값: Project.settings.avatarLayout
+ * - 씬별 오버라이드: Scene.metadata.avatarLayout
+ *
+ * FFmpegService(서버)와 project-detail 미리보기(클라이언트)가 함께 사용하므로
+ * server-only 의존성을 두지 않는다.
+ */
+
+export const AVATAR_LAYOUT_MODES = ["pip", "fullscreen", "split", "hidden"] as const;
+export const AVATAR_CORNERS = ["top-left", "top-right", "bottom-left", "bottom-right"] as const;
+export const AVATAR_SPLIT_SIDES = ["left", "right"] as const;
+export const AVATAR_MASKS = ["circle", "square", "rounded"] as const;
+
+export type AvatarLayoutMode = (typeof AVATAR_LAYOUT_MODES)[number];
+export type AvatarCorner = (typeof AVATAR_CORNERS)[number];
+export type AvatarSplitSide = (typeof AVATAR_SPLIT_SIDES)[number];
+export type AvatarMask = (typeof AVATAR_MASKS)[number];
+
+export const avatarLayoutSchema = z.object({
+  mode: z.enum(AVATAR_LAYOUT_MODES),
+  corner: z.enum(AVATAR_CORNERS).optional(), // pip 전용
+  side: z.enum(AVATAR_SPLIT_SIDES).optional(), // split 전용 (아바타가 위치할 쪽)
+  scale: z.number().min(0.1).max(0.6).optional(), // pip 전용 (캔버스 너비 대비 비율)
+  margin: z.number().int().min(0).max(400).optional(), // pip 전용 (px)
+  mask: z.enum(AVATAR_MASKS).optional(), // pip 전용
+});
+
+export type AvatarLayout = z.infer<typeof avatarLayoutSchema>;
+
+/**
+ * 기본 레이아웃 (우하단, 캔버스 너비 28%, 64px 여백, 원형 마스크)
+ *
+ * 레이아웃 도입 전 하드코딩 합성과 출력 크기가 다르다.
+ * 이전에는 아바타 원본 너비의 28%(scale=iw*0.28)를 원본 비율 그대로 썼지만,
+ * 지금은 캔버스 너비의 28%(1920 기준 538px)로 정사각형 크롭 후 원형 마스크를 씌운다.
+ * 따라서 기존 프로젝트도 다시 렌더링하면 아바타 크기/모양이 이 기준으로 바뀐다.
+ */
+export const DEFAULT_AVATAR_LAYOUT: Required<AvatarLayout> = {
+  mode: "pip",
+  corner: "bottom-right",
+  side: "right",
+  scale: 0.28,
+  margin: 64,
+  mask: "circle",
+};
+
+/**
+ * UI에서 선택 가능한 레이아웃 프리셋
+ */
+export const AVATAR_LAYOUT_PRESETS: Record<
+  string,
+  { label: string; layout: AvatarLayout }
+> = {
+  "pip-bottom-right": {
+    label: "PIP - 우하단",
+    layout: { mode: "pip", corner: "bottom-right" },
+  },
+  "pip-bottom-left": {
+    label: "PIP - 좌하단",
+    layout: { mode: "pip", corner: "bottom-left" },
+  },
+  "pip-top-right": {
+    label: "PIP - 우상단",
+    layout: { mode: "pip", corner: "top-right" },
+  },
+  "pip-top-left": {
+    label: "PIP - 좌상단",
+    layout: { mode: "pip", corner: "top-left" },
+  },
+  "split-left": {
+    label: "좌우 분할 - 아바타 왼쪽",
+    layout: { mode: "split", side: "left" },
+  },
+  "split-right": {
+    label: "좌우 분할 - 아바타 오른쪽",
+    layout: { mode: "split", side: "right" },
+  },
+  fullscreen: {
+    label: "전체 화면 발표자",
+    layout: { mode: "fullscreen" },
+  },
+  hidden: {
+    label: "아바타 숨김 (B-roll)",
+    layout: { mode: "hidden" },
+  },
+};
+
+/**
+ * 레이아웃에 해당하는 프리셋 키 조회 (mask/scale/margin은 무시)
+ */
+export function getAvatarLayoutPresetKey(layout: AvatarLayout): string {
+  const resolved = { ...DEFAULT_AVATAR_LAYOUT, ...layout };
+
+  if (resolved.mode === "pip") return `pip-${resolved.corner}`;
+  if (resolved.mode === "split") return `split-${resolved.side}`;
+  return resolved.mode;
+}
+
+/**
+ * JSON 필드에서 레이아웃 추출 (형식이 잘못된 값은 무시)
+ */
+function parseLayout(value: unknown): AvatarLayout | null {
+  const result = avatarLayoutSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
+
+/**
+ * 씬에 적용할 최종 레이아웃 계산
+ *
+ * 우선순위: 씬 오버라이드 > 프로젝트 설정 > 화면 비율별 기본값 > 기본값
+ *
+ * @param projectSettings - Project.settings
+ * @param sceneMetadata - Scene.metadata
+ * @param aspectRatio - 렌더링 비율 (생략 시 프로젝트 비율)
+ * @returns 모든 필드가 채워진 레이아웃
+ */
+export function resolveAvatarLayout(
+  projectSettings: unknown,
+  sceneMetadata?: unknown,
+  aspectRatio: AspectRatio = resolveAspectRatio(projectSettings)
+): Required<AvatarLayout> {
+  const projectLayout = parseLayout(
+    (projectSettings as { avatarLayout?: unknown } | null)?.avatarLayout
+  );
+  const sceneLayout = parseLayout(
+    (sceneMetadata as { avatarLayout?: unknown } | null)?.avatarLayout
+  );
+
+  return {
+    ...DEFAULT_AVATAR_LAYOUT,
+    ...ASPECT_RATIO_DEFINITIONS[aspectRatio].avatarLayout,
+    ...(projectLayout ?? {}),
+    ...(sceneLayout ?? {}),
+  };
+}
@@ -0,0 +1,154 @@
+import "server-only";
+import { promises as fs } from "fs";
+import path from "path";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import type { FFmpegService } from "@/lib/services/ffmpeg";
+import { DEFAULT_SCENE_TRANSITION } from "@/lib/video/transitions";
+import {
+  BRAND_ASSET_KINDS,
+  BRAND_ASSET_SLOTS,
+  getBrandAssetIdKey,
+  resolveBrandKit,
+  type BrandAssetSlot,
+  type BrandKit,
+} from "@/lib/video/brand-kit";
+
+export interface PreparedBrandKit {
+  kit: BrandKit;
+  introPath: string | null; // 정규화된 인트로 클립 (로컬 임시 파일)
+  outroPath: string | null; // 정규화된 아웃트로 클립 또는 CTA 카드
+  logoPath: string | null;
+}
+
+/**
+ * 렌더링용 브랜드 키트 준비 (videoRender)
+ *
+ * Organization.settings.brandKit의 로고/인트로/아웃트로를 임시 디렉토리로 내려받고,
+ * 인트로/아웃트로는 씬과 이어 붙일 수 있도록 캔버스 크기로 정규화한다.
+ * 아웃트로 클립이 없고 CTA 문구가 있으면 CTA 카드를 생성한다.
+ * 설정된 자산이 삭제됐거나 다른 조직 소유면 해당 항목 없이 렌더링.
+ */
+export async function prepareBrandKit(
+  organizationId: string,
+  tempDir: string,
+  ffmpeg: FFmpegService
+): Promise<PreparedBrandKit> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { settings: true },
+  });
+  const kit = resolveBrandKit(organization?.settings);
+
+  const assetIds = BRAND_ASSET_SLOTS.map((slot) => kit[getBrandAssetIdKey(slot)]).filter(
+    (id): id is string => !!id
+  );
+  const assets = assetIds.length
+    ? await prisma.organizationAsset.findMany({
+        where: { id: { in: assetIds }, organizationId },
+      })
+    : [];
+
+  // 슬롯 자산 다운로드 (없으면 null)
+  async function download(slot: BrandAssetSlot): Promise<string | null> {
+    const assetId = kit[getBrandAssetIdKey(slot)];
+    if (!assetId) return null;
+
+    const asset = assets.find((a) => a.id === assetId && a.kind === BRAND_ASSET_KINDS[slot]);
+    if (!asset) {
+      console.warn(`⚠️ Brand ${slot} asset ${assetId} not found - rendering without it`);
+      return null;
+    }
+
+    const blob = await getStorage(asset.storageProvider).downloadFile(asset.storagePath);
+    const filePath = path.join(tempDir, `brand_${slot}_source${path.extname(asset.storagePath)}`);
+    await fs.writeFile(filePath, Buffer.from(await blob.arrayBuffer()));
+    return filePath;
+  }
+
+  async function normalize(slot: "intro" | "outro", sourcePath: string | null): Promise<string | null> {
+    if (!sourcePath) return null;
+
+    const outputPath = path.join(tempDir, `brand_${slot}.mp4`);
+    const hasAudio = await ffmpeg.hasAudioStream(sourcePath);
+    await ffmpeg.executeCommand(
+      ffmpeg.buildBumperNormalizeCommand(sourcePath, outputPath, hasAudio),
+      `Brand ${slot} normalization`
+    );
+    return outputPath;
+  }
+
+  const logoPath = await download("logo");
+  const introPath = await normalize("intro", await download("intro"));
+  let outroPath = await normalize("outro", await download("outro"));
+
+  if (!outroPath && kit.cta.text) {
+    const textPath = path.join(tempDir, "brand_cta.txt");
+    await fs.writeFile(textPath, kit.cta.text, "utf-8");
+
+    outroPath = path.join(tempDir, "brand_cta.mp4");
+    await ffmpeg.executeCommand(
+      ffmpeg.buildBrandCardCommand(outroPath, {
+        durationSeconds: kit.cta.durationSeconds,
+        backgroundColor: kit.colors.primary,
+        textColor: kit.colors.text,
+        fontName: kit.fonts.heading,
+        textPath,
+        logoPath,
+      }),
+      "Brand CTA card"
+    );
+  }
+
+  return { kit, introPath, outroPath, logoPath };
+}
+
+/**
+ * 본편에 브랜드 키트 적용 (워터마크 → 인트로/아웃트로 연결)
+ *
+ * 워터마크는 본편에만 얹고, 인트로/아웃트로는 컷으로 붙인다.
+ * 적용할 항목이 없으면 videoPath를 그대로 반환.
+ */
+export async function applyBrandKit(
+  ffmpeg: FFmpegService,
+  videoPath: string,
+  brandKit: PreparedBrandKit,
+  tempDir: string
+): Promise<string> {
+  let currentPath = videoPath;
+
+  if (brandKit.logoPath && brandKit.kit.watermark.enabled) {
+    const watermarkedPath = path.join(tempDir, "watermarked.mp4");
+    await ffmpeg.executeCommand(
+      ffmpeg.buildWatermarkCommand(currentPath, brandKit.logoPath, watermarkedPath, brandKit.kit.watermark),
+      "Brand watermark"
+    );
+    currentPath = watermarkedPath;
+  }
+
+  const parts = [brandKit.introPath, currentPath, brandKit.outroPath].filter(
+    (part): part is string => !!part
+  );
+
+  if (parts.length > 1) {
+    const scenes = await Promise.all(
+      parts.map(async (partPath) => ({
+        path: partPath,
+        duration: await ffmpeg.getVideoDuration(partPath),
+      }))
+    );
+    const brandedPath = path.join(tempDir, "branded.mp4");
+
+    await ffmpeg.executeCommand(
+      ffmpeg.buildConcatenationCommand(
+        scenes,
+        scenes.slice(0, -1).map(() => DEFAULT_SCENE_TRANSITION),
+        brandedPath
+      ),
+      "Brand bumpers"
+    );
+    currentPath = brandedPath;
+  }
+
+  return currentPath;
+}
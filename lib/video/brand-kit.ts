@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { AVATAR_CORNERS } from "./avatar-layout";
+import { SUBTITLE_FONT_NAME_PATTERN } from "./subtitles";
+
+/**
+ * 조직 브랜드 키트
+ *
+ * - 설정: Organization.settings.brandKit (색상, 폰트, 워터마크, CTA 카드, 업로드 자산 ID)
+ * - 자산: OrganizationAsset (kind "brand_logo" | "brand_intro" | "brand_outro")
+ *
+ * 렌더링 시 (videoRender):
+ * - 인트로 클립을 맨 앞에, 아웃트로 클립을 맨 뒤에 붙인다
+ *   (아웃트로가 없고 CTA 문구가 있으면 브랜드 색상/폰트로 CTA 카드를 만들어 붙인다)
+ * - 본편(씬 연결 + 배경 음악)에만 로고 워터마크를 얹는다
+ * - 자막 폰트를 따로 지정하지 않으면 브랜드 본문 폰트를 쓴다
+ *
+ * 렌더러(서버)와 브랜드 키트 설정 화면(클라이언트)이 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const BRAND_ASSET_SLOTS = ["logo", "intro", "outro"] as const;
+export type BrandAssetSlot = (typeof BRAND_ASSET_SLOTS)[number];
+
+export const BRAND_ASSET_KINDS: Record<BrandAssetSlot, string> = {
+  logo: "brand_logo",
+  intro: "brand_intro",
+  outro: "brand_outro",
+};
+
+export const BRAND_ASSET_TYPES: Record<BrandAssetSlot, { mimeTypes: string[]; extensions: string[]; maxSize: number }> = {
+  logo: {
+    mimeTypes: ["image/png", "image/jpeg", "image/webp"],
+    extensions: [".png", ".jpg", ".jpeg", ".webp"],
+    maxSize: 5 * 1024 * 1024, // 5MB
+  },
+  intro: {
+    mimeTypes: ["video/mp4", "video/quicktime", "video/webm"],
+    extensions: [".mp4", ".mov", ".webm"],
+    maxSize: 100 * 1024 * 1024, // 100MB
+  },
+  outro: {
+    mimeTypes: ["video/mp4", "video/quicktime", "video/webm"],
+    extensions: [".mp4", ".mov", ".webm"],
+    maxSize: 100 * 1024 * 1024, // 100MB
+  },
+};
+
+export const BRAND_ASSET_LABELS: Record<BrandAssetSlot, string> = {
+  logo: "로고",
+  intro: "인트로 클립",
+  outro: "아웃트로 클립",
+};
+
+export const WATERMARK_POSITIONS = AVATAR_CORNERS;
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "#RRGGBB 형식이어야 합니다.");
+
+// FFmpeg 필터 인자로 들어가므로 자막 폰트와 같은 규칙 적용
+const fontName = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .regex(SUBTITLE_FONT_NAME_PATTERN, "폰트 이름에 사용할 수 없는 문자가 있습니다.");
+
+export const brandColorsSchema = z.object({
+  primary: hexColor, // CTA 카드 배경
+  secondary: hexColor,
+  text: hexColor, // CTA 카드 문구
+});
+
+export const brandFontsSchema = z.object({
+  heading: fontName, // CTA 카드
+  body: fontName, // 자막 기본 폰트
+});
+
+export const watermarkSchema = z.object({
+  enabled: z.boolean(),
+  position: z.enum(WATERMARK_POSITIONS),
+  opacity: z.number().min(0.1).max(1),
+  scale: z.number().min(0.03).max(0.3), // 캔버스 너비 대비 로고 너비
+  margin: z.number().int().min(0).max(200), // px
+});
+
+export const brandCtaSchema = z.object({
+  text: z.string().trim().max(120), // 비어 있으면 CTA 카드 없음
+  durationSeconds: z.number().min(2).max(10),
+});
+
+export const brandKitSchema = z.object({
+  logoAssetId: z.string().nullable(),
+  introAssetId: z.string().nullable(),
+  outroAssetId: z.string().nullable(),
+  colors: brandColorsSchema,
+  fonts: brandFontsSchema,
+  watermark: watermarkSchema,
+  cta: brandCtaSchema,
+});
+
+export type BrandKit = z.infer<typeof brandKitSchema>;
+
+// PATCH /api/brand-kit 요청 (자산 ID는 업로드/삭제 API로만 변경)
+export const brandKitUpdateSchema = z.object({
+  colors: brandColorsSchema.partial().optional(),
+  fonts: brandFontsSchema.partial().optional(),
+  watermark: watermarkSchema.partial().optional(),
+  cta: brandCtaSchema.partial().optional(),
+});
+
+export type BrandKitUpdate = z.infer<typeof brandKitUpdateSchema>;
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  logoAssetId: null,
+  introAssetId: null,
+  outroAssetId: null,
+  colors: {
+    primary: "#111827",
+    secondary: "#3B82F6",
+    text: "#FFFFFF",
+  },
+  fonts: {
+    heading: "Noto Sans CJK KR",
+    body: "Noto Sans CJK KR",
+  },
+  watermark: {
+    enabled: true,
+    position: "top-right",
+    opacity: 0.7,
+    scale: 0.1,
+    margin: 40,
+  },
+  cta: {
+    text: "",
+    durationSeconds: 4,
+  },
+};
+
+/**
+ * 브랜드 키트 슬롯 → 설정의 자산 ID 키
+ */
+export function getBrandAssetIdKey(slot: BrandAssetSlot): "logoAssetId" | "introAssetId" | "outroAssetId" {
+  return `${slot}AssetId`;
+}
+
+/**
+ * Organization.settings에서 브랜드 키트 추출 (항목별로 잘못된 값은 기본값)
+ */
+export function resolveBrandKit(organizationSettings: unknown): BrandKit {
+  const stored = (organizationSettings as { brandKit?: Record<string, unknown> } | null)?.brandKit ?? {};
+  const section = <T extends z.ZodTypeAny>(schema: T, value: unknown, fallback: z.infer<T>): z.infer<T> => {
+    const parsed = schema.safeParse({ ...fallback, ...(value as object | undefined) });
+    return parsed.success ? parsed.data : fallback;
+  };
+  const assetId = (value: unknown) => (typeof value === "string" && value ? value : null);
+
+  return {
+    logoAssetId: assetId(stored.logoAssetId),
+    introAssetId: assetId(stored.introAssetId),
+    outroAssetId: assetId(stored.outroAssetId),
+    colors: section(brandColorsSchema, stored.colors, DEFAULT_BRAND_KIT.colors),
+    fonts: section(brandFontsSchema, stored.fonts, DEFAULT_BRAND_KIT.fonts),
+    watermark: section(watermarkSchema, stored.watermark, DEFAULT_BRAND_KIT.watermark),
+    cta: section(brandCtaSchema, stored.cta, DEFAULT_BRAND_KIT.cta),
+  };
+}
+
+/**
+ * 업로드 파일이 슬롯에 맞는 형식인지 확인 (MIME 또는 확장자)
+ */
+export function isBrandAssetFile(slot: BrandAssetSlot, fileName: string, mimeType?: string): boolean {
+  const { mimeTypes, extensions } = BRAND_ASSET_TYPES[slot];
+  if (mimeType && mimeTypes.includes(mimeType)) {
+    return true;
+  }
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  return extensions.includes(extension);
+}
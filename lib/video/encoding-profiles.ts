@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { scaleToShortSide, type AspectRatioDefinition } from "./aspect-ratio";
+
+/**
+ * 최종 렌더링 인코딩 프로필
+ *
+ * 씬 합성/연결/브랜드 키트 단계는 작업용 H.264로 만들고,
+ * 마지막에 선택한 프로필로 한 번 더 인코딩한다 (해상도, 코덱, CRF, 오디오 비트레이트).
+ * 해상도는 화면 비율 캔버스의 짧은 변 기준 (720p 9:16 → 720x1280).
+ *
+ * 렌더링 API/함수(서버)와 렌더링 옵션 선택 UI(클라이언트)가 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const ENCODING_PROFILES = ["web_720p", "standard_1080p", "archive_4k", "webm_vp9"] as const;
+export type EncodingProfile = (typeof ENCODING_PROFILES)[number];
+
+export const encodingProfileSchema = z.enum(ENCODING_PROFILES);
+
+export const DEFAULT_ENCODING_PROFILE: EncodingProfile = "standard_1080p";
+
+export interface EncodingProfileDefinition {
+  label: string;
+  shortSide: number; // 출력 해상도 (캔버스 짧은 변, px)
+  container: "mp4" | "webm";
+  mimeType: string;
+  videoCodec: "libx264" | "libvpx-vp9";
+  audioCodec: "aac" | "libopus";
+  crf: number;
+  preset: string; // libx264 -preset / libvpx-vp9 -deadline
+  audioBitrate: string;
+}
+
+export const ENCODING_PROFILE_DEFINITIONS: Record<EncodingProfile, EncodingProfileDefinition> = {
+  web_720p: {
+    label: "720p 웹 경량",
+    shortSide: 720,
+    container: "mp4",
+    mimeType: "video/mp4",
+    videoCodec: "libx264",
+    audioCodec: "aac",
+    crf: 26,
+    preset: "fast",
+    audioBitrate: "96k",
+  },
+  standard_1080p: {
+    label: "1080p 표준",
+    shortSide: 1080,
+    container: "mp4",
+    mimeType: "video/mp4",
+    videoCodec: "libx264",
+    audioCodec: "aac",
+    crf: 21,
+    preset: "medium",
+    audioBitrate: "160k",
+  },
+  archive_4k: {
+    label: "4K 보관용",
+    shortSide: 2160,
+    container: "mp4",
+    mimeType: "video/mp4",
+    videoCodec: "libx264",
+    audioCodec: "aac",
+    crf: 17,
+    preset: "slow",
+    audioBitrate: "256k",
+  },
+  webm_vp9: {
+    label: "1080p WebM (VP9)",
+    shortSide: 1080,
+    container: "webm",
+    mimeType: "video/webm",
+    videoCodec: "libvpx-vp9",
+    audioCodec: "libopus",
+    crf: 32,
+    preset: "good",
+    audioBitrate: "128k",
+  },
+};
+
+/**
+ * 화면 비율 캔버스 → 프로필 출력 해상도 (짝수 px)
+ */
+export function getEncodingSize(
+  canvas: Pick<AspectRatioDefinition, "width" | "height">,
+  profile: EncodingProfile
+): { width: number; height: number } {
+  return scaleToShortSide(canvas, ENCODING_PROFILE_DEFINITIONS[profile].shortSide);
+}
@@ -0,0 +1,127 @@
+import "server-only";
+import { promises as fs } from "fs";
+import path from "path";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getProjectStorage } from "@/lib/storage";
+import type { FFmpegService } from "@/lib/services/ffmpeg";
+import {
+  HLS_CONTENT_TYPES,
+  HLS_MASTER_PLAYLIST,
+  HLS_SEGMENT_SECONDS,
+  selectHlsRenditions,
+} from "@/lib/video/hls";
+
+export interface PackagedHls {
+  assetId: string; // hls_master Asset
+  url: string; // 마스터 플레이리스트 공개 URL
+  renditions: string[];
+}
+
+/**
+ * 최종 영상 HLS 패키징 (videoRender 선택 단계)
+ *
+ * 렌디션별 세그먼트와 플레이리스트를 만들어 최종 영상 옆(final/hls/{파일명}/)에 업로드하고,
+ * hls_master / hls_rendition Asset을 만든 뒤 최종 영상 metadata.hls에 마스터 URL을 남긴다.
+ * 같은 파일명으로 다시 렌더링하면 세그먼트를 덮어쓴다.
+ */
+export async function packageHls(
+  ffmpeg: FFmpegService,
+  videoPath: string,
+  tempDir: string,
+  finalVideoAssetId: string
+): Promise<PackagedHls> {
+  const finalAsset = await prisma.asset.findUniqueOrThrow({
+    where: { id: finalVideoAssetId },
+  });
+
+  const hlsDir = path.join(tempDir, "hls");
+  await fs.mkdir(hlsDir, { recursive: true });
+
+  const { width, height } = await ffmpeg.getMediaInfo(videoPath);
+  const renditions = selectHlsRenditions(Math.min(width, height));
+
+  await ffmpeg.executeCommand(
+    ffmpeg.buildHlsCommand(videoPath, hlsDir, renditions),
+    "HLS packaging"
+  );
+
+  // 플레이리스트/세그먼트 업로드 (상대 경로 참조가 유지되도록 같은 prefix)
+  const finalPath = path.posix.parse(finalAsset.storagePath);
+  const prefix = `${finalPath.dir}/hls/${finalPath.name}`;
+  const storage = await getProjectStorage(finalAsset.projectId);
+  const uploaded = new Map<string, { url: string; path: string }>();
+
+  for (const fileName of (await fs.readdir(hlsDir)).sort()) {
+    const contentType = HLS_CONTENT_TYPES[path.extname(fileName)];
+    if (!contentType) continue;
+
+    const buffer = await fs.readFile(path.join(hlsDir, fileName));
+    uploaded.set(fileName, await storage.uploadFromBuffer(buffer, `${prefix}/${fileName}`, contentType));
+  }
+
+  const master = uploaded.get(HLS_MASTER_PLAYLIST);
+  if (!master) {
+    throw new Error("HLS packaging did not produce a master playlist");
+  }
+
+  const masterAsset = await prisma.asset.create({
+    data: {
+      projectId: finalAsset.projectId,
+      kind: "hls_master",
+      type: "hls_master",
+      url: master.url,
+      storageProvider: storage.name,
+      storagePath: master.path,
+      metadata: {
+        sourceAssetId: finalAsset.id,
+        renditions: renditions.map((rendition) => rendition.name),
+        segmentSeconds: HLS_SEGMENT_SECONDS,
+      },
+    },
+  });
+
+  for (const rendition of renditions) {
+    const playlist = uploaded.get(`${rendition.name}.m3u8`);
+    if (!playlist) continue;
+
+    const segmentPaths = [...uploaded.entries()]
+      .filter(([fileName]) => fileName.startsWith(`${rendition.name}_`))
+      .map(([, file]) => file.path);
+
+    await prisma.asset.create({
+      data: {
+        projectId: finalAsset.projectId,
+        kind: "hls_rendition",
+        type: "hls_rendition",
+        url: playlist.url,
+        storageProvider: storage.name,
+        storagePath: playlist.path,
+        metadata: {
+          masterAssetId: masterAsset.id,
+          name: rendition.name,
+          videoBitrateKbps: rendition.videoBitrateKbps,
+          audioBitrateKbps: rendition.audioBitrateKbps,
+          segmentPaths,
+        },
+      },
+    });
+  }
+
+  // 플레이어가 최종 영상에서 바로 HLS를 찾도록 기록
+  await prisma.asset.update({
+    where: { id: finalAsset.id },
+    data: {
+      metadata: {
+        ...((finalAsset.metadata as Prisma.JsonObject | null) ?? {}),
+        hls: { assetId: masterAsset.id, url: master.url },
+      },
+    },
+  });
+
+  return {
+    assetId: masterAsset.id,
+    url: master.url,
+    renditions: renditions.map((rendition) => rendition.name),
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * HLS 적응형 스트리밍 패키징 설정
+ *
+ * 최종 영상을 여러 화질(렌디션)의 H.264 TS 세그먼트 + 마스터 플레이리스트로 나눈다.
+ * - 저장 위치: projects/{projectId}/final/hls/{최종 파일명}/ (master.m3u8, {렌디션}.m3u8, {렌디션}_NNN.ts)
+ * - 플레이리스트는 상대 경로로 서로를 참조하므로 같은 prefix 아래 공개 URL로 바로 재생된다
+ * - Asset: 마스터 "hls_master", 렌디션별 "hls_rendition" (최종 영상 metadata.hls에 마스터 URL 기록)
+ */
+
+export interface HlsRendition {
+  name: string; // 플레이리스트/세그먼트 파일명 접두사
+  shortSide: number; // 캔버스 짧은 변 (px)
+  videoBitrateKbps: number;
+  audioBitrateKbps: number;
+}
+
+export const HLS_RENDITIONS: HlsRendition[] = [
+  { name: "360p", shortSide: 360, videoBitrateKbps: 800, audioBitrateKbps: 96 },
+  { name: "720p", shortSide: 720, videoBitrateKbps: 2800, audioBitrateKbps: 128 },
+  { name: "1080p", shortSide: 1080, videoBitrateKbps: 5000, audioBitrateKbps: 128 },
+];
+
+export const HLS_SEGMENT_SECONDS = 6;
+
+export const HLS_MASTER_PLAYLIST = "master.m3u8";
+
+export const HLS_CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+/**
+ * 원본 해상도보다 큰 렌디션은 제외 (업스케일 방지, 최소 1개는 유지)
+ */
+export function selectHlsRenditions(sourceShortSide: number): HlsRendition[] {
+  const renditions = HLS_RENDITIONS.filter((rendition) => rendition.shortSide <= sourceShortSide);
+  return renditions.length > 0 ? renditions : [HLS_RENDITIONS[0]];
+}
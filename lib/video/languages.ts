@@ -0,0 +1,199 @@
+import { z } from "zod";
+
+/**
+ * 대본 언어 설정
+ *
+ * 프로젝트 언어(Project.settings.language)에 따라 달라지는 값을 한곳에 모은다.
+ * - 대본 길이 단위: 공백 없이 읽는 언어(한국어/일본어)는 글자 수, 그 외는 단어 수
+ * - 발화 속도: 씬 길이 → 대본 최대 길이 계산 (planScenes)
+ * - 대본 프롬프트 규칙/예시: generateScript(), validateAndSummarizeScript()
+ * - TTS 언어 코드 및 자막 한 줄 길이: ttsGenerator
+ */
+
+export const SCRIPT_LANGUAGES = ["ko", "en", "ja", "vi"] as const;
+export type ScriptLanguage = (typeof SCRIPT_LANGUAGES)[number];
+
+export const scriptLanguageSchema = z.enum(SCRIPT_LANGUAGES);
+
+export const DEFAULT_SCRIPT_LANGUAGE: ScriptLanguage = "ko";
+
+export type ScriptLengthUnit = "chars" | "words";
+
+export interface ScriptLanguageDefinition {
+  label: string; // UI 표시용 (한국어)
+  nativeName: string;
+  lengthUnit: ScriptLengthUnit;
+  unitsPerSecond: number; // 자연스러운 발화 속도 (lengthUnit 기준)
+  subtitleMaxChars: number; // 자막 한 줄 최대 글자 수
+  styleRules: string[]; // 대본 스타일 규칙 (프롬프트에 그대로 삽입)
+  goodExamples: string[];
+  badExamples: string[]; // "예시" (사유) 형식
+  forbiddenPhrases: string[]; // 설명문 검출용
+}
+
+export const SCRIPT_LANGUAGE_DEFINITIONS: Record<ScriptLanguage, ScriptLanguageDefinition> = {
+  ko: {
+    label: "한국어",
+    nativeName: "한국어",
+    lengthUnit: "chars",
+    unitsPerSecond: 7.5, // 8초 씬 = 60자 (공백 제외)
+    subtitleMaxChars: 28,
+    styleRules: [
+      '인사말/자기소개 절대 금지 ("안녕하세요", "여러분" 등)',
+      '괄호 표현 절대 금지 ("(잠시 뜸들임)", "(예시)" 등)',
+      '설명문 금지 ("~에 대해 이야기하겠습니다", "~를 소개합니다" 등)',
+      "자연스러운 구어체 사용 (~죠, ~네요, ~거든요, ~잖아요)",
+      "영어는 꼭 필요할 때만 (한글로 대체 가능하면 대체)",
+      "구체적인 수치나 예시로 설득력 높이기",
+    ],
+    goodExamples: [
+      "클로드 코드는 정말 강력하지만, 무제한 요금제가 없어져서 비용 관리가 필수가 됐어요.",
+      "MCP 서버들을 전부 연결하면 기능은 좋지만, 오히려 토큰 낭비가 심해질 수 있거든요.",
+      "코드 분석 에이전트를 활용하면 토큰을 30%나 절약하면서도 더 정확한 분석이 가능해요.",
+      "컨텍스트 7을 쓰면 AI가 실시간으로 최신 기술 문서를 읽고 코드를 짜줘서 개발이 훨씬 빨라져요.",
+    ],
+    badExamples: [
+      '"안녕하세요. 오늘은 MCP 서버 활용법을 소개합니다." (인사말 + 설명문)',
+      '"정말 놀랍죠? (잠시 뜸들임) 이제 자세히 알아볼까요?" (괄호 표현)',
+      '"클로드 코드 짱" (너무 짧음)',
+      '"본 발표에서는 AI 코딩 도구의 효율적 활용 방안에 대하여 상세히 설명드리고자 합니다." (딱딱한 설명체)',
+    ],
+    forbiddenPhrases: ["이야기하겠습니다", "소개합니다", "설명하겠습니다", "말씀드리겠습니다", "에 대해"],
+  },
+  en: {
+    label: "영어",
+    nativeName: "English",
+    lengthUnit: "words",
+    unitsPerSecond: 2.5, // 약 150 wpm
+    subtitleMaxChars: 42,
+    styleRules: [
+      'No greetings or self-introductions ("Hello everyone", "Hi, I\'m" 등 금지)',
+      "괄호 표현 절대 금지",
+      'Meta narration 금지 ("In this video we will talk about", "Let me introduce" 등)',
+      "Conversational tone with contractions (it's, you'll, that's)",
+      "Short sentences that are easy to speak aloud",
+      "구체적인 수치나 예시로 설득력 높이기",
+    ],
+    goodExamples: [
+      "Claude Code is powerful, but without an unlimited plan, keeping costs in check really matters.",
+      "Connecting every MCP server sounds great, yet it can quietly burn through your tokens.",
+      "A code analysis agent can cut token usage by 30% while giving you sharper results.",
+    ],
+    badExamples: [
+      '"Hello everyone, today I will introduce how to use MCP servers." (인사말 + 설명문)',
+      '"Amazing, right? (pause) Let\'s dig in." (괄호 표현)',
+      '"Claude Code rocks." (너무 짧음)',
+      '"This presentation aims to provide a detailed explanation of efficient utilization strategies." (딱딱한 설명체)',
+    ],
+    forbiddenPhrases: ["we will talk about", "let me introduce", "i will explain", "in this video"],
+  },
+  ja: {
+    label: "일본어",
+    nativeName: "日本語",
+    lengthUnit: "chars",
+    unitsPerSecond: 7, // 약 420자/분
+    subtitleMaxChars: 24,
+    styleRules: [
+      '挨拶・自己紹介は禁止 ("こんにちは", "皆さん" 등 금지)',
+      "括弧表現 절대 금지 (（）와 () 모두)",
+      '説明調の前置き 금지 ("〜について説明します", "〜を紹介します" 등)',
+      "自然な話し言葉 (です・ます調, 〜ですよね, 〜なんです)",
+      "영어는 꼭 필요할 때만 (カタカナ 표기 우선)",
+      "구체적인 수치나 예시로 설득력 높이기",
+    ],
+    goodExamples: [
+      "Claude Codeはとても強力ですが、無制限プランがなくなったのでコスト管理が欠かせません。",
+      "MCPサーバーを全部つなぐと便利ですが、トークンを無駄に使ってしまうんです。",
+      "コード分析エージェントを使えば、トークンを3割も節約できるんですよ。",
+    ],
+    badExamples: [
+      '"こんにちは。今日はMCPサーバーの活用法を紹介します。" (인사말 + 설명문)',
+      '"すごいですよね？（間を置いて）では詳しく見ていきましょう。" (괄호 표현)',
+      '"本発表ではAIコーディングツールの効率的な活用方策について詳細に説明いたします。" (딱딱한 설명체)',
+    ],
+    forbiddenPhrases: ["について説明します", "を紹介します", "についてお話しします", "ご説明します"],
+  },
+  vi: {
+    label: "베트남어",
+    nativeName: "Tiếng Việt",
+    lengthUnit: "words",
+    unitsPerSecond: 3, // 음절 단위로 띄어 쓰므로 영어보다 단어 수가 많음
+    subtitleMaxChars: 42,
+    styleRules: [
+      'Không chào hỏi/giới thiệu bản thân ("Xin chào các bạn" 등 금지)',
+      "괄호 표현 절대 금지",
+      'Không dùng câu dẫn dắt kiểu thuyết trình ("Hôm nay tôi sẽ giới thiệu" 등)',
+      "Giọng văn tự nhiên, thân thiện như đang nói chuyện",
+      "영어는 꼭 필요할 때만",
+      "구체적인 수치나 예시로 설득력 높이기",
+    ],
+    goodExamples: [
+      "Claude Code rất mạnh, nhưng vì không còn gói không giới hạn nên phải quản lý chi phí thật kỹ.",
+      "Dùng agent phân tích mã có thể tiết kiệm tới 30% token mà kết quả còn chính xác hơn.",
+    ],
+    badExamples: [
+      '"Xin chào các bạn, hôm nay tôi sẽ giới thiệu cách dùng máy chủ MCP." (인사말 + 설명문)',
+      '"Tuyệt vời phải không? (dừng lại) Giờ cùng xem chi tiết nhé." (괄호 표현)',
+    ],
+    forbiddenPhrases: ["tôi sẽ giới thiệu", "tôi sẽ trình bày", "chúng ta sẽ nói về"],
+  },
+};
+
+/**
+ * Project.settings에서 대본 언어 추출 (미설정/잘못된 값은 기본 언어)
+ */
+export function resolveScriptLanguage(projectSettings: unknown): ScriptLanguage {
+  const language = (projectSettings as { language?: unknown } | null)?.language;
+  const parsed = scriptLanguageSchema.safeParse(language);
+  return parsed.success ? parsed.data : DEFAULT_SCRIPT_LANGUAGE;
+}
+
+/**
+ * 발화 시간(초)에 맞는 대본 최대 길이 (언어별 단위)
+ */
+export function getMaxScriptLength(seconds: number, language: ScriptLanguage): number {
+  return Math.round(seconds * SCRIPT_LANGUAGE_DEFINITIONS[language].unitsPerSecond);
+}
+
+/**
+ * 대본 길이 측정 (글자 수는 공백 제외, 단어 수는 공백 기준)
+ */
+export function measureScriptLength(text: string, language: ScriptLanguage): number {
+  if (SCRIPT_LANGUAGE_DEFINITIONS[language].lengthUnit === "words") {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+  return text.replace(/\s/g, "").length;
+}
+
+/**
+ * 최대 길이로 대본 자르기 (요약 실패 시 fallback, 띄어쓰기 유지)
+ */
+export function truncateScript(
+  text: string,
+  maxLength: number,
+  language: ScriptLanguage
+): string {
+  if (SCRIPT_LANGUAGE_DEFINITIONS[language].lengthUnit === "words") {
+    return text.split(/\s+/).filter(Boolean).slice(0, maxLength).join(" ");
+  }
+
+  let count = 0;
+  let result = "";
+  for (const char of text) {
+    if (!/\s/.test(char)) {
+      if (count >= maxLength) break;
+      count++;
+    }
+    result += char;
+  }
+  return result.trim();
+}
+
+/**
+ * 길이 표시 문자열: "60자" / "20단어"
+ */
+export function formatScriptLength(length: number, language: ScriptLanguage): string {
+  return SCRIPT_LANGUAGE_DEFINITIONS[language].lengthUnit === "words"
+    ? `${length}단어`
+    : `${length}자`;
+}
@@ -0,0 +1,46 @@
+import "server-only";
+import { promises as fs } from "fs";
+import path from "path";
+import { prisma } from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { MUSIC_ASSET_KIND, resolveProjectMusic, type ProjectMusic } from "@/lib/video/music";
+
+export interface PreparedMusicTrack {
+  path: string; // 로컬 임시 파일 경로
+  settings: ProjectMusic;
+}
+
+/**
+ * 렌더링용 배경 음악 준비 (videoRender)
+ *
+ * Project.settings.music에 선택된 트랙을 임시 디렉토리로 내려받는다.
+ * 선택이 없거나 트랙이 삭제/다른 조직 소유면 null (음악 없이 렌더링).
+ */
+export async function prepareProjectMusic(
+  project: { organizationId: string; settings: unknown },
+  tempDir: string
+): Promise<PreparedMusicTrack | null> {
+  const settings = resolveProjectMusic(project.settings);
+  if (!settings) {
+    return null;
+  }
+
+  const track = await prisma.organizationAsset.findFirst({
+    where: {
+      id: settings.assetId,
+      organizationId: project.organizationId,
+      kind: MUSIC_ASSET_KIND,
+    },
+  });
+
+  if (!track) {
+    console.warn(`⚠️ Music track ${settings.assetId} not found - rendering without music`);
+    return null;
+  }
+
+  const blob = await getStorage(track.storageProvider).downloadFile(track.storagePath);
+  const musicPath = path.join(tempDir, `music${path.extname(track.storagePath) || ".mp3"}`);
+  await fs.writeFile(musicPath, Buffer.from(await blob.arrayBuffer()));
+
+  return { path: musicPath, settings };
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/**
+ * 배경 음악 설정
+ *
+ * - 음악 파일: 조직별 라이브러리 (OrganizationAsset, kind "music")
+ * - 프로젝트 선택: Project.settings.music
+ *
+ * 렌더링 시 씬을 모두 이어 붙인 뒤 한 트랙을 처음부터 끝까지 깔고,
+ * 아바타 음성이 나올 때는 사이드체인 컴프레서로 음악을 자동으로 줄인다.
+ * 렌더러(서버)와 project-detail(클라이언트)이 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const MUSIC_ASSET_KIND = "music";
+
+export const MUSIC_MIME_TYPES = ["audio/mpeg", "audio/mp4", "audio/x-m4a", "audio/aac", "audio/wav", "audio/x-wav", "audio/ogg"];
+export const MUSIC_EXTENSIONS = [".mp3", ".m4a", ".aac", ".wav", ".ogg"];
+export const MUSIC_ACCEPT = [...MUSIC_EXTENSIONS, ...MUSIC_MIME_TYPES].join(",");
+export const MAX_MUSIC_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+export const DEFAULT_MUSIC_VOLUME = 0.25;
+
+export const projectMusicSchema = z.object({
+  assetId: z.string().min(1),
+  volume: z.number().min(0.05).max(1).default(DEFAULT_MUSIC_VOLUME), // 음성이 없을 때의 음악 볼륨
+  ducking: z.boolean().default(true), // 음성 구간에서 음악 자동 감쇠
+});
+
+export type ProjectMusic = z.infer<typeof projectMusicSchema>;
+
+/**
+ * Project.settings에서 배경 음악 설정 추출 (미선택/잘못된 값은 null)
+ */
+export function resolveProjectMusic(projectSettings: unknown): ProjectMusic | null {
+  const music = (projectSettings as { music?: unknown } | null)?.music;
+  const parsed = projectMusicSchema.safeParse(music);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * 업로드 파일이 지원하는 음악 형식인지 확인 (MIME 또는 확장자)
+ */
+export function isMusicFile(fileName: string, mimeType?: string): boolean {
+  if (mimeType && MUSIC_MIME_TYPES.includes(mimeType)) {
+    return true;
+  }
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  return MUSIC_EXTENSIONS.includes(extension);
+}
@@ -0,0 +1,57 @@
+/**
+ * 최종 렌더링 진행 상황
+ *
+ * videoRender가 단계마다 RenderJob(provider "ffmpeg").metadata.progress에 기록하고
+ * project:{projectId}:status 채널로 브로드캐스트한다 (subscribeToProjectStatus).
+ * 프로젝트 상세 화면은 브로드캐스트를 받고, Realtime이 없으면 GET /api/projects/[id]/render로 폴링한다.
+ *
+ * 렌더러(서버)와 프로젝트 상세(클라이언트)가 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export type RenderStage =
+  | "queued"
+  | "composing"
+  | "concatenating"
+  | "finishing"
+  | "uploading"
+  | "completed"
+  | "failed";
+
+export interface RenderProgress {
+  type: "render_progress";
+  renderJobId: string | null;
+  stage: RenderStage;
+  progress: number; // 0~100
+  message: string;
+  assetId?: string; // completed: 최종 영상 Asset
+  timestamp: string;
+}
+
+export const RENDER_STAGE_LABELS: Record<RenderStage, string> = {
+  queued: "대기 중",
+  composing: "씬 합성 중",
+  concatenating: "씬 연결 중",
+  finishing: "마무리 중",
+  uploading: "업로드 중",
+  completed: "렌더링 완료",
+  failed: "렌더링 실패",
+};
+
+export function getProjectStatusChannel(projectId: string): string {
+  return `project:${projectId}:status`;
+}
+
+/**
+ * 씬 합성 단계 진행률 (전체의 5~75%를 씬 수로 나눔)
+ */
+export function getCompositionProgress(composedCount: number, totalScenes: number): number {
+  return 5 + Math.round((70 * composedCount) / Math.max(totalScenes, 1));
+}
+
+/**
+ * RenderJob.metadata에서 진행 상황 추출
+ */
+export function resolveRenderProgress(renderJobMetadata: unknown): RenderProgress | null {
+  const progress = (renderJobMetadata as { progress?: RenderProgress } | null)?.progress;
+  return progress?.type === "render_progress" ? progress : null;
+}
@@ -0,0 +1,66 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+
+// 씬 구조를 바꾸면 안 되는 프로젝트 상태 (다른 파이프라인이 씬 목록을 순회 중)
+export const SCENE_EDIT_BLOCKED_STATUSES = [
+  "script_generating",
+  "translating",
+  "scenes_processing",
+  "rendering",
+];
+
+// 생성 작업이 진행 중인 씬 상태 (pending은 아직 시작 전이라 제외)
+export const SCENE_IN_PROGRESS_STATUSES = ["generating", "processing"];
+
+// 생성 작업(TTS/아바타/배경) 중 하나라도 진행 중인 씬 조건
+export const SCENE_IN_PROGRESS_WHERE: Prisma.SceneWhereInput = {
+  OR: [
+    { ttsStatus: { in: SCENE_IN_PROGRESS_STATUSES } },
+    { avatarStatus: { in: SCENE_IN_PROGRESS_STATUSES } },
+    { backgroundStatus: { in: SCENE_IN_PROGRESS_STATUSES } },
+  ],
+};
+
+/**
+ * 씬 단위 생성 작업(TTS/아바타/배경)이 진행 중인 씬이 있는지 확인
+ *
+ * 씬 단위 재생성은 프로젝트 상태를 바꾸지 않으므로 씬 상태로 판단한다.
+ * sceneId를 주면 해당 씬만 확인한다.
+ */
+export async function hasScenesInProgress(
+  client: Prisma.TransactionClient,
+  projectId: string,
+  sceneId?: string
+): Promise<boolean> {
+  const count = await client.scene.count({
+    where: { projectId, ...(sceneId && { id: sceneId }), ...SCENE_IN_PROGRESS_WHERE },
+  });
+
+  return count > 0;
+}
+
+/**
+ * 씬 번호 재부여 (sceneNumber = 순서 + 1, position = 순서)
+ *
+ * @@unique([projectId, sceneNumber]) 충돌을 피하기 위해 기존 번호를 먼저 음수로 옮긴 뒤
+ * 새 번호를 채운다. 새로 만든 씬은 0 이하의 겹치지 않는 임시 번호로 생성해 두면 된다.
+ * 반드시 트랜잭션 안에서 호출한다.
+ */
+export async function renumberScenes(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  orderedSceneIds: string[]
+): Promise<void> {
+  await tx.scene.updateMany({
+    where: { projectId, sceneNumber: { gt: 0 } },
+    data: { sceneNumber: { multiply: -1 } },
+  });
+
+  for (const [index, sceneId] of orderedSceneIds.entries()) {
+    await tx.scene.update({
+      where: { id: sceneId },
+      data: { sceneNumber: index + 1, position: index },
+    });
+  }
+}
+
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+/**
+ * 씬 처리 단계
+ *
+ * sceneProcessor는 이 순서대로 실행하며, event.data.parts로 일부만 실행할 수 있다.
+ * (예: 번역 버전은 배경을 재사용하므로 tts + avatar만 실행)
+ */
+export const SCENE_PARTS = ["tts", "avatar", "background"] as const;
+export type ScenePart = (typeof SCENE_PARTS)[number];
+
+export const scenePartsSchema = z.array(z.enum(SCENE_PARTS)).min(1);
+
+/**
+ * 아직 결과 Asset이 연결되지 않은 단계 (씬 추가/분할 후 재처리 대상)
+ */
+export function getMissingSceneParts(scene: {
+  audioAssetId: string | null;
+  avatarAssetId: string | null;
+  backgroundAssetId: string | null;
+  backgroundStatus: string;
+}): ScenePart[] {
+  return SCENE_PARTS.filter((part) => {
+    switch (part) {
+      case "tts":
+        return !scene.audioAssetId;
+      case "avatar":
+        return !scene.avatarAssetId;
+      case "background":
+        // low 우선순위 배경(그라데이션)은 Asset 없이 completed
+        return !scene.backgroundAssetId && scene.backgroundStatus !== "completed";
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_SCENE_COUNT,
+  MAX_VIDEO_DURATION,
+  MIN_SCENE_SECONDS,
+  planScenes,
+  ScenePlanError,
+  SCRIPT_BASE_TOKENS,
+  SCRIPT_MAX_OUTPUT_TOKENS,
+  SCRIPT_TOKENS_PER_SCENE,
+} from "./scene-plan";
+
+describe("planScenes", () => {
+  it("기본 씬 길이 8초에 가장 가까운 씬 개수를 고른다", () => {
+    const plan = planScenes(60);
+
+    expect(plan.sceneCount).toBe(8);
+    expect(plan.sceneSeconds).toBe(7.5);
+  });
+
+  it("최대 영상 길이도 최대 씬 수 안에서 나눈다", () => {
+    const plan = planScenes(MAX_VIDEO_DURATION);
+
+    expect(plan.sceneCount).toBeLessThanOrEqual(MAX_SCENE_COUNT);
+  });
+
+  it("최대 씬 수를 넘는 구성은 거부한다", () => {
+    expect(() =>
+      planScenes(MAX_VIDEO_DURATION, { sceneCount: MAX_SCENE_COUNT + 1, minSceneSeconds: MIN_SCENE_SECONDS })
+    ).toThrow(ScenePlanError);
+  });
+
+  it("최대 씬 수의 대본이 출력 토큰 상한 안에 들어간다", () => {
+    expect(SCRIPT_BASE_TOKENS + MAX_SCENE_COUNT * SCRIPT_TOKENS_PER_SCENE).toBeLessThanOrEqual(
+      SCRIPT_MAX_OUTPUT_TOKENS
+    );
+  });
+});
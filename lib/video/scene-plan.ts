@@ -0,0 +1,140 @@
+import { z } from "zod";
+import {
+  DEFAULT_SCRIPT_LANGUAGE,
+  getMaxScriptLength,
+  type ScriptLanguage,
+} from "./languages";
+
+/**
+ * 씬 구성 플래너
+ *
+ * 목표 영상 길이와 (선택) 씬 개수 / 씬 길이 범위로부터
+ * 대본 생성에 사용할 씬 개수와 씬당 길이를 계산한다.
+ *
+ * - 프로젝트 생성 시 검증: POST /api/projects
+ * - 대본 생성 시 사용: generateScript() 프롬프트 및 토큰 예산
+ * - 옵션 저장 위치: Project.settings.scenePlan
+ */
+
+// 대본 생성 출력 토큰 예산 (generateScript/translateScript): 기본 + 씬당 토큰, 모델 출력 상한
+export const SCRIPT_BASE_TOKENS = 4096;
+export const SCRIPT_TOKENS_PER_SCENE = 700; // 대본 + 프롬프트 3종
+export const SCRIPT_MAX_OUTPUT_TOKENS = 65535;
+
+export const MIN_VIDEO_DURATION = 10; // 초
+export const MAX_VIDEO_DURATION = 600; // 10분 (기본 씬 길이 6~10초로 최대 씬 수 안에 들어감)
+export const MIN_SCENE_SECONDS = 4;
+export const MAX_SCENE_SECONDS = 30;
+// 한 번의 응답에 대본 전체가 들어가야 하므로 출력 토큰 상한으로 제한
+// ((65,535 - 4,096) / 700 ≈ 87개, 여유를 두고 80개)
+export const MAX_SCENE_COUNT = 80;
+
+// 기본 씬 길이 (Veo 3.1 영상 길이 8초에 맞춤)
+export const DEFAULT_SCENE_SECONDS = 8;
+const DEFAULT_MIN_SCENE_SECONDS = 6;
+const DEFAULT_MAX_SCENE_SECONDS = 10;
+
+export const scenePlanOptionsSchema = z
+  .object({
+    sceneCount: z.number().int().min(1).max(MAX_SCENE_COUNT).optional(),
+    minSceneSeconds: z.number().min(MIN_SCENE_SECONDS).max(MAX_SCENE_SECONDS).optional(),
+    maxSceneSeconds: z.number().min(MIN_SCENE_SECONDS).max(MAX_SCENE_SECONDS).optional(),
+  })
+  .refine(
+    (options) =>
+      options.minSceneSeconds === undefined ||
+      options.maxSceneSeconds === undefined ||
+      options.minSceneSeconds <= options.maxSceneSeconds,
+    { message: "최소 씬 길이는 최대 씬 길이보다 클 수 없습니다.", path: ["minSceneSeconds"] }
+  );
+
+export type ScenePlanOptions = z.infer<typeof scenePlanOptionsSchema>;
+
+export interface ScenePlan {
+  duration: number; // 목표 영상 길이 (초)
+  sceneCount: number;
+  sceneSeconds: number; // 씬당 평균 길이 (초)
+  minSceneSeconds: number;
+  maxSceneSeconds: number;
+  language: ScriptLanguage;
+  maxScriptLength: number; // 씬당 대본 최대 길이 (언어별 단위: 글자 수 공백 제외 / 단어 수)
+}
+
+export class ScenePlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScenePlanError";
+  }
+}
+
+/**
+ * 씬 구성 계산
+ *
+ * - sceneCount 지정: 씬당 길이 = duration / sceneCount 가 범위 안인지 검증
+ * - 미지정: 기본 8초에 가장 가까운 씬 개수를 범위 안에서 선택
+ * - 대본 최대 길이는 언어별 발화 속도로 계산
+ *
+ * @throws ScenePlanError 조건을 만족하는 구성이 없을 때
+ */
+export function planScenes(
+  duration: number,
+  options: ScenePlanOptions = {},
+  language: ScriptLanguage = DEFAULT_SCRIPT_LANGUAGE
+): ScenePlan {
+  if (duration < MIN_VIDEO_DURATION || duration > MAX_VIDEO_DURATION) {
+    throw new ScenePlanError(
+      `영상 길이는 ${MIN_VIDEO_DURATION}초 ~ ${MAX_VIDEO_DURATION}초 사이여야 합니다.`
+    );
+  }
+
+  // 씬 개수를 직접 지정한 경우 범위 기본값을 넓게 적용
+  const minSceneSeconds =
+    options.minSceneSeconds ??
+    (options.sceneCount ? MIN_SCENE_SECONDS : DEFAULT_MIN_SCENE_SECONDS);
+  const maxSceneSeconds =
+    options.maxSceneSeconds ??
+    (options.sceneCount ? MAX_SCENE_SECONDS : DEFAULT_MAX_SCENE_SECONDS);
+
+  const minCount = Math.max(1, Math.ceil(duration / maxSceneSeconds));
+  const maxCount = Math.min(MAX_SCENE_COUNT, Math.floor(duration / minSceneSeconds));
+
+  if (minCount > maxCount) {
+    throw new ScenePlanError(
+      `${duration}초 영상을 씬당 ${minSceneSeconds}~${maxSceneSeconds}초로 나눌 수 없습니다. ` +
+        `씬 길이 범위를 조정해주세요.`
+    );
+  }
+
+  let sceneCount: number;
+
+  if (options.sceneCount) {
+    if (options.sceneCount < minCount || options.sceneCount > maxCount) {
+      throw new ScenePlanError(
+        `씬 ${options.sceneCount}개는 씬당 ${(duration / options.sceneCount).toFixed(1)}초입니다. ` +
+          `${duration}초 영상은 ${minCount}~${maxCount}개 씬으로 구성할 수 있습니다.`
+      );
+    }
+    sceneCount = options.sceneCount;
+  } else {
+    const preferredSeconds = Math.min(
+      Math.max(DEFAULT_SCENE_SECONDS, minSceneSeconds),
+      maxSceneSeconds
+    );
+    sceneCount = Math.min(
+      Math.max(Math.round(duration / preferredSeconds), minCount),
+      maxCount
+    );
+  }
+
+  const sceneSeconds = duration / sceneCount;
+
+  return {
+    duration,
+    sceneCount,
+    sceneSeconds,
+    minSceneSeconds,
+    maxSceneSeconds,
+    language,
+    maxScriptLength: getMaxScriptLength(sceneSeconds, language),
+  };
+}
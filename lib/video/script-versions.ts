@@ -0,0 +1,197 @@
+import "server-only";
+import { Prisma } from "@prisma/client";
+
+/**
+ * 대본 버전 (ScriptVersion)
+ *
+ * 스크립트 생성/편집/복원 직후의 씬 목록 전체를 스냅샷으로 남긴다.
+ * 최신 버전이 항상 현재 씬과 같으므로, 과거 버전 복원은 스냅샷을 현재 씬에 덮어쓰는 방식이다.
+ */
+
+export type ScriptVersionSource = "generated" | "edited" | "restored" | "translated";
+
+export interface ScriptVersionScene {
+  sceneId: string;
+  sceneNumber: number;
+  script: string;
+  duration: number;
+  visualDescription: string | null;
+  imagePrompt: string | null;
+  videoPrompt: string | null;
+}
+
+// diff 비교 대상 필드
+const DIFF_FIELDS = ["script", "duration", "visualDescription", "imagePrompt", "videoPrompt"] as const;
+type DiffField = (typeof DIFF_FIELDS)[number];
+
+export interface SceneDiff {
+  status: "added" | "removed" | "modified" | "unchanged";
+  sceneId: string;
+  fromSceneNumber: number | null;
+  toSceneNumber: number | null;
+  changes: Partial<Record<DiffField, { from: string | number | null; to: string | number | null }>>;
+  script?: string; // 추가/삭제된 씬의 대본
+}
+
+/**
+ * 현재 씬 목록을 새 버전으로 저장 (씬이 없거나 최신 버전과 내용이 같으면 건너뜀)
+ *
+ * 동시 편집이 같은 version 번호를 만들지 않도록 프로젝트 행을 잠근 뒤 번호를 정한다.
+ * 반드시 씬 변경과 같은 트랜잭션 안에서 호출한다.
+ */
+export async function snapshotScenes(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  options: {
+    source: ScriptVersionSource;
+    description?: string;
+    createdById?: string | null;
+  }
+): Promise<void> {
+  // 트랜잭션이 끝날 때까지 같은 프로젝트의 다른 스냅샷은 대기
+  await tx.$queryRaw`SELECT id FROM "projects" WHERE id = ${projectId} FOR UPDATE`;
+
+  const scenes = await tx.scene.findMany({
+    where: { projectId },
+    orderBy: { position: "asc" },
+    select: {
+      id: true,
+      sceneNumber: true,
+      script: true,
+      duration: true,
+      visualDescription: true,
+      imagePrompt: true,
+      videoPrompt: true,
+    },
+  });
+
+  if (scenes.length === 0) {
+    return;
+  }
+
+  const snapshot: ScriptVersionScene[] = scenes.map(({ id, ...scene }) => ({
+    sceneId: id,
+    ...scene,
+  }));
+
+  const latest = await tx.scriptVersion.findFirst({
+    where: { projectId },
+    orderBy: { version: "desc" },
+    select: { version: true, scenes: true },
+  });
+
+  if (latest && isSameSnapshot(parseVersionScenes(latest.scenes), snapshot)) {
+    return;
+  }
+
+  await tx.scriptVersion.create({
+    data: {
+      projectId,
+      version: (latest?.version ?? 0) + 1,
+      source: options.source,
+      description: options.description,
+      scenes: snapshot as unknown as Prisma.InputJsonValue,
+      createdById: options.createdById ?? null,
+    },
+  });
+}
+
+export function parseVersionScenes(scenes: Prisma.JsonValue): ScriptVersionScene[] {
+  return Array.isArray(scenes) ? (scenes as unknown as ScriptVersionScene[]) : [];
+}
+
+// jsonb는 키 순서를 보존하지 않으므로 필드 단위로 비교
+function isSameSnapshot(a: ScriptVersionScene[], b: ScriptVersionScene[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (scene, index) =>
+        scene.sceneId === b[index].sceneId &&
+        scene.sceneNumber === b[index].sceneNumber &&
+        DIFF_FIELDS.every((field) => scene[field] === b[index][field])
+    )
+  );
+}
+
+/**
+ * 두 버전의 씬 단위 비교
+ *
+ * 같은 씬(sceneId)끼리 먼저 짝짓고, 남은 씬은 씬 번호로 짝짓는다
+ * (스크립트를 다시 생성하면 씬 ID가 모두 바뀌므로). 결과는 to 버전 순서 기준.
+ */
+export function diffVersionScenes(
+  from: ScriptVersionScene[],
+  to: ScriptVersionScene[]
+): SceneDiff[] {
+  const pairs = new Map<ScriptVersionScene, ScriptVersionScene>();
+  const fromById = new Map(from.map((scene) => [scene.sceneId, scene]));
+
+  for (const scene of to) {
+    const matched = fromById.get(scene.sceneId);
+    if (matched) pairs.set(scene, matched);
+  }
+
+  const pairedFrom = new Set(pairs.values());
+  for (const scene of to) {
+    if (pairs.has(scene)) continue;
+    const matched = from.find(
+      (candidate) => !pairedFrom.has(candidate) && candidate.sceneNumber === scene.sceneNumber
+    );
+    if (matched) {
+      pairs.set(scene, matched);
+      pairedFrom.add(matched);
+    }
+  }
+
+  const diffs: SceneDiff[] = to.map((scene) => {
+    const previous = pairs.get(scene);
+
+    if (!previous) {
+      return {
+        status: "added",
+        sceneId: scene.sceneId,
+        fromSceneNumber: null,
+        toSceneNumber: scene.sceneNumber,
+        changes: {},
+        script: scene.script,
+      };
+    }
+
+    const changes: SceneDiff["changes"] = {};
+    for (const field of DIFF_FIELDS) {
+      if (previous[field] !== scene[field]) {
+        changes[field] = { from: previous[field], to: scene[field] };
+      }
+    }
+
+    return {
+      status:
+        Object.keys(changes).length > 0 || previous.sceneNumber !== scene.sceneNumber
+          ? "modified"
+          : "unchanged",
+      sceneId: scene.sceneId,
+      fromSceneNumber: previous.sceneNumber,
+      toSceneNumber: scene.sceneNumber,
+      changes,
+    };
+  });
+
+  // 삭제된 씬은 원래 번호 위치 근처에 끼워 넣음
+  for (const scene of from) {
+    if (pairedFrom.has(scene)) continue;
+    const index = diffs.findIndex(
+      (diff) => diff.fromSceneNumber !== null && diff.fromSceneNumber > scene.sceneNumber
+    );
+    const removed: SceneDiff = {
+      status: "removed",
+      sceneId: scene.sceneId,
+      fromSceneNumber: scene.sceneNumber,
+      toSceneNumber: null,
+      changes: {},
+      script: scene.script,
+    };
+    diffs.splice(index === -1 ? diffs.length : index, 0, removed);
+  }
+
+  return diffs;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { buildSubtitleCues, subtitleStyleSchema, toSrt, toVtt } from "./subtitles";
+
+describe("buildSubtitleCues", () => {
+  it("문장 단위로 나누고 글자 수에 비례해 시간을 배분한다", () => {
+    const cues = buildSubtitleCues("안녕하세요. 반갑습니다!", 6);
+
+    expect(cues.map((cue) => cue.text)).toEqual(["안녕하세요.", "반갑습니다!"]);
+    expect(cues[0]).toMatchObject({ start: 0, end: 3 });
+    expect(cues[1]).toMatchObject({ start: 3, end: 6 });
+  });
+
+  it("긴 문장은 공백 기준으로 최대 글자 수 안에서 나눈다", () => {
+    const cues = buildSubtitleCues("one two three four five six", 3, 10);
+
+    expect(cues.map((cue) => cue.text)).toEqual(["one two", "three four", "five six"]);
+    expect(cues.every((cue) => cue.text.length <= 10)).toBe(true);
+  });
+
+  it("띄어쓰기가 없는 긴 구간은 글자 수로 자른다", () => {
+    const cues = buildSubtitleCues("あいうえおかきくけこさしすせそ", 3, 5);
+
+    expect(cues.map((cue) => cue.text)).toEqual(["あいうえお", "かきくけこ", "さしすせそ"]);
+  });
+
+  it("마지막 큐는 오디오 길이에서 끝난다", () => {
+    const cues = buildSubtitleCues("하나. 둘. 셋.", 7.3);
+
+    expect(cues.at(-1)?.end).toBe(7.3);
+  });
+
+  it("빈 스크립트나 길이가 0이면 큐를 만들지 않는다", () => {
+    expect(buildSubtitleCues("   ", 5)).toEqual([]);
+    expect(buildSubtitleCues("안녕하세요.", 0)).toEqual([]);
+  });
+});
+
+describe("toSrt / toVtt", () => {
+  const cues = [
+    { start: 0, end: 1.5, text: "첫 줄" },
+    { start: 1.5, end: 3661.0004, text: "둘째 줄" },
+  ];
+
+  it("SRT는 번호와 쉼표 밀리초 구분자를 쓴다", () => {
+    expect(toSrt(cues)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,500\n첫 줄\n\n2\n00:00:01,500 --> 01:01:01,000\n둘째 줄\n"
+    );
+  });
+
+  it("WebVTT는 헤더와 마침표 밀리초 구분자를 쓴다", () => {
+    expect(toVtt(cues)).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.500\n첫 줄\n\n00:00:01.500 --> 01:01:01.000\n둘째 줄\n"
+    );
+  });
+});
+
+describe("subtitleStyleSchema", () => {
+  it.each(["Noto Sans CJK KR", "Nanum Gothic Bold"])("폰트 이름 %s를 허용한다", (fontName) => {
+    expect(subtitleStyleSchema.safeParse({ fontName }).success).toBe(true);
+  });
+
+  it.each(["A:B", "A'B", "A\\B", "A;B", "A[B]", "A=B", "A,B"])(
+    "FFmpeg 필터 구분자가 든 폰트 이름 %s는 거부한다",
+    (fontName) => {
+      expect(subtitleStyleSchema.safeParse({ fontName }).success).toBe(false);
+    }
+  );
+});
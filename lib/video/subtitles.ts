@@ -0,0 +1,168 @@
+import { z } from "zod";
+
+/**
+ * 씬 스크립트 기반 자막 생성 (SRT / WebVTT)
+ *
+ * - 사이드카 파일: ttsGenerator가 TTS 길이 측정 후 subtitle Asset으로 저장
+ * - 번인(burn-in): FFmpegService.buildSubtitleFilter로 합성 단계에서 영상에 삽입
+ */
+
+export interface SubtitleCue {
+  start: number; // 초
+  end: number; // 초
+  text: string;
+}
+
+export const SUBTITLE_FORMATS = ["srt", "vtt"] as const;
+export type SubtitleFormat = (typeof SUBTITLE_FORMATS)[number];
+
+export const SUBTITLE_POSITIONS = ["top", "middle", "bottom"] as const;
+export type SubtitlePosition = (typeof SUBTITLE_POSITIONS)[number];
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "#RRGGBB 형식이어야 합니다.");
+
+// force_style='…'로 FFmpeg 필터 그래프에 들어가므로 필터 구분자(:, ', \, ;, [, ], =, ,)는 허용하지 않음
+export const SUBTITLE_FONT_NAME_PATTERN = /^[^:'\\;[\]=,]+$/;
+
+export const subtitleStyleSchema = z.object({
+  fontName: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .regex(SUBTITLE_FONT_NAME_PATTERN, "폰트 이름에 사용할 수 없는 문자가 있습니다.")
+    .optional(),
+  fontSize: z.number().int().min(12).max(120).optional(), // 1080p 기준 px
+  position: z.enum(SUBTITLE_POSITIONS).optional(),
+  marginV: z.number().int().min(0).max(400).optional(), // 상/하단 여백 (px)
+  color: hexColor.optional(),
+  outlineColor: hexColor.optional(),
+  box: z.boolean().optional(), // 반투명 배경 박스 사용 여부
+  boxColor: hexColor.optional(),
+  boxOpacity: z.number().min(0).max(1).optional(),
+});
+
+export type SubtitleStyle = z.infer<typeof subtitleStyleSchema>;
+
+export const DEFAULT_SUBTITLE_STYLE: Required<SubtitleStyle> = {
+  fontName: "Noto Sans CJK KR", // 한글 글리프 포함 폰트
+  fontSize: 48,
+  position: "bottom",
+  marginV: 60,
+  color: "#FFFFFF",
+  outlineColor: "#000000",
+  box: true,
+  boxColor: "#000000",
+  boxOpacity: 0.5,
+};
+
+// 한 줄 자막 최대 글자 수 (한글 기준 가독성)
+const MAX_CHARS_PER_CUE = 28;
+
+/**
+ * 스크립트를 자막 단위로 분할
+ * 1) 문장 부호 기준 분리 2) 긴 문장은 공백 기준으로 다시 분리
+ * 3) 띄어쓰기가 없는 언어(일본어 등)의 긴 구간은 글자 수로 자름
+ */
+function splitScript(script: string, maxChars: number): string[] {
+  const sentences = (
+    script.replace(/\s+/g, " ").match(/[^.!?。！？]+[.!?。！？]*/g) ?? []
+  )
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+
+  for (const sentence of sentences) {
+    if (sentence.length <= maxChars) {
+      chunks.push(sentence);
+      continue;
+    }
+
+    const words = sentence
+      .split(" ")
+      .flatMap((word) => word.match(new RegExp(`.{1,${maxChars}}`, "gu")) ?? []);
+
+    let current = "";
+    for (const word of words) {
+      if (current && (current + " " + word).length > maxChars) {
+        chunks.push(current);
+        current = word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current) chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * 스크립트 + 오디오 길이로 자막 큐 생성
+ * 각 큐의 노출 시간은 글자 수에 비례해 배분
+ *
+ * @param script - Scene.script
+ * @param durationSeconds - 측정된 TTS 오디오 길이
+ */
+export function buildSubtitleCues(
+  script: string,
+  durationSeconds: number,
+  maxCharsPerCue = MAX_CHARS_PER_CUE
+): SubtitleCue[] {
+  const chunks = splitScript(script, maxCharsPerCue);
+  if (chunks.length === 0 || durationSeconds <= 0) return [];
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const cues: SubtitleCue[] = [];
+  let cursor = 0;
+
+  chunks.forEach((text, index) => {
+    const isLast = index === chunks.length - 1;
+    const end = isLast
+      ? durationSeconds
+      : cursor + (durationSeconds * text.length) / totalChars;
+
+    cues.push({ start: cursor, end, text });
+    cursor = end;
+  });
+
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * SubRip (.srt) 문자열 생성
+ */
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * WebVTT (.vtt) 문자열 생성
+ */
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
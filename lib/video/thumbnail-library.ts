@@ -0,0 +1,205 @@
+import "server-only";
+import { promises as fs } from "fs";
+import path from "path";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getProjectStorage } from "@/lib/storage";
+import type { FFmpegService } from "@/lib/services/ffmpeg";
+import {
+  POSTER_ASSET_KIND,
+  PREVIEW_ANIMATION,
+  PREVIEW_ANIMATION_ASSET_KIND,
+  SCENE_THUMBNAIL_ASSET_KIND,
+  SCENE_THUMBNAIL_WIDTH,
+  type PosterSelection,
+} from "@/lib/video/thumbnails";
+
+export interface ComposedSceneFile {
+  sceneNumber: number;
+  path: string; // 합성된 씬 영상 (로컬 임시 파일)
+}
+
+/**
+ * 씬 썸네일 생성 (videoRender 씬 합성 직후)
+ *
+ * 씬마다 대표 프레임을 골라 projects/{projectId}/thumbnails/scene_{sceneId}.jpg에 올리고
+ * scene_thumbnail Asset을 씬에 연결한다 (기존 썸네일 Asset은 교체).
+ */
+export async function createSceneThumbnails(
+  ffmpeg: FFmpegService,
+  projectId: string,
+  composedScenes: ComposedSceneFile[],
+  tempDir: string
+): Promise<Record<number, string>> {
+  const scenes = await prisma.scene.findMany({
+    where: { projectId, sceneNumber: { in: composedScenes.map((scene) => scene.sceneNumber) } },
+    select: { id: true, sceneNumber: true },
+  });
+  const storage = await getProjectStorage(projectId);
+  const thumbnailUrls: Record<number, string> = {};
+
+  for (const composed of composedScenes) {
+    const scene = scenes.find((s) => s.sceneNumber === composed.sceneNumber);
+    if (!scene) continue;
+
+    const thumbnailPath = path.join(tempDir, `thumbnail_${composed.sceneNumber}.jpg`);
+    await ffmpeg.executeCommand(
+      ffmpeg.buildFrameExtractCommand(composed.path, thumbnailPath, {
+        bestFrame: true,
+        width: SCENE_THUMBNAIL_WIDTH,
+      }),
+      `Scene ${composed.sceneNumber} thumbnail`
+    );
+
+    const { url, path: storagePath } = await storage.uploadFromBuffer(
+      await fs.readFile(thumbnailPath),
+      `projects/${projectId}/thumbnails/scene_${scene.id}.jpg`,
+      "image/jpeg"
+    );
+
+    await prisma.asset.deleteMany({
+      where: { sceneId: scene.id, kind: SCENE_THUMBNAIL_ASSET_KIND },
+    });
+    await prisma.asset.create({
+      data: {
+        projectId,
+        sceneId: scene.id,
+        kind: SCENE_THUMBNAIL_ASSET_KIND,
+        type: SCENE_THUMBNAIL_ASSET_KIND,
+        url,
+        storageProvider: storage.name,
+        storagePath,
+        metadata: { width: SCENE_THUMBNAIL_WIDTH },
+      },
+    });
+
+    thumbnailUrls[composed.sceneNumber] = url;
+  }
+
+  return thumbnailUrls;
+}
+
+/**
+ * 최종 영상 포스터 + 미리보기 애니메이션 생성 (videoRender 최종 Asset 생성 후)
+ *
+ * - 포스터: selection에 따라 본편 앞부분 자동 선택 / 지정 씬 대표 프레임 / 최종 영상 특정 시점
+ *   (지정한 씬이 없으면 자동 선택)
+ * - 미리보기: 본편(인트로 제외) 앞부분 몇 초
+ * 최종 영상 옆(final/{파일명}_poster.jpg, _preview.webp)에 올리고 최종 영상 metadata에 URL을 남긴다.
+ */
+export async function createPosterAndPreview(
+  ffmpeg: FFmpegService,
+  finalVideoAssetId: string,
+  sources: {
+    finalVideoPath: string; // 인코딩 완료된 최종 영상
+    mainVideoPath: string; // 브랜드 인트로/아웃트로 적용 전 본편
+    composedScenes: ComposedSceneFile[];
+  },
+  selection: PosterSelection,
+  tempDir: string
+): Promise<{ posterUrl: string; previewUrl: string }> {
+  const finalAsset = await prisma.asset.findUniqueOrThrow({
+    where: { id: finalVideoAssetId },
+  });
+  const mainDuration = await ffmpeg.getVideoDuration(sources.mainVideoPath);
+
+  // 1. 포스터 프레임 추출
+  const posterPath = path.join(tempDir, "poster.jpg");
+  const sceneFile =
+    selection.type === "scene"
+      ? sources.composedScenes.find((scene) => scene.sceneNumber === selection.sceneNumber)
+      : undefined;
+
+  if (sceneFile) {
+    await ffmpeg.executeCommand(
+      ffmpeg.buildFrameExtractCommand(sceneFile.path, posterPath, { bestFrame: true }),
+      "Poster (scene)"
+    );
+  } else if (selection.type === "timestamp") {
+    const finalDuration = await ffmpeg.getVideoDuration(sources.finalVideoPath);
+    await ffmpeg.executeCommand(
+      ffmpeg.buildFrameExtractCommand(sources.finalVideoPath, posterPath, {
+        seekSeconds: Math.max(0, Math.min(selection.seconds, finalDuration - 0.1)),
+      }),
+      "Poster (timestamp)"
+    );
+  } else {
+    await ffmpeg.executeCommand(
+      ffmpeg.buildFrameExtractCommand(sources.mainVideoPath, posterPath, {
+        seekSeconds: mainDuration * 0.1,
+        bestFrame: true,
+      }),
+      "Poster (auto)"
+    );
+  }
+
+  // 2. 미리보기 애니메이션 (본편이 짧으면 처음부터)
+  const previewPath = path.join(tempDir, "preview.webp");
+  const previewStart = Math.max(
+    0,
+    Math.min(mainDuration * 0.1, mainDuration - PREVIEW_ANIMATION.durationSeconds)
+  );
+  await ffmpeg.executeCommand(
+    ffmpeg.buildPreviewAnimationCommand(sources.mainVideoPath, previewPath, previewStart),
+    "Preview animation"
+  );
+
+  // 3. 업로드 + Asset 생성
+  const finalPath = path.posix.parse(finalAsset.storagePath);
+  const storage = await getProjectStorage(finalAsset.projectId);
+
+  const poster = await storage.uploadFromBuffer(
+    await fs.readFile(posterPath),
+    `${finalPath.dir}/${finalPath.name}_poster.jpg`,
+    "image/jpeg"
+  );
+  const preview = await storage.uploadFromBuffer(
+    await fs.readFile(previewPath),
+    `${finalPath.dir}/${finalPath.name}_preview.webp`,
+    "image/webp"
+  );
+
+  const posterAsset = await prisma.asset.create({
+    data: {
+      projectId: finalAsset.projectId,
+      kind: POSTER_ASSET_KIND,
+      type: POSTER_ASSET_KIND,
+      url: poster.url,
+      storageProvider: storage.name,
+      storagePath: poster.path,
+      metadata: {
+        sourceAssetId: finalAsset.id,
+        selection: sceneFile || selection.type === "timestamp" ? selection : { type: "auto" },
+      },
+    },
+  });
+  const previewAsset = await prisma.asset.create({
+    data: {
+      projectId: finalAsset.projectId,
+      kind: PREVIEW_ANIMATION_ASSET_KIND,
+      type: PREVIEW_ANIMATION_ASSET_KIND,
+      url: preview.url,
+      storageProvider: storage.name,
+      storagePath: preview.path,
+      metadata: {
+        sourceAssetId: finalAsset.id,
+        format: "webp",
+        startSeconds: previewStart,
+        ...PREVIEW_ANIMATION,
+      },
+    },
+  });
+
+  await prisma.asset.update({
+    where: { id: finalAsset.id },
+    data: {
+      metadata: {
+        ...((finalAsset.metadata as Prisma.JsonObject | null) ?? {}),
+        poster: { assetId: posterAsset.id, url: poster.url },
+        preview: { assetId: previewAsset.id, url: preview.url },
+      },
+    },
+  });
+
+  return { posterUrl: poster.url, previewUrl: preview.url };
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * 포스터 / 썸네일 / 미리보기 애니메이션
+ *
+ * - poster: 최종 영상 대표 이미지 (JPEG, 자동 선택 또는 지정한 씬/시점)
+ * - scene_thumbnail: 씬 합성 직후 씬 영상의 대표 프레임 (프로젝트 비율 렌더링만)
+ * - preview_animation: 최종 영상 본편 앞부분의 짧은 애니메이션 WebP (목록 hover 미리보기)
+ *
+ * 최종 영상 Asset metadata.poster / metadata.preview에 URL을 기록해 목록/플레이어가 바로 쓴다.
+ * videoRender(서버)와 프로젝트 목록/상세(클라이언트)가 함께 사용하므로 server-only 의존성을 두지 않는다.
+ */
+
+export const POSTER_ASSET_KIND = "poster";
+export const SCENE_THUMBNAIL_ASSET_KIND = "scene_thumbnail";
+export const PREVIEW_ANIMATION_ASSET_KIND = "preview_animation";
+
+export const SCENE_THUMBNAIL_WIDTH = 640;
+
+export const PREVIEW_ANIMATION = {
+  width: 480,
+  fps: 10,
+  durationSeconds: 3,
+};
+
+// 자동 선택 시 thumbnail 필터가 비교하는 프레임 수 (30fps 기준 약 4초)
+export const BEST_FRAME_BATCH = 120;
+
+export const posterSelectionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auto") }), // 본편 앞부분에서 가장 대표적인 프레임
+  z.object({ type: z.literal("scene"), sceneNumber: z.number().int().positive() }), // 해당 씬의 대표 프레임
+  z.object({ type: z.literal("timestamp"), seconds: z.number().min(0) }), // 최종 영상의 해당 시점
+]);
+
+export type PosterSelection = z.infer<typeof posterSelectionSchema>;
+
+export const DEFAULT_POSTER_SELECTION: PosterSelection = { type: "auto" };
+
+/**
+ * 최종 영상 Asset metadata에서 포스터/미리보기 URL 추출
+ */
+export function getPosterLinks(finalVideoMetadata: unknown): {
+  posterUrl: string | null;
+  previewUrl: string | null;
+} {
+  const metadata = finalVideoMetadata as {
+    poster?: { url?: string };
+    preview?: { url?: string };
+  } | null;
+
+  return {
+    posterUrl: metadata?.poster?.url ?? null,
+    previewUrl: metadata?.preview?.url ?? null,
+  };
+}
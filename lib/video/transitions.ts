@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+/**
+ * 씬 전환 모델
+ *
+ * Scene.metadata.transition = 이 씬에서 다음 씬으로 넘어갈 때의 전환 (마지막 씬은 무시)
+ * 지정하지 않으면 컷 전환.
+ *
+ * FFmpegService(서버)와 project-detail 편집 UI(클라이언트)가 함께 사용하므로
+ * server-only 의존성을 두지 않는다.
+ */
+
+export const SCENE_TRANSITION_TYPES = ["cut", "crossfade", "dip_to_black", "slide", "wipe"] as const;
+export const SCENE_TRANSITION_DIRECTIONS = ["left", "right", "up", "down"] as const;
+
+export type SceneTransitionType = (typeof SCENE_TRANSITION_TYPES)[number];
+export type SceneTransitionDirection = (typeof SCENE_TRANSITION_DIRECTIONS)[number];
+
+export const MIN_TRANSITION_SECONDS = 0.2;
+export const MAX_TRANSITION_SECONDS = 2;
+
+export const sceneTransitionSchema = z.object({
+  type: z.enum(SCENE_TRANSITION_TYPES),
+  duration: z.number().min(MIN_TRANSITION_SECONDS).max(MAX_TRANSITION_SECONDS).optional(),
+  direction: z.enum(SCENE_TRANSITION_DIRECTIONS).optional(), // slide, wipe 전용
+});
+
+export type SceneTransition = z.infer<typeof sceneTransitionSchema>;
+
+export const DEFAULT_SCENE_TRANSITION: Required<SceneTransition> = {
+  type: "cut",
+  duration: 0.5,
+  direction: "left",
+};
+
+export const SCENE_TRANSITION_LABELS: Record<SceneTransitionType, string> = {
+  cut: "컷 (즉시 전환)",
+  crossfade: "크로스페이드",
+  dip_to_black: "검은 화면 경유",
+  slide: "슬라이드",
+  wipe: "와이프",
+};
+
+export const SCENE_TRANSITION_DIRECTION_LABELS: Record<SceneTransitionDirection, string> = {
+  left: "왼쪽으로",
+  right: "오른쪽으로",
+  up: "위로",
+  down: "아래로",
+};
+
+/**
+ * 전환 유형 → FFmpeg xfade transition 이름 (cut은 xfade를 쓰지 않음)
+ */
+export function getXfadeTransitionName(transition: Required<SceneTransition>): string | null {
+  switch (transition.type) {
+    case "crossfade":
+      return "fade";
+    case "dip_to_black":
+      return "fadeblack";
+    case "slide":
+      return `slide${transition.direction}`;
+    case "wipe":
+      return `wipe${transition.direction}`;
+    case "cut":
+    default:
+      return null;
+  }
+}
+
+/**
+ * 씬 metadata에서 다음 씬으로의 전환 추출 (없거나 형식이 잘못되면 컷)
+ */
+export function resolveSceneTransition(sceneMetadata: unknown): Required<SceneTransition> {
+  const result = sceneTransitionSchema.safeParse(
+    (sceneMetadata as { transition?: unknown } | null)?.transition
+  );
+
+  return {
+    ...DEFAULT_SCENE_TRANSITION,
+    ...(result.success ? result.data : {}),
+  };
+}
@@ -8,9 +8,9 @@ export const config = {
     /*
      * NextAuth가 보호해야 할 경로만 매칭 (Edge Runtime 크기 최적화)
      * - /dashboard/* (인증 필요)
-     * - /api/* (NextAuth API와 Inngest 엔드포인트 제외)
+     * - /api/* (NextAuth API, Inngest 엔드포인트, 로컬 Storage 공개 파일 제외)
      */
     "/dashboard/:path*",
-    "/api/((?!auth|inngest).*)",
+    "/api/((?!auth|inngest|storage).*)",
   ],
 };
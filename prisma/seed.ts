@@ -54,6 +54,21 @@ async function main() {
   });
   console.log("✅ Editor user created:", editor.email);
 
+  // 조직 멤버십 (조직별 역할)
+  for (const [user, role] of [
+    [admin, "admin"],
+    [editor, "member"],
+  ] as const) {
+    await prisma.organizationMembership.upsert({
+      where: {
+        userId_organizationId: { userId: user.id, organizationId: testOrg.id },
+      },
+      update: {},
+      create: { userId: user.id, organizationId: testOrg.id, role },
+    });
+  }
+  console.log("✅ Organization memberships created");
+
   console.log("\n📋 Test Accounts:");
   console.log("  Admin:  admin@example.com / Admin123!@#");
   console.log("  Editor: editor@example.com / Editor123!@#\n");
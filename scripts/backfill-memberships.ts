@@ -0,0 +1,53 @@
+/**
+ * 조직 멤버십 백필 스크립트
+ *
+ * 멤버십 도입 전 사용자(User.organizationId / User.role만 있는 사용자)에게
+ * 현재 조직의 OrganizationMembership을 만든다. 여러 번 실행해도 안전하다.
+ * (로그인 시에도 자동으로 만들어지지만, 로그인 전 사용자도 구성원 목록에 보이려면 실행)
+ *
+ * 실행 방법:
+ * npm run db:backfill-memberships
+ */
+
+import { PrismaClient } from "@prisma/client";
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// .env.local 파일 로드
+dotenv.config({ path: path.join(__dirname, "../.env.local") });
+
+const prisma = new PrismaClient();
+
+async function backfillMemberships() {
+  console.log("🚀 조직 멤버십 백필 시작...\n");
+
+  const users = await prisma.user.findMany({
+    where: { memberships: { none: {} } },
+    select: { id: true, email: true, organizationId: true, role: true },
+  });
+
+  if (users.length === 0) {
+    console.log("✅ 백필할 사용자가 없습니다");
+    return;
+  }
+
+  const { count } = await prisma.organizationMembership.createMany({
+    data: users.map((user) => ({
+      userId: user.id,
+      organizationId: user.organizationId,
+      role: user.role,
+    })),
+    skipDuplicates: true,
+  });
+
+  console.log(`✅ ${count}명의 멤버십을 만들었습니다`);
+}
+
+backfillMemberships()
+  .catch((error) => {
+    console.error("❌ 백필 실패:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,54 @@
+/**
+ * 프로젝트 상위 조직 연결 백필 스크립트
+ *
+ * 조직 권한 상속 도입 전 프로젝트에 project:{id}#parent@organization:{orgId} 튜플을 만든다.
+ * 튜플이 없어도 권한 체크는 Project.organizationId로 대신하지만, 튜플 기준으로 데이터를 맞춰 둔다.
+ * 여러 번 실행해도 안전하다.
+ *
+ * 실행 방법:
+ * npm run db:backfill-project-parents
+ */
+
+import { PrismaClient } from "@prisma/client";
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+// .env.local 파일 로드
+dotenv.config({ path: path.join(__dirname, "../.env.local") });
+
+const prisma = new PrismaClient();
+
+async function backfillProjectParents() {
+  console.log("🚀 프로젝트 상위 조직 연결 백필 시작...\n");
+
+  const projects = await prisma.project.findMany({
+    select: { id: true, organizationId: true },
+  });
+
+  if (projects.length === 0) {
+    console.log("✅ 백필할 프로젝트가 없습니다");
+    return;
+  }
+
+  const { count } = await prisma.relationTuple.createMany({
+    data: projects.map((project) => ({
+      namespace: "project",
+      objectId: project.id,
+      relation: "parent",
+      subjectType: "organization",
+      subjectId: project.organizationId,
+    })),
+    skipDuplicates: true,
+  });
+
+  console.log(`✅ ${count}개 프로젝트를 상위 조직에 연결했습니다`);
+}
+
+backfillProjectParents()
+  .catch((error) => {
+    console.error("❌ 백필 실패:", error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
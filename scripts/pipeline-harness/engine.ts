@@ -0,0 +1,289 @@
+import type { InngestFunction } from "inngest";
+
+/**
+ * 인프로세스 Inngest 실행기 (파이프라인 하네스 전용)
+ *
+ * Inngest Dev Server 없이 함수 핸들러를 직접 호출한다.
+ * - step.run: 결과를 JSON 직렬화 후 반환 (실제 Inngest와 같은 타입 변환), 재시도 시 메모이즈
+ * - step.sendEvent: 트리거 이벤트가 맞는 함수를 비동기로 실행
+ * - step.sleep: 즉시 통과 (호출 횟수만 기록)
+ * - step.waitForEvent: 매칭 이벤트가 오면 반환, 실행 중인 함수가 없어 더 이상 이벤트가 올 수 없으면 null (타임아웃)
+ * - retries: 함수 옵션의 retries만큼 재실행, 모두 실패하면 onFailure 호출
+ */
+
+export interface HarnessEvent {
+  name: string;
+  data: Record<string, unknown>;
+}
+
+export interface FunctionRun {
+  functionId: string;
+  event: HarnessEvent;
+  status: "running" | "completed" | "failed";
+  attempts: number;
+  sleeps: number;
+  output?: unknown;
+  error?: string;
+}
+
+interface WaitOptions {
+  event: string;
+  timeout: string;
+  match?: string;
+}
+
+interface StepTools {
+  run<T>(id: string, fn: () => Promise<T> | T): Promise<T>;
+  sendEvent(id: string, payload: HarnessEvent | HarnessEvent[]): Promise<void>;
+  sleep(id: string, duration: string): Promise<void>;
+  waitForEvent(id: string, options: WaitOptions): Promise<HarnessEvent | null>;
+}
+
+type Handler = (ctx: {
+  event: HarnessEvent;
+  step: StepTools;
+  attempt: number;
+  runId: string;
+  error?: Error;
+}) => Promise<unknown>;
+
+interface RegisteredFunction {
+  id: string;
+  triggers: string[];
+  retries: number;
+  handler: Handler;
+  onFailure?: Handler;
+}
+
+interface Waiter {
+  eventName: string;
+  matchPath?: string;
+  matchValue?: unknown;
+  resolve: (event: HarnessEvent | null) => void;
+}
+
+// Inngest 기본 재시도 횟수
+const DEFAULT_RETRIES = 3;
+
+// 무한 폴링 방지 (정상 시나리오는 수백 건 이하)
+const MAX_RUNS = 2000;
+
+function getPath(value: unknown, dottedPath: string): unknown {
+  return dottedPath
+    .split(".")
+    .reduce<unknown>((current, key) => (current as Record<string, unknown> | undefined)?.[key], value);
+}
+
+function serialize<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T);
+}
+
+export class PipelineEngine {
+  readonly runs: FunctionRun[] = [];
+  readonly events: HarnessEvent[] = [];
+
+  private readonly functions: RegisteredFunction[];
+  private waiters: Waiter[] = [];
+  private active = 0;
+  private idleCallbacks: Array<() => void> = [];
+  private fatalError: Error | null = null;
+
+  constructor(functions: InngestFunction.Any[]) {
+    this.functions = functions.map((fn) => {
+      const opts = fn.opts as {
+        id: string;
+        retries?: number;
+        triggers?: Array<{ event?: string }>;
+        onFailure?: Handler;
+      };
+
+      return {
+        id: opts.id,
+        triggers: (opts.triggers ?? []).flatMap((trigger) => (trigger.event ? [trigger.event] : [])),
+        retries: opts.retries ?? DEFAULT_RETRIES,
+        handler: fn["fn"] as Handler,
+        onFailure: opts.onFailure,
+      };
+    });
+  }
+
+  /**
+   * 이벤트 발행 (대기 중인 waitForEvent 매칭 + 트리거 함수 실행 예약)
+   */
+  send(event: HarnessEvent): void {
+    const payload = serialize(event);
+    this.events.push(payload);
+
+    const matched = this.waiters.filter(
+      (waiter) =>
+        waiter.eventName === payload.name &&
+        (!waiter.matchPath || getPath(payload, waiter.matchPath) === waiter.matchValue)
+    );
+    this.waiters = this.waiters.filter((waiter) => !matched.includes(waiter));
+    for (const waiter of matched) {
+      this.active++;
+      waiter.resolve(payload);
+    }
+
+    for (const fn of this.functions) {
+      if (fn.triggers.includes(payload.name)) {
+        this.active++;
+        setImmediate(() => {
+          void this.execute(fn, payload);
+        });
+      }
+    }
+  }
+
+  /**
+   * 모든 함수 실행과 대기가 끝날 때까지 기다림
+   */
+  async drain(): Promise<void> {
+    if (this.active === 0 && this.waiters.length === 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => this.idleCallbacks.push(resolve));
+
+    if (this.fatalError) {
+      throw this.fatalError;
+    }
+  }
+
+  runsOf(functionId: string): FunctionRun[] {
+    return this.runs.filter((run) => run.functionId === functionId);
+  }
+
+  private async execute(fn: RegisteredFunction, event: HarnessEvent): Promise<void> {
+    const run: FunctionRun = {
+      functionId: fn.id,
+      event,
+      status: "running",
+      attempts: 0,
+      sleeps: 0,
+    };
+    this.runs.push(run);
+
+    if (this.runs.length > MAX_RUNS) {
+      this.fatalError = new Error(`Run limit exceeded (${MAX_RUNS}) - possible polling loop`);
+      this.finishActive();
+      return;
+    }
+
+    const runId = `run_${this.runs.length}`;
+    const memo = new Map<string, unknown>();
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= fn.retries; attempt++) {
+      run.attempts = attempt + 1;
+      try {
+        run.output = await fn.handler({
+          event,
+          step: this.createStepTools(run, event, memo),
+          attempt,
+          runId,
+        });
+        run.status = "completed";
+        this.finishActive();
+        return;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    run.status = "failed";
+    run.error = lastError?.message;
+
+    if (fn.onFailure) {
+      try {
+        await fn.onFailure({
+          event: { name: "inngest/function.failed", data: { event, error: run.error } },
+          error: lastError ?? undefined,
+          step: this.createStepTools(run, event, new Map()),
+          attempt: 0,
+          runId,
+        });
+      } catch (error) {
+        console.error(`onFailure handler of ${fn.id} threw:`, error);
+      }
+    }
+
+    this.finishActive();
+  }
+
+  private createStepTools(run: FunctionRun, event: HarnessEvent, memo: Map<string, unknown>): StepTools {
+    // 같은 실행 안에서 반복되는 step ID는 Inngest처럼 ":n" 접미사로 구분
+    const seen = new Map<string, number>();
+    const key = (id: string) => {
+      const count = seen.get(id) ?? 0;
+      seen.set(id, count + 1);
+      return count === 0 ? id : `${id}:${count}`;
+    };
+
+    const memoized = async <T>(id: string, fn: () => Promise<T>): Promise<T> => {
+      const stepKey = key(id);
+      if (memo.has(stepKey)) {
+        return memo.get(stepKey) as T;
+      }
+      const result = await fn();
+      memo.set(stepKey, result);
+      return result;
+    };
+
+    return {
+      run: (id, fn) => memoized(id, async () => serialize(await fn())),
+
+      sendEvent: (id, payload) =>
+        memoized(id, async () => {
+          for (const item of Array.isArray(payload) ? payload : [payload]) {
+            this.send(item);
+          }
+        }),
+
+      sleep: (id) =>
+        memoized(id, async () => {
+          run.sleeps++;
+        }),
+
+      waitForEvent: (id, options) =>
+        memoized(id, () => {
+          const matchPath = options.match;
+          return new Promise<HarnessEvent | null>((resolve) => {
+            this.waiters.push({
+              eventName: options.event,
+              matchPath,
+              matchValue: matchPath ? getPath(event, matchPath) : undefined,
+              resolve: (matched) => resolve(matched),
+            });
+            // 대기 중에는 활성 실행으로 세지 않음 (다른 함수가 모두 끝나면 타임아웃 처리)
+            this.finishActive();
+          });
+        }),
+    };
+  }
+
+  /**
+   * 실행 하나가 끝나거나 대기에 들어감 → 유휴 상태면 가장 오래된 대기를 타임아웃 처리
+   */
+  private finishActive(): void {
+    this.active--;
+
+    // 같은 tick에 예약된 후속 작업(sendEvent → setImmediate)이 먼저 잡히도록 한 번 미룸
+    setImmediate(() => {
+      if (this.active > 0) {
+        return;
+      }
+
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        this.active++;
+        waiter.resolve(null);
+        return;
+      }
+
+      for (const callback of this.idleCallbacks.splice(0)) {
+        callback();
+      }
+    });
+  }
+}
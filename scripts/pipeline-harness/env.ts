@@ -0,0 +1,12 @@
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+/**
+ * 하네스 환경 변수 (다른 모듈보다 먼저 import → lib/prisma가 DATABASE_URL을 읽기 전에 로드)
+ */
+
+dotenv.config({ path: path.join(__dirname, "../../.env.local") });
+
+// 하네스는 조직별 Provider 선택(Organization.settings.providers)으로 시나리오를 구성하므로
+// 전체를 mock으로 고정하는 전역 설정은 끈다
+delete process.env.MEDIA_PROVIDERS;
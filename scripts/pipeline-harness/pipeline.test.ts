@@ -0,0 +1,368 @@
+/**
+ * 오프라인 파이프라인 하네스
+ *
+ * Inngest 함수(sceneProcessor → tts/avatar/background/veo → videoRender)를 로컬 Postgres,
+ * 로컬 디스크 Storage 드라이버, mock/stub Provider로 끝까지 실행하고 Scene / RenderJob / Project 상태 전이를 검증한다.
+ * 외부 API와 Supabase에는 접속하지 않는다.
+ *
+ * 준비:
+ *   1. 로컬 Postgres + 스키마 반영: DATABASE_URL=postgresql://localhost/... npx prisma db push
+ *   2. FFmpeg 설치 (mock Provider와 videoRender가 사용)
+ *
+ * 실행 방법 (vitest):
+ *   npm run pipeline:harness              # 전체 시나리오
+ *   npm run pipeline:harness -- -t veo    # 이름에 "veo"가 들어간 시나리오만
+ *
+ * 시나리오마다 임시 조직을 만들고 끝나면 삭제한다 (조직 삭제 시 사용자/프로젝트/씬/자산 cascade).
+ * 로컬 Postgres(DATABASE_URL)나 FFmpeg가 없으면 건너뛴다 (npm run test에서도 함께 실행).
+ * 원격 DB 보호: DATABASE_URL 호스트가 로컬이 아니면 PIPELINE_HARNESS_ALLOW_REMOTE_DB=1 없이는 실행하지 않음.
+ */
+
+import "./env";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { prisma } from "@/lib/prisma";
+import { deleteOrganizationTuples } from "@/lib/permissions";
+// functions/index.ts는 Google 자격증명이 필요한 projectTranslator까지 불러오므로 파일별로 import
+import { sceneProcessor } from "@/lib/inngest/functions/sceneProcessor";
+import { ttsGenerator } from "@/lib/inngest/functions/ttsGenerator";
+import { avatarGenerator } from "@/lib/inngest/functions/avatarGenerator";
+import { avatarPolling } from "@/lib/inngest/functions/avatarPolling";
+import { backgroundGenerator } from "@/lib/inngest/functions/backgroundGenerator";
+import { veoVideoGenerator } from "@/lib/inngest/functions/veoVideoGenerator";
+import { veoVideoPolling } from "@/lib/inngest/functions/veoVideoPolling";
+import { videoRender } from "@/lib/inngest/functions/videoRender";
+import { registerProvider, type ProviderSelection } from "@/lib/providers";
+import { FFmpegService } from "@/lib/services/ffmpeg";
+import { getStorage } from "@/lib/storage";
+import { PipelineEngine } from "./engine";
+import { startHarnessStorage, stopHarnessStorage } from "./storage-server";
+import {
+  failingVideoProvider,
+  flakyTTSProvider,
+  stalledAvatarProvider,
+  stalledVideoProvider,
+} from "./providers";
+
+const MOCK_PROVIDERS: ProviderSelection = {
+  tts: "mock",
+  avatar: "mock",
+  image: "mock",
+  video: "mock",
+};
+
+type Priority = "high" | "medium" | "low";
+
+interface Fixture {
+  organizationId: string;
+  userId: string;
+  projectId: string;
+  sceneIds: string[];
+}
+
+interface ScenarioContext {
+  engine: PipelineEngine;
+  fixture: Fixture;
+}
+
+interface Scenario {
+  name: string;
+  description: string;
+  providers: Partial<ProviderSelection>;
+  scenes: Priority[];
+  run: (ctx: ScenarioContext) => Promise<void>;
+}
+
+// 외부 API 없이 수백 번의 폴링과 FFmpeg 렌더링을 돌리므로 시나리오당 제한 시간을 넉넉히
+const SCENARIO_TIMEOUT_MS = 120_000;
+
+// 모든 시나리오가 같은 대본을 사용 (mock TTS 길이 ≈ 대본 길이 / 발화 속도)
+const SCENE_SCRIPT = "오프라인 파이프라인 하네스 검증용 대본입니다. 외부 서비스 없이 끝까지 처리되어야 합니다.";
+
+function isLocalDatabase(url: string | undefined): boolean {
+  if (!url) return false;
+  try {
+    return ["localhost", "127.0.0.1", "::1", "[::1]"].includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+async function createFixture(scenario: Scenario): Promise<Fixture> {
+  const slug = `pipeline-harness-${scenario.name}-${Date.now()}`;
+
+  const organization = await prisma.organization.create({
+    data: {
+      name: `Pipeline harness (${scenario.name})`,
+      slug,
+      settings: { providers: { ...MOCK_PROVIDERS, ...scenario.providers } },
+    },
+  });
+
+  const user = await prisma.user.create({
+    data: {
+      email: `${slug}@pipeline-harness.local`,
+      name: "Pipeline Harness",
+      organizationId: organization.id,
+    },
+  });
+
+  const project = await prisma.project.create({
+    data: {
+      title: `Pipeline harness: ${scenario.name}`,
+      status: "script_generated",
+      organizationId: organization.id,
+      createdById: user.id,
+      settings: { language: "ko", backgroundQuality: "high" },
+      scenes: {
+        create: scenario.scenes.map((priority, index) => ({
+          sceneNumber: index + 1,
+          position: index,
+          script: SCENE_SCRIPT,
+          duration: 8,
+          visualDescription: "Bright modern office",
+          imagePrompt: "Bright modern office, wide shot",
+          videoPrompt: "Slow camera push-in",
+          backgroundAnalysis: { priority },
+        })),
+      },
+    },
+    include: { scenes: { orderBy: { position: "asc" } } },
+  });
+
+  return {
+    organizationId: organization.id,
+    userId: user.id,
+    projectId: project.id,
+    sceneIds: project.scenes.map((scene) => scene.id),
+  };
+}
+
+/**
+ * 첫 씬부터 sceneProcessor 체인 실행 (generate-scenes 라우트와 같은 이벤트)
+ */
+async function processScenes(engine: PipelineEngine, fixture: Fixture): Promise<void> {
+  engine.send({
+    name: "scene/process.requested",
+    data: {
+      projectId: fixture.projectId,
+      sceneId: fixture.sceneIds[0],
+      userId: fixture.userId,
+    },
+  });
+  await engine.drain();
+}
+
+async function loadScenes(projectId: string) {
+  return prisma.scene.findMany({
+    where: { projectId },
+    orderBy: { position: "asc" },
+    include: {
+      audioAsset: true,
+      avatarAsset: true,
+      backgroundAsset: true,
+      assets: { where: { kind: "subtitle" } },
+    },
+  });
+}
+
+async function loadRenderJobs(projectId: string, provider: string) {
+  return prisma.renderJob.findMany({ where: { projectId, provider } });
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: "happy-path",
+    description: "mock Provider로 이미지 배경 씬 + 영상 배경 씬 처리 후 최종 렌더링",
+    providers: {},
+    scenes: ["medium", "high"],
+    async run({ engine, fixture }) {
+      await processScenes(engine, fixture);
+
+      const scenes = await loadScenes(fixture.projectId);
+      for (const scene of scenes) {
+        const label = `scene ${scene.sceneNumber}`;
+        expect(scene.ttsStatus, `${label} ttsStatus`).toBe("completed");
+        expect(scene.avatarStatus, `${label} avatarStatus`).toBe("completed");
+        expect(scene.backgroundStatus, `${label} backgroundStatus`).toBe("completed");
+        expect(scene.audioAssetId, `${label} audioAssetId`).not.toBeNull();
+        expect(scene.avatarAssetId, `${label} avatarAssetId`).not.toBeNull();
+        expect(scene.durationSeconds ?? 0, `${label} durationSeconds measured`).toBeGreaterThan(0);
+        expect(scene.assets, `${label} subtitle assets`).toHaveLength(2);
+      }
+      expect(scenes[0]?.backgroundAsset?.kind, "scene 1 background kind").toBe("background_image");
+      expect(scenes[1]?.backgroundAsset?.kind, "scene 2 background kind").toBe("background_video");
+
+      const avatarJobs = await loadRenderJobs(fixture.projectId, "mock");
+      expect(
+        avatarJobs.map((job) => job.status),
+        "avatar/video RenderJobs completed"
+      ).toEqual(["completed", "completed", "completed"]);
+
+      const project = await prisma.project.findUniqueOrThrow({ where: { id: fixture.projectId } });
+      expect(project.status, "project status after processing").toBe("scenes_processed");
+
+      // 최종 렌더링 (videoRender 이벤트의 sceneData 형식)
+      engine.send({
+        name: "video/render.requested",
+        data: {
+          projectId: fixture.projectId,
+          burnSubtitles: true,
+          sceneData: scenes.map((scene) => ({
+            sceneNumber: scene.sceneNumber,
+            duration: scene.durationSeconds ?? scene.duration,
+            audioUrl: scene.audioAsset?.url ?? "",
+            avatarUrl: scene.avatarAsset?.url ?? "",
+            backgroundUrl: scene.backgroundAsset?.url ?? "",
+            backgroundType: scene.backgroundAsset?.kind ?? "gradient",
+          })),
+        },
+      });
+      await engine.drain();
+
+      const rendered = await prisma.project.findUniqueOrThrow({ where: { id: fixture.projectId } });
+      expect(rendered.status, "project status after render").toBe("rendered");
+      const finalAsset = rendered.finalVideoAssetId
+        ? await prisma.asset.findUnique({ where: { id: rendered.finalVideoAssetId } })
+        : null;
+      expect(finalAsset?.kind, "final video asset kind").toBe("final_video");
+      expect(finalAsset?.storageProvider, "final video storage driver").toBe("local");
+
+      const finalFiles = await getStorage("local").listFiles(`projects/${fixture.projectId}/final`);
+      expect(finalFiles, "final video stored").toHaveLength(1);
+    },
+  },
+  {
+    name: "tts-retry",
+    description: "TTS가 한 번 실패해도 Inngest 재시도로 완료",
+    providers: { tts: flakyTTSProvider.name },
+    scenes: ["medium"],
+    async run({ engine, fixture }) {
+      await processScenes(engine, fixture);
+
+      const [ttsRun] = engine.runsOf("tts-generator");
+      expect(ttsRun?.status, "tts-generator status").toBe("completed");
+      expect(ttsRun?.attempts, "tts-generator attempts").toBe(2);
+
+      const [scene] = await loadScenes(fixture.projectId);
+      expect(scene?.ttsStatus, "ttsStatus").toBe("completed");
+      expect(scene?.avatarStatus, "avatarStatus").toBe("completed");
+    },
+  },
+  {
+    name: "avatar-timeout",
+    description: "아바타 작업이 끝나지 않으면 maxAttempts 후 실패 처리, 배경 처리는 계속",
+    providers: { avatar: stalledAvatarProvider.name },
+    scenes: ["medium"],
+    async run({ engine, fixture }) {
+      await processScenes(engine, fixture);
+
+      const pollingRuns = engine.runsOf("avatar-polling");
+      expect(pollingRuns, "avatar-polling runs").toHaveLength(20);
+      expect(pollingRuns[pollingRuns.length - 1]?.error, "last avatar-polling run error").toContain(
+        "timeout"
+      );
+
+      const [scene] = await loadScenes(fixture.projectId);
+      expect(scene?.avatarStatus, "avatarStatus").toBe("failed");
+      expect(scene?.avatarAssetId, "avatarAssetId").toBeNull();
+      expect(scene?.backgroundStatus, "backgroundStatus").toBe("completed");
+
+      const [job] = await loadRenderJobs(fixture.projectId, stalledAvatarProvider.name);
+      expect(job, "avatar RenderJob").toBeDefined();
+      expect(job?.status, "avatar RenderJob status").not.toBe("completed");
+
+      // 아바타가 없는 씬이 남으면 렌더링 가능 상태가 아니라 실패로 표시
+      const project = await prisma.project.findUniqueOrThrow({ where: { id: fixture.projectId } });
+      expect(project.status, "project status").toBe("failed");
+    },
+  },
+  {
+    name: "veo-fallback",
+    description: "영상 생성이 실패하면 이미지 배경으로 대체",
+    providers: { video: failingVideoProvider.name },
+    scenes: ["high"],
+    async run({ engine, fixture }) {
+      await processScenes(engine, fixture);
+
+      const [scene] = await loadScenes(fixture.projectId);
+      expect(scene?.backgroundStatus, "backgroundStatus").toBe("completed");
+      expect(scene?.backgroundAsset?.kind, "background kind").toBe("background_image");
+
+      const [job] = await loadRenderJobs(fixture.projectId, failingVideoProvider.name);
+      expect(job?.status, "video RenderJob status").toBe("failed");
+      expect(job?.errorMessage, "video RenderJob error recorded").toBeTruthy();
+    },
+  },
+  {
+    name: "veo-timeout",
+    description: "영상 작업이 끝나지 않으면 maxAttempts 후 배경 실패 처리",
+    providers: { video: stalledVideoProvider.name },
+    scenes: ["high"],
+    async run({ engine, fixture }) {
+      await processScenes(engine, fixture);
+
+      expect(engine.runsOf("veo-video-polling"), "veo-video-polling runs").toHaveLength(120);
+
+      const [scene] = await loadScenes(fixture.projectId);
+      expect(scene?.backgroundStatus, "backgroundStatus").toBe("failed");
+      expect(scene?.avatarStatus, "avatarStatus").toBe("completed");
+
+      const [job] = await loadRenderJobs(fixture.projectId, stalledVideoProvider.name);
+      expect(job?.status, "video RenderJob status").toBe("failed");
+      expect(job?.errorMessage, "video RenderJob timeout message").toContain("Polling timeout");
+    },
+  },
+];
+
+// 시나리오에서 의도적으로 실패시키는 함수 (그 외 함수 실패는 시나리오 실패로 처리)
+const EXPECTED_FAILURE_FUNCTIONS = ["avatar-polling", "veo-video-polling"];
+
+async function runScenario(scenario: Scenario): Promise<void> {
+  const fixture = await createFixture(scenario);
+  const engine = new PipelineEngine([
+    sceneProcessor,
+    ttsGenerator,
+    avatarGenerator,
+    avatarPolling,
+    backgroundGenerator,
+    veoVideoGenerator,
+    veoVideoPolling,
+    videoRender,
+  ]);
+
+  try {
+    await scenario.run({ engine, fixture });
+
+    const unexpectedFailures = engine.runs
+      .filter((run) => run.status === "failed" && !EXPECTED_FAILURE_FUNCTIONS.includes(run.functionId))
+      .map((run) => `${run.functionId}: ${run.error}`);
+    expect(unexpectedFailures, "unexpected function failures").toEqual([]);
+  } finally {
+    await deleteOrganizationTuples(fixture.organizationId);
+    await prisma.organization.delete({ where: { id: fixture.organizationId } });
+  }
+}
+
+const databaseAllowed =
+  isLocalDatabase(process.env.DATABASE_URL) || process.env.PIPELINE_HARNESS_ALLOW_REMOTE_DB === "1";
+const ffmpegAvailable = databaseAllowed && (await FFmpegService.isFFmpegAvailable());
+
+describe.skipIf(!databaseAllowed || !ffmpegAvailable)("pipeline harness", () => {
+  beforeAll(async () => {
+    registerProvider("tts", flakyTTSProvider);
+    registerProvider("avatar", stalledAvatarProvider);
+    registerProvider("video", failingVideoProvider);
+    registerProvider("video", stalledVideoProvider);
+
+    await startHarnessStorage();
+  });
+
+  afterAll(async () => {
+    await stopHarnessStorage();
+    await prisma.$disconnect();
+  });
+
+  for (const scenario of SCENARIOS) {
+    it(`${scenario.name}: ${scenario.description}`, () => runScenario(scenario), SCENARIO_TIMEOUT_MS);
+  }
+});
@@ -0,0 +1,79 @@
+import { mockTTSProvider } from "@/lib/providers/mock";
+import type { AvatarProvider, TTSProvider, VideoProvider } from "@/lib/providers";
+
+/**
+ * 실패/지연 시나리오용 Provider (registerProvider로 등록 후 Organization.settings.providers로 선택)
+ */
+
+const failedOnce = new Set<string>();
+
+// 씬마다 첫 호출은 실패 → Inngest 재시도 후 mock 결과
+export const flakyTTSProvider: TTSProvider = {
+  ...mockTTSProvider,
+  name: "harness_flaky",
+
+  async synthesize(request) {
+    if (!failedOnce.has(request.text)) {
+      failedOnce.add(request.text);
+      throw new Error("Harness: transient TTS failure");
+    }
+    return mockTTSProvider.synthesize(request);
+  },
+};
+
+// 작업이 끝나지 않음 → avatarPolling maxAttempts 초과
+export const stalledAvatarProvider: AvatarProvider = {
+  name: "harness_stalled",
+
+  getPresetAvatarUrl() {
+    return "mock://avatar/preset.png";
+  },
+
+  async createJob() {
+    return `harness_stalled_${Date.now()}`;
+  },
+
+  async getJobStatus() {
+    return { status: "processing" };
+  },
+
+  async downloadResult() {
+    throw new Error("Harness: stalled avatar job has no result");
+  },
+};
+
+// 영상 생성이 즉시 실패 → 이미지 배경 fallback
+export const failingVideoProvider: VideoProvider = {
+  name: "harness_failing",
+  model: "harness",
+
+  async createJob() {
+    return `harness_failing_${Date.now()}`;
+  },
+
+  async getJobStatus() {
+    return { done: true, error: "Harness: video generation rejected" };
+  },
+
+  async downloadResult() {
+    throw new Error("Harness: failed video job has no result");
+  },
+};
+
+// 영상 작업이 끝나지 않음 → veoVideoPolling maxAttempts 초과
+export const stalledVideoProvider: VideoProvider = {
+  name: "harness_stalled",
+  model: "harness",
+
+  async createJob() {
+    return `harness_stalled_${Date.now()}`;
+  },
+
+  async getJobStatus() {
+    return { done: false };
+  },
+
+  async downloadResult() {
+    throw new Error("Harness: stalled video job has no result");
+  },
+};
@@ -0,0 +1,58 @@
+import { createServer, type Server } from "http";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { getContentType, readLocalFile } from "@/lib/storage/local";
+
+/**
+ * 하네스 Storage (로컬 디스크 드라이버 + 임시 디렉토리)
+ *
+ * Next 서버 없이 실행하므로 /api/storage 라우트 대신 127.0.0.1 임의 포트 HTTP 서버로 파일을 제공한다
+ * → mock 아바타, videoRender 등 공개 URL을 fetch하는 코드가 그대로 동작.
+ * 드라이버 환경변수는 호출 시점에 읽으므로 함수 실행 전에만 설정하면 된다.
+ */
+
+let server: Server | null = null;
+let rootDir: string | null = null;
+
+export async function startHarnessStorage(): Promise<{ rootDir: string; baseUrl: string }> {
+  rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "pipeline-harness-storage-"));
+
+  server = createServer(async (request, response) => {
+    const storagePath = decodeURIComponent(new URL(request.url ?? "/", "http://localhost").pathname.slice(1));
+    const data = await readLocalFile(storagePath);
+    if (!data) {
+      response.writeHead(404);
+      response.end();
+      return;
+    }
+
+    response.writeHead(200, {
+      "Content-Type": getContentType(storagePath),
+      "Content-Length": data.length,
+    });
+    response.end(data);
+  });
+
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+  const address = server.address();
+  if (!address || typeof address === "string") {
+    throw new Error("Failed to start harness storage server");
+  }
+  const baseUrl = `http://127.0.0.1:${address.port}`;
+
+  process.env.STORAGE_DRIVER = "local";
+  process.env.LOCAL_STORAGE_DIR = rootDir;
+  process.env.LOCAL_STORAGE_PUBLIC_URL = baseUrl;
+
+  return { rootDir, baseUrl };
+}
+
+export async function stopHarnessStorage(): Promise<void> {
+  await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+  if (rootDir) {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  }
+  server = null;
+  rootDir = null;
+}
@@ -57,6 +57,12 @@ async function setupStorage() {
       fileSizeLimit: 10485760, // 10MB
       allowedMimeTypes: [
         "application/pdf",
+        "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "text/markdown",
+        "text/plain",
+        "text/vtt",
+        "application/x-subrip",
         "image/png",
         "image/jpeg",
         "image/webp",